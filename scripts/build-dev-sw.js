@@ -25,6 +25,10 @@ async function buildDevServiceWorker() {
       bundle: true,
       outfile: outputFile,
       format: 'iife', // IIFE format for Service Worker
+      alias: {
+        // Same path alias as vite.config.ts for modules shared with the app
+        '@': join(__dirname, '../src')
+      },
       target: 'es2020',
       platform: 'browser', // Use 'browser' instead of 'webworker'
       define: {
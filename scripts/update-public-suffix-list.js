@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+import { readFile, stat, writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const OUTPUT_FILE = join(__dirname, '../src/data/publicSuffixList.ts');
+
+/**
+ * Minimum number of rules expected in a complete list
+ */
+const MIN_RULES = 1000;
+
+/**
+ * Load the list from a local file, or from publicsuffix.org without argument
+ * @param {string | undefined} path - Local copy of the list
+ * @returns {Promise<{ text: string, date: Date }>} List text and its date
+ */
+async function loadList(path) {
+  if (path) {
+    const [text, stats] = await Promise.all([readFile(path, 'utf8'), stat(path)]);
+    return { text, date: stats.mtime };
+  }
+
+  const response = await fetch(LIST_URL);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${LIST_URL}`);
+  }
+  return { text: await response.text(), date: new Date() };
+}
+
+/**
+ * Keep the rules and the section markers, dropping comments and blank lines
+ * @param {string} text - Public Suffix List
+ * @returns {string[]} Snapshot lines
+ */
+function compactList(text) {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && (!line.startsWith('//') || /^\/\/ ===(BEGIN|END) (ICANN|PRIVATE) DOMAINS===$/.test(line)));
+}
+
+/**
+ * Regenerate the Public Suffix List snapshot bundled with the app
+ * Usage: node scripts/update-public-suffix-list.js [path/to/public_suffix_list.dat]
+ */
+async function updatePublicSuffixList() {
+  const { text, date } = await loadList(process.argv[2]);
+  const lines = compactList(text);
+  const ruleCount = lines.filter(line => !line.startsWith('//')).length;
+
+  if (ruleCount < MIN_RULES) {
+    throw new Error(`Only ${ruleCount} rules found, the list looks truncated`);
+  }
+  if (lines.some(line => line.includes('`') || line.includes('${'))) {
+    throw new Error('The list contains characters that cannot be embedded in a template literal');
+  }
+
+  // Recent lists carry their own version, older copies are dated by the file
+  const version = text.match(/^\/\/ VERSION: (\S+)/m)?.[1] ?? date.toISOString().slice(0, 10);
+
+  const output = `import type { PublicSuffixListSnapshot } from '@/types/psl';
+
+/**
+ * Bundled Public Suffix List snapshot, comments removed
+ *
+ * Generated by scripts/update-public-suffix-list.js from ${LIST_URL}
+ * (Mozilla Public License 2.0). Do not edit by hand.
+ */
+export const PUBLIC_SUFFIX_LIST_SNAPSHOT: PublicSuffixListSnapshot = Object.freeze({
+  version: '${version}',
+  text: \`${lines.join('\n')}\`
+});
+`;
+
+  await writeFile(OUTPUT_FILE, output);
+  console.log(`✅ Public Suffix List ${version} written with ${ruleCount} rules`);
+  console.log(`📁 Output: ${OUTPUT_FILE}`);
+}
+
+updatePublicSuffixList().catch(error => {
+  console.error('❌ Public Suffix List update failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,266 @@
+#!/usr/bin/env node
+
+import { readFile, writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const ROOT_ZONE_URL = 'https://www.internic.net/domain/root.zone';
+const ROOT_ZONE_DB_URL = 'https://www.iana.org/domains/root/db';
+const OUTPUT_FILE = join(__dirname, '../src/data/tldCatalog.ts');
+
+/**
+ * Minimum number of TLDs expected in a complete root zone
+ */
+const MIN_TLDS = 1000;
+
+/**
+ * Number of IANA delegation records downloaded at once
+ */
+const PAGE_CONCURRENCY = 8;
+
+/**
+ * Catalog type of each IANA TLD type; infrastructure (arpa) and test TLDs are skipped
+ */
+const IANA_TYPES = {
+  'generic': 'gTLD',
+  'generic-restricted': 'gTLD',
+  'sponsored': 'sTLD',
+  'country-code': 'ccTLD'
+};
+
+/**
+ * ccTLDs whose country code differs from the TLD
+ */
+const COUNTRY_CODE_EXCEPTIONS = { uk: 'GB' };
+
+/**
+ * Load a source from a local mirror, or from its URL without mirror
+ *
+ * The mirror keeps the paths of the sources: root.zone, db.html and db/<tld>.html.
+ *
+ * @param {string | undefined} mirror - Directory of the local mirror
+ * @param {string} path - Path of the source in the mirror
+ * @param {string} url - URL of the source
+ * @returns {Promise<string>} Source text
+ */
+async function loadSource(mirror, path, url) {
+  if (mirror) {
+    return readFile(join(mirror, path), 'utf8');
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} fetching ${url}`);
+  }
+  return response.text();
+}
+
+/**
+ * Read the delegated TLDs and the serial of the root zone
+ * @param {string} text - Root zone file
+ * @returns {{ delegated: Set<string>, serial: string }} TLDs with NS records and SOA serial
+ */
+function readRootZone(text) {
+  const delegated = new Set();
+  let serial = '';
+
+  for (const line of text.split('\n')) {
+    const [owner, , , type, ...data] = line.trim().split(/\s+/);
+
+    if (owner === '.' && type === 'SOA') serial = data[2];
+    if (type === 'NS' && /^[a-z0-9-]+\.$/i.test(owner)) delegated.add(owner.slice(0, -1).toLowerCase());
+  }
+
+  return { delegated, serial };
+}
+
+/**
+ * Decode the HTML of a table cell into plain text
+ * @param {string} html - Cell content
+ * @returns {string} Text with line breaks joined by commas
+ */
+function htmlToText(html) {
+  return html
+    .replace(/<br\s*\/?>/gi, ', ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .replace(/(, )+$/, '')
+    .trim();
+}
+
+/**
+ * Read the type and TLD manager of each TLD of the Root Zone Database
+ * @param {string} html - Root Zone Database page
+ * @returns {Map<string, { type: string, sponsor: string }>} IANA type and manager by A-label
+ */
+function readRootZoneDatabase(html) {
+  const tlds = new Map();
+  const rows = html.matchAll(/<a href="\/domains\/root\/db\/([^"]+)\.html">[\s\S]*?<\/td>\s*<td>([\s\S]*?)<\/td>\s*<td>([\s\S]*?)<\/td>/g);
+
+  for (const [, tld, type, sponsor] of rows) {
+    tlds.set(tld.toLowerCase(), { type: htmlToText(type), sponsor: htmlToText(sponsor) });
+  }
+
+  return tlds;
+}
+
+/**
+ * Read the date a TLD was delegated from its IANA delegation record
+ * @param {string} html - Delegation record page
+ * @returns {string | undefined} Registration date, YYYY-MM-DD
+ */
+function readDelegationDate(html) {
+  return html.match(/Registration date (\d{4}-\d{2}-\d{2})/)?.[1];
+}
+
+/**
+ * Run a task on each item, a few at a time
+ * @param {string[]} items - Items to process
+ * @param {(item: string) => Promise<T>} task - Task run on each item
+ * @returns {Promise<T[]>} Results in the order of the items
+ * @template T
+ */
+async function mapConcurrently(items, task) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: PAGE_CONCURRENCY }, worker));
+  return results;
+}
+
+/**
+ * Find the country of each ccTLD
+ *
+ * Two-letter ccTLDs carry their ISO 3166-1 code. IDN ccTLDs take the code of the
+ * two-letter ccTLD run by the same manager, when that manager runs a single one.
+ *
+ * @param {{ tld: string, type: string, sponsor: string }[]} entries - Catalog entries
+ * @returns {Map<string, string>} Country code by ccTLD
+ */
+function findCountries(entries) {
+  const countries = new Map();
+  const codesBySponsor = new Map();
+
+  for (const { tld, type, sponsor } of entries) {
+    if (type !== 'ccTLD' || !/^[a-z]{2}$/.test(tld)) continue;
+
+    const code = COUNTRY_CODE_EXCEPTIONS[tld] ?? tld.toUpperCase();
+    countries.set(tld, code);
+    codesBySponsor.set(sponsor, codesBySponsor.has(sponsor) ? null : code);
+  }
+
+  for (const { tld, type, sponsor } of entries) {
+    const code = codesBySponsor.get(sponsor);
+    if (type === 'ccTLD' && !countries.has(tld) && code) countries.set(tld, code);
+  }
+
+  return countries;
+}
+
+/**
+ * Format an entry as a tab-separated line: tld, type, country, delegation date, sponsor
+ * @param {object} entry - Catalog entry
+ * @returns {string} Snapshot line
+ */
+function formatEntry(entry) {
+  return [entry.tld, entry.type, entry.country ?? '', entry.delegationDate ?? '', entry.sponsor ?? ''].join('\t');
+}
+
+/**
+ * Regenerate the TLD catalog snapshot bundled with the app
+ *
+ * The root zone file lists the delegated TLDs, the Root Zone Database their type
+ * and manager, and the delegation record of each TLD its registration date.
+ *
+ * Usage: node scripts/update-tld-catalog.js [path/to/mirror]
+ */
+async function updateTldCatalog() {
+  const mirror = process.argv[2];
+  const [rootZone, database] = await Promise.all([
+    loadSource(mirror, 'root.zone', ROOT_ZONE_URL),
+    loadSource(mirror, 'db.html', ROOT_ZONE_DB_URL)
+  ]);
+
+  const { delegated, serial } = readRootZone(rootZone);
+  const tlds = readRootZoneDatabase(database);
+  const missing = [...delegated].filter(tld => !tlds.has(tld));
+
+  const entries = [...delegated]
+    .filter(tld => IANA_TYPES[tlds.get(tld)?.type])
+    .sort((a, b) => a.localeCompare(b))
+    .map(tld => ({ tld, type: IANA_TYPES[tlds.get(tld).type], sponsor: tlds.get(tld).sponsor }));
+
+  if (entries.length < MIN_TLDS) {
+    throw new Error(`Only ${entries.length} TLDs found, the sources look truncated`);
+  }
+  if (!/^\d{10}$/.test(serial)) {
+    throw new Error(`Unexpected root zone serial "${serial}"`);
+  }
+
+  const dates = await mapConcurrently(entries.map(entry => entry.tld), async tld => {
+    return readDelegationDate(await loadSource(mirror, `db/${tld}.html`, `${ROOT_ZONE_DB_URL}/${tld}.html`));
+  });
+  const countries = findCountries(entries);
+
+  const lines = entries
+    .map((entry, index) => ({ ...entry, country: countries.get(entry.tld), delegationDate: dates[index] }))
+    .map(formatEntry);
+  if (lines.some(line => line.includes('`') || line.includes('${') || line.includes('\\'))) {
+    throw new Error('The catalog contains characters that cannot be embedded in a template literal');
+  }
+
+  // Root zone serials are dated YYYYMMDDnn
+  const version = `${serial.slice(0, 4)}-${serial.slice(4, 6)}-${serial.slice(6, 8)}`;
+
+  const output = `import type { TldCatalogSnapshot } from '@/types/tld';
+
+/**
+ * Bundled root zone snapshot, one TLD per line:
+ * A-label, type, country code, delegation date and sponsor, separated by tabs
+ *
+ * Generated by scripts/update-tld-catalog.js from ${ROOT_ZONE_URL}
+ * and the IANA Root Zone Database (${ROOT_ZONE_DB_URL}). Do not edit by hand.
+ */
+export const TLD_CATALOG_SNAPSHOT: TldCatalogSnapshot = Object.freeze({
+  version: '${version}',
+  text: \`${lines.join('\n')}\`
+});
+`;
+
+  await writeFile(OUTPUT_FILE, output);
+  console.log(`✅ TLD catalog ${version} written with ${entries.length} TLDs`);
+
+  const undated = entries.filter((entry, index) => !dates[index]).map(entry => entry.tld);
+  if (undated.length > 0) {
+    console.log(`⚠️  ${undated.length} TLDs without registration date: ${undated.join(', ')}`);
+  }
+  const stateless = entries.filter(entry => entry.type === 'ccTLD' && !countries.has(entry.tld)).map(entry => entry.tld);
+  if (stateless.length > 0) {
+    console.log(`⚠️  ${stateless.length} ccTLDs without country: ${stateless.join(', ')}`);
+  }
+  if (missing.length > 0) {
+    console.log(`⚠️  ${missing.length} delegated TLDs missing from the Root Zone Database: ${missing.join(', ')}`);
+  }
+  console.log(`📁 Output: ${OUTPUT_FILE}`);
+}
+
+updateTldCatalog().catch(error => {
+  console.error('❌ TLD catalog update failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,135 @@
+/**
+ * Vue 3 composable tracking connectivity and the checks queued while offline
+ *
+ * State is shared by every component using the composable, so the layout
+ * indicator and the domain items always agree on the connection status.
+ *
+ * @example
+ * ```typescript
+ * const { isOnline, pendingCheckCount } = useNetworkStatus();
+ * ```
+ */
+import { ref, readonly, onMounted, onUnmounted, type Ref } from 'vue';
+import type { PendingCheckSyncSummary } from '@/types/offline';
+import { getPendingChecks, requestPendingCheckSync } from '@/services/offlineService';
+import { isNavigatorOnline } from '@/utils/offlineUtil';
+
+// ===== Types and Interfaces =====
+
+/**
+ * Message posted by the Service Worker after a pending check sync
+ */
+interface PendingChecksSyncedMessage {
+  readonly type: 'PENDING_CHECKS_SYNCED';
+  readonly summary: PendingCheckSyncSummary;
+}
+
+/**
+ * Return type for the useNetworkStatus composable
+ */
+export interface UseNetworkStatusReturn {
+  /** Reactive flag, false while the browser is offline */
+  readonly isOnline: Readonly<Ref<boolean>>;
+  /** Number of domain checks waiting for connectivity */
+  readonly pendingCheckCount: Readonly<Ref<number>>;
+  /** Outcome of the last Background Sync pass, null before the first one */
+  readonly lastSync: Readonly<Ref<PendingCheckSyncSummary | null>>;
+  /** Reloads the number of pending checks */
+  readonly refreshPendingChecks: () => Promise<void>;
+}
+
+// ===== Shared state =====
+
+const isOnline = ref<boolean>(isNavigatorOnline());
+const pendingCheckCount = ref<number>(0);
+const lastSync = ref<PendingCheckSyncSummary | null>(null);
+
+/**
+ * Number of mounted components using the composable
+ */
+let subscribers = 0;
+
+// ===== Private methods =====
+
+/**
+ * Reloads the number of pending checks
+ */
+const refreshPendingChecks = async (): Promise<void> => {
+  const result = await getPendingChecks();
+  if (result.success && result.data) {
+    pendingCheckCount.value = result.data.length;
+  }
+};
+
+/**
+ * Handle the browser going online, then run the queued checks
+ */
+const handleOnline = (): void => {
+  isOnline.value = true;
+  void requestPendingCheckSync();
+};
+
+/**
+ * Handle the browser going offline
+ */
+const handleOffline = (): void => {
+  isOnline.value = false;
+};
+
+/**
+ * Handle the sync summary posted by the Service Worker
+ */
+const handleServiceWorkerMessage = (event: MessageEvent): void => {
+  const data = event.data as PendingChecksSyncedMessage | undefined;
+  if (data?.type !== 'PENDING_CHECKS_SYNCED') return;
+
+  lastSync.value = data.summary;
+  void refreshPendingChecks();
+};
+
+/**
+ * Attach the shared listeners
+ */
+const subscribe = (): void => {
+  if (subscribers++ > 0) return;
+
+  isOnline.value = isNavigatorOnline();
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.addEventListener('message', handleServiceWorkerMessage);
+  }
+  void refreshPendingChecks();
+};
+
+/**
+ * Detach the shared listeners once the last component is unmounted
+ */
+const unsubscribe = (): void => {
+  if (--subscribers > 0) return;
+
+  window.removeEventListener('online', handleOnline);
+  window.removeEventListener('offline', handleOffline);
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.removeEventListener('message', handleServiceWorkerMessage);
+  }
+};
+
+// ===== Main Composable =====
+
+/**
+ * Vue 3 composable exposing the shared connectivity state
+ *
+ * @returns {UseNetworkStatusReturn} Reactive connectivity state and helpers
+ */
+export function useNetworkStatus(): UseNetworkStatusReturn {
+  onMounted(subscribe);
+  onUnmounted(unsubscribe);
+
+  return {
+    isOnline: readonly(isOnline),
+    pendingCheckCount: readonly(pendingCheckCount),
+    lastSync: readonly(lastSync),
+    refreshPendingChecks
+  };
+}
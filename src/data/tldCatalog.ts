@@ -0,0 +1,1493 @@
+import type { TldCatalogSnapshot } from '@/types/tld';
+
+/**
+ * Bundled root zone snapshot, one TLD per line:
+ * A-label, type, country code, delegation date and sponsor, separated by tabs
+ *
+ * Interim data taken from the ICANN section of the Public Suffix List of
+ * 2023-02-09 (Mozilla Public License 2.0), not generated by
+ * scripts/update-tld-catalog.js: only the legacy gTLDs have a delegation date,
+ * and ccTLDs have no sponsor. Replace it with the output of `npm run update:tlds`,
+ * which reads the root zone file and the IANA Root Zone Database.
+ */
+export const TLD_CATALOG_SNAPSHOT: TldCatalogSnapshot = Object.freeze({
+  version: '2023-02-09',
+  text: `aaa	gTLD			American Automobile Association, Inc.
+aarp	gTLD			AARP
+abarth	gTLD			Fiat Chrysler Automobiles N.V.
+abb	gTLD			ABB Ltd
+abbott	gTLD			Abbott Laboratories, Inc.
+abbvie	gTLD			AbbVie Inc.
+abc	gTLD			Disney Enterprises, Inc.
+able	gTLD			Able Inc.
+abogado	gTLD			Registry Services, LLC
+abudhabi	gTLD			Abu Dhabi Systems and Information Centre
+ac	ccTLD	AC		
+academy	gTLD			Binky Moon, LLC
+accenture	gTLD			Accenture plc
+accountant	gTLD			dot Accountant Limited
+accountants	gTLD			Binky Moon, LLC
+aco	gTLD			ACO Severin Ahlmann GmbH & Co. KG
+actor	gTLD			Dog Beach, LLC
+ad	ccTLD	AD		
+ads	gTLD			Charleston Road Registry Inc.
+adult	gTLD			ICM Registry AD LLC
+ae	ccTLD	AE		
+aeg	gTLD			Aktiebolaget Electrolux
+aero	sTLD			Societe Internationale de Telecommunications Aeronautique (SITA INC USA)
+aetna	gTLD			Aetna Life Insurance Company
+af	ccTLD	AF		
+afl	gTLD			Australian Football League
+africa	gTLD			ZA Central Registry NPC trading as Registry.Africa
+ag	ccTLD	AG		
+agakhan	gTLD			Fondation Aga Khan (Aga Khan Foundation)
+agency	gTLD			Binky Moon, LLC
+ai	ccTLD	AI		
+aig	gTLD			American International Group, Inc.
+airbus	gTLD			Airbus S.A.S.
+airforce	gTLD			Dog Beach, LLC
+airtel	gTLD			Bharti Airtel Limited
+akdn	gTLD			Fondation Aga Khan (Aga Khan Foundation)
+al	ccTLD	AL		
+alfaromeo	gTLD			Fiat Chrysler Automobiles N.V.
+alibaba	gTLD			Alibaba Group Holding Limited
+alipay	gTLD			Alibaba Group Holding Limited
+allfinanz	gTLD			Allfinanz Deutsche Vermögensberatung Aktiengesellschaft
+allstate	gTLD			Allstate Fire and Casualty Insurance Company
+ally	gTLD			Ally Financial Inc.
+alsace	gTLD			Region Grand Est
+alstom	gTLD			ALSTOM
+am	ccTLD	AM		
+amazon	gTLD			Amazon Registry Services, Inc.
+americanexpress	gTLD			American Express Travel Related Services Company, Inc.
+americanfamily	gTLD			AmFam, Inc.
+amex	gTLD			American Express Travel Related Services Company, Inc.
+amfam	gTLD			AmFam, Inc.
+amica	gTLD			Amica Mutual Insurance Company
+amsterdam	gTLD			Gemeente Amsterdam
+analytics	gTLD			Campus IP LLC
+android	gTLD			Charleston Road Registry Inc.
+anquan	gTLD			Beijing Qihu Keji Co., Ltd.
+anz	gTLD			Australia and New Zealand Banking Group Limited
+ao	ccTLD	AO		
+aol	gTLD			Oath Inc.
+apartments	gTLD			Binky Moon, LLC
+app	gTLD			Charleston Road Registry Inc.
+apple	gTLD			Apple Inc.
+aq	ccTLD	AQ		
+aquarelle	gTLD			Aquarelle.com
+ar	ccTLD	AR		
+arab	gTLD			League of Arab States
+aramco	gTLD			Aramco Services Company
+archi	gTLD			Identity Digital Limited
+army	gTLD			Dog Beach, LLC
+art	gTLD			UK Creative Ideas Limited
+arte	gTLD			Association Relative à la Télévision Européenne G.E.I.E.
+as	ccTLD	AS		
+asda	gTLD			Wal-Mart Stores, Inc.
+asia	sTLD			DotAsia Organisation Ltd.
+associates	gTLD			Binky Moon, LLC
+at	ccTLD	AT		
+athleta	gTLD			The Gap, Inc.
+attorney	gTLD			Dog Beach, LLC
+au	ccTLD	AU		
+auction	gTLD			Dog Beach, LLC
+audi	gTLD			AUDI Aktiengesellschaft
+audible	gTLD			Amazon Registry Services, Inc.
+audio	gTLD			XYZ.COM LLC
+auspost	gTLD			Australian Postal Corporation
+author	gTLD			Amazon Registry Services, Inc.
+auto	gTLD			XYZ.COM LLC
+autos	gTLD			XYZ.COM LLC
+avianca	gTLD			Avianca Inc.
+aw	ccTLD	AW		
+aws	gTLD			AWS Registry LLC
+ax	ccTLD	AX		
+axa	gTLD			AXA Group Operations SAS
+az	ccTLD	AZ		
+azure	gTLD			Microsoft Corporation
+ba	ccTLD	BA		
+baby	gTLD			XYZ.COM LLC
+baidu	gTLD			Baidu, Inc.
+banamex	gTLD			Citigroup Inc.
+bananarepublic	gTLD			The Gap, Inc.
+band	gTLD			Dog Beach, LLC
+bank	gTLD			fTLD Registry Services LLC
+bar	gTLD			Punto 2012 Sociedad Anonima Promotora de Inversion de Capital Variable
+barcelona	gTLD			Municipi de Barcelona
+barclaycard	gTLD			Barclays Bank PLC
+barclays	gTLD			Barclays Bank PLC
+barefoot	gTLD			Gallo Vineyards, Inc.
+bargains	gTLD			Binky Moon, LLC
+baseball	gTLD			MLB Advanced Media DH, LLC
+basketball	gTLD			Fédération Internationale de Basketball (FIBA)
+bauhaus	gTLD			Werkhaus GmbH
+bayern	gTLD			Bayern Connect GmbH
+bb	ccTLD	BB		
+bbc	gTLD			British Broadcasting Corporation
+bbt	gTLD			BB&T Corporation
+bbva	gTLD			BANCO BILBAO VIZCAYA ARGENTARIA, S.A.
+bcg	gTLD			The Boston Consulting Group, Inc.
+bcn	gTLD			Municipi de Barcelona
+be	ccTLD	BE		
+beats	gTLD			Beats Electronics, LLC
+beauty	gTLD			XYZ.COM LLC
+beer	gTLD			Registry Services, LLC
+bentley	gTLD			Bentley Motors Limited
+berlin	gTLD			dotBERLIN GmbH & Co. KG
+best	gTLD			BestTLD Pty Ltd
+bestbuy	gTLD			BBY Solutions, Inc.
+bet	gTLD			Identity Digital Limited
+bf	ccTLD	BF		
+bg	ccTLD	BG		
+bh	ccTLD	BH		
+bharti	gTLD			Bharti Enterprises (Holding) Private Limited
+bi	ccTLD	BI		
+bible	gTLD			American Bible Society
+bid	gTLD			dot Bid Limited
+bike	gTLD			Binky Moon, LLC
+bing	gTLD			Microsoft Corporation
+bingo	gTLD			Binky Moon, LLC
+bio	gTLD			Identity Digital Limited
+biz	gTLD			Registry Services, LLC
+bj	ccTLD	BJ		
+black	gTLD			Identity Digital Limited
+blackfriday	gTLD			Registry Services, LLC
+blockbuster	gTLD			Dish DBS Corporation
+blog	gTLD			Knock Knock WHOIS There, LLC
+bloomberg	gTLD			Bloomberg IP Holdings LLC
+blue	gTLD			Identity Digital Limited
+bm	ccTLD	BM		
+bms	gTLD			Bristol-Myers Squibb Company
+bmw	gTLD			Bayerische Motoren Werke Aktiengesellschaft
+bn	ccTLD	BN		
+bnpparibas	gTLD			BNP Paribas
+bo	ccTLD	BO		
+boats	gTLD			XYZ.COM LLC
+boehringer	gTLD			Boehringer Ingelheim International GmbH
+bofa	gTLD			Bank of America Corporation
+bom	gTLD			Núcleo de Informação e Coordenação do Ponto BR - NIC.br
+bond	gTLD			ShortDot SA
+boo	gTLD			Charleston Road Registry Inc.
+book	gTLD			Amazon Registry Services, Inc.
+booking	gTLD			Booking.com B.V.
+bosch	gTLD			Robert Bosch GMBH
+bostik	gTLD			Bostik SA
+boston	gTLD			Registry Services, LLC
+bot	gTLD			Amazon Registry Services, Inc.
+boutique	gTLD			Binky Moon, LLC
+box	gTLD			Intercap Registry Inc.
+br	ccTLD	BR		
+bradesco	gTLD			Banco Bradesco S.A.
+bridgestone	gTLD			Bridgestone Corporation
+broadway	gTLD			Celebrate Broadway, Inc.
+broker	gTLD			Dog Beach, LLC
+brother	gTLD			Brother Industries, Ltd.
+brussels	gTLD			DNS.be vzw
+bs	ccTLD	BS		
+bt	ccTLD	BT		
+build	gTLD			Plan Bee LLC
+builders	gTLD			Binky Moon, LLC
+business	gTLD			Binky Moon, LLC
+buy	gTLD			Amazon Registry Services, Inc.
+buzz	gTLD			DOTSTRATEGY CO.
+bv	ccTLD	BV		
+bw	ccTLD	BW		
+by	ccTLD	BY		
+bz	ccTLD	BZ		
+bzh	gTLD			Association www.bzh
+ca	ccTLD	CA		
+cab	gTLD			Binky Moon, LLC
+cafe	gTLD			Binky Moon, LLC
+cal	gTLD			Charleston Road Registry Inc.
+call	gTLD			Amazon Registry Services, Inc.
+calvinklein	gTLD			PVH gTLD Holdings LLC
+cam	gTLD			Cam Connecting SARL
+camera	gTLD			Binky Moon, LLC
+camp	gTLD			Binky Moon, LLC
+canon	gTLD			Canon Inc.
+capetown	gTLD			ZA Central Registry NPC trading as ZA Central Registry
+capital	gTLD			Binky Moon, LLC
+capitalone	gTLD			Capital One Financial Corporation
+car	gTLD			XYZ.COM LLC
+caravan	gTLD			Caravan International, Inc.
+cards	gTLD			Binky Moon, LLC
+care	gTLD			Binky Moon, LLC
+career	gTLD			dotCareer LLC
+careers	gTLD			Binky Moon, LLC
+cars	gTLD			XYZ.COM LLC
+casa	gTLD			Registry Services, LLC
+case	gTLD			Digity, LLC
+cash	gTLD			Binky Moon, LLC
+casino	gTLD			Binky Moon, LLC
+cat	sTLD			Fundacio puntCAT
+catering	gTLD			Binky Moon, LLC
+catholic	gTLD			Pontificium Consilium de Comunicationibus Socialibus (PCCS) (Pontifical Council for Social Communication)
+cba	gTLD			COMMONWEALTH BANK OF AUSTRALIA
+cbn	gTLD			The Christian Broadcasting Network, Inc.
+cbre	gTLD			CBRE, Inc.
+cbs	gTLD			CBS Domains Inc.
+cc	ccTLD	CC		
+cd	ccTLD	CD		
+center	gTLD			Binky Moon, LLC
+ceo	gTLD			CEOTLD Pty Ltd
+cern	gTLD			European Organization for Nuclear Research ("CERN")
+cf	ccTLD	CF		
+cfa	gTLD			CFA Institute
+cfd	gTLD			ShortDot SA
+cg	ccTLD	CG		
+ch	ccTLD	CH		
+chanel	gTLD			Chanel International B.V.
+channel	gTLD			Charleston Road Registry Inc.
+charity	gTLD			Public Interest Registry
+chase	gTLD			JPMorgan Chase Bank, National Association
+chat	gTLD			Binky Moon, LLC
+cheap	gTLD			Binky Moon, LLC
+chintai	gTLD			CHINTAI Corporation
+christmas	gTLD			XYZ.COM LLC
+chrome	gTLD			Charleston Road Registry Inc.
+church	gTLD			Binky Moon, LLC
+ci	ccTLD	CI		
+cipriani	gTLD			Hotel Cipriani Srl
+circle	gTLD			Amazon Registry Services, Inc.
+cisco	gTLD			Cisco Technology, Inc.
+citadel	gTLD			Citadel Domain LLC
+citi	gTLD			Citigroup Inc.
+citic	gTLD			CITIC Group Corporation
+city	gTLD			Binky Moon, LLC
+cityeats	gTLD			Lifestyle Domain Holdings, Inc.
+cl	ccTLD	CL		
+claims	gTLD			Binky Moon, LLC
+cleaning	gTLD			Binky Moon, LLC
+click	gTLD			Internet Naming Company LLC
+clinic	gTLD			Binky Moon, LLC
+clinique	gTLD			The Estée Lauder Companies Inc.
+clothing	gTLD			Binky Moon, LLC
+cloud	gTLD			Aruba PEC S.p.A.
+club	gTLD			Registry Services, LLC
+clubmed	gTLD			Club Méditerranée S.A.
+cm	ccTLD	CM		
+cn	ccTLD	CN		
+co	ccTLD	CO		
+coach	gTLD			Binky Moon, LLC
+codes	gTLD			Binky Moon, LLC
+coffee	gTLD			Binky Moon, LLC
+college	gTLD			XYZ.COM LLC
+cologne	gTLD			dotKoeln GmbH
+com	gTLD		1985-01-01	VeriSign Global Registry Services
+comcast	gTLD			Comcast IP Holdings I, LLC
+commbank	gTLD			COMMONWEALTH BANK OF AUSTRALIA
+community	gTLD			Binky Moon, LLC
+company	gTLD			Binky Moon, LLC
+compare	gTLD			Registry Services, LLC
+computer	gTLD			Binky Moon, LLC
+comsec	gTLD			VeriSign, Inc.
+condos	gTLD			Binky Moon, LLC
+construction	gTLD			Binky Moon, LLC
+consulting	gTLD			Dog Beach, LLC
+contact	gTLD			Dog Beach, LLC
+contractors	gTLD			Binky Moon, LLC
+cooking	gTLD			Registry Services, LLC
+cookingchannel	gTLD			Lifestyle Domain Holdings, Inc.
+cool	gTLD			Binky Moon, LLC
+coop	sTLD			DotCooperation LLC
+corsica	gTLD			Collectivité de Corse
+country	gTLD			Internet Naming Company LLC
+coupon	gTLD			Amazon Registry Services, Inc.
+coupons	gTLD			Binky Moon, LLC
+courses	gTLD			Registry Services, LLC
+cpa	gTLD			American Institute of Certified Public Accountants
+cr	ccTLD	CR		
+credit	gTLD			Binky Moon, LLC
+creditcard	gTLD			Binky Moon, LLC
+creditunion	gTLD			DotCooperation LLC
+cricket	gTLD			dot Cricket Limited
+crown	gTLD			Crown Equipment Corporation
+crs	gTLD			Federated Co-operatives Limited
+cruise	gTLD			Viking River Cruises (Bermuda) Ltd.
+cruises	gTLD			Binky Moon, LLC
+cu	ccTLD	CU		
+cuisinella	gTLD			SCHMIDT GROUPE S.A.S.
+cv	ccTLD	CV		
+cw	ccTLD	CW		
+cx	ccTLD	CX		
+cy	ccTLD	CY		
+cymru	gTLD			Nominet UK
+cyou	gTLD			ShortDot SA
+cz	ccTLD	CZ		
+dabur	gTLD			Dabur India Limited
+dad	gTLD			Charleston Road Registry Inc.
+dance	gTLD			Dog Beach, LLC
+data	gTLD			Dish DBS Corporation
+date	gTLD			dot Date Limited
+dating	gTLD			Binky Moon, LLC
+datsun	gTLD			NISSAN MOTOR CO., LTD.
+day	gTLD			Charleston Road Registry Inc.
+dclk	gTLD			Charleston Road Registry Inc.
+dds	gTLD			Registry Services, LLC
+de	ccTLD	DE		
+deal	gTLD			Amazon Registry Services, Inc.
+dealer	gTLD			Intercap Registry Inc.
+deals	gTLD			Binky Moon, LLC
+degree	gTLD			Dog Beach, LLC
+delivery	gTLD			Binky Moon, LLC
+dell	gTLD			Dell Inc.
+deloitte	gTLD			Deloitte Touche Tohmatsu
+delta	gTLD			Delta Air Lines, Inc.
+democrat	gTLD			Dog Beach, LLC
+dental	gTLD			Binky Moon, LLC
+dentist	gTLD			Dog Beach, LLC
+desi	gTLD			Desi Networks LLC
+design	gTLD			Registry Services, LLC
+dev	gTLD			Charleston Road Registry Inc.
+dhl	gTLD			Deutsche Post AG
+diamonds	gTLD			Binky Moon, LLC
+diet	gTLD			XYZ.COM LLC
+digital	gTLD			Binky Moon, LLC
+direct	gTLD			Binky Moon, LLC
+directory	gTLD			Binky Moon, LLC
+discount	gTLD			Binky Moon, LLC
+discover	gTLD			Discover Financial Services
+dish	gTLD			Dish DBS Corporation
+diy	gTLD			Lifestyle Domain Holdings, Inc.
+dj	ccTLD	DJ		
+dk	ccTLD	DK		
+dm	ccTLD	DM		
+dnp	gTLD			Dai Nippon Printing Co., Ltd.
+do	ccTLD	DO		
+docs	gTLD			Charleston Road Registry Inc.
+doctor	gTLD			Binky Moon, LLC
+dog	gTLD			Binky Moon, LLC
+domains	gTLD			Binky Moon, LLC
+dot	gTLD			Dish DBS Corporation
+download	gTLD			dot Support Limited
+drive	gTLD			Charleston Road Registry Inc.
+dtv	gTLD			Dish DBS Corporation
+dubai	gTLD			Dubai Smart Government Department
+dunlop	gTLD			The Goodyear Tire & Rubber Company
+dupont	gTLD			DuPont Specialty Products USA, LLC
+durban	gTLD			ZA Central Registry NPC trading as ZA Central Registry
+dvag	gTLD			Deutsche Vermögensberatung Aktiengesellschaft DVAG
+dvr	gTLD			DISH Technologies L.L.C.
+dz	ccTLD	DZ		
+earth	gTLD			Interlink Systems Innovation Institute K.K.
+eat	gTLD			Charleston Road Registry Inc.
+ec	ccTLD	EC		
+eco	gTLD			Big Room Inc.
+edeka	gTLD			EDEKA Verband kaufmännischer Genossenschaften e.V.
+edu	sTLD		1985-01-01	EDUCAUSE
+education	gTLD			Binky Moon, LLC
+ee	ccTLD	EE		
+eg	ccTLD	EG		
+email	gTLD			Binky Moon, LLC
+emerck	gTLD			Merck KGaA
+energy	gTLD			Binky Moon, LLC
+engineer	gTLD			Dog Beach, LLC
+engineering	gTLD			Binky Moon, LLC
+enterprises	gTLD			Binky Moon, LLC
+epson	gTLD			Seiko Epson Corporation
+equipment	gTLD			Binky Moon, LLC
+ericsson	gTLD			Telefonaktiebolaget L M Ericsson
+erni	gTLD			ERNI Group Holding AG
+es	ccTLD	ES		
+esq	gTLD			Charleston Road Registry Inc.
+estate	gTLD			Binky Moon, LLC
+et	ccTLD	ET		
+etisalat	gTLD			Emirates Telecommunications Corporation (trading as Etisalat)
+eu	ccTLD	EU		
+eurovision	gTLD			European Broadcasting Union (EBU)
+eus	gTLD			Puntueus Fundazioa
+events	gTLD			Binky Moon, LLC
+exchange	gTLD			Binky Moon, LLC
+expert	gTLD			Binky Moon, LLC
+exposed	gTLD			Binky Moon, LLC
+express	gTLD			Binky Moon, LLC
+extraspace	gTLD			Extra Space Storage LLC
+fage	gTLD			Fage International S.A.
+fail	gTLD			Binky Moon, LLC
+fairwinds	gTLD			FairWinds Partners, LLC
+faith	gTLD			dot Faith Limited
+family	gTLD			Dog Beach, LLC
+fan	gTLD			Dog Beach, LLC
+fans	gTLD			ZDNS International Limited
+farm	gTLD			Binky Moon, LLC
+farmers	gTLD			Farmers Insurance Exchange
+fashion	gTLD			Registry Services, LLC
+fast	gTLD			Amazon Registry Services, Inc.
+fedex	gTLD			Federal Express Corporation
+feedback	gTLD			Top Level Spectrum, Inc.
+ferrari	gTLD			Fiat Chrysler Automobiles N.V.
+ferrero	gTLD			Ferrero Trading Lux S.A.
+fi	ccTLD	FI		
+fiat	gTLD			Fiat Chrysler Automobiles N.V.
+fidelity	gTLD			Fidelity Brokerage Services LLC
+fido	gTLD			Rogers Communications Canada Inc.
+film	gTLD			Motion Picture Domain Registry Pty Ltd
+final	gTLD			Núcleo de Informação e Coordenação do Ponto BR - NIC.br
+finance	gTLD			Binky Moon, LLC
+financial	gTLD			Binky Moon, LLC
+fire	gTLD			Amazon Registry Services, Inc.
+firestone	gTLD			Bridgestone Licensing Services, Inc
+firmdale	gTLD			Firmdale Holdings Limited
+fish	gTLD			Binky Moon, LLC
+fishing	gTLD			Registry Services, LLC
+fit	gTLD			Registry Services, LLC
+fitness	gTLD			Binky Moon, LLC
+fj	ccTLD	FJ		
+flickr	gTLD			Flickr, Inc.
+flights	gTLD			Binky Moon, LLC
+flir	gTLD			FLIR Systems, Inc.
+florist	gTLD			Binky Moon, LLC
+flowers	gTLD			XYZ.COM LLC
+fly	gTLD			Charleston Road Registry Inc.
+fm	ccTLD	FM		
+fo	ccTLD	FO		
+foo	gTLD			Charleston Road Registry Inc.
+food	gTLD			Lifestyle Domain Holdings, Inc.
+foodnetwork	gTLD			Lifestyle Domain Holdings, Inc.
+football	gTLD			Binky Moon, LLC
+ford	gTLD			Ford Motor Company
+forex	gTLD			Dog Beach, LLC
+forsale	gTLD			Dog Beach, LLC
+forum	gTLD			Fegistry, LLC
+foundation	gTLD			Public Interest Registry
+fox	gTLD			FOX Registry, LLC
+fr	ccTLD	FR		
+free	gTLD			Amazon Registry Services, Inc.
+fresenius	gTLD			Fresenius Immobilien-Verwaltungs-GmbH
+frl	gTLD			FRLregistry B.V.
+frogans	gTLD			OP3FT
+frontdoor	gTLD			Lifestyle Domain Holdings, Inc.
+frontier	gTLD			Frontier Communications Corporation
+ftr	gTLD			Frontier Communications Corporation
+fujitsu	gTLD			Fujitsu Limited
+fun	gTLD			Radix FZC
+fund	gTLD			Binky Moon, LLC
+furniture	gTLD			Binky Moon, LLC
+futbol	gTLD			Dog Beach, LLC
+fyi	gTLD			Binky Moon, LLC
+ga	ccTLD	GA		
+gal	gTLD			Asociación puntoGAL
+gallery	gTLD			Binky Moon, LLC
+gallo	gTLD			Gallo Vineyards, Inc.
+gallup	gTLD			Gallup, Inc.
+game	gTLD			XYZ.COM LLC
+games	gTLD			Dog Beach, LLC
+gap	gTLD			The Gap, Inc.
+garden	gTLD			Registry Services, LLC
+gay	gTLD			Top Level Design, LLC
+gb	ccTLD	GB		
+gbiz	gTLD			Charleston Road Registry Inc.
+gd	ccTLD	GD		
+gdn	gTLD			Joint Stock Company "Navigation-information systems"
+ge	ccTLD	GE		
+gea	gTLD			GEA Group Aktiengesellschaft
+gent	gTLD			Easyhost BV
+genting	gTLD			Resorts World Inc Pte. Ltd.
+george	gTLD			Wal-Mart Stores, Inc.
+gf	ccTLD	GF		
+gg	ccTLD	GG		
+ggee	gTLD			GMO Internet, Inc.
+gh	ccTLD	GH		
+gi	ccTLD	GI		
+gift	gTLD			DotGift, LLC
+gifts	gTLD			Binky Moon, LLC
+gives	gTLD			Public Interest Registry
+giving	gTLD			Public Interest Registry
+gl	ccTLD	GL		
+glass	gTLD			Binky Moon, LLC
+gle	gTLD			Charleston Road Registry Inc.
+global	gTLD			Dot Global Domain Registry Limited
+globo	gTLD			Globo Comunicação e Participações S.A
+gm	ccTLD	GM		
+gmail	gTLD			Charleston Road Registry Inc.
+gmbh	gTLD			Binky Moon, LLC
+gmo	gTLD			GMO Internet, Inc.
+gmx	gTLD			1&1 Mail & Media GmbH
+gn	ccTLD	GN		
+godaddy	gTLD			Go Daddy East, LLC
+gold	gTLD			Binky Moon, LLC
+goldpoint	gTLD			YODOBASHI CAMERA CO.,LTD.
+golf	gTLD			Binky Moon, LLC
+goo	gTLD			NTT Resonant Inc.
+goodyear	gTLD			The Goodyear Tire & Rubber Company
+goog	gTLD			Charleston Road Registry Inc.
+google	gTLD			Charleston Road Registry Inc.
+gop	gTLD			Republican State Leadership Committee, Inc.
+got	gTLD			Amazon Registry Services, Inc.
+gov	sTLD		1985-01-01	Cybersecurity and Infrastructure Security Agency
+gp	ccTLD	GP		
+gq	ccTLD	GQ		
+gr	ccTLD	GR		
+grainger	gTLD			Grainger Registry Services, LLC
+graphics	gTLD			Binky Moon, LLC
+gratis	gTLD			Binky Moon, LLC
+green	gTLD			Identity Digital Limited
+gripe	gTLD			Binky Moon, LLC
+grocery	gTLD			Wal-Mart Stores, Inc.
+group	gTLD			Binky Moon, LLC
+gs	ccTLD	GS		
+gt	ccTLD	GT		
+gu	ccTLD	GU		
+guardian	gTLD			The Guardian Life Insurance Company of America
+gucci	gTLD			Guccio Gucci S.p.a.
+guge	gTLD			Charleston Road Registry Inc.
+guide	gTLD			Binky Moon, LLC
+guitars	gTLD			XYZ.COM LLC
+guru	gTLD			Binky Moon, LLC
+gw	ccTLD	GW		
+gy	ccTLD	GY		
+hair	gTLD			XYZ.COM LLC
+hamburg	gTLD			Hamburg Top-Level-Domain GmbH
+hangout	gTLD			Charleston Road Registry Inc.
+haus	gTLD			Dog Beach, LLC
+hbo	gTLD			HBO Registry Services, Inc.
+hdfc	gTLD			HOUSING DEVELOPMENT FINANCE CORPORATION LIMITED
+hdfcbank	gTLD			HDFC Bank Limited
+health	gTLD			DotHealth, LLC
+healthcare	gTLD			Binky Moon, LLC
+help	gTLD			Innovation service Limited
+helsinki	gTLD			City of Helsinki
+here	gTLD			Charleston Road Registry Inc.
+hermes	gTLD			HERMES INTERNATIONAL
+hgtv	gTLD			Lifestyle Domain Holdings, Inc.
+hiphop	gTLD			Dot Hip Hop, LLC
+hisamitsu	gTLD			Hisamitsu Pharmaceutical Co.,Inc.
+hitachi	gTLD			Hitachi, Ltd.
+hiv	gTLD			Internet Naming Company LLC
+hk	ccTLD	HK		
+hkt	gTLD			PCCW-HKT DataCom Services Limited
+hm	ccTLD	HM		
+hn	ccTLD	HN		
+hockey	gTLD			Binky Moon, LLC
+holdings	gTLD			Binky Moon, LLC
+holiday	gTLD			Binky Moon, LLC
+homedepot	gTLD			Home Depot Product Authority, LLC
+homegoods	gTLD			The TJX Companies, Inc.
+homes	gTLD			XYZ.COM LLC
+homesense	gTLD			The TJX Companies, Inc.
+honda	gTLD			Honda Motor Co., Ltd.
+horse	gTLD			Registry Services, LLC
+hospital	gTLD			Binky Moon, LLC
+host	gTLD			Radix FZC
+hosting	gTLD			XYZ.COM LLC
+hot	gTLD			Amazon Registry Services, Inc.
+hoteles	gTLD			Travel Reservations SRL
+hotels	gTLD			Booking.com B.V.
+hotmail	gTLD			Microsoft Corporation
+house	gTLD			Binky Moon, LLC
+how	gTLD			Charleston Road Registry Inc.
+hr	ccTLD	HR		
+hsbc	gTLD			HSBC Global Services (UK) Limited
+ht	ccTLD	HT		
+hu	ccTLD	HU		
+hughes	gTLD			Hughes Satellite Systems Corporation
+hyatt	gTLD			Hyatt GTLD, L.L.C.
+hyundai	gTLD			Hyundai Motor Company
+ibm	gTLD			International Business Machines Corporation
+icbc	gTLD			Industrial and Commercial Bank of China Limited
+ice	gTLD			IntercontinentalExchange, Inc.
+icu	gTLD			ShortDot SA
+id	ccTLD	ID		
+ie	ccTLD	IE		
+ieee	gTLD			IEEE Global LLC
+ifm	gTLD			ifm electronic gmbh
+ikano	gTLD			Ikano S.A.
+il	ccTLD	IL		
+im	ccTLD	IM		
+imamat	gTLD			Fondation Aga Khan (Aga Khan Foundation)
+imdb	gTLD			Amazon Registry Services, Inc.
+immo	gTLD			Binky Moon, LLC
+immobilien	gTLD			Dog Beach, LLC
+in	ccTLD	IN		
+inc	gTLD			Intercap Registry Inc.
+industries	gTLD			Binky Moon, LLC
+infiniti	gTLD			NISSAN MOTOR CO., LTD.
+info	gTLD			Identity Digital Limited
+ing	gTLD			Charleston Road Registry Inc.
+ink	gTLD			Top Level Design, LLC
+institute	gTLD			Binky Moon, LLC
+insurance	gTLD			fTLD Registry Services LLC
+insure	gTLD			Binky Moon, LLC
+int	sTLD		1988-11-03	Internet Assigned Numbers Authority
+international	gTLD			Binky Moon, LLC
+intuit	gTLD			Intuit Administrative Services, Inc.
+investments	gTLD			Binky Moon, LLC
+io	ccTLD	IO		
+ipiranga	gTLD			Ipiranga Produtos de Petroleo S.A.
+iq	ccTLD	IQ		
+ir	ccTLD	IR		
+irish	gTLD			Binky Moon, LLC
+is	ccTLD	IS		
+ismaili	gTLD			Fondation Aga Khan (Aga Khan Foundation)
+ist	gTLD			Istanbul Metropolitan Municipality
+istanbul	gTLD			Istanbul Metropolitan Municipality
+it	ccTLD	IT		
+itau	gTLD			Itau Unibanco Holding S.A.
+itv	gTLD			ITV Services Limited
+jaguar	gTLD			Jaguar Land Rover Ltd
+java	gTLD			Oracle Corporation
+jcb	gTLD			JCB Co., Ltd.
+je	ccTLD	JE		
+jeep	gTLD			FCA US LLC.
+jetzt	gTLD			Binky Moon, LLC
+jewelry	gTLD			Binky Moon, LLC
+jio	gTLD			Reliance Industries Limited
+jll	gTLD			Jones Lang LaSalle Incorporated
+jmp	gTLD			Matrix IP LLC
+jnj	gTLD			Johnson & Johnson Services, Inc.
+jo	ccTLD	JO		
+jobs	sTLD			Employ Media LLC
+joburg	gTLD			ZA Central Registry NPC trading as ZA Central Registry
+jot	gTLD			Amazon Registry Services, Inc.
+joy	gTLD			Amazon Registry Services, Inc.
+jp	ccTLD	JP		
+jpmorgan	gTLD			JPMorgan Chase Bank, National Association
+jprs	gTLD			Japan Registry Services Co., Ltd.
+juegos	gTLD			Internet Naming Company LLC
+juniper	gTLD			JUNIPER NETWORKS, INC.
+kaufen	gTLD			Dog Beach, LLC
+kddi	gTLD			KDDI CORPORATION
+ke	ccTLD	KE		
+kerryhotels	gTLD			Kerry Trading Co. Limited
+kerrylogistics	gTLD			Kerry Trading Co. Limited
+kerryproperties	gTLD			Kerry Trading Co. Limited
+kfh	gTLD			Kuwait Finance House
+kg	ccTLD	KG		
+ki	ccTLD	KI		
+kia	gTLD			KIA MOTORS CORPORATION
+kids	gTLD			DotKids Foundation Limited
+kim	gTLD			Identity Digital Limited
+kinder	gTLD			Ferrero Trading Lux S.A.
+kindle	gTLD			Amazon Registry Services, Inc.
+kitchen	gTLD			Binky Moon, LLC
+kiwi	gTLD			DOT KIWI LIMITED
+km	ccTLD	KM		
+kn	ccTLD	KN		
+koeln	gTLD			dotKoeln GmbH
+komatsu	gTLD			Komatsu Ltd.
+kosher	gTLD			Kosher Marketing Assets LLC
+kp	ccTLD	KP		
+kpmg	gTLD			KPMG International Cooperative (KPMG International Genossenschaft)
+kpn	gTLD			Koninklijke KPN N.V.
+kr	ccTLD	KR		
+krd	gTLD			KRG Department of Information Technology
+kred	gTLD			KredTLD Pty Ltd
+kuokgroup	gTLD			Kerry Trading Co. Limited
+kw	ccTLD	KW		
+ky	ccTLD	KY		
+kyoto	gTLD			Academic Institution: Kyoto Jyoho Gakuen
+kz	ccTLD	KZ		
+la	ccTLD	LA		
+lacaixa	gTLD			Fundación Bancaria Caixa d’Estalvis i Pensions de Barcelona, “la Caixa”
+lamborghini	gTLD			Automobili Lamborghini S.p.A.
+lamer	gTLD			The Estée Lauder Companies Inc.
+lancaster	gTLD			LANCASTER
+lancia	gTLD			Fiat Chrysler Automobiles N.V.
+land	gTLD			Binky Moon, LLC
+landrover	gTLD			Jaguar Land Rover Ltd
+lanxess	gTLD			LANXESS Corporation
+lasalle	gTLD			Jones Lang LaSalle Incorporated
+lat	gTLD			XYZ.COM LLC
+latino	gTLD			Dish DBS Corporation
+latrobe	gTLD			La Trobe University
+law	gTLD			Registry Services, LLC
+lawyer	gTLD			Dog Beach, LLC
+lb	ccTLD	LB		
+lc	ccTLD	LC		
+lds	gTLD			IRI Domain Management, LLC
+lease	gTLD			Binky Moon, LLC
+leclerc	gTLD			A.C.D. LEC Association des Centres Distributeurs Edouard Leclerc
+lefrak	gTLD			LeFrak Organization, Inc.
+legal	gTLD			Binky Moon, LLC
+lego	gTLD			LEGO Juris A/S
+lexus	gTLD			TOYOTA MOTOR CORPORATION
+lgbt	gTLD			Identity Digital Limited
+li	ccTLD	LI		
+lidl	gTLD			Schwarz Domains und Services GmbH & Co. KG
+life	gTLD			Binky Moon, LLC
+lifeinsurance	gTLD			American Council of Life Insurers
+lifestyle	gTLD			Lifestyle Domain Holdings, Inc.
+lighting	gTLD			Binky Moon, LLC
+like	gTLD			Amazon Registry Services, Inc.
+lilly	gTLD			Eli Lilly and Company
+limited	gTLD			Binky Moon, LLC
+limo	gTLD			Binky Moon, LLC
+lincoln	gTLD			Ford Motor Company
+linde	gTLD			Linde Aktiengesellschaft
+link	gTLD			Nova Registry Ltd
+lipsy	gTLD			Lipsy Ltd
+live	gTLD			Dog Beach, LLC
+living	gTLD			Lifestyle Domain Holdings, Inc.
+lk	ccTLD	LK		
+llc	gTLD			Identity Digital Limited
+llp	gTLD			Intercap Registry Inc.
+loan	gTLD			dot Loan Limited
+loans	gTLD			Binky Moon, LLC
+locker	gTLD			Dish DBS Corporation
+locus	gTLD			Locus Analytics LLC
+lol	gTLD			XYZ.COM LLC
+london	gTLD			Dot London Domains Limited
+lotte	gTLD			Lotte Holdings Co., Ltd.
+lotto	gTLD			Identity Digital Limited
+love	gTLD			Merchant Law Group LLP
+lpl	gTLD			LPL Holdings, Inc.
+lplfinancial	gTLD			LPL Holdings, Inc.
+lr	ccTLD	LR		
+ls	ccTLD	LS		
+lt	ccTLD	LT		
+ltd	gTLD			Binky Moon, LLC
+ltda	gTLD			InterNetX, Corp
+lu	ccTLD	LU		
+lundbeck	gTLD			H. Lundbeck A/S
+luxe	gTLD			Registry Services, LLC
+luxury	gTLD			Luxury Partners, LLC
+lv	ccTLD	LV		
+ly	ccTLD	LY		
+ma	ccTLD	MA		
+macys	gTLD			Macys, Inc.
+madrid	gTLD			Comunidad de Madrid
+maif	gTLD			Mutuelle Assurance Instituteur France (MAIF)
+maison	gTLD			Binky Moon, LLC
+makeup	gTLD			XYZ.COM LLC
+man	gTLD			MAN SE
+management	gTLD			Binky Moon, LLC
+mango	gTLD			PUNTO FA S.L.
+map	gTLD			Charleston Road Registry Inc.
+market	gTLD			Dog Beach, LLC
+marketing	gTLD			Binky Moon, LLC
+markets	gTLD			Dog Beach, LLC
+marriott	gTLD			Marriott Worldwide Corporation
+marshalls	gTLD			The TJX Companies, Inc.
+maserati	gTLD			Fiat Chrysler Automobiles N.V.
+mattel	gTLD			Mattel Sites, Inc.
+mba	gTLD			Binky Moon, LLC
+mc	ccTLD	MC		
+mckinsey	gTLD			McKinsey Holdings, Inc.
+md	ccTLD	MD		
+me	ccTLD	ME		
+med	gTLD			Medistry LLC
+media	gTLD			Binky Moon, LLC
+meet	gTLD			Charleston Road Registry Inc.
+melbourne	gTLD			The Crown in right of the State of Victoria, represented by its Department of State Development, Business and Innovation
+meme	gTLD			Charleston Road Registry Inc.
+memorial	gTLD			Dog Beach, LLC
+men	gTLD			Exclusive Registry Limited
+menu	gTLD			Dot Menu Registry, LLC
+merckmsd	gTLD			MSD Registry Holdings, Inc.
+mg	ccTLD	MG		
+mh	ccTLD	MH		
+miami	gTLD			Registry Services, LLC
+microsoft	gTLD			Microsoft Corporation
+mil	sTLD		1985-01-01	DoD Network Information Center
+mini	gTLD			Bayerische Motoren Werke Aktiengesellschaft
+mint	gTLD			Intuit Administrative Services, Inc.
+mit	gTLD			Massachusetts Institute of Technology
+mitsubishi	gTLD			Mitsubishi Corporation
+mk	ccTLD	MK		
+ml	ccTLD	ML		
+mlb	gTLD			MLB Advanced Media DH, LLC
+mls	gTLD			The Canadian Real Estate Association
+mma	gTLD			MMA IARD
+mn	ccTLD	MN		
+mo	ccTLD	MO		
+mobi	gTLD			Identity Digital Limited
+mobile	gTLD			Dish DBS Corporation
+moda	gTLD			Dog Beach, LLC
+moe	gTLD			Interlink Systems Innovation Institute K.K.
+moi	gTLD			Amazon Registry Services, Inc.
+mom	gTLD			XYZ.COM LLC
+monash	gTLD			Monash University
+money	gTLD			Binky Moon, LLC
+monster	gTLD			XYZ.COM LLC
+mormon	gTLD			IRI Domain Management, LLC
+mortgage	gTLD			Dog Beach, LLC
+moscow	gTLD			Foundation for Assistance for Internet Technologies and Infrastructure Development (FAITID)
+moto	gTLD			Motorola Trademark Holdings, LLC
+motorcycles	gTLD			XYZ.COM LLC
+mov	gTLD			Charleston Road Registry Inc.
+movie	gTLD			Binky Moon, LLC
+mp	ccTLD	MP		
+mq	ccTLD	MQ		
+mr	ccTLD	MR		
+ms	ccTLD	MS		
+msd	gTLD			MSD Registry Holdings, Inc.
+mt	ccTLD	MT		
+mtn	gTLD			MTN Dubai Limited
+mtr	gTLD			MTR Corporation Limited
+mu	ccTLD	MU		
+museum	sTLD			Museum Domain Management Association
+music	gTLD			DotMusic Limited
+mutual	gTLD			Northwestern Mutual MU TLD Registry, LLC
+mv	ccTLD	MV		
+mw	ccTLD	MW		
+mx	ccTLD	MX		
+my	ccTLD	MY		
+mz	ccTLD	MZ		
+na	ccTLD	NA		
+nab	gTLD			National Australia Bank Limited
+nagoya	gTLD			GMO Registry, Inc.
+name	gTLD			VeriSign Information Services, Inc.
+natura	gTLD			NATURA COSMÉTICOS S.A.
+navy	gTLD			Dog Beach, LLC
+nba	gTLD			NBA REGISTRY, LLC
+nc	ccTLD	NC		
+ne	ccTLD	NE		
+nec	gTLD			NEC Corporation
+net	gTLD		1985-01-01	VeriSign Global Registry Services
+netbank	gTLD			COMMONWEALTH BANK OF AUSTRALIA
+netflix	gTLD			Netflix, Inc.
+network	gTLD			Binky Moon, LLC
+neustar	gTLD			NeuStar, Inc.
+new	gTLD			Charleston Road Registry Inc.
+news	gTLD			Dog Beach, LLC
+next	gTLD			Next plc
+nextdirect	gTLD			Next plc
+nexus	gTLD			Charleston Road Registry Inc.
+nf	ccTLD	NF		
+nfl	gTLD			NFL Reg Ops LLC
+ng	ccTLD	NG		
+ngo	gTLD			Public Interest Registry
+nhk	gTLD			Japan Broadcasting Corporation (NHK)
+ni	ccTLD	NI		
+nico	gTLD			DWANGO Co., Ltd.
+nike	gTLD			NIKE, Inc.
+nikon	gTLD			NIKON CORPORATION
+ninja	gTLD			Dog Beach, LLC
+nissan	gTLD			NISSAN MOTOR CO., LTD.
+nissay	gTLD			Nippon Life Insurance Company
+nl	ccTLD	NL		
+no	ccTLD	NO		
+nokia	gTLD			Nokia Corporation
+northwesternmutual	gTLD			Northwestern Mutual Registry, LLC
+norton	gTLD			NortonLifeLock Inc.
+now	gTLD			Amazon Registry Services, Inc.
+nowruz	gTLD			Asia Green IT System Bilgisayar San. ve Tic. Ltd. Sti.
+nowtv	gTLD			Starbucks (HK) Limited
+nr	ccTLD	NR		
+nra	gTLD			NRA Holdings Company, INC.
+nrw	gTLD			Minds + Machines GmbH
+ntt	gTLD			NIPPON TELEGRAPH AND TELEPHONE CORPORATION
+nu	ccTLD	NU		
+nyc	gTLD			The City of New York by and through the New York City Department of Information Technology & Telecommunications
+nz	ccTLD	NZ		
+obi	gTLD			OBI Group Holding SE & Co. KGaA
+observer	gTLD			Dog Beach, LLC
+office	gTLD			Microsoft Corporation
+okinawa	gTLD			BRregistry, Inc.
+olayan	gTLD			Crescent Holding GmbH
+olayangroup	gTLD			Crescent Holding GmbH
+oldnavy	gTLD			The Gap, Inc.
+ollo	gTLD			Dish DBS Corporation
+om	ccTLD	OM		
+omega	gTLD			The Swatch Group Ltd
+one	gTLD			One.com A/S
+ong	gTLD			Public Interest Registry
+onl	gTLD			iRegistry GmbH
+online	gTLD			Radix FZC
+ooo	gTLD			INFIBEAM AVENUES LIMITED
+open	gTLD			American Express Travel Related Services Company, Inc.
+oracle	gTLD			Oracle Corporation
+orange	gTLD			Orange Brand Services Limited
+org	gTLD		1985-01-01	Public Interest Registry (PIR)
+organic	gTLD			Identity Digital Limited
+origins	gTLD			The Estée Lauder Companies Inc.
+osaka	gTLD			Osaka Registry Co., Ltd.
+otsuka	gTLD			Otsuka Holdings Co., Ltd.
+ott	gTLD			Dish DBS Corporation
+ovh	gTLD			MédiaBC
+pa	ccTLD	PA		
+page	gTLD			Charleston Road Registry Inc.
+panasonic	gTLD			Panasonic Corporation
+paris	gTLD			City of Paris
+pars	gTLD			Asia Green IT System Bilgisayar San. ve Tic. Ltd. Sti.
+partners	gTLD			Binky Moon, LLC
+parts	gTLD			Binky Moon, LLC
+party	gTLD			Blue Sky Registry Limited
+passagens	gTLD			Travel Reservations SRL
+pay	gTLD			Amazon Registry Services, Inc.
+pccw	gTLD			PCCW Enterprises Limited
+pe	ccTLD	PE		
+pet	gTLD			Identity Digital Limited
+pf	ccTLD	PF		
+pfizer	gTLD			Pfizer Inc.
+ph	ccTLD	PH		
+pharmacy	gTLD			National Association of Boards of Pharmacy
+phd	gTLD			Charleston Road Registry Inc.
+philips	gTLD			Koninklijke Philips N.V.
+phone	gTLD			Dish DBS Corporation
+photo	gTLD			Registry Services, LLC
+photography	gTLD			Binky Moon, LLC
+photos	gTLD			Binky Moon, LLC
+physio	gTLD			PhysBiz Pty Ltd
+pics	gTLD			XYZ.COM LLC
+pictet	gTLD			Pictet Europe S.A.
+pictures	gTLD			Binky Moon, LLC
+pid	gTLD			Top Level Spectrum, Inc.
+pin	gTLD			Amazon Registry Services, Inc.
+ping	gTLD			Ping Registry Provider, Inc.
+pink	gTLD			Identity Digital Limited
+pioneer	gTLD			Pioneer Corporation
+pizza	gTLD			Binky Moon, LLC
+pk	ccTLD	PK		
+pl	ccTLD	PL		
+place	gTLD			Binky Moon, LLC
+play	gTLD			Charleston Road Registry Inc.
+playstation	gTLD			Sony Interactive Entertainment Inc.
+plumbing	gTLD			Binky Moon, LLC
+plus	gTLD			Binky Moon, LLC
+pm	ccTLD	PM		
+pn	ccTLD	PN		
+pnc	gTLD			PNC Domain Co., LLC
+pohl	gTLD			Deutsche Vermögensberatung Aktiengesellschaft DVAG
+poker	gTLD			Identity Digital Limited
+politie	gTLD			Politie Nederland
+porn	gTLD			ICM Registry PN LLC
+post	sTLD			Universal Postal Union
+pr	ccTLD	PR		
+pramerica	gTLD			Prudential Financial, Inc.
+praxi	gTLD			Praxi S.p.A.
+press	gTLD			Radix FZC
+prime	gTLD			Amazon Registry Services, Inc.
+pro	gTLD			Identity Digital Limited
+prod	gTLD			Charleston Road Registry Inc.
+productions	gTLD			Binky Moon, LLC
+prof	gTLD			Charleston Road Registry Inc.
+progressive	gTLD			Progressive Casualty Insurance Company
+promo	gTLD			Identity Digital Limited
+properties	gTLD			Binky Moon, LLC
+property	gTLD			Internet Naming Company LLC
+protection	gTLD			XYZ.COM LLC
+pru	gTLD			Prudential Financial, Inc.
+prudential	gTLD			Prudential Financial, Inc.
+ps	ccTLD	PS		
+pt	ccTLD	PT		
+pub	gTLD			Dog Beach, LLC
+pw	ccTLD	PW		
+pwc	gTLD			PricewaterhouseCoopers LLP
+py	ccTLD	PY		
+qa	ccTLD	QA		
+qpon	gTLD			dotCOOL, Inc.
+quebec	gTLD			PointQuébec Inc
+quest	gTLD			XYZ.COM LLC
+racing	gTLD			Premier Registry Limited
+radio	gTLD			European Broadcasting Union (EBU)
+re	ccTLD	RE		
+read	gTLD			Amazon Registry Services, Inc.
+realestate	gTLD			dotRealEstate LLC
+realtor	gTLD			Real Estate Domains LLC
+realty	gTLD			Dog Beach, LLC
+recipes	gTLD			Binky Moon, LLC
+red	gTLD			Identity Digital Limited
+redstone	gTLD			Redstone Haute Couture Co., Ltd.
+redumbrella	gTLD			Travelers TLD, LLC
+rehab	gTLD			Dog Beach, LLC
+reise	gTLD			Binky Moon, LLC
+reisen	gTLD			Binky Moon, LLC
+reit	gTLD			National Association of Real Estate Investment Trusts, Inc.
+reliance	gTLD			Reliance Industries Limited
+ren	gTLD			ZDNS International Limited
+rent	gTLD			XYZ.COM LLC
+rentals	gTLD			Binky Moon, LLC
+repair	gTLD			Binky Moon, LLC
+report	gTLD			Binky Moon, LLC
+republican	gTLD			Dog Beach, LLC
+rest	gTLD			Punto 2012 Sociedad Anonima Promotora de Inversion de Capital Variable
+restaurant	gTLD			Binky Moon, LLC
+review	gTLD			dot Review Limited
+reviews	gTLD			Dog Beach, LLC
+rexroth	gTLD			Robert Bosch GMBH
+rich	gTLD			iRegistry GmbH
+richardli	gTLD			Pacific Century Asset Management (HK) Limited
+ricoh	gTLD			Ricoh Company, Ltd.
+ril	gTLD			Reliance Industries Limited
+rio	gTLD			Empresa Municipal de Informática SA - IPLANRIO
+rip	gTLD			Dog Beach, LLC
+ro	ccTLD	RO		
+rocher	gTLD			Ferrero Trading Lux S.A.
+rocks	gTLD			Dog Beach, LLC
+rodeo	gTLD			Registry Services, LLC
+rogers	gTLD			Rogers Communications Canada Inc.
+room	gTLD			Amazon Registry Services, Inc.
+rs	ccTLD	RS		
+rsvp	gTLD			Charleston Road Registry Inc.
+ru	ccTLD	RU		
+rugby	gTLD			World Rugby Strategic Developments Limited
+ruhr	gTLD			dotSaarland GmbH
+run	gTLD			Binky Moon, LLC
+rw	ccTLD	RW		
+rwe	gTLD			RWE AG
+ryukyu	gTLD			BRregistry, Inc.
+sa	ccTLD	SA		
+saarland	gTLD			dotSaarland GmbH
+safe	gTLD			Amazon Registry Services, Inc.
+safety	gTLD			Safety Registry Services, LLC.
+sakura	gTLD			SAKURA Internet Inc.
+sale	gTLD			Dog Beach, LLC
+salon	gTLD			Binky Moon, LLC
+samsclub	gTLD			Wal-Mart Stores, Inc.
+samsung	gTLD			SAMSUNG SDS CO., LTD
+sandvik	gTLD			Sandvik AB
+sandvikcoromant	gTLD			Sandvik AB
+sanofi	gTLD			Sanofi
+sap	gTLD			SAP AG
+sarl	gTLD			Binky Moon, LLC
+sas	gTLD			Research IP LLC
+save	gTLD			Amazon Registry Services, Inc.
+saxo	gTLD			Saxo Bank A/S
+sb	ccTLD	SB		
+sbi	gTLD			STATE BANK OF INDIA
+sbs	gTLD			ShortDot SA
+sc	ccTLD	SC		
+sca	gTLD			SVENSKA CELLULOSA AKTIEBOLAGET SCA (publ)
+scb	gTLD			The Siam Commercial Bank Public Company Limited ("SCB")
+schaeffler	gTLD			Schaeffler Technologies AG & Co. KG
+schmidt	gTLD			SCHMIDT GROUPE S.A.S.
+scholarships	gTLD			Scholarships.com, LLC
+school	gTLD			Binky Moon, LLC
+schule	gTLD			Binky Moon, LLC
+schwarz	gTLD			Schwarz Domains und Services GmbH & Co. KG
+science	gTLD			dot Science Limited
+scot	gTLD			Dot Scot Registry Limited
+sd	ccTLD	SD		
+se	ccTLD	SE		
+search	gTLD			Charleston Road Registry Inc.
+seat	gTLD			SEAT, S.A. (Sociedad Unipersonal)
+secure	gTLD			Amazon Registry Services, Inc.
+security	gTLD			XYZ.COM LLC
+seek	gTLD			Seek Limited
+select	gTLD			Registry Services, LLC
+sener	gTLD			Sener Ingeniería y Sistemas, S.A.
+services	gTLD			Binky Moon, LLC
+seven	gTLD			Seven West Media Ltd
+sew	gTLD			SEW-EURODRIVE GmbH & Co KG
+sex	gTLD			ICM Registry SX LLC
+sexy	gTLD			Internet Naming Company LLC
+sfr	gTLD			Societe Francaise du Radiotelephone - SFR
+sg	ccTLD	SG		
+sh	ccTLD	SH		
+shangrila	gTLD			Shangri‐La International Hotel Management Limited
+sharp	gTLD			Sharp Corporation
+shaw	gTLD			Shaw Cablesystems G.P.
+shell	gTLD			Shell Information Technology International Inc
+shia	gTLD			Asia Green IT System Bilgisayar San. ve Tic. Ltd. Sti.
+shiksha	gTLD			Identity Digital Limited
+shoes	gTLD			Binky Moon, LLC
+shop	gTLD			GMO Registry, Inc.
+shopping	gTLD			Binky Moon, LLC
+shouji	gTLD			Beijing Qihu Keji Co., Ltd.
+show	gTLD			Binky Moon, LLC
+showtime	gTLD			CBS Domains Inc.
+si	ccTLD	SI		
+silk	gTLD			Amazon Registry Services, Inc.
+sina	gTLD			Sina Corporation
+singles	gTLD			Binky Moon, LLC
+site	gTLD			Radix FZC
+sj	ccTLD	SJ		
+sk	ccTLD	SK		
+ski	gTLD			Identity Digital Limited
+skin	gTLD			XYZ.COM LLC
+sky	gTLD			Sky International AG
+skype	gTLD			Microsoft Corporation
+sl	ccTLD	SL		
+sling	gTLD			DISH Technologies L.L.C.
+sm	ccTLD	SM		
+smart	gTLD			Smart Communications, Inc. (SMART)
+smile	gTLD			Amazon Registry Services, Inc.
+sn	ccTLD	SN		
+sncf	gTLD			Société Nationale SNCF
+so	ccTLD	SO		
+soccer	gTLD			Binky Moon, LLC
+social	gTLD			Dog Beach, LLC
+softbank	gTLD			SoftBank Group Corp.
+software	gTLD			Dog Beach, LLC
+sohu	gTLD			Sohu.com Limited
+solar	gTLD			Binky Moon, LLC
+solutions	gTLD			Binky Moon, LLC
+song	gTLD			Amazon Registry Services, Inc.
+sony	gTLD			Sony Corporation
+soy	gTLD			Charleston Road Registry Inc.
+spa	gTLD			Asia Spa and Wellness Promotion Council Limited
+space	gTLD			Radix FZC
+sport	gTLD			Global Association of International Sports Federations (GAISF)
+spot	gTLD			Amazon Registry Services, Inc.
+sr	ccTLD	SR		
+srl	gTLD			InterNetX, Corp
+ss	ccTLD	SS		
+st	ccTLD	ST		
+stada	gTLD			STADA Arzneimittel AG
+staples	gTLD			Staples, Inc.
+star	gTLD			Star India Private Limited
+statebank	gTLD			STATE BANK OF INDIA
+statefarm	gTLD			State Farm Mutual Automobile Insurance Company
+stc	gTLD			Saudi Telecom Company
+stcgroup	gTLD			Saudi Telecom Company
+stockholm	gTLD			Stockholms kommun
+storage	gTLD			XYZ.COM LLC
+store	gTLD			Radix FZC
+stream	gTLD			dot Stream Limited
+studio	gTLD			Dog Beach, LLC
+study	gTLD			Registry Services, LLC
+style	gTLD			Binky Moon, LLC
+su	ccTLD	SU		
+sucks	gTLD			Vox Populi Registry Ltd.
+supplies	gTLD			Binky Moon, LLC
+supply	gTLD			Binky Moon, LLC
+support	gTLD			Binky Moon, LLC
+surf	gTLD			Registry Services, LLC
+surgery	gTLD			Binky Moon, LLC
+suzuki	gTLD			SUZUKI MOTOR CORPORATION
+sv	ccTLD	SV		
+swatch	gTLD			The Swatch Group Ltd
+swiss	gTLD			Swiss Confederation
+sx	ccTLD	SX		
+sy	ccTLD	SY		
+sydney	gTLD			State of New South Wales, Department of Premier and Cabinet
+systems	gTLD			Binky Moon, LLC
+sz	ccTLD	SZ		
+tab	gTLD			Tabcorp Holdings Limited
+taipei	gTLD			Taipei City Government
+talk	gTLD			Amazon Registry Services, Inc.
+taobao	gTLD			Alibaba Group Holding Limited
+target	gTLD			Target Domain Holdings, LLC
+tatamotors	gTLD			Tata Motors Ltd
+tatar	gTLD			Limited Liability Company "Coordination Center of Regional Domain of Tatarstan Republic"
+tattoo	gTLD			Top Level Design, LLC
+tax	gTLD			Binky Moon, LLC
+taxi	gTLD			Binky Moon, LLC
+tc	ccTLD	TC		
+tci	gTLD			Asia Green IT System Bilgisayar San. ve Tic. Ltd. Sti.
+td	ccTLD	TD		
+tdk	gTLD			TDK Corporation
+team	gTLD			Binky Moon, LLC
+tech	gTLD			Radix FZC
+technology	gTLD			Binky Moon, LLC
+tel	sTLD			Telnames Ltd.
+temasek	gTLD			Temasek Holdings (Private) Limited
+tennis	gTLD			Binky Moon, LLC
+teva	gTLD			Teva Pharmaceutical Industries Limited
+tf	ccTLD	TF		
+tg	ccTLD	TG		
+th	ccTLD	TH		
+thd	gTLD			Home Depot Product Authority, LLC
+theater	gTLD			Binky Moon, LLC
+theatre	gTLD			XYZ.COM LLC
+tiaa	gTLD			Teachers Insurance and Annuity Association of America
+tickets	gTLD			XYZ.COM LLC
+tienda	gTLD			Binky Moon, LLC
+tiffany	gTLD			Tiffany and Company
+tips	gTLD			Binky Moon, LLC
+tires	gTLD			Binky Moon, LLC
+tirol	gTLD			punkt Tirol GmbH
+tj	ccTLD	TJ		
+tjmaxx	gTLD			The TJX Companies, Inc.
+tjx	gTLD			The TJX Companies, Inc.
+tk	ccTLD	TK		
+tkmaxx	gTLD			The TJX Companies, Inc.
+tl	ccTLD	TL		
+tm	ccTLD	TM		
+tmall	gTLD			Alibaba Group Holding Limited
+tn	ccTLD	TN		
+to	ccTLD	TO		
+today	gTLD			Binky Moon, LLC
+tokyo	gTLD			GMO Registry, Inc.
+tools	gTLD			Binky Moon, LLC
+top	gTLD			.TOP Registry
+toray	gTLD			Toray Industries, Inc.
+toshiba	gTLD			TOSHIBA Corporation
+total	gTLD			TotalEnergies SE
+tours	gTLD			Binky Moon, LLC
+town	gTLD			Binky Moon, LLC
+toyota	gTLD			TOYOTA MOTOR CORPORATION
+toys	gTLD			Binky Moon, LLC
+tr	ccTLD	TR		
+trade	gTLD			Elite Registry Limited
+trading	gTLD			Dog Beach, LLC
+training	gTLD			Binky Moon, LLC
+travel	gTLD			Dog Beach, LLC
+travelchannel	gTLD			Lifestyle Domain Holdings, Inc.
+travelers	gTLD			Travelers TLD, LLC
+travelersinsurance	gTLD			Travelers TLD, LLC
+trust	gTLD			Internet Naming Company LLC
+trv	gTLD			Travelers TLD, LLC
+tt	ccTLD	TT		
+tube	gTLD			Latin American Telecom LLC
+tui	gTLD			TUI AG
+tunes	gTLD			Amazon Registry Services, Inc.
+tushu	gTLD			Amazon Registry Services, Inc.
+tv	ccTLD	TV		
+tvs	gTLD			T V SUNDRAM IYENGAR  & SONS LIMITED
+tw	ccTLD	TW		
+tz	ccTLD	TZ		
+ua	ccTLD	UA		
+ubank	gTLD			National Australia Bank Limited
+ubs	gTLD			UBS AG
+ug	ccTLD	UG		
+uk	ccTLD	GB		
+unicom	gTLD			China United Network Communications Corporation Limited
+university	gTLD			Binky Moon, LLC
+uno	gTLD			Radix FZC
+uol	gTLD			UBN INTERNET LTDA.
+ups	gTLD			UPS Market Driver, Inc.
+us	ccTLD	US		
+uy	ccTLD	UY		
+uz	ccTLD	UZ		
+va	ccTLD	VA		
+vacations	gTLD			Binky Moon, LLC
+vana	gTLD			Lifestyle Domain Holdings, Inc.
+vanguard	gTLD			The Vanguard Group, Inc.
+vc	ccTLD	VC		
+ve	ccTLD	VE		
+vegas	gTLD			Dot Vegas, Inc.
+ventures	gTLD			Binky Moon, LLC
+verisign	gTLD			VeriSign, Inc.
+versicherung	gTLD			tldbox GmbH
+vet	gTLD			Dog Beach, LLC
+vg	ccTLD	VG		
+vi	ccTLD	VI		
+viajes	gTLD			Binky Moon, LLC
+video	gTLD			Dog Beach, LLC
+vig	gTLD			VIENNA INSURANCE GROUP AG Wiener Versicherung Gruppe
+viking	gTLD			Viking River Cruises (Bermuda) Ltd.
+villas	gTLD			Binky Moon, LLC
+vin	gTLD			Binky Moon, LLC
+vip	gTLD			Registry Services, LLC
+virgin	gTLD			Virgin Enterprises Limited
+visa	gTLD			Visa Worldwide Pte. Limited
+vision	gTLD			Binky Moon, LLC
+viva	gTLD			Saudi Telecom Company
+vivo	gTLD			Telefonica Brasil S.A.
+vlaanderen	gTLD			DNS.be vzw
+vn	ccTLD	VN		
+vodka	gTLD			Registry Services, LLC
+volkswagen	gTLD			Volkswagen Group of America Inc.
+volvo	gTLD			Volvo Holding Sverige Aktiebolag
+vote	gTLD			Monolith Registry LLC
+voting	gTLD			Valuetainment Corp.
+voto	gTLD			Monolith Registry LLC
+voyage	gTLD			Binky Moon, LLC
+vu	ccTLD	VU		
+vuelos	gTLD			Travel Reservations SRL
+wales	gTLD			Nominet UK
+walmart	gTLD			Wal-Mart Stores, Inc.
+walter	gTLD			Sandvik AB
+wang	gTLD			Zodiac Wang Limited
+wanggou	gTLD			Amazon Registry Services, Inc.
+watch	gTLD			Binky Moon, LLC
+watches	gTLD			Identity Digital Limited
+weather	gTLD			International Business Machines Corporation
+weatherchannel	gTLD			International Business Machines Corporation
+webcam	gTLD			dot Webcam Limited
+weber	gTLD			Saint-Gobain Weber SA
+website	gTLD			Radix FZC
+wedding	gTLD			Registry Services, LLC
+weibo	gTLD			Sina Corporation
+weir	gTLD			Weir Group IP Limited
+wf	ccTLD	WF		
+whoswho	gTLD			Who's Who Registry
+wien	gTLD			punkt.wien GmbH
+wiki	gTLD			Top Level Design, LLC
+williamhill	gTLD			William Hill Organization Limited
+win	gTLD			First Registry Limited
+windows	gTLD			Microsoft Corporation
+wine	gTLD			Binky Moon, LLC
+winners	gTLD			The TJX Companies, Inc.
+wme	gTLD			William Morris Endeavor Entertainment, LLC
+wolterskluwer	gTLD			Wolters Kluwer N.V.
+woodside	gTLD			Woodside Petroleum Limited
+work	gTLD			Registry Services, LLC
+works	gTLD			Binky Moon, LLC
+world	gTLD			Binky Moon, LLC
+wow	gTLD			Amazon Registry Services, Inc.
+ws	ccTLD	WS		
+wtc	gTLD			World Trade Centers Association, Inc.
+wtf	gTLD			Binky Moon, LLC
+xbox	gTLD			Microsoft Corporation
+xerox	gTLD			Xerox DNHC LLC
+xfinity	gTLD			Comcast IP Holdings I, LLC
+xihuan	gTLD			Beijing Qihu Keji Co., Ltd.
+xin	gTLD			Elegant Leader Limited
+xn--11b4c3d	gTLD			VeriSign Sarl
+xn--1ck2e1b	gTLD			Amazon Registry Services, Inc.
+xn--1qqw23a	gTLD			Guangzhou YU Wei Information Technology Co., Ltd.
+xn--2scrj9c	ccTLD	IN		
+xn--30rr7y	gTLD			Excellent First Limited
+xn--3bst00m	gTLD			Eagle Horizon Limited
+xn--3ds443g	gTLD			TLD REGISTRY LIMITED OY
+xn--3e0b707e	ccTLD	KR		
+xn--3hcrj9c	ccTLD	IN		
+xn--3pxu8k	gTLD			VeriSign Sarl
+xn--42c2d9a	gTLD			VeriSign Sarl
+xn--45br5cyl	ccTLD	IN		
+xn--45brj9c	ccTLD	IN		
+xn--45q11c	gTLD			Zodiac Gemini Ltd
+xn--4dbrk0ce	ccTLD	IL		
+xn--4gbrim	gTLD			Helium TLDs Ltd
+xn--54b7fta0cc	ccTLD	BD		
+xn--55qw42g	gTLD			China Organizational Name Administration Center
+xn--55qx5d	gTLD			China Internet Network Information Center (CNNIC)
+xn--5su34j936bgsg	gTLD			Shangri‐La International Hotel Management Limited
+xn--5tzm5g	gTLD			Global Website TLD Asia Limited
+xn--6frz82g	gTLD			Identity Digital Limited
+xn--6qq986b3xl	gTLD			Tycoon Treasure Limited
+xn--80adxhks	gTLD			Foundation for Assistance for Internet Technologies and Infrastructure Development (FAITID)
+xn--80ao21a	ccTLD	KZ		
+xn--80aqecdr1a	gTLD			Pontificium Consilium de Comunicationibus Socialibus (PCCS) (Pontifical Council for Social Communication)
+xn--80asehdb	gTLD			CORE Association
+xn--80aswg	gTLD			CORE Association
+xn--8y0a063a	gTLD			China United Network Communications Corporation Limited
+xn--90a3ac	ccTLD	RS		
+xn--90ae	ccTLD	BG		
+xn--90ais	ccTLD	BY		
+xn--9dbq2a	gTLD			VeriSign Sarl
+xn--9et52u	gTLD			RISE VICTORY LIMITED
+xn--9krt00a	gTLD			Sina Corporation
+xn--b4w605ferd	gTLD			Temasek Holdings (Private) Limited
+xn--bck1b9a5dre4c	gTLD			Amazon Registry Services, Inc.
+xn--c1avg	gTLD			Public Interest Registry
+xn--c2br7g	gTLD			VeriSign Sarl
+xn--cck2b3b	gTLD			Amazon Registry Services, Inc.
+xn--cckwcxetd	gTLD			Amazon Registry Services, Inc.
+xn--cg4bki	gTLD			SAMSUNG SDS CO., LTD
+xn--clchc0ea0b2g2a9gcd	ccTLD	SG		
+xn--czr694b	gTLD			Internet DotTrademark Organisation Limited
+xn--czrs0t	gTLD			Binky Moon, LLC
+xn--czru2d	gTLD			Zodiac Aquarius Limited
+xn--d1acj3b	gTLD			The Foundation for Network Initiatives “The Smart Internet”
+xn--d1alf	ccTLD	MK		
+xn--e1a4c	ccTLD	EU		
+xn--eckvdtc9d	gTLD			Amazon Registry Services, Inc.
+xn--efvy88h	gTLD			Guangzhou YU Wei Information Technology Co., Ltd.
+xn--fct429k	gTLD			Amazon Registry Services, Inc.
+xn--fhbei	gTLD			VeriSign Sarl
+xn--fiq228c5hs	gTLD			TLD REGISTRY LIMITED OY
+xn--fiq64b	gTLD			CITIC Group Corporation
+xn--fiqs8s	ccTLD	CN		
+xn--fiqz9s	ccTLD	CN		
+xn--fjq720a	gTLD			Binky Moon, LLC
+xn--flw351e	gTLD			Charleston Road Registry Inc.
+xn--fpcrj9c3d	ccTLD	IN		
+xn--fzc2c9e2c	ccTLD	LK		
+xn--fzys8d69uvgm	gTLD			PCCW Enterprises Limited
+xn--g2xx48c	gTLD			Nawang Heli(Xiamen) Network Service Co., LTD.
+xn--gckr3f0f	gTLD			Amazon Registry Services, Inc.
+xn--gecrj9c	ccTLD	IN		
+xn--gk3at1e	gTLD			Amazon Registry Services, Inc.
+xn--h2breg3eve	ccTLD	IN		
+xn--h2brj9c	ccTLD	IN		
+xn--h2brj9c8c	ccTLD	IN		
+xn--hxt814e	gTLD			Zodiac Taurus Limited
+xn--i1b6b1a6a2e	gTLD			Public Interest Registry
+xn--imr513n	gTLD			Internet DotTrademark Organisation Limited
+xn--io0a7i	gTLD			China Internet Network Information Center (CNNIC)
+xn--j1aef	gTLD			VeriSign Sarl
+xn--j1amh	ccTLD	UA		
+xn--j6w193g	ccTLD	HK		
+xn--jlq480n2rg	gTLD			Amazon Registry Services, Inc.
+xn--jvr189m	gTLD			Amazon Registry Services, Inc.
+xn--kcrx77d1x4a	gTLD			Koninklijke Philips N.V.
+xn--kprw13d	ccTLD	TW		
+xn--kpry57d	ccTLD	TW		
+xn--kput3i	gTLD			Beijing RITT-Net Technology Development Co., Ltd
+xn--l1acc	ccTLD	MN		
+xn--lgbbat1ad8j	ccTLD	DZ		
+xn--mgb2ddes	ccTLD	YE		
+xn--mgb9awbf	ccTLD	OM		
+xn--mgba3a3ejt	gTLD			Aramco Services Company
+xn--mgba3a4f16a	ccTLD	IR		
+xn--mgba3a4fra	ccTLD	IR		
+xn--mgba7c0bbn0a	gTLD			Crescent Holding GmbH
+xn--mgbaakc7dvf	gTLD			Emirates Telecommunications Corporation (trading as Etisalat)
+xn--mgbaam7a8h	ccTLD	AE		
+xn--mgbab2bd	gTLD			CORE Association
+xn--mgbah1a3hjkrd	ccTLD	MR		
+xn--mgbai9a5eva00b	ccTLD	PK		
+xn--mgbai9azgqp6j	ccTLD	PK		
+xn--mgbayh7gpa	ccTLD	JO		
+xn--mgbbh1a	ccTLD	IN		
+xn--mgbbh1a71e	ccTLD	IN		
+xn--mgbc0a9azcg	ccTLD	MA		
+xn--mgbca7dzdo	gTLD			Abu Dhabi Systems and Information Centre
+xn--mgbcpq6gpa1a	ccTLD	BH		
+xn--mgberp4a5d4a87g	ccTLD	SA		
+xn--mgberp4a5d4ar	ccTLD	SA		
+xn--mgbgu82a	ccTLD	IN		
+xn--mgbi4ecexp	gTLD			Pontificium Consilium de Comunicationibus Socialibus (PCCS) (Pontifical Council for Social Communication)
+xn--mgbpl2fh	ccTLD	SD		
+xn--mgbqly7c0a67fbc	ccTLD	SA		
+xn--mgbqly7cvafr	ccTLD	SA		
+xn--mgbt3dhd	gTLD			Asia Green IT System Bilgisayar San. ve Tic. Ltd. Sti.
+xn--mgbtf8fl	ccTLD	SY		
+xn--mgbtx2b	ccTLD	IQ		
+xn--mgbx4cd0ab	ccTLD	MY		
+xn--mix082f	ccTLD	MO		
+xn--mix891f	ccTLD	MO		
+xn--mk1bu44c	gTLD			VeriSign Sarl
+xn--mxtq1m	gTLD			Net-Chinese Co., Ltd.
+xn--ngbc5azd	gTLD			International Domain Registry Pty. Ltd.
+xn--ngbe9e0a	gTLD			Kuwait Finance House
+xn--ngbrx	gTLD			League of Arab States
+xn--nnx388a	ccTLD	TW		
+xn--node	ccTLD	GE		
+xn--nqv7f	gTLD			Public Interest Registry
+xn--nqv7fs00ema	gTLD			Public Interest Registry
+xn--nyqy26a	gTLD			Stable Tone Limited
+xn--o3cw4h	ccTLD	TH		
+xn--ogbpf8fl	ccTLD	SY		
+xn--otu796d	gTLD			Jiang Yu Liang Cai Technology Company Limited
+xn--p1acf	gTLD			Rusnames Limited
+xn--p1ai	ccTLD	RU		
+xn--pgbs0dh	ccTLD	TN		
+xn--pssy2u	gTLD			VeriSign Sarl
+xn--q7ce6a	ccTLD	LA		
+xn--q9jyb4c	gTLD			Charleston Road Registry Inc.
+xn--qcka1pmc	gTLD			Charleston Road Registry Inc.
+xn--qxa6a	ccTLD	EU		
+xn--qxam	ccTLD	GR		
+xn--rhqv96g	gTLD			Stable Tone Limited
+xn--rovu88b	gTLD			Amazon Registry Services, Inc.
+xn--rvc1e0am3e	ccTLD	IN		
+xn--s9brj9c	ccTLD	IN		
+xn--ses554g	gTLD			KNET Co., Ltd.
+xn--t60b56a	gTLD			VeriSign Sarl
+xn--tckwe	gTLD			VeriSign Sarl
+xn--tiq49xqyj	gTLD			Pontificium Consilium de Comunicationibus Socialibus (PCCS) (Pontifical Council for Social Communication)
+xn--unup4y	gTLD			Binky Moon, LLC
+xn--vermgensberater-ctb	gTLD			Deutsche Vermögensberatung Aktiengesellschaft DVAG
+xn--vermgensberatung-pwb	gTLD			Deutsche Vermögensberatung Aktiengesellschaft DVAG
+xn--vhquv	gTLD			Binky Moon, LLC
+xn--vuq861b	gTLD			Beijing Tele-info Network Technology Co., Ltd.
+xn--w4r85el8fhu5dnra	gTLD			Kerry Trading Co. Limited
+xn--w4rs40l	gTLD			Kerry Trading Co. Limited
+xn--wgbh1c	ccTLD	EG		
+xn--wgbl6a	ccTLD	QA		
+xn--xhq521b	gTLD			Guangzhou YU Wei Information Technology Co., Ltd.
+xn--xkc2al3hye2a	ccTLD	LK		
+xn--xkc2dl3a5ee0h	ccTLD	IN		
+xn--y9a3aq	ccTLD	AM		
+xn--yfro4i67o	ccTLD	SG		
+xn--ygbi2ammx	ccTLD	PS		
+xn--zfr164b	gTLD			China Organizational Name Administration Center
+xxx	sTLD			ICM Registry LLC
+xyz	gTLD			XYZ.COM LLC
+yachts	gTLD			XYZ.COM LLC
+yahoo	gTLD			Oath Inc.
+yamaxun	gTLD			Amazon Registry Services, Inc.
+yandex	gTLD			Yandex Europe B.V.
+ye	ccTLD	YE		
+yodobashi	gTLD			YODOBASHI CAMERA CO.,LTD.
+yoga	gTLD			Registry Services, LLC
+yokohama	gTLD			GMO Registry, Inc.
+you	gTLD			Amazon Registry Services, Inc.
+youtube	gTLD			Charleston Road Registry Inc.
+yt	ccTLD	YT		
+yun	gTLD			Beijing Qihu Keji Co., Ltd.
+zappos	gTLD			Amazon Registry Services, Inc.
+zara	gTLD			Industria de Diseño Textil, S.A. (INDITEX, S.A.)
+zero	gTLD			Amazon Registry Services, Inc.
+zip	gTLD			Charleston Road Registry Inc.
+zm	ccTLD	ZM		
+zone	gTLD			Binky Moon, LLC
+zuerich	gTLD			Kanton Zürich (Canton of Zurich)
+zw	ccTLD	ZW		`
+});
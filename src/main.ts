@@ -5,6 +5,15 @@ import { createPinia } from 'pinia'
 import App from './App.vue'
 import router from './router'
 import analyticsService from './services/analyticsService'
+import { startWatchListMonitoring } from './services/monitoringService'
+import { applyStoredDnsResolver } from './services/dnsResolverService'
+import { applyStoredPublicSuffixList } from './services/publicSuffixService'
+
+// Route DNS queries through the resolver chosen in the settings
+applyStoredDnsResolver()
+
+// Parse domains with the Public Suffix List updated from the settings, if any
+applyStoredPublicSuffixList()
 
 const app = createApp(App)
 
@@ -19,3 +28,10 @@ try {
 } catch (error) {
   console.warn('Analytics initialization failed:', error)
 }
+
+// Re-check watch-list domains in the background
+try {
+  startWatchListMonitoring()
+} catch (error) {
+  console.warn('Watch-list monitoring initialization failed:', error)
+}
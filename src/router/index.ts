@@ -2,6 +2,8 @@ import { createRouter, createWebHistory } from 'vue-router';
 import type { RouteRecordRaw } from 'vue-router';
 import SearchView from '@/views/SearchView.vue';
 import WatchListView from '@/views/WatchListView.vue';
+import BulkCheckView from '@/views/BulkCheckView.vue';
+import LookalikeView from '@/views/LookalikeView.vue';
 import ExtensionListView from '@/views/ExtensionListView.vue';
 import SettingsView from '@/views/SettingsView.vue';
 import Error404View from '@/views/Error404View.vue';
@@ -16,6 +18,8 @@ interface RouteTitle {
 const ROUTE_TITLES: RouteTitle = Object.freeze({
   'Search': 'DomainThings - Search Domains',
   'WatchList': 'DomainThings - Watch List', 
+  'BulkCheck': 'DomainThings - Bulk Check',
+  'Lookalikes': 'DomainThings - Look-alike Domains',
   'ExtensionList': 'DomainThings - TLD Extensions',
   'Settings': 'DomainThings - Settings',
   '404': 'DomainThings - Page Not Found'
@@ -44,6 +48,24 @@ const routes: readonly RouteRecordRaw[] = Object.freeze([
       description: 'Manage your bookmarked domains'
     }
   },
+  {
+    path: '/bulk',
+    name: 'BulkCheck',
+    component: BulkCheckView,
+    meta: {
+      title: 'Bulk Check',
+      description: 'Check the availability of a list of domains'
+    }
+  },
+  {
+    path: '/lookalikes',
+    name: 'Lookalikes',
+    component: LookalikeView,
+    meta: {
+      title: 'Look-alikes',
+      description: 'Find registered look-alikes of a brand domain'
+    }
+  },
   {
     path: '/extensions',
     name: 'ExtensionList',
@@ -4,7 +4,11 @@
  * Provides comprehensive background functionality for domain expiration monitoring:
  * - Asset precaching and offline support
  * - Background notification system
+ * - Availability checks for watched registered domains
+ * - Drop-catch lifecycle checks from RDAP status codes
+ * - Daily re-sync of expiration dates from RDAP
  * - Periodic sync for domain alerts
+ * - Background Sync of the domain checks queued while offline
  * - IndexedDB persistence
  * - Cross-tab communication
  * 
@@ -26,6 +30,41 @@ declare let self: ServiceWorkerGlobalScope;
 
 import { clientsClaim } from 'workbox-core';
 import { precacheAndRoute, cleanupOutdatedCaches } from 'workbox-precaching';
+import {
+  EXPIRATION_SYNC_CONFIG,
+  getAlertType,
+  getDueStages,
+  getAvailabilityCheckOutcome,
+  getExpirationSyncAction,
+  isReminderDue,
+  rescheduleAlertDates,
+  type AlertType,
+  type RdapLookupOutcome,
+  type ReminderFrequency
+} from './utils/alertUtil';
+import { DB_CONFIG, upgradeDatabase } from './services/dbSchema';
+import { fetchDns, getDomainAvailabilityStatus, setDnsConsensus, setDnsResolver } from './services/dnsService';
+import { fetchRdap } from './services/rdapService';
+import { createDomainCheckFromDns, createDomainCheckFromRdap, extractExpirationDate, type DomainCheckResult } from './utils/rdapUtil';
+import { OFFLINE_CONFIG, applyDomainCheck } from './utils/offlineUtil';
+import { PSL_CONFIG, applyPublicSuffixSnapshot } from './utils/pslUtil';
+import {
+  LIFECYCLE_PHASE_LABELS,
+  isDroppingPhase,
+  predictDomainLifecycle,
+  type DomainLifecyclePhase
+} from './utils/lifecycleUtil';
+import { DomainAvailabilityStatus, type DomainData } from './types';
+import type { PendingCheckSyncSummary, PendingDomainCheck } from './types/offline';
+import { DnsRecordType, DnsResponseStatus, type DnsConsensusSetting, type DnsResolverSetting } from './types/dns';
+import type { StoredPublicSuffixListSnapshot } from './types/psl';
+import {
+  DNS_CONSENSUS_SETTING_KEY,
+  DNS_RESOLVER_SETTING_KEY,
+  DEFAULT_DNS_RESOLVER,
+  resolveDnsConsensusSetting,
+  resolveDnsResolverSetting
+} from './utils/dohUtil';
 
 // TypeScript module export to avoid "not a module" errors
 export {};
@@ -36,11 +75,10 @@ export {};
  * Service Worker configuration constants
  */
 const SW_CONFIG = Object.freeze({
-  dbName: 'domaincheck-db',
-  dbVersion: 6,
-  alertStoreName: 'alerts',
+  alertStoreName: DB_CONFIG.stores.alerts,
   periodicSyncTag: 'check-domain-alerts',
   periodicSyncInterval: 12 * 60 * 60 * 1000, // 12 hours
+  registrationUrl: 'https://domains.cloudflare.com/?domain=',
   defaultIcon: '/icons/android-chrome-192x192.png',
   defaultBadge: '/icons/android-chrome-192x192.png'
 } as const);
@@ -48,9 +86,14 @@ const SW_CONFIG = Object.freeze({
 // ===== Types and Interfaces =====
 
 /**
- * Reminder frequency for alert notifications
+ * Alert stage interface for multi-stage schedules
  */
-type ReminderFrequency = 'once' | 'daily' | 'weekly';
+interface AlertStage {
+  readonly id: string;
+  readonly daysBeforeExpiration: number;
+  readonly alertDate: string; // ISO string in Service Worker
+  readonly lastNotified?: string;
+}
 
 /**
  * Alert settings interface for Service Worker
@@ -58,11 +101,22 @@ type ReminderFrequency = 'once' | 'daily' | 'weekly';
 interface AlertSettings {
   readonly id: string;
   readonly domain: string;
+  readonly type?: AlertType;
   readonly alertDate: string; // ISO string in Service Worker
   readonly reminderFrequency: ReminderFrequency;
   readonly expirationDate: string; // ISO string in Service Worker
   readonly createdAt: string;
   readonly lastNotified?: string;
+  readonly stages?: readonly AlertStage[];
+  readonly lastRdapSync?: string;
+  readonly renewalDetectedAt?: string;
+  readonly previousExpirationDate?: string;
+  readonly rdapNotFoundCount?: number;
+  readonly rdapNotFoundSince?: string;
+  readonly staleSince?: string;
+  readonly lastAvailability?: DomainAvailabilityStatus;
+  readonly availabilityCheckedAt?: string; // last live check (availability and lifecycle alerts)
+  readonly lastLifecyclePhase?: DomainLifecyclePhase;
 }
 
 
@@ -75,7 +129,9 @@ enum ServiceWorkerMessageType {
   SHOW_NOTIFICATION = 'SHOW_NOTIFICATION',
   SYNC_ALERTS = 'SYNC_ALERTS',
   CHECK_NOTIFICATIONS = 'CHECK_NOTIFICATIONS',
-  NAVIGATE_TO_DOMAIN = 'NAVIGATE_TO_DOMAIN'
+  NAVIGATE_TO_DOMAIN = 'NAVIGATE_TO_DOMAIN',
+  SYNC_PENDING_CHECKS = 'SYNC_PENDING_CHECKS',
+  PENDING_CHECKS_SYNCED = 'PENDING_CHECKS_SYNCED'
 }
 
 /**
@@ -87,6 +143,7 @@ interface ServiceWorkerMessage {
   readonly payload?: NotificationPayload;
   readonly alerts?: readonly AlertSettings[];
   readonly domain?: string;
+  readonly summary?: PendingCheckSyncSummary;
 }
 
 /**
@@ -140,13 +197,23 @@ interface DatabaseResult<T = unknown> {
 // ===== Database Operations =====
 
 /**
- * Initialize IndexedDB with proper error handling and schema management
+ * Open database connection shared by all worker operations
+ */
+let dbConnection: Promise<IDBDatabase> | null = null;
+
+/**
+ * Initialize IndexedDB with the schema shared with the page
  */
 const initializeDatabase = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(SW_CONFIG.dbName, SW_CONFIG.dbVersion);
+  if (dbConnection) {
+    return dbConnection;
+  }
+  
+  dbConnection = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_CONFIG.name, DB_CONFIG.version);
     
     request.onerror = () => {
+      dbConnection = null;
       const error = new ServiceWorkerError(
         'Failed to open IndexedDB',
         'DB_OPEN_FAILED',
@@ -157,39 +224,27 @@ const initializeDatabase = (): Promise<IDBDatabase> => {
       reject(error);
     };
     
-    request.onsuccess = () => {
-      console.info('IndexedDB initialized successfully');
-      resolve(request.result);
+    request.onblocked = () => {
+      console.warn('Database upgrade blocked by another connection');
     };
     
-    request.onupgradeneeded = (event) => {
+    request.onsuccess = () => {
       const db = request.result;
-      const oldVersion = event.oldVersion;
       
-      console.info(`Upgrading database from version ${oldVersion} to ${SW_CONFIG.dbVersion}`);
+      // Never hold back an upgrade started by a newer page or worker
+      db.onversionchange = () => {
+        console.info('Database version change requested, closing worker connection');
+        db.close();
+        dbConnection = null;
+      };
       
+      console.info('IndexedDB initialized successfully');
+      resolve(db);
+    };
+    
+    request.onupgradeneeded = (event) => {
       try {
-        // Create alerts store if it doesn't exist
-        if (!db.objectStoreNames.contains(SW_CONFIG.alertStoreName)) {
-          const alertStore = db.createObjectStore(SW_CONFIG.alertStoreName, { 
-            keyPath: 'id' 
-          });
-          
-          // Create indexes for efficient querying
-          alertStore.createIndex('domain', 'domain', { unique: false });
-          alertStore.createIndex('enabled', 'enabled', { unique: false });
-          alertStore.createIndex('expirationDate', 'expirationDate', { unique: false });
-          alertStore.createIndex('lastNotified', 'lastNotified', { unique: false });
-          
-          console.info('Alert store created with indexes');
-        }
-        
-        // Add version-specific migrations here if needed
-        if (oldVersion < 6) {
-          // Migration logic for version 6
-          console.info('Applied migration for version 6');
-        }
-        
+        upgradeDatabase(request.result, request.transaction!, event.oldVersion, event.newVersion ?? DB_CONFIG.version);
       } catch (error) {
         const dbError = new ServiceWorkerError(
           'Database schema upgrade failed',
@@ -198,10 +253,12 @@ const initializeDatabase = (): Promise<IDBDatabase> => {
           error instanceof Error ? error : new Error(String(error))
         );
         console.error('Database upgrade failed:', dbError);
-        reject(dbError);
+        request.transaction?.abort();
       }
     };
   });
+  
+  return dbConnection;
 };
 
 /**
@@ -332,6 +389,105 @@ const saveAlertToDB = async (alert: AlertSettings): Promise<DatabaseResult<void>
   }
 };
 
+/**
+ * Load a setting value written by the page with saveSetting
+ */
+const loadSettingFromDB = async <T>(key: string): Promise<DatabaseResult<T | undefined>> => {
+  try {
+    const db = await initializeDatabase();
+    
+    return new Promise((resolve) => {
+      const transaction = db.transaction([DB_CONFIG.stores.settings], 'readonly');
+      const getRequest = transaction.objectStore(DB_CONFIG.stores.settings).get(key);
+      
+      getRequest.onsuccess = () => {
+        resolve({
+          success: true,
+          data: getRequest.result?.value
+        });
+      };
+      
+      getRequest.onerror = () => {
+        const error = new ServiceWorkerError(
+          `Failed to load setting: ${key}`,
+          'DB_LOAD_FAILED',
+          'loadSettingFromDB',
+          getRequest.error || undefined
+        );
+        console.error('Load setting failed:', error);
+        resolve({
+          success: false,
+          error: error.message
+        });
+      };
+    });
+    
+  } catch (error) {
+    const dbError = new ServiceWorkerError(
+      'Database access failed during setting loading',
+      'DB_ACCESS_FAILED',
+      'loadSettingFromDB',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    console.error('Database access failed:', dbError);
+    return {
+      success: false,
+      error: dbError.message
+    };
+  }
+};
+
+/**
+ * Save a setting value readable by the page with getSetting
+ */
+const saveSettingToDB = (key: string, value: unknown): Promise<DatabaseResult<void>> => {
+  return runStoreRequest<void>(DB_CONFIG.stores.settings, 'readwrite', `save setting: ${key}`, store =>
+    store.put({ key, value, lastUpdated: Date.now() })
+  );
+};
+
+/**
+ * Keep the state checked by the worker when the page sends an older copy
+ * 
+ * Covers the availability and lifecycle checks and the expiration re-sync.
+ */
+const mergeWorkerState = (incoming: AlertSettings, existing?: AlertSettings): AlertSettings => {
+  if (!existing) {
+    return incoming;
+  }
+  
+  const isOlder = (incomingTime?: string, existingTime?: string): boolean =>
+    Boolean(existingTime) && (!incomingTime || incomingTime < existingTime!);
+  
+  const checked: AlertSettings = isOlder(incoming.availabilityCheckedAt, existing.availabilityCheckedAt)
+    ? {
+        ...incoming,
+        lastAvailability: existing.lastAvailability,
+        availabilityCheckedAt: existing.availabilityCheckedAt,
+        lastLifecyclePhase: existing.lastLifecyclePhase,
+        lastNotified: existing.lastNotified ?? incoming.lastNotified
+      }
+    : incoming;
+  
+  if (!isOlder(incoming.lastRdapSync, existing.lastRdapSync)) {
+    return checked;
+  }
+  
+  return {
+    ...checked,
+    alertDate: existing.alertDate,
+    expirationDate: existing.expirationDate,
+    lastNotified: existing.lastNotified,
+    stages: existing.stages,
+    lastRdapSync: existing.lastRdapSync,
+    renewalDetectedAt: existing.renewalDetectedAt,
+    previousExpirationDate: existing.previousExpirationDate,
+    rdapNotFoundCount: existing.rdapNotFoundCount,
+    rdapNotFoundSince: existing.rdapNotFoundSince,
+    staleSince: existing.staleSince
+  };
+};
+
 /**
  * Synchronize alerts from main thread to IndexedDB
  */
@@ -339,6 +495,10 @@ const syncAlertsToIndexedDB = async (alerts: readonly AlertSettings[]): Promise<
   try {
     const db = await initializeDatabase();
     
+    // State written by the worker must survive a sync of older copies from the page
+    const existingResult = await loadAlertsFromDB();
+    const existingAlerts = new Map((existingResult.data ?? []).map(alert => [alert.id, alert]));
+    
     return new Promise((resolve) => {
       const transaction = db.transaction([SW_CONFIG.alertStoreName], 'readwrite');
       const store = transaction.objectStore(SW_CONFIG.alertStoreName);
@@ -376,12 +536,24 @@ const syncAlertsToIndexedDB = async (alerts: readonly AlertSettings[]): Promise<
           
           const normalizedAlert: AlertSettings = {
             ...alert,
+            alertDate: normalizeDate(alert.alertDate) || alert.alertDate,
             expirationDate: normalizeDate(alert.expirationDate) || alert.expirationDate,
             createdAt: normalizeDate(alert.createdAt) || alert.createdAt,
-            lastNotified: normalizeDate(alert.lastNotified)
+            lastNotified: normalizeDate(alert.lastNotified),
+            stages: alert.stages?.map(stage => ({
+              ...stage,
+              alertDate: normalizeDate(stage.alertDate) || stage.alertDate,
+              lastNotified: normalizeDate(stage.lastNotified)
+            })),
+            lastRdapSync: normalizeDate(alert.lastRdapSync),
+            renewalDetectedAt: normalizeDate(alert.renewalDetectedAt),
+            previousExpirationDate: normalizeDate(alert.previousExpirationDate),
+            rdapNotFoundSince: normalizeDate(alert.rdapNotFoundSince),
+            staleSince: normalizeDate(alert.staleSince),
+            availabilityCheckedAt: normalizeDate(alert.availabilityCheckedAt)
           };
           
-          const putRequest = store.put(normalizedAlert);
+          const putRequest = store.put(mergeWorkerState(normalizedAlert, existingAlerts.get(alert.id)));
           putRequest.onsuccess = checkCompletion;
           putRequest.onerror = () => {
             console.error('Failed to sync alert: %s', alert.domain, putRequest.error);
@@ -434,33 +606,110 @@ const syncAlertsToIndexedDB = async (alerts: readonly AlertSettings[]): Promise<
   }
 };
 
+/**
+ * Run a single request against an object store
+ */
+const runStoreRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: string,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<DatabaseResult<T>> => {
+  try {
+    const db = await initializeDatabase();
+    
+    return new Promise((resolve) => {
+      const request = run(db.transaction([storeName], mode).objectStore(storeName));
+      
+      request.onsuccess = () => {
+        resolve({
+          success: true,
+          data: request.result
+        });
+      };
+      
+      request.onerror = () => {
+        const error = new ServiceWorkerError(
+          `Failed to ${operation}`,
+          'DB_REQUEST_FAILED',
+          'runStoreRequest',
+          request.error || undefined
+        );
+        console.error('Store request failed:', error);
+        resolve({
+          success: false,
+          error: error.message
+        });
+      };
+    });
+    
+  } catch (error) {
+    const dbError = new ServiceWorkerError(
+      `Database access failed, unable to ${operation}`,
+      'DB_ACCESS_FAILED',
+      'runStoreRequest',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    console.error('Database access failed:', dbError);
+    return {
+      success: false,
+      error: dbError.message
+    };
+  }
+};
+
 // ===== Notification Logic =====
 
 /**
  * Determine if a notification should be sent for an alert
+ * 
+ * 'once' alerts fire a single time on their alert date, 'daily' and 'weekly'
+ * alerts keep firing on their cadence until the domain expiration date passes.
+ * Multi-stage alerts fire whenever one of their stages becomes due.
+ * Alerts of domains the registry no longer knows stay silent.
  */
 const shouldSendNotification = (alert: AlertSettings, now: Date): boolean => {
   try {
-    const alertDate = new Date(alert.alertDate);
-    
-    // Check if we've reached the alert date
-    if (now < alertDate) {
+    // Availability and lifecycle alerts depend on a live check, see checkAvailabilityAlert and checkLifecycleAlert
+    if (getAlertType(alert) !== 'expiration') {
       return false;
     }
     
-    // Check if already notified
-    if (alert.lastNotified) {
+    // The domain was dropped, there is no expiration left to remind of
+    if (alert.staleSince) {
       return false;
     }
     
-    return true;
+    if (alert.stages && alert.stages.length > 0) {
+      return getDueStages(alert, now).length > 0;
+    }
     
+    return isReminderDue(alert, now);
   } catch (error) {
     console.error(`Error evaluating notification for ${alert.domain}:`, error);
     return false;
   }
 };
 
+/**
+ * Mark an alert as notified, including every stage that became due
+ * 
+ * Stages missed while the Service Worker was asleep are marked together so
+ * that a single notification is shown for the most imminent one.
+ */
+const markAlertNotified = (alert: AlertSettings, now: Date): AlertSettings => {
+  const timestamp = now.toISOString();
+  const dueStageIds = new Set(getDueStages(alert, now).map(stage => stage.id));
+  
+  return {
+    ...alert,
+    lastNotified: timestamp,
+    stages: alert.stages?.map(stage => 
+      dueStageIds.has(stage.id) ? { ...stage, lastNotified: timestamp } : stage
+    )
+  };
+};
+
 /**
  * Send background notification for domain expiration
  */
@@ -510,12 +759,324 @@ const sendBackgroundNotification = async (alert: AlertSettings): Promise<void> =
   }
 };
 
+/**
+ * Send background notification for a watched domain that became available
+ */
+const sendAvailabilityNotification = async (alert: AlertSettings): Promise<void> => {
+  try {
+    const registrationUrl = `${SW_CONFIG.registrationUrl}${alert.domain}`;
+    
+    const notificationOptions: NotificationOptions & { actions?: NotificationAction[] } = {
+      body: `Domain ${alert.domain} is available for registration!`,
+      icon: SW_CONFIG.defaultIcon,
+      badge: SW_CONFIG.defaultBadge,
+      tag: `domain-available-${alert.domain}`,
+      data: {
+        domain: alert.domain,
+        alertId: alert.id,
+        type: 'availability',
+        registrationUrl,
+        timestamp: new Date().toISOString()
+      },
+      actions: [
+        { action: 'register', title: 'Register' },
+        { action: 'dismiss', title: 'Dismiss' }
+      ],
+      requireInteraction: true
+    };
+    
+    await self.registration.showNotification('🎉 Domain Available', notificationOptions);
+    console.info(`Availability notification sent for domain: ${alert.domain}`);
+    
+  } catch (error) {
+    const notificationError = new ServiceWorkerError(
+      `Failed to send availability notification for domain: ${alert.domain}`,
+      'NOTIFICATION_SEND_FAILED',
+      'sendAvailabilityNotification',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    console.error('Send notification failed:', notificationError);
+    throw notificationError;
+  }
+};
+
+/**
+ * Send background notification for a watched domain that entered a new drop-catch phase
+ */
+const sendLifecycleNotification = async (
+  alert: AlertSettings,
+  phase: DomainLifecyclePhase,
+  estimatedDropDate?: Date
+): Promise<void> => {
+  try {
+    const dropText = estimatedDropDate
+      ? ` Estimated drop: ${estimatedDropDate.toLocaleDateString()}.`
+      : '';
+    
+    const notificationOptions: NotificationOptions = {
+      body: `Domain ${alert.domain} entered ${LIFECYCLE_PHASE_LABELS[phase].toLowerCase()}.${dropText}`,
+      icon: SW_CONFIG.defaultIcon,
+      badge: SW_CONFIG.defaultBadge,
+      tag: `domain-lifecycle-${alert.domain}`,
+      data: {
+        domain: alert.domain,
+        alertId: alert.id,
+        type: 'lifecycle',
+        phase,
+        estimatedDropDate: estimatedDropDate?.toISOString(),
+        timestamp: new Date().toISOString()
+      },
+      requireInteraction: true
+    };
+    
+    await self.registration.showNotification('⏳ Domain Lifecycle Change', notificationOptions);
+    console.info(`Lifecycle notification sent for domain: ${alert.domain} (${phase})`);
+    
+  } catch (error) {
+    const notificationError = new ServiceWorkerError(
+      `Failed to send lifecycle notification for domain: ${alert.domain}`,
+      'NOTIFICATION_SEND_FAILED',
+      'sendLifecycleNotification',
+      error instanceof Error ? error : new Error(String(error))
+    );
+    console.error('Send notification failed:', notificationError);
+    throw notificationError;
+  }
+};
+
+/**
+ * Re-read the RDAP status codes of a watched domain and notify when it enters a new dropping phase
+ * 
+ * @returns The alert with its updated lifecycle state, and whether a notification was sent
+ */
+const checkLifecycleAlert = async (
+  alert: AlertSettings,
+  now: Date
+): Promise<{ alert: AlertSettings; notified: boolean }> => {
+  const rdapResult = await fetchRdap(alert.domain);
+  const checkedAlert: AlertSettings = { ...alert, availabilityCheckedAt: now.toISOString() };
+  
+  // Without RDAP data the phase cannot be read, keep the last known one
+  if (!rdapResult.success || !rdapResult.data) {
+    return { alert: checkedAlert, notified: false };
+  }
+  
+  const expirationDate = extractExpirationDate(rdapResult.data);
+  const { phase, estimatedDropDate } = predictDomainLifecycle(rdapResult.data.status ?? [], expirationDate, now);
+  const enteredPhase = phase !== alert.lastLifecyclePhase && isDroppingPhase(phase);
+  
+  if (enteredPhase) {
+    await sendLifecycleNotification(alert, phase, estimatedDropDate);
+  }
+  
+  return {
+    alert: {
+      ...checkedAlert,
+      expirationDate: expirationDate?.toISOString() ?? alert.expirationDate,
+      lastLifecyclePhase: phase,
+      lastNotified: enteredPhase ? now.toISOString() : alert.lastNotified
+    },
+    notified: enteredPhase
+  };
+};
+
+/**
+ * Re-check the availability of a watched domain and notify when it flips to available
+ * 
+ * A domain DNS reports available is only confirmed once RDAP no longer knows it,
+ * so domains in redemption or pending delete do not notify early.
+ * 
+ * @returns The alert with its updated availability state, and whether a notification was sent
+ */
+const checkAvailabilityAlert = async (
+  alert: AlertSettings,
+  now: Date
+): Promise<{ alert: AlertSettings; notified: boolean }> => {
+  const dnsStatus = await getDomainAvailabilityStatus(alert.domain);
+  const checkedAlert: AlertSettings = { ...alert, availabilityCheckedAt: now.toISOString() };
+  
+  let rdapLookup: RdapLookupOutcome | undefined;
+  let lifecyclePhase = alert.lastLifecyclePhase;
+  if (dnsStatus === DomainAvailabilityStatus.AVAILABLE) {
+    const rdapResult = await fetchRdap(alert.domain);
+    rdapLookup = rdapResult.success && rdapResult.data
+      ? 'found'
+      : rdapResult.status === 404 ? 'not-found' : 'failed';
+    
+    if (rdapResult.data) {
+      lifecyclePhase = predictDomainLifecycle(
+        rdapResult.data.status ?? [],
+        extractExpirationDate(rdapResult.data),
+        now
+      ).phase;
+    }
+  }
+  
+  const { status, notify } = getAvailabilityCheckOutcome(dnsStatus, rdapLookup, alert.lastAvailability);
+  
+  // Inconclusive checks keep the last known status
+  if (status === DomainAvailabilityStatus.UNKNOWN) {
+    return { alert: checkedAlert, notified: false };
+  }
+  
+  if (notify) {
+    await sendAvailabilityNotification(alert);
+  }
+  
+  return {
+    alert: {
+      ...checkedAlert,
+      lastAvailability: status,
+      lastLifecyclePhase: lifecyclePhase,
+      lastNotified: notify ? now.toISOString() : alert.lastNotified
+    },
+    notified: notify
+  };
+};
+
+/**
+ * Use the DNS resolver and consensus mode chosen in the settings for worker checks
+ */
+const applyDnsSettings = (): void => {
+  setDnsResolver(loadSettingFromDB<DnsResolverSetting>(DNS_RESOLVER_SETTING_KEY).then(result =>
+    resolveDnsResolverSetting(result.data).resolver ?? DEFAULT_DNS_RESOLVER
+  ));
+  setDnsConsensus(loadSettingFromDB<DnsConsensusSetting>(DNS_CONSENSUS_SETTING_KEY).then(result =>
+    resolveDnsConsensusSetting(result.data)
+  ));
+};
+
+/**
+ * Use the Public Suffix List updated from the settings, when newer than the bundled one
+ */
+const applyPublicSuffixList = async (): Promise<void> => {
+  const result = await loadSettingFromDB<StoredPublicSuffixListSnapshot>(PSL_CONFIG.SETTING_KEY);
+  applyPublicSuffixSnapshot(result.data);
+};
+
+/**
+ * Check whether DNS confirms that a domain does not exist
+ */
+const isNxdomain = async (domain: string): Promise<boolean> => {
+  const result = await fetchDns(domain, DnsRecordType.NS);
+  return result.success && result.data?.Status === DnsResponseStatus.NXDOMAIN;
+};
+
+/**
+ * Apply the outcome of an RDAP lookup to an expiration alert
+ * 
+ * Same rules as AlertService.syncExpirationDates: a new expiration date moves the
+ * schedule, a confirmed disappearance flags the alert stale.
+ */
+const applyExpirationSync = (
+  alert: AlertSettings,
+  action: 'update' | 'not-found' | 'stale',
+  expirationDate: Date | undefined,
+  now: Date
+): AlertSettings => {
+  const timestamp = now.toISOString();
+  
+  if (action !== 'update') {
+    return {
+      ...alert,
+      lastRdapSync: timestamp,
+      rdapNotFoundCount: (alert.rdapNotFoundCount ?? 0) + 1,
+      rdapNotFoundSince: alert.rdapNotFoundSince ?? timestamp,
+      staleSince: action === 'stale' ? alert.staleSince ?? timestamp : alert.staleSince
+    };
+  }
+  
+  const synced: AlertSettings = {
+    ...alert,
+    lastRdapSync: timestamp,
+    rdapNotFoundCount: undefined,
+    rdapNotFoundSince: undefined,
+    staleSince: undefined
+  };
+  
+  if (!expirationDate || expirationDate.getTime() === new Date(alert.expirationDate).getTime()) {
+    return synced;
+  }
+  
+  const { renewed, alertDate, stages } = rescheduleAlertDates(alert, expirationDate);
+  return {
+    ...synced,
+    alertDate: alertDate.toISOString(),
+    expirationDate: expirationDate.toISOString(),
+    lastNotified: renewed ? undefined : alert.lastNotified,
+    stages: stages?.map(stage => ({ ...stage, alertDate: stage.alertDate.toISOString() })),
+    renewalDetectedAt: renewed ? timestamp : alert.renewalDetectedAt,
+    previousExpirationDate: renewed ? alert.expirationDate : alert.previousExpirationDate
+  };
+};
+
+/**
+ * Re-query RDAP for the domains of expiration alerts, as the page does while it is open
+ * 
+ * Shares the last sync time with the page, so a domain is looked up at most once a day
+ * whichever side runs first.
+ * 
+ * @returns The alerts with their synced expiration dates
+ */
+const syncExpirationDates = async (alerts: readonly AlertSettings[], now: Date): Promise<AlertSettings[]> => {
+  const lastSyncResult = await loadSettingFromDB<number>(EXPIRATION_SYNC_CONFIG.settingKey);
+  if (!lastSyncResult.success || now.getTime() - (lastSyncResult.data ?? 0) < EXPIRATION_SYNC_CONFIG.intervalMs) {
+    return [...alerts];
+  }
+  
+  const synced = new Map(alerts.map(alert => [alert.id, alert]));
+  const alertsByDomain = new Map<string, AlertSettings[]>();
+  
+  // Availability and lifecycle alerts watch domains that are expected to disappear from RDAP
+  for (const alert of alerts.filter(alert => getAlertType(alert) === 'expiration')) {
+    alertsByDomain.set(alert.domain, [...(alertsByDomain.get(alert.domain) ?? []), alert]);
+  }
+  
+  // Domains are checked one after another to stay gentle with RDAP servers
+  for (const [domain, domainAlerts] of alertsByDomain) {
+    const rdapResult = await fetchRdap(domain);
+    const lookup: RdapLookupOutcome = rdapResult.success && rdapResult.data
+      ? 'found'
+      : rdapResult.status === 404 ? 'not-found' : 'failed';
+    
+    const action = getExpirationSyncAction(lookup, domainAlerts[0] ?? {}, {
+      isNxdomain: lookup === 'not-found' && await isNxdomain(domain),
+      now
+    });
+    if (action === 'failed') {
+      continue;
+    }
+    
+    const expirationDate = rdapResult.data ? extractExpirationDate(rdapResult.data) : undefined;
+    if (action === 'update' && (!expirationDate || isNaN(expirationDate.getTime()))) {
+      continue;
+    }
+    
+    for (const alert of domainAlerts) {
+      const syncedAlert = applyExpirationSync(alert, action, expirationDate, now);
+      const saveResult = await saveAlertToDB(syncedAlert);
+      
+      if (saveResult.success) {
+        synced.set(alert.id, syncedAlert);
+      } else {
+        console.warn(`Failed to save synced expiration for ${domain}:`, saveResult.error);
+      }
+    }
+  }
+  
+  await saveSettingToDB(EXPIRATION_SYNC_CONFIG.settingKey, now.getTime());
+  return [...synced.values()];
+};
+
 /**
  * Check all alerts and send due notifications
  */
 const checkAndSendNotifications = async (): Promise<void> => {
   console.info('Starting background notification check');
   
+  applyDnsSettings();
+  await applyPublicSuffixList();
+  
   try {
     const result = await loadAlertsFromDB();
     
@@ -524,21 +1085,33 @@ const checkAndSendNotifications = async (): Promise<void> => {
       return;
     }
     
-    const alerts = result.data;
     const now = new Date();
+    const alerts = await syncExpirationDates(result.data, now);
     let notificationsSent = 0;
     let errorsEncountered = 0;
     
     for (const alert of alerts) {
       try {
-        if (shouldSendNotification(alert, now)) {
+        const alertType = getAlertType(alert);
+        
+        if (alertType === 'availability' || alertType === 'lifecycle') {
+          const { alert: checkedAlert, notified } = alertType === 'availability'
+            ? await checkAvailabilityAlert(alert, now)
+            : await checkLifecycleAlert(alert, now);
+          
+          const saveResult = await saveAlertToDB(checkedAlert);
+          if (!saveResult.success) {
+            console.warn(`Failed to update ${alertType} state for ${alert.domain}:`, saveResult.error);
+          }
+          
+          if (notified) {
+            notificationsSent++;
+          }
+        } else if (shouldSendNotification(alert, now)) {
           await sendBackgroundNotification(alert);
           
           // Update last notified timestamp
-          const updatedAlert: AlertSettings = {
-            ...alert,
-            lastNotified: now.toISOString()
-          };
+          const updatedAlert = markAlertNotified(alert, now);
           
           const saveResult = await saveAlertToDB(updatedAlert);
           if (!saveResult.success) {
@@ -566,6 +1139,97 @@ const checkAndSendNotifications = async (): Promise<void> => {
   }
 };
 
+// ===== Offline Check Queue =====
+
+/**
+ * Check a queued domain with RDAP first and DNS second
+ * 
+ * @returns The check result, or null when neither source answered
+ */
+const checkPendingDomain = async (domain: string): Promise<DomainCheckResult | null> => {
+  const rdapResult = await fetchRdap(domain);
+  if (rdapResult.success && rdapResult.data) {
+    return createDomainCheckFromRdap(rdapResult.data);
+  }
+  
+  const status = await getDomainAvailabilityStatus(domain);
+  return status === DomainAvailabilityStatus.UNKNOWN ? null : createDomainCheckFromDns(status);
+};
+
+/**
+ * Run the domain checks queued while offline and refresh the stored watch-list records
+ */
+const processPendingChecks = async (): Promise<PendingCheckSyncSummary> => {
+  const pendingResult = await runStoreRequest<PendingDomainCheck[]>(
+    DB_CONFIG.stores.pendingChecks, 'readonly', 'load pending checks', store => store.getAll()
+  );
+  const pendingChecks = pendingResult.data ?? [];
+  const checked: string[] = [];
+  const remaining: string[] = [];
+  
+  if (pendingChecks.length > 0) {
+    applyDnsSettings();
+    await applyPublicSuffixList();
+  }
+  
+  for (const pendingCheck of pendingChecks) {
+    try {
+      const check = await checkPendingDomain(pendingCheck.domain);
+      
+      if (!check) {
+        // Checks that keep failing are dropped instead of retried forever
+        const attempts = pendingCheck.attempts + 1;
+        if (attempts >= OFFLINE_CONFIG.MAX_ATTEMPTS) {
+          await runStoreRequest(DB_CONFIG.stores.pendingChecks, 'readwrite', 'drop pending check', store => store.delete(pendingCheck.domain));
+        } else {
+          await runStoreRequest(DB_CONFIG.stores.pendingChecks, 'readwrite', 'update pending check', store => store.put({ ...pendingCheck, attempts }));
+          remaining.push(pendingCheck.domain);
+        }
+        continue;
+      }
+      
+      // Only watched domains are persisted, the others are re-checked when displayed
+      const recordResult = await runStoreRequest<DomainData | undefined>(
+        DB_CONFIG.stores.domains, 'readonly', 'load domain', store => store.get(pendingCheck.domain)
+      );
+      if (recordResult.data) {
+        await runStoreRequest(DB_CONFIG.stores.domains, 'readwrite', 'save domain', store =>
+          store.put(applyDomainCheck(recordResult.data!, check, new Date()))
+        );
+      }
+      
+      await runStoreRequest(DB_CONFIG.stores.pendingChecks, 'readwrite', 'remove pending check', store => store.delete(pendingCheck.domain));
+      checked.push(pendingCheck.domain);
+    } catch (error) {
+      remaining.push(pendingCheck.domain);
+      console.error(`Error running pending check for ${pendingCheck.domain}:`, error);
+    }
+  }
+  
+  const summary: PendingCheckSyncSummary = { checked, remaining };
+  if (pendingChecks.length > 0) {
+    console.info(`Pending checks synced: ${checked.length} checked, ${remaining.length} remaining`);
+    await notifyClientsPendingChecksSynced(summary);
+  }
+  return summary;
+};
+
+/**
+ * Run the pending checks from a Background Sync event
+ * 
+ * Rejecting lets the browser retry the sync later while checks remain.
+ */
+const syncPendingChecks = async (): Promise<void> => {
+  const summary = await processPendingChecks();
+  if (summary.remaining.length > 0) {
+    throw new ServiceWorkerError(
+      `${summary.remaining.length} pending checks could not be completed`,
+      'PENDING_CHECKS_INCOMPLETE',
+      'syncPendingChecks'
+    );
+  }
+};
+
 // ===== Background Sync Setup =====
 
 /**
@@ -625,6 +1289,25 @@ const notifyClientsReady = async (): Promise<void> => {
   }
 };
 
+/**
+ * Tell all clients which queued checks were run
+ */
+const notifyClientsPendingChecksSynced = async (summary: PendingCheckSyncSummary): Promise<void> => {
+  try {
+    const clients = await self.clients.matchAll({ includeUncontrolled: true });
+    const message: ServiceWorkerMessage = {
+      type: ServiceWorkerMessageType.PENDING_CHECKS_SYNCED,
+      summary
+    };
+    
+    clients.forEach(client => {
+      client.postMessage(message);
+    });
+  } catch (error) {
+    console.error('Failed to notify clients of synced checks:', error);
+  }
+};
+
 /**
  * Handle incoming messages from the main thread
  */
@@ -654,6 +1337,11 @@ const handleMessage = async (event: ExtendableMessageEvent): Promise<void> => {
         event.waitUntil(checkAndSendNotifications());
         break;
         
+      case ServiceWorkerMessageType.SYNC_PENDING_CHECKS:
+        // Fallback for browsers without Background Sync
+        event.waitUntil(processPendingChecks());
+        break;
+        
       default:
         console.debug('Unhandled message type:', data.type);
     }
@@ -725,6 +1413,14 @@ const handleNotificationClick = async (event: NotificationEvent): Promise<void>
       return;
     }
     
+    // Availability notifications lead straight to the registration page
+    const registrationUrl = event.notification.data?.registrationUrl as string | undefined;
+    if (registrationUrl && (action === 'register' || !action)) {
+      await self.clients.openWindow(registrationUrl);
+      console.info('Opened registration page for domain:', domain);
+      return;
+    }
+    
     // Default action or 'view' action
     const url = domain 
       ? `${self.location.origin}/?search=${encodeURIComponent(domain)}`
@@ -795,6 +1491,13 @@ self.addEventListener('periodicsync', (event: any) => {
   }
 });
 
+self.addEventListener('sync', (event: any) => {
+  if (event.tag === OFFLINE_CONFIG.SYNC_TAG) {
+    console.info('Background sync triggered for pending domain checks');
+    event.waitUntil(syncPendingChecks());
+  }
+});
+
 self.addEventListener('message', handleMessage);
 
 self.addEventListener('notificationclick', (event) => {
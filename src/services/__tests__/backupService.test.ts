@@ -0,0 +1,70 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import type { AlertRecord } from '../dbService'
+import { DB_CONFIG } from '../dbSchema'
+import { closeDb, getAllAlerts, saveAlert } from '../dbService'
+import { reloadAlerts } from '../alertService'
+import { restoreBackup } from '../backupService'
+import { createBackup } from '@/utils/backupUtil'
+
+vi.mock('../alertService', () => ({
+  reloadAlerts: vi.fn(async () => {})
+}))
+
+const alertRecord = (id: string, domain: string): AlertRecord => ({
+  id,
+  domain,
+  alertDate: '2025-06-01T00:00:00.000Z',
+  reminderFrequency: 'once',
+  expirationDate: '2025-07-01T00:00:00.000Z',
+  createdAt: '2025-01-01T00:00:00.000Z'
+})
+
+const backup = createBackup(
+  { domains: [], tlds: [], settings: [], alerts: [alertRecord('alert_backup', 'example.org')] },
+  [],
+  DB_CONFIG.version
+)
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory()
+    vi.mocked(reloadAlerts).mockClear()
+    const storage = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    })
+  })
+
+  afterEach(() => {
+    closeDb()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  test('reloads the alert service once the restored alerts are written', async () => {
+    await saveAlert(alertRecord('alert_local', 'example.com'))
+    let reloadedIds: string[] | undefined
+    vi.mocked(reloadAlerts).mockImplementationOnce(async () => {
+      reloadedIds = (await getAllAlerts()).data?.map(alert => alert.id)
+    })
+
+    const result = await restoreBackup(backup, 'replace')
+
+    expect(result.success).toBe(true)
+    expect(reloadAlerts).toHaveBeenCalledTimes(1)
+    expect(reloadedIds).toEqual(['alert_backup'])
+  })
+
+  test('reports the restore even when the alert service cannot reload', async () => {
+    vi.mocked(reloadAlerts).mockRejectedValueOnce(new Error('Service Worker unavailable'))
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const result = await restoreBackup(backup, 'merge')
+
+    expect(result.data?.stores.alerts.restored).toBe(1)
+    expect((await getAllAlerts()).data?.map(alert => alert.id)).toEqual(['alert_backup'])
+  })
+})
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest'
+import { DomainAvailabilityStatus } from '@/types'
+import { createBulkCheckQueue } from '../bulkCheckService'
+
+const dns = vi.hoisted(() => ({
+  getDomainAvailabilityStatus: vi.fn(),
+  getDomainInfrastructure: vi.fn()
+}))
+
+// RDAP never answers, so checkDomain falls back to the mocked DNS verdict
+vi.mock('../rdapService', () => ({ fetchRdap: vi.fn(async () => ({ success: false, error: 'not found' })) }))
+vi.mock('../dnsService', () => dns)
+
+/**
+ * DNS answers that the test resolves one by one
+ */
+const pending = new Map<string, (status: DomainAvailabilityStatus | Error) => void>()
+
+/**
+ * Lets the queue run until every started check waits for its DNS answer
+ */
+const flush = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0))
+
+const answer = async (domain: string, status: DomainAvailabilityStatus | Error): Promise<void> => {
+  await flush()
+  pending.get(domain)?.(status)
+  pending.delete(domain)
+  await flush()
+}
+
+const states = (queue: ReturnType<typeof createBulkCheckQueue>) => queue.getItems().map(item => item.state)
+
+beforeEach(() => {
+  pending.clear()
+  dns.getDomainAvailabilityStatus.mockReset().mockImplementation((domain: string) => new Promise((resolve, reject) => {
+    pending.set(domain, status => status instanceof Error ? reject(status) : resolve(status))
+  }))
+  dns.getDomainInfrastructure.mockReset().mockResolvedValue({ hasA: true, hasMx: false })
+})
+
+describe('createBulkCheckQueue', () => {
+  test('checks no more domains at once than the concurrency', async () => {
+    const queue = createBulkCheckQueue(['a.com', 'b.com', 'c.com'], { concurrency: 2 })
+    expect(queue.getStatus()).toBe('idle')
+
+    queue.start()
+    await flush()
+    expect(states(queue)).toEqual(['checking', 'checking', 'pending'])
+
+    await answer('a.com', DomainAvailabilityStatus.AVAILABLE)
+    expect(states(queue)).toEqual(['done', 'checking', 'checking'])
+
+    await answer('b.com', DomainAvailabilityStatus.AVAILABLE)
+    await answer('c.com', DomainAvailabilityStatus.NOTAVAILABLE)
+    expect(queue.getStatus()).toBe('completed')
+    expect(queue.getItems()[2]?.result?.availability).toBe(DomainAvailabilityStatus.NOTAVAILABLE)
+  })
+
+  test('finishes checks in flight when paused and resumes where it stopped', async () => {
+    const onStatusChange = vi.fn()
+    const queue = createBulkCheckQueue(['a.com', 'b.com', 'c.com'], { concurrency: 1, onStatusChange })
+
+    queue.start()
+    queue.pause()
+    await answer('a.com', DomainAvailabilityStatus.AVAILABLE)
+    expect(states(queue)).toEqual(['done', 'pending', 'pending'])
+    expect(queue.getStatus()).toBe('paused')
+
+    queue.start()
+    await answer('b.com', DomainAvailabilityStatus.AVAILABLE)
+    await answer('c.com', DomainAvailabilityStatus.AVAILABLE)
+    expect(onStatusChange.mock.calls.map(([status]) => status)).toEqual(['running', 'paused', 'running', 'completed'])
+  })
+
+  test('retries unknown and failed domains only', async () => {
+    const queue = createBulkCheckQueue(['a.com', 'b.com', 'c.com'], { concurrency: 3 })
+    queue.start()
+    await answer('a.com', DomainAvailabilityStatus.AVAILABLE)
+    await answer('b.com', DomainAvailabilityStatus.UNKNOWN)
+    await answer('c.com', new Error('DoH timeout'))
+    expect(queue.getItems()[2]).toMatchObject({ state: 'error', error: 'DoH timeout' })
+
+    expect(queue.retryUnknown()).toBe(2)
+    expect(states(queue)).toEqual(['done', 'checking', 'checking'])
+
+    await answer('b.com', DomainAvailabilityStatus.NOTAVAILABLE)
+    await answer('c.com', DomainAvailabilityStatus.AVAILABLE)
+    expect(queue.getItems().map(item => item.attempts)).toEqual([1, 2, 2])
+    expect(queue.retryUnknown()).toBe(0)
+    expect(queue.getStatus()).toBe('completed')
+  })
+
+  test('inspects the records of registered domains on request', async () => {
+    const onItemUpdate = vi.fn()
+    const queue = createBulkCheckQueue(['a.com', 'b.com'], { inspectRegistered: true, onItemUpdate })
+    queue.start()
+    await answer('a.com', DomainAvailabilityStatus.NOTAVAILABLE)
+    await answer('b.com', DomainAvailabilityStatus.AVAILABLE)
+
+    expect(dns.getDomainInfrastructure).toHaveBeenCalledTimes(1)
+    expect(queue.getItems()[0]?.infrastructure).toEqual({ hasA: true, hasMx: false })
+    expect(queue.getItems()[1]?.infrastructure).toBeUndefined()
+    expect(onItemUpdate).toHaveBeenLastCalledWith(1, queue.getItems()[1])
+  })
+
+  test('completes at once without domains', () => {
+    const queue = createBulkCheckQueue([])
+    queue.start()
+    expect(queue.getStatus()).toBe('completed')
+  })
+})
@@ -0,0 +1,130 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { DB_CONFIG } from '../dbSchema'
+
+const START = Date.UTC(2025, 5, 1)
+const MINUTE = 60 * 1000
+
+/**
+ * Loads a fresh copy of the service, so each test opens its own database connection
+ */
+const loadCacheService = async () => {
+  vi.resetModules()
+  return import('../cacheService')
+}
+
+const createCache = async (limits: { maxMemoryEntries?: number; maxPersistentEntries?: number } = {}) => {
+  const { createTieredCache } = await loadCacheService()
+  return createTieredCache<string>({
+    storeName: DB_CONFIG.stores.dnsCache,
+    maxMemoryEntries: limits.maxMemoryEntries ?? 10,
+    maxPersistentEntries: limits.maxPersistentEntries ?? 10,
+    maxAge: 60 * MINUTE
+  })
+}
+
+describe('createTieredCache', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  test('keeps entries for their TTL, capped by the maximum age', async () => {
+    const cache = await createCache()
+    await cache.set('short', 'a', 5 * MINUTE)
+    await cache.set('long', 'b', 24 * 60 * MINUTE)
+    await cache.set('none', 'c', 0)
+
+    expect(await cache.getEntry('long')).toMatchObject({ value: 'b', storedAt: START, expiresAt: START + 60 * MINUTE })
+    expect(await cache.get('none')).toBeUndefined()
+
+    vi.setSystemTime(START + 5 * MINUTE)
+    expect(await cache.get('short')).toBeUndefined()
+    expect(await cache.get('long')).toBe('b')
+
+    vi.setSystemTime(START + 60 * MINUTE)
+    expect(await cache.get('long')).toBeUndefined()
+  })
+
+  test('evicts the least recently used entries from memory and reads them back from IndexedDB', async () => {
+    const cache = await createCache({ maxMemoryEntries: 2 })
+    await cache.set('a', 'A', MINUTE)
+    await cache.set('b', 'B', MINUTE)
+    expect(await cache.get('a')).toBe('A')
+    await cache.set('c', 'C', MINUTE)
+
+    expect(await cache.getStats()).toMatchObject({ memoryEntries: 2, persistentEntries: 3, memoryHits: 1 })
+
+    // 'b' was the least recently used entry when 'c' came in
+    expect(await cache.get('b')).toBe('B')
+    expect(await cache.get('c')).toBe('C')
+    expect(await cache.getStats()).toMatchObject({ memoryHits: 2, persistentHits: 1, misses: 0 })
+  })
+
+  test('serves entries stored by another cache instance, as after a reload', async () => {
+    const { createTieredCache } = await loadCacheService()
+    const options = { storeName: DB_CONFIG.stores.dnsCache, maxMemoryEntries: 10, maxPersistentEntries: 10, maxAge: 60 * MINUTE }
+    await createTieredCache<string>(options).set('a', 'A', MINUTE)
+
+    const reloaded = createTieredCache<string>(options)
+    expect(await reloaded.getEntry('a')).toMatchObject({ value: 'A', storedAt: START, expiresAt: START + MINUTE })
+    expect(await reloaded.getStats()).toMatchObject({ memoryEntries: 1, persistentHits: 1 })
+
+    vi.setSystemTime(START + MINUTE)
+    expect(await createTieredCache<string>(options).get('a')).toBeUndefined()
+  })
+
+  test('prunes expired entries and the least recently used ones beyond the size limit', async () => {
+    const cache = await createCache({ maxPersistentEntries: 2 })
+    await cache.set('expiring', 'E', MINUTE)
+    vi.setSystemTime(START + 1000)
+    await cache.set('old', 'O', 10 * MINUTE)
+    vi.setSystemTime(START + 2000)
+    await cache.set('recent', 'R', 10 * MINUTE)
+    vi.setSystemTime(START + 3000)
+    await cache.set('newest', 'N', 10 * MINUTE)
+
+    vi.setSystemTime(START + MINUTE)
+    expect(await cache.prune()).toBe(2)
+    expect(await cache.getStats()).toMatchObject({ memoryEntries: 3, persistentEntries: 2, evictions: 2 })
+
+    const { createTieredCache } = await import('../cacheService')
+    const reloaded = createTieredCache<string>({
+      storeName: DB_CONFIG.stores.dnsCache,
+      maxMemoryEntries: 10,
+      maxPersistentEntries: 2,
+      maxAge: 60 * MINUTE
+    })
+    expect(await reloaded.get('old')).toBeUndefined()
+    expect(await reloaded.get('recent')).toBe('R')
+  })
+
+  test('clears both tiers', async () => {
+    const cache = await createCache()
+    await cache.set('a', 'A', MINUTE)
+    await cache.clear()
+
+    expect(await cache.get('a')).toBeUndefined()
+    expect(await cache.getStats()).toMatchObject({ memoryEntries: 0, persistentEntries: 0, misses: 1, hitRate: 0 })
+  })
+
+  test('stays in memory when IndexedDB is unavailable', async () => {
+    // @ts-expect-error IndexedDB is missing in some private browsing modes
+    delete globalThis.indexedDB
+    const cache = await createCache({ maxMemoryEntries: 1 })
+    await cache.set('a', 'A', MINUTE)
+
+    expect(await cache.get('a')).toBe('A')
+    expect(await cache.prune()).toBe(0)
+    expect(await cache.getStats()).toMatchObject({ memoryEntries: 1, persistentEntries: 0, hitRate: 1 })
+
+    await cache.set('b', 'B', MINUTE)
+    expect(await cache.get('a')).toBeUndefined()
+  })
+})
@@ -0,0 +1,111 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { beforeEach, describe, expect, test } from 'vitest'
+import { DB_CONFIG, DB_MIGRATIONS, upgradeDatabase } from '../dbSchema'
+
+/**
+ * Opens a database with a custom upgrade callback and resolves once it is ready
+ */
+const openWith = (
+  version: number,
+  onUpgrade: (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void
+): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_CONFIG.name, version)
+    request.onupgradeneeded = (event) => onUpgrade(request.result, request.transaction!, event.oldVersion)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const openCurrent = (): Promise<IDBDatabase> =>
+  openWith(DB_CONFIG.version, (db, transaction, oldVersion) => upgradeDatabase(db, transaction, oldVersion))
+
+const indexNames = (db: IDBDatabase, storeName: string): string[] =>
+  Array.from(db.transaction(storeName, 'readonly').objectStore(storeName).indexNames)
+
+describe('dbSchema', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory()
+  })
+
+  test('migrations are ordered and end at the configured version', () => {
+    const versions = DB_MIGRATIONS.map(migration => migration.version)
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b))
+    expect(new Set(versions).size).toBe(versions.length)
+    expect(versions[versions.length - 1]).toBe(DB_CONFIG.version)
+  })
+
+  test('creates the full schema on a new database', async () => {
+    const db = await openCurrent()
+
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(['alerts', 'dnsCache', 'domainSnapshots', 'domains', 'pendingChecks', 'rdapCache', 'settings', 'tlds'])
+    expect(indexNames(db, 'alerts').sort()).toEqual(['alertDate', 'domain', 'expirationDate'])
+    expect(indexNames(db, 'domains').sort()).toEqual(['availability', 'isInWatchList', 'lastChecked', 'registrar'])
+    db.close()
+  })
+
+  test('upgrades the legacy service worker schema without losing alerts', async () => {
+    // Schema previously created by the Service Worker at version 6
+    const legacyDb = await openWith(6, (db) => {
+      const store = db.createObjectStore('alerts', { keyPath: 'id' })
+      store.createIndex('domain', 'domain', { unique: false })
+      store.createIndex('enabled', 'enabled', { unique: false })
+      store.createIndex('expirationDate', 'expirationDate', { unique: false })
+      store.createIndex('lastNotified', 'lastNotified', { unique: false })
+      store.put({ id: 'alert_1', domain: 'example.com', alertDate: '2025-12-01T00:00:00.000Z' })
+    })
+    legacyDb.close()
+
+    const db = await openCurrent()
+
+    expect(db.version).toBe(DB_CONFIG.version)
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(['alerts', 'dnsCache', 'domainSnapshots', 'domains', 'pendingChecks', 'rdapCache', 'settings', 'tlds'])
+    expect(indexNames(db, 'alerts')).not.toContain('enabled')
+    expect(indexNames(db, 'alerts')).toContain('alertDate')
+
+    const alert = await new Promise((resolve) => {
+      const request = db.transaction('alerts', 'readonly').objectStore('alerts').get('alert_1')
+      request.onsuccess = () => resolve(request.result)
+    })
+    expect(alert).toMatchObject({ domain: 'example.com' })
+    db.close()
+  })
+
+  test('only applies migrations newer than the version on disk', async () => {
+    const previousDb = await openWith(7, (db, transaction, oldVersion) => upgradeDatabase(db, transaction, oldVersion, 7))
+    expect(indexNames(previousDb, 'alerts')).not.toContain('alertDate')
+    previousDb.close()
+
+    const db = await openCurrent()
+
+    expect(indexNames(db, 'alerts')).toContain('alertDate')
+    db.close()
+  })
+
+  test('flags previously bookmarked domains as watched', async () => {
+    const previousDb = await openWith(8, (db, transaction, oldVersion) => {
+      upgradeDatabase(db, transaction, oldVersion, 8)
+      transaction.objectStore('domains').put({ name: 'example.com', isInWatchList: false })
+    })
+    previousDb.close()
+
+    const db = await openCurrent()
+
+    const domain = await new Promise((resolve) => {
+      const request = db.transaction('domains', 'readonly').objectStore('domains').get('example.com')
+      request.onsuccess = () => resolve(request.result)
+    })
+    expect(domain).toMatchObject({ name: 'example.com', isInWatchList: true })
+    db.close()
+  })
+
+  test('indexes the response caches by expiry and last access', async () => {
+    const db = await openCurrent()
+
+    expect(indexNames(db, 'dnsCache').sort()).toEqual(['expiresAt', 'lastAccessed'])
+    expect(indexNames(db, 'rdapCache').sort()).toEqual(['expiresAt', 'lastAccessed'])
+    db.close()
+  })
+})
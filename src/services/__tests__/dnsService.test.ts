@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { DomainAvailabilityStatus } from '@/types'
+import { DnsRecordType, DnsResponseStatus, type DnsRecord, type DnsResolverConfig } from '@/types/dns'
+import {
+  clearDnsCache,
+  compareDnsResolvers,
+  fetchDns,
+  getDnsConsensus,
+  getDomainAvailabilityStatus,
+  getDomainInfrastructure
+} from '../dnsService'
+
+const resolver = (host: string): DnsResolverConfig => ({ provider: 'custom', protocol: 'json', endpoint: `https://${host}/dns-query` })
+const first = resolver('first.example')
+const second = resolver('second.example')
+
+const parentSoa: DnsRecord = {
+  name: 'com.',
+  type: DnsRecordType.SOA,
+  TTL: 900,
+  data: 'a.gtld-servers.net. nstld.verisign-grs.com. 1 1800 900 604800 900'
+}
+
+/**
+ * Answers DoH JSON queries: the A query only returns the parent zone SOA,
+ * so the availability check follows up with an SOA query
+ */
+const fetchMock = vi.fn(async (url: string) => {
+  const params = new URL(url).searchParams
+  const name = params.get('name')!
+  const type = Number(params.get('type'))
+  const body = type === DnsRecordType.SOA
+    ? { Status: DnsResponseStatus.NOERROR, Question: [{ name, type }], Answer: [{ ...parentSoa, name: `${name}.` }] }
+    : { Status: DnsResponseStatus.NOERROR, Question: [{ name, type }], Authority: [parentSoa] }
+
+  return new Response(JSON.stringify({ TC: false, RD: true, RA: true, AD: false, CD: false, ...body }))
+})
+
+const requestedUrls = (): string[] => fetchMock.mock.calls.map(([url]) => url)
+
+/**
+ * Answers an A query for a registered domain with the SOA of its own zone
+ */
+const ownSoaResponse = async (url: string): Promise<Response> => {
+  const name = new URL(url).searchParams.get('name')!
+  return new Response(JSON.stringify({
+    Status: DnsResponseStatus.NOERROR,
+    Question: [{ name, type: DnsRecordType.A }],
+    Authority: [{ ...parentSoa, name: `${name}.` }]
+  }))
+}
+
+describe('getDnsConsensus', () => {
+  beforeEach(async () => {
+    await clearDnsCache()
+    fetchMock.mockClear()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('caches the answers and follow-up queries of each resolver', async () => {
+    const consensus = await getDnsConsensus('example.com', [first, second])
+
+    expect(consensus.status).toBe(DomainAvailabilityStatus.NOTAVAILABLE)
+    expect(consensus.confidence).toBe('high')
+    expect(requestedUrls().sort()).toEqual([
+      'https://first.example/dns-query?name=example.com&type=1',
+      'https://first.example/dns-query?name=example.com&type=6',
+      'https://second.example/dns-query?name=example.com&type=1',
+      'https://second.example/dns-query?name=example.com&type=6'
+    ])
+
+    fetchMock.mockClear()
+    expect((await getDnsConsensus('example.com', [first, second])).status).toBe(DomainAvailabilityStatus.NOTAVAILABLE)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test('does not share cached answers between resolvers', async () => {
+    await getDnsConsensus('example.com', [first])
+    fetchMock.mockClear()
+
+    await getDnsConsensus('example.com', [first, second])
+    expect(requestedUrls().every(url => url.startsWith('https://second.example/'))).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  test('leaves resolver comparisons uncached', async () => {
+    await getDnsConsensus('example.com', [first])
+    fetchMock.mockClear()
+
+    await compareDnsResolvers('example.com', DnsRecordType.A, [first])
+    expect(requestedUrls()).toEqual(['https://first.example/dns-query?name=example.com&type=1'])
+  })
+
+  test('matches the SOA owners of internationalized domains', async () => {
+    fetchMock.mockImplementationOnce(ownSoaResponse).mockImplementationOnce(ownSoaResponse)
+    const consensus = await getDnsConsensus('bücher.de', [first, second])
+
+    expect(consensus.status).toBe(DomainAvailabilityStatus.NOTAVAILABLE)
+    expect(requestedUrls().sort()).toEqual([
+      'https://first.example/dns-query?name=xn--bcher-kva.de&type=1',
+      'https://second.example/dns-query?name=xn--bcher-kva.de&type=1'
+    ])
+  })
+})
+
+describe('getDomainAvailabilityStatus', () => {
+  beforeEach(async () => {
+    await clearDnsCache()
+    fetchMock.mockClear()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  test('reads the own SOA of an internationalized domain', async () => {
+    fetchMock.mockImplementationOnce(ownSoaResponse)
+
+    expect(await getDomainAvailabilityStatus('bücher.de')).toBe(DomainAvailabilityStatus.NOTAVAILABLE)
+    expect(requestedUrls()).toEqual(['https://cloudflare-dns.com/dns-query?name=xn--bcher-kva.de&type=1'])
+  })
+})
+
+describe('getDomainInfrastructure', () => {
+  beforeEach(async () => {
+    await clearDnsCache()
+    fetchMock.mockClear()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  /**
+   * Answers A and MX queries with the given response code, and an A record for NOERROR
+   */
+  const respondWith = (status: Record<'a' | 'mx', DnsResponseStatus | 'error'>) => async (url: string): Promise<Response> => {
+    const type = Number(new URL(url).searchParams.get('type'))
+    const code = type === DnsRecordType.MX ? status.mx : status.a
+    if (code === 'error') return new Response('', { status: 502 })
+
+    return new Response(JSON.stringify({
+      Status: code,
+      Question: [{ name: 'example.com', type }],
+      Answer: code === DnsResponseStatus.NOERROR && type === DnsRecordType.A
+        ? [{ name: 'example.com.', type, TTL: 300, data: '192.0.2.1' }]
+        : undefined
+    }))
+  }
+
+  test('tells present records from missing ones', async () => {
+    const answer = respondWith({ a: DnsResponseStatus.NOERROR, mx: DnsResponseStatus.NOERROR })
+    fetchMock.mockImplementationOnce(answer).mockImplementationOnce(answer)
+    expect(await getDomainInfrastructure('example.com')).toEqual({ hasA: true, hasMx: false })
+  })
+
+  test('counts records of non-existent domains as missing', async () => {
+    const answer = respondWith({ a: DnsResponseStatus.NXDOMAIN, mx: DnsResponseStatus.NXDOMAIN })
+    fetchMock.mockImplementationOnce(answer).mockImplementationOnce(answer)
+    expect(await getDomainInfrastructure('example.com')).toEqual({ hasA: false, hasMx: false })
+  })
+
+  test('leaves records unknown when their lookup fails', async () => {
+    const answer = respondWith({ a: 'error', mx: DnsResponseStatus.SERVFAIL })
+    fetchMock.mockImplementationOnce(answer).mockImplementationOnce(answer)
+    expect(await getDomainInfrastructure('example.com')).toEqual({ hasA: undefined, hasMx: undefined })
+  })
+})
+
+describe('fetchDns', () => {
+  beforeEach(async () => {
+    await clearDnsCache()
+    fetchMock.mockClear()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(Date.UTC(2025, 5, 1))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  test('counts cached TTLs down to the end of the cache entry', async () => {
+    const fresh = await fetchDns('example.com', DnsRecordType.SOA)
+    expect(fresh.fromCache).toBe(false)
+    expect(fresh.data?.Answer?.[0]?.TTL).toBe(900)
+
+    vi.setSystemTime(Date.UTC(2025, 5, 1, 0, 10))
+    const cached = await fetchDns('example.com', DnsRecordType.SOA)
+    expect(cached.fromCache).toBe(true)
+    expect(cached.data?.Answer?.[0]?.TTL).toBe(300)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test('never reports a TTL beyond the cache lifetime', async () => {
+    // Negative answers are cached as long as the SOA minimum (900 s), not the record TTL
+    fetchMock.mockImplementationOnce(async () => new Response(JSON.stringify({
+      Status: DnsResponseStatus.NOERROR,
+      Question: [{ name: 'example.com', type: DnsRecordType.TXT }],
+      Authority: [{ ...parentSoa, TTL: 3600 }]
+    })))
+    await fetchDns('example.com', DnsRecordType.TXT)
+
+    vi.setSystemTime(Date.UTC(2025, 5, 1, 0, 5))
+    expect((await fetchDns('example.com', DnsRecordType.TXT)).data?.Authority?.[0]?.TTL).toBe(600)
+  })
+})
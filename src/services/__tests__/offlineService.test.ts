@@ -0,0 +1,68 @@
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+import { Domain, DomainAvailabilityStatus } from '@/types'
+import { formatSnapshotAge } from '@/utils/offlineUtil'
+import { closeDb, saveDomain } from '../dbService'
+import { getOfflineSnapshot, refreshOfflineSnapshot } from '../offlineService'
+
+const NOW = new Date(Date.UTC(2025, 5, 10, 12))
+const minutesLater = (minutes: number): Date => new Date(NOW.getTime() + minutes * 60 * 1000)
+
+const watched = new Domain(
+  'example.com',
+  DomainAvailabilityStatus.NOTAVAILABLE,
+  true,
+  false,
+  undefined,
+  new Date(Date.UTC(2025, 11, 1)),
+  'Old Registrar',
+  new Date(Date.UTC(2025, 5, 7, 12))
+)
+
+describe('refreshOfflineSnapshot', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    closeDb()
+    vi.useRealTimers()
+  })
+
+  test('keeps the date of the stored check', async () => {
+    await saveDomain(watched)
+
+    const snapshot = (await getOfflineSnapshot('example.com')).data
+    expect(formatSnapshotAge(snapshot?.lastChecked, NOW)).toBe('3 days ago')
+  })
+
+  test('dates the refreshed snapshot from the check', async () => {
+    await saveDomain(watched)
+
+    const checked = new Domain('example.com', DomainAvailabilityStatus.NOTAVAILABLE).with({ registrar: 'New Registrar' })
+    expect(await refreshOfflineSnapshot(checked)).toEqual({ success: true, data: true })
+
+    const snapshot = (await getOfflineSnapshot('example.com')).data
+    expect(snapshot?.registrar).toBe('New Registrar')
+    expect(snapshot?.isInWatchList).toBe(true)
+    expect(snapshot?.lastChecked).toEqual(NOW)
+    expect(formatSnapshotAge(snapshot?.lastChecked, minutesLater(5))).toBe('5 min ago')
+  })
+
+  test('uses the check date carried by the result', async () => {
+    await saveDomain(watched)
+    await refreshOfflineSnapshot(watched.with({ lastChecked: minutesLater(-90) }))
+
+    const snapshot = (await getOfflineSnapshot('example.com')).data
+    expect(formatSnapshotAge(snapshot?.lastChecked, NOW)).toBe('1 h ago')
+  })
+
+  test('does not create snapshots of domains that are not watched', async () => {
+    expect(await refreshOfflineSnapshot(new Domain('example.org', DomainAvailabilityStatus.AVAILABLE)))
+      .toEqual({ success: true, data: false })
+    expect((await getOfflineSnapshot('example.org')).data).toBeNull()
+  })
+})
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest'
+
+const BOOTSTRAP_URL = 'https://data.iana.org/rdap/dns.json'
+
+/**
+ * RDAP request held by the fetch mock until the test answers or aborts it
+ */
+interface PendingRequest {
+  readonly domain: string
+  readonly signal?: AbortSignal
+  readonly respond: (status: number, headers?: Record<string, string>) => void
+}
+
+let requests: PendingRequest[] = []
+
+const fetchMock = vi.fn((url: string, init?: RequestInit): Promise<Response> => {
+  if (url === BOOTSTRAP_URL) {
+    return Promise.resolve(new Response(JSON.stringify({ services: [[['com'], ['https://rdap.example/']]] })))
+  }
+
+  return new Promise((resolve, reject) => {
+    const domain = decodeURIComponent(url.replace('https://rdap.example/domain/', ''))
+    const request: PendingRequest = {
+      domain,
+      signal: init?.signal ?? undefined,
+      respond: (status, headers) => resolve(status === 200
+        ? new Response(JSON.stringify({ objectClassName: 'domain', ldhName: domain.toUpperCase() }))
+        : new Response('', { status, headers }))
+    }
+    init?.signal?.addEventListener('abort', () => {
+      requests = requests.filter(pending => pending !== request)
+      reject(init.signal?.reason)
+    }, { once: true })
+    requests.push(request)
+  })
+})
+
+const requestedDomains = (): string[] => requests.map(request => request.domain)
+
+/**
+ * Answers the oldest pending request of a domain
+ */
+const respond = (domain: string, status: number, headers?: Record<string, string>): void => {
+  const index = requests.findIndex(request => request.domain === domain)
+  const [request] = requests.splice(index, 1)
+  request!.respond(status, headers)
+}
+
+/**
+ * Lets queued promises run, then moves the clock forward
+ */
+const advance = (ms: number = 0): Promise<void> => vi.advanceTimersByTimeAsync(ms)
+
+/**
+ * Loads a fresh copy of the service, with empty queues and caches
+ */
+const loadRdapService = async () => {
+  vi.resetModules()
+  return import('../rdapService')
+}
+
+describe('fetchRdap scheduling', () => {
+  beforeEach(() => {
+    requests = []
+    fetchMock.mockClear()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.useFakeTimers()
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  test('sends at most two requests at a time to a server', async () => {
+    const { fetchRdap, getRdapQueueMetrics } = await loadRdapService()
+    const results = ['a.com', 'b.com', 'c.com'].map(domain => fetchRdap(domain))
+    await advance()
+
+    expect(requestedDomains()).toEqual(['a.com', 'b.com'])
+    expect(getRdapQueueMetrics().servers[0]).toMatchObject({ active: 2, queued: 1 })
+
+    respond('a.com', 200)
+    await advance()
+    expect(requestedDomains()).toEqual(['b.com', 'c.com'])
+
+    respond('b.com', 200)
+    respond('c.com', 200)
+    expect((await Promise.all(results)).map(result => result.data?.ldhName)).toEqual(['A.COM', 'B.COM', 'C.COM'])
+  })
+
+  test('pauses the whole server for the Retry-After delay of a 429', async () => {
+    const { fetchRdap } = await loadRdapService()
+    const rateLimited = fetchRdap('a.com')
+    await advance()
+
+    respond('a.com', 429, { 'retry-after': '5' })
+    await advance()
+    const queued = fetchRdap('b.com')
+    await advance(4999)
+    expect(requestedDomains()).toEqual([])
+
+    await advance(1)
+    expect(requestedDomains()).toEqual(['a.com', 'b.com'])
+
+    respond('a.com', 200)
+    respond('b.com', 200)
+    expect((await rateLimited).success).toBe(true)
+    expect((await queued).success).toBe(true)
+  })
+
+  test('retries server errors with a growing backoff without pausing other requests', async () => {
+    const { fetchRdap, getRdapQueueMetrics } = await loadRdapService()
+    const failing = fetchRdap('a.com')
+    await advance()
+
+    respond('a.com', 503)
+    await advance()
+    const other = fetchRdap('b.com')
+    await advance()
+    expect(requestedDomains()).toEqual(['b.com'])
+    respond('b.com', 200)
+    expect((await other).success).toBe(true)
+
+    // Random jitter at 0 gives half of 1, 2 and 4 seconds
+    for (const delay of [500, 1000, 2000]) {
+      await advance(delay - 1)
+      expect(requestedDomains()).toEqual([])
+      await advance(1)
+      expect(requestedDomains()).toEqual(['a.com'])
+      respond('a.com', 503)
+      await advance()
+    }
+
+    expect(await failing).toMatchObject({ success: false, status: 503 })
+    expect(getRdapQueueMetrics().servers[0]).toMatchObject({ completed: 1, failed: 1, retries: 3 })
+  })
+
+  test('gives up on 404 without retrying', async () => {
+    const { fetchRdap } = await loadRdapService()
+    const missing = fetchRdap('a.com')
+    await advance()
+
+    respond('a.com', 404)
+    expect(await missing).toMatchObject({ success: false, status: 404 })
+    await advance(60000)
+    expect(requestedDomains()).toEqual([])
+  })
+
+  test('removes aborted requests from the queue before they start', async () => {
+    const { fetchRdap } = await loadRdapService()
+    const controller = new AbortController()
+    const results = [fetchRdap('a.com'), fetchRdap('b.com')]
+    const aborted = fetchRdap('c.com', controller.signal)
+    const next = fetchRdap('d.com')
+    await advance()
+
+    controller.abort()
+    expect(await aborted).toMatchObject({ success: false, error: 'RDAP query cancelled for c.com' })
+
+    respond('a.com', 200)
+    await advance()
+    expect(requestedDomains()).toEqual(['b.com', 'd.com'])
+
+    respond('b.com', 200)
+    respond('d.com', 200)
+    await Promise.all([...results, next])
+    expect(fetchMock.mock.calls.some(([url]) => url.endsWith('/c.com'))).toBe(false)
+  })
+})
+
+describe('fetchRdap deduplication', () => {
+  beforeEach(() => {
+    requests = []
+    fetchMock.mockClear()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  test('shares one request between callers of the same domain', async () => {
+    const { fetchRdap, getRdapQueueMetrics } = await loadRdapService()
+    const results = [fetchRdap('example.com'), fetchRdap('www.example.com'), fetchRdap('EXAMPLE.com')]
+    await advance()
+
+    expect(requestedDomains()).toEqual(['example.com'])
+    respond('example.com', 200)
+    expect((await Promise.all(results)).every(result => result.data?.ldhName === 'EXAMPLE.COM')).toBe(true)
+    expect(getRdapQueueMetrics().deduplicated).toBe(2)
+  })
+
+  test('keeps the request running until the last caller aborts', async () => {
+    const { fetchRdap } = await loadRdapService()
+    const first = new AbortController()
+    const second = new AbortController()
+    const firstResult = fetchRdap('example.com', first.signal)
+    const secondResult = fetchRdap('example.com', second.signal)
+    await advance()
+
+    first.abort()
+    expect((await firstResult).error).toBe('RDAP query cancelled for example.com')
+    expect(requests[0]?.signal?.aborted).toBe(false)
+
+    const [request] = requests
+    second.abort()
+    expect((await secondResult).error).toBe('RDAP query cancelled for example.com')
+    expect(request?.signal?.aborted).toBe(true)
+    expect(requests).toEqual([])
+  })
+
+  test('starts a fresh request after every caller of the previous one aborted', async () => {
+    const { fetchRdap } = await loadRdapService()
+    const controller = new AbortController()
+    const cancelled = fetchRdap('example.com', controller.signal)
+    await advance()
+    controller.abort()
+    await cancelled
+    await advance()
+
+    const fresh = fetchRdap('example.com')
+    await advance()
+    expect(requestedDomains()).toEqual(['example.com'])
+    respond('example.com', 200)
+    expect((await fresh).success).toBe(true)
+  })
+})
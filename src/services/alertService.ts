@@ -19,41 +19,140 @@
  *   expirationDate: new Date('2025-12-31')
  * });
  * 
+ * // Create a multi-stage schedule (90, 30 and 7 days before expiration)
+ * const staged = await alertService.saveAlert({
+ *   domain: 'example.com',
+ *   alertDate: new Date('2025-10-02'),
+ *   reminderFrequency: 'once',
+ *   expirationDate: new Date('2025-12-31'),
+ *   stageOffsets: [90, 30, 7]
+ * });
+ * 
  * // Get alerts for a domain
  * const existingAlert = await alertService.getAlertByDomain('example.com');
+ * 
+ * // Get notified when a registered domain drops and becomes available
+ * await alertService.saveAvailabilityAlert('taken-name.com');
+ * 
+ * // Get notified when an expired domain enters grace, redemption or pending delete
+ * await alertService.saveLifecycleAlert('expiring-name.com', 'active');
+ * 
+ * // Re-sync expiration dates from RDAP (runs automatically once a day)
+ * const syncResult = await alertService.syncExpirationDates({ force: true });
  * ```
  */
 import * as db from './dbService';
+import { fetchRdap } from './rdapService';
+import { fetchDns } from './dnsService';
+import { DomainAvailabilityStatus } from '@/types';
+import { DnsRecordType, DnsResponseStatus } from '@/types/dns';
+import { extractExpirationDate } from '@/utils/rdapUtil';
+import type { DomainLifecyclePhase } from '@/utils/lifecycleUtil';
+import {
+  EXPIRATION_SYNC_CONFIG,
+  buildScheduleStages,
+  getAlertType,
+  getExpirationSyncAction,
+  rescheduleAlertDates,
+  validateStageOffsets,
+  type AlertType,
+  type RdapLookupOutcome,
+  type ReminderFrequency
+} from '@/utils/alertUtil';
 
 // ===== Types et Interfaces =====
 
-/**
- * Reminder frequency options for alert notifications
- */
-export type ReminderFrequency = 'once' | 'daily' | 'weekly';
+export type { AlertType, ReminderFrequency };
 
 /**
  * Notification permission status
  */
 export type NotificationPermissionStatus = 'granted' | 'denied' | 'default';
 
+/**
+ * Single firing point of a multi-stage alert schedule
+ */
+export interface AlertStage {
+  readonly id: string;
+  readonly daysBeforeExpiration: number;
+  readonly alertDate: Date;
+  readonly lastNotified?: Date;
+}
+
 /**
  * Alert configuration settings
  */
 export interface AlertSettings {
   readonly id: string;
   readonly domain: string;
+  /** Alert kind (default: 'expiration') */
+  readonly type?: AlertType;
   readonly alertDate: Date;
   readonly reminderFrequency: ReminderFrequency;
   readonly expirationDate: Date;
   readonly createdAt: Date;
   readonly lastNotified?: Date;
+  readonly stages?: readonly AlertStage[];
+  /** Last time the expiration date was checked against RDAP */
+  readonly lastRdapSync?: Date;
+  /** When a renewal (expiration date moved forward) was last detected */
+  readonly renewalDetectedAt?: Date;
+  /** Expiration date before the last detected renewal */
+  readonly previousExpirationDate?: Date;
+  /** Consecutive RDAP syncs that answered 404 for the domain */
+  readonly rdapNotFoundCount?: number;
+  /** First RDAP 404 of the current streak */
+  readonly rdapNotFoundSince?: Date;
+  /** When the domain was confirmed gone from the registry; the alert is kept for the user to review */
+  readonly staleSince?: Date;
+  /** Last availability seen by an availability alert */
+  readonly lastAvailability?: DomainAvailabilityStatus;
+  /** Last time an availability alert re-checked the domain */
+  readonly availabilityCheckedAt?: Date;
+  /** Last drop-catch phase seen by a lifecycle alert */
+  readonly lastLifecyclePhase?: DomainLifecyclePhase;
 }
 
 /**
  * Input type for creating new alerts (excludes generated fields)
+ * 
+ * Provide `stageOffsets` (days before expiration, e.g. [90, 30, 7]) to create
+ * a multi-stage schedule; each stage is then notified separately.
  */
-export type CreateAlertInput = Omit<AlertSettings, 'id' | 'createdAt'>;
+export type CreateAlertInput = Omit<
+  AlertSettings,
+  | 'id'
+  | 'createdAt'
+  | 'stages'
+  | 'lastRdapSync'
+  | 'renewalDetectedAt'
+  | 'previousExpirationDate'
+  | 'availabilityCheckedAt'
+  | 'rdapNotFoundCount'
+  | 'rdapNotFoundSince'
+  | 'staleSince'
+> & {
+  readonly stageOffsets?: readonly number[];
+};
+
+/**
+ * Outcome of an RDAP expiration date re-sync
+ */
+export interface ExpirationSyncResult {
+  /** True when the sync was skipped because the last one is recent enough */
+  readonly skipped: boolean;
+  readonly checkedDomains: number;
+  /** Domains whose expiration date moved forward */
+  readonly renewedDomains: readonly string[];
+  /** Domains whose expiration date changed without a renewal */
+  readonly updatedDomains: readonly string[];
+  /** Domains whose alerts were newly flagged stale because the registry no longer knows them */
+  readonly staleDomains: readonly string[];
+  /** Domains RDAP answered 404 for, not confirmed gone yet */
+  readonly notFoundDomains: readonly string[];
+  /** Domains that could not be checked */
+  readonly failedDomains: readonly string[];
+}
 
 /**
  * Notification payload structure for Service Worker
@@ -145,7 +244,10 @@ const ALERT_SERVICE_CONFIG = Object.freeze({
   maxInitializationAttempts: 50,
   initializationTimeoutMs: 100,
   maxInitializationWaitMs: 5000,
-  legacyStorageKey: 'domain-alerts'
+  legacyStorageKey: 'domain-alerts',
+  expirationSyncSettingKey: EXPIRATION_SYNC_CONFIG.settingKey,
+  expirationSyncIntervalMs: EXPIRATION_SYNC_CONFIG.intervalMs,
+  expirationSyncCheckMs: 60 * 60 * 1000 // 1 hour
 } as const);
 
 // ===== Private utilities =====
@@ -193,6 +295,13 @@ const validateAlertInput = (input: CreateAlertInput): void => {
     );
   }
 
+  if (input.type !== undefined && !['expiration', 'availability', 'lifecycle'].includes(input.type)) {
+    throw new AlertServiceError(
+      'Alert type must be one of: expiration, availability, lifecycle',
+      AlertServiceErrorCode.INVALID_INPUT
+    );
+  }
+
 
 
   if (!(input.alertDate instanceof Date) || isNaN(input.alertDate.getTime())) {
@@ -215,6 +324,16 @@ const validateAlertInput = (input: CreateAlertInput): void => {
       AlertServiceErrorCode.INVALID_INPUT
     );
   }
+
+  if (input.stageOffsets !== undefined) {
+    const stageError = validateStageOffsets(input.stageOffsets);
+    if (stageError) {
+      throw new AlertServiceError(
+        stageError,
+        AlertServiceErrorCode.INVALID_INPUT
+      );
+    }
+  }
 };
 
 /**
@@ -244,6 +363,8 @@ class AlertService {
   private serviceWorker: ServiceWorker | null = null;
   private isInitialized: boolean = false;
   private initializationPromise: Promise<void> | null = null;
+  private expirationSyncPromise: Promise<ExpirationSyncResult> | null = null;
+  private expirationSyncTimer: ReturnType<typeof setInterval> | null = null;
 
   private constructor() {
     // Private constructor for singleton pattern
@@ -298,6 +419,9 @@ class AlertService {
       this.isInitialized = true;
       console.info('AlertService initialized successfully');
       
+      // Keep expiration dates in sync with RDAP in the background
+      this.startExpirationSyncJob();
+      
     } catch (error) {
       this.isInitialized = true; // Prevent infinite retry loops
       
@@ -454,26 +578,26 @@ class AlertService {
     validateAlertInput(alertInput);
     
     try {
-      // Remove existing alert for this domain
-      await this.removeAlertByDomain(alertInput.domain);
+      // Replace the existing alert of the same kind for this domain
+      await this.removeAlertsByDomainAndType(alertInput.domain, getAlertType(alertInput));
       
       // Create new alert
+      const { stageOffsets, ...settings } = alertInput;
+      const stages = stageOffsets
+        ? buildScheduleStages(settings.expirationDate, stageOffsets)
+        : undefined;
+      
       const alert: AlertSettings = {
         id: generateAlertId(alertInput.domain),
-        ...alertInput,
-        createdAt: new Date()
+        ...settings,
+        // Staged alerts start at their earliest firing point
+        alertDate: stages?.[0]?.alertDate ?? settings.alertDate,
+        createdAt: new Date(),
+        stages
       };
 
       // Save to database
-      const alertRecord: db.AlertRecord = {
-        id: alert.id,
-        domain: alert.domain,
-        alertDate: alert.alertDate.toISOString(),
-        reminderFrequency: alert.reminderFrequency,
-        expirationDate: alert.expirationDate.toISOString(),
-        createdAt: alert.createdAt.toISOString(),
-        lastNotified: alert.lastNotified?.toISOString()
-      };
+      const alertRecord = this.convertAlertToDbRecord(alert);
       
       const result = await db.saveAlert(alertRecord);
       if (!result.success) {
@@ -508,6 +632,69 @@ class AlertService {
     }
   }
 
+  /**
+   * Watch a registered domain and get notified when it becomes available
+   * 
+   * The Service Worker re-checks the domain availability on each periodic sync
+   * and notifies once when the status flips from registered to available.
+   * 
+   * @param domain - The registered domain to watch
+   * @param expirationDate - Known expiration date of the domain, if any
+   * @returns The created alert settings
+   * @throws {AlertServiceError} When save operation fails
+   * 
+   * @example
+   * ```typescript
+   * await alertService.saveAvailabilityAlert('taken-name.com');
+   * ```
+   */
+  async saveAvailabilityAlert(domain: string, expirationDate?: Date): Promise<AlertSettings> {
+    const now = new Date();
+    
+    return this.saveAlert({
+      domain,
+      type: 'availability',
+      alertDate: now,
+      reminderFrequency: 'once',
+      expirationDate: expirationDate ?? now,
+      lastAvailability: DomainAvailabilityStatus.NOTAVAILABLE
+    });
+  }
+
+  /**
+   * Watch the drop-catch lifecycle of a registered domain
+   * 
+   * The Service Worker re-reads the RDAP status codes on each periodic sync and
+   * notifies when the domain enters auto-renew grace, redemption or pending delete.
+   * 
+   * @param domain - The registered domain to watch
+   * @param currentPhase - Phase the domain is in now, so it is not notified again
+   * @param expirationDate - Known expiration date of the domain, if any
+   * @returns The created alert settings
+   * @throws {AlertServiceError} When save operation fails
+   * 
+   * @example
+   * ```typescript
+   * await alertService.saveLifecycleAlert('expiring-name.com', 'active', new Date('2025-12-31'));
+   * ```
+   */
+  async saveLifecycleAlert(
+    domain: string,
+    currentPhase: DomainLifecyclePhase,
+    expirationDate?: Date
+  ): Promise<AlertSettings> {
+    const now = new Date();
+    
+    return this.saveAlert({
+      domain,
+      type: 'lifecycle',
+      alertDate: now,
+      reminderFrequency: 'once',
+      expirationDate: expirationDate ?? now,
+      lastLifecyclePhase: currentPhase
+    });
+  }
+
   /**
    * Remove an alert by its ID
    * 
@@ -606,6 +793,26 @@ class AlertService {
     }
   }
 
+  /**
+   * Remove the alerts of one kind for a domain
+   */
+  private async removeAlertsByDomainAndType(domain: string, type: AlertType): Promise<void> {
+    const result = await db.getAllAlertsByDomain(domain);
+    if (!result.success) {
+      throw new AlertServiceError(
+        result.error || 'Database read operation failed',
+        AlertServiceErrorCode.DATABASE_ERROR
+      );
+    }
+    
+    for (const record of result.data ?? []) {
+      if (getAlertType(record) === type) {
+        await db.removeAlert(record.id);
+        this.alerts.delete(record.id);
+      }
+    }
+  }
+
   /**
    * Get alert settings for a specific domain
    * 
@@ -806,6 +1013,249 @@ class AlertService {
     }
   }
 
+  /**
+   * Re-query RDAP for every domain with alerts and update their expiration dates
+   * 
+   * When the expiration date moved forward (renewal), pending alerts are shifted
+   * to the new date and already sent notifications are reset. Alerts of domains
+   * RDAP reports as not found are flagged stale, never deleted, once the 404
+   * repeats over several syncs or DNS answers NXDOMAIN (see getExpirationSyncAction).
+   * 
+   * @param options - Set `force` to ignore the last sync timestamp
+   * @returns Summary of the sync
+   * @throws {AlertServiceError} When alerts cannot be read or updated
+   * 
+   * @example
+   * ```typescript
+   * const result = await alertService.syncExpirationDates({ force: true });
+   * console.log(`${result.renewedDomains.length} renewals detected`);
+   * ```
+   */
+  async syncExpirationDates(options: { readonly force?: boolean } = {}): Promise<ExpirationSyncResult> {
+    await this.ensureInitialized();
+    
+    // Share a sync already in progress
+    if (this.expirationSyncPromise) {
+      return this.expirationSyncPromise;
+    }
+
+    this.expirationSyncPromise = this.performExpirationSync(options.force ?? false);
+    
+    try {
+      return await this.expirationSyncPromise;
+    } finally {
+      this.expirationSyncPromise = null;
+    }
+  }
+
+  /**
+   * Perform the actual RDAP expiration sync
+   */
+  private async performExpirationSync(force: boolean): Promise<ExpirationSyncResult> {
+    const now = new Date();
+    
+    if (!force) {
+      const lastSyncResult = await db.getSetting<number>(ALERT_SERVICE_CONFIG.expirationSyncSettingKey, 0);
+      const lastSync = lastSyncResult.data ?? 0;
+      
+      if (now.getTime() - lastSync < ALERT_SERVICE_CONFIG.expirationSyncIntervalMs) {
+        return {
+          skipped: true,
+          checkedDomains: 0,
+          renewedDomains: [],
+          updatedDomains: [],
+          staleDomains: [],
+          notFoundDomains: [],
+          failedDomains: []
+        };
+      }
+    }
+
+    const alerts = await this.getAllAlerts();
+    const alertsByDomain = new Map<string, AlertSettings[]>();
+    
+    // Availability and lifecycle alerts watch domains that are expected to disappear from RDAP
+    for (const alert of alerts.filter(alert => getAlertType(alert) === 'expiration')) {
+      alertsByDomain.set(alert.domain, [...(alertsByDomain.get(alert.domain) ?? []), alert]);
+    }
+
+    const renewedDomains: string[] = [];
+    const updatedDomains: string[] = [];
+    const staleDomains: string[] = [];
+    const notFoundDomains: string[] = [];
+    const failedDomains: string[] = [];
+
+    try {
+      // Domains are checked one after another to stay gentle with RDAP servers
+      for (const [domain, domainAlerts] of alertsByDomain) {
+        const rdapResult = await fetchRdap(domain);
+        const lookup: RdapLookupOutcome = rdapResult.success && rdapResult.data
+          ? 'found'
+          : rdapResult.status === 404 ? 'not-found' : 'failed';
+        
+        // Alerts of a domain are created and synced together, they share the same streak
+        const history = domainAlerts[0] ?? {};
+        const action = getExpirationSyncAction(lookup, history, {
+          isNxdomain: lookup === 'not-found' && await this.isNxdomain(domain),
+          now
+        });
+        
+        if (action === 'failed') {
+          failedDomains.push(domain);
+          continue;
+        }
+        
+        if (action === 'not-found' || action === 'stale') {
+          const wasStale = domainAlerts.some(alert => alert.staleSince);
+          await this.saveSyncedAlerts(domainAlerts.map(alert => ({
+            ...alert,
+            lastRdapSync: now,
+            rdapNotFoundCount: (alert.rdapNotFoundCount ?? 0) + 1,
+            rdapNotFoundSince: alert.rdapNotFoundSince ?? now,
+            staleSince: action === 'stale' ? alert.staleSince ?? now : alert.staleSince
+          })));
+          
+          if (action === 'stale' && !wasStale) {
+            staleDomains.push(domain);
+          } else if (action === 'not-found') {
+            notFoundDomains.push(domain);
+          }
+          continue;
+        }
+        
+        const newExpirationDate = rdapResult.data ? extractExpirationDate(rdapResult.data) : null;
+        if (!newExpirationDate || isNaN(newExpirationDate.getTime())) {
+          failedDomains.push(domain);
+          continue;
+        }
+        
+        let renewed = false;
+        let updated = false;
+        
+        await this.saveSyncedAlerts(domainAlerts.map(alert => {
+          const expirationChanged = newExpirationDate.getTime() !== alert.expirationDate.getTime();
+          renewed ||= newExpirationDate.getTime() > alert.expirationDate.getTime();
+          updated ||= expirationChanged;
+          
+          // The registry knows the domain again: end any not-found streak
+          const syncedAlert: AlertSettings = {
+            ...(expirationChanged ? this.rescheduleAlert(alert, newExpirationDate, now) : alert),
+            lastRdapSync: now,
+            rdapNotFoundCount: undefined,
+            rdapNotFoundSince: undefined,
+            staleSince: undefined
+          };
+          return syncedAlert;
+        }));
+        
+        if (renewed) {
+          renewedDomains.push(domain);
+        } else if (updated) {
+          updatedDomains.push(domain);
+        }
+      }
+      
+      await db.saveSetting(ALERT_SERVICE_CONFIG.expirationSyncSettingKey, now.getTime());
+      await this.syncAlertsToServiceWorker();
+      
+      if (renewedDomains.length > 0 || staleDomains.length > 0) {
+        console.info(`Expiration sync: ${renewedDomains.length} renewal(s), ${staleDomains.length} domain(s) no longer registered`);
+      }
+      
+      return {
+        skipped: false,
+        checkedDomains: alertsByDomain.size,
+        renewedDomains,
+        updatedDomains,
+        staleDomains,
+        notFoundDomains,
+        failedDomains
+      };
+      
+    } catch (error) {
+      if (error instanceof AlertServiceError) {
+        throw error;
+      }
+      
+      const alertError = new AlertServiceError(
+        'Failed to sync alert expiration dates',
+        AlertServiceErrorCode.SYNC_FAILED,
+        error instanceof Error ? error : new Error(String(error))
+      );
+      
+      console.error('Expiration sync failed:', alertError);
+      throw alertError;
+    }
+  }
+
+  /**
+   * Check whether DNS confirms that a domain does not exist
+   * 
+   * Lookup errors count as no confirmation, so a resolver outage never marks alerts stale.
+   */
+  private async isNxdomain(domain: string): Promise<boolean> {
+    const result = await fetchDns(domain, DnsRecordType.NS);
+    return result.success && result.data?.Status === DnsResponseStatus.NXDOMAIN;
+  }
+
+  /**
+   * Save alerts updated by the expiration sync to the database and the cache
+   */
+  private async saveSyncedAlerts(alerts: readonly AlertSettings[]): Promise<void> {
+    for (const alert of alerts) {
+      const result = await db.saveAlert(this.convertAlertToDbRecord(alert));
+      if (!result.success) {
+        throw new AlertServiceError(
+          result.error || 'Database save operation failed',
+          AlertServiceErrorCode.DATABASE_ERROR
+        );
+      }
+      
+      this.alerts.set(alert.id, alert);
+    }
+  }
+
+  /**
+   * Move an alert schedule to a new expiration date
+   * 
+   * Pending firing dates keep their distance to the expiration date. On a renewal
+   * the notification history is reset so the new cycle notifies again.
+   */
+  private rescheduleAlert(alert: AlertSettings, newExpirationDate: Date, now: Date): AlertSettings {
+    const { renewed, alertDate, stages } = rescheduleAlertDates(alert, newExpirationDate);
+    
+    return {
+      ...alert,
+      alertDate,
+      expirationDate: newExpirationDate,
+      lastNotified: renewed ? undefined : alert.lastNotified,
+      stages,
+      renewalDetectedAt: renewed ? now : alert.renewalDetectedAt,
+      previousExpirationDate: renewed ? alert.expirationDate : alert.previousExpirationDate
+    };
+  }
+
+  /**
+   * Run the expiration sync now and then periodically while the app is open
+   * 
+   * Each run is a no-op until the sync interval has elapsed. While no page is
+   * open, the Service Worker runs the same sync on its periodic sync.
+   */
+  private startExpirationSyncJob(): void {
+    if (this.expirationSyncTimer || typeof window === 'undefined') {
+      return;
+    }
+
+    const runSync = () => {
+      this.syncExpirationDates().catch(error => {
+        console.warn('Background expiration sync failed:', error);
+      });
+    };
+    
+    runSync();
+    this.expirationSyncTimer = setInterval(runSync, ALERT_SERVICE_CONFIG.expirationSyncCheckMs);
+  }
+
   /**
    * Synchronize current alerts with Service Worker for background processing
    */
@@ -842,14 +1292,72 @@ class AlertService {
     return {
       id: record.id,
       domain: record.domain,
+      type: getAlertType(record),
       alertDate: new Date(record.alertDate),
       reminderFrequency: record.reminderFrequency,
       expirationDate: new Date(record.expirationDate),
       createdAt: new Date(record.createdAt),
-      lastNotified: record.lastNotified ? new Date(record.lastNotified) : undefined
+      lastNotified: record.lastNotified ? new Date(record.lastNotified) : undefined,
+      stages: record.stages?.map(stage => ({
+        id: stage.id,
+        daysBeforeExpiration: stage.daysBeforeExpiration,
+        alertDate: new Date(stage.alertDate),
+        lastNotified: stage.lastNotified ? new Date(stage.lastNotified) : undefined
+      })),
+      lastRdapSync: record.lastRdapSync ? new Date(record.lastRdapSync) : undefined,
+      renewalDetectedAt: record.renewalDetectedAt ? new Date(record.renewalDetectedAt) : undefined,
+      previousExpirationDate: record.previousExpirationDate ? new Date(record.previousExpirationDate) : undefined,
+      rdapNotFoundCount: record.rdapNotFoundCount,
+      rdapNotFoundSince: record.rdapNotFoundSince ? new Date(record.rdapNotFoundSince) : undefined,
+      staleSince: record.staleSince ? new Date(record.staleSince) : undefined,
+      lastAvailability: record.lastAvailability,
+      availabilityCheckedAt: record.availabilityCheckedAt ? new Date(record.availabilityCheckedAt) : undefined,
+      lastLifecyclePhase: record.lastLifecyclePhase
+    };
+  }
+
+  /**
+   * Convert AlertSettings to database record
+   */
+  private convertAlertToDbRecord(alert: AlertSettings): db.AlertRecord {
+    return {
+      id: alert.id,
+      domain: alert.domain,
+      type: getAlertType(alert),
+      alertDate: alert.alertDate.toISOString(),
+      reminderFrequency: alert.reminderFrequency,
+      expirationDate: alert.expirationDate.toISOString(),
+      createdAt: alert.createdAt.toISOString(),
+      lastNotified: alert.lastNotified?.toISOString(),
+      stages: alert.stages?.map(stage => ({
+        id: stage.id,
+        daysBeforeExpiration: stage.daysBeforeExpiration,
+        alertDate: stage.alertDate.toISOString(),
+        lastNotified: stage.lastNotified?.toISOString()
+      })),
+      lastRdapSync: alert.lastRdapSync?.toISOString(),
+      renewalDetectedAt: alert.renewalDetectedAt?.toISOString(),
+      previousExpirationDate: alert.previousExpirationDate?.toISOString(),
+      rdapNotFoundCount: alert.rdapNotFoundCount,
+      rdapNotFoundSince: alert.rdapNotFoundSince?.toISOString(),
+      staleSince: alert.staleSince?.toISOString(),
+      lastAvailability: alert.lastAvailability,
+      availabilityCheckedAt: alert.availabilityCheckedAt?.toISOString(),
+      lastLifecyclePhase: alert.lastLifecyclePhase
     };
   }
 
+  /**
+   * Reload the alerts from the database and send them to the Service Worker
+   * 
+   * Needed after the alerts store is written without the service, as by a backup
+   * restore: the next sync would otherwise post the cached alerts back over it.
+   */
+  async reloadAlerts(): Promise<void> {
+    await this.ensureInitialized();
+    await this.loadAlertsFromDatabase();
+  }
+
   /**
    * Load alerts from database and populate cache
    */
@@ -913,6 +1421,31 @@ export const requestNotificationPermission = (): Promise<NotificationPermissionS
 export const saveAlert = (settings: CreateAlertInput): Promise<AlertSettings> => 
   alertService.saveAlert(settings);
 
+/**
+ * Watch a registered domain until it becomes available
+ * 
+ * @param domain - Domain name
+ * @param expirationDate - Known expiration date, if any
+ * @returns Created alert
+ */
+export const saveAvailabilityAlert = (domain: string, expirationDate?: Date): Promise<AlertSettings> => 
+  alertService.saveAvailabilityAlert(domain, expirationDate);
+
+/**
+ * Watch the drop-catch lifecycle phase of a registered domain
+ * 
+ * @param domain - Domain name
+ * @param currentPhase - Current lifecycle phase
+ * @param expirationDate - Known expiration date, if any
+ * @returns Created alert
+ */
+export const saveLifecycleAlert = (
+  domain: string,
+  currentPhase: DomainLifecyclePhase,
+  expirationDate?: Date
+): Promise<AlertSettings> => 
+  alertService.saveLifecycleAlert(domain, currentPhase, expirationDate);
+
 /**
  * Remove an alert by ID
  * 
@@ -957,6 +1490,21 @@ export const getAllAlertsByDomain = (domain: string): Promise<readonly AlertSett
 export const getAllAlerts = (): Promise<readonly AlertSettings[]> => 
   alertService.getAllAlerts();
 
+/**
+ * Re-sync alert expiration dates from RDAP
+ * 
+ * @param options - Set `force` to ignore the last sync timestamp
+ * @returns Summary of the sync
+ */
+export const syncExpirationDates = (options?: { readonly force?: boolean }): Promise<ExpirationSyncResult> => 
+  alertService.syncExpirationDates(options);
+
+/**
+ * Reload alerts written to the database outside the alert service
+ */
+export const reloadAlerts = (): Promise<void> => 
+  alertService.reloadAlerts();
+
 /**
  * Trigger manual notification check
  */
@@ -0,0 +1,219 @@
+import type { AlertRecord, DomainRecord, SettingsRecord, TldRecord } from './dbService';
+import { getDb } from './dbService';
+import { DB_CONFIG } from './dbSchema';
+import { downloadExportFile } from './exportService';
+import { reloadAlerts } from './alertService';
+import { SEARCH_HISTORY_CONFIG, type SearchHistoryEntry } from '@/stores/searchStore';
+import type {
+  BackupConflict,
+  BackupFile,
+  BackupStoreName,
+  RestoreMode,
+  RestoreReport,
+  RestoreStoreCounts
+} from '@/types/backup';
+import {
+  BACKUP_STORE_NAMES,
+  createBackup,
+  createBackupFile,
+  createEmptyRestoreCounts,
+  mergeSearchHistory,
+  parseBackupFile,
+  planAlertMerge,
+  planStoreMerge,
+  upgradeBackupDomains,
+  validateBackupRecords,
+  validateSearchHistory,
+  type StoreMergePlan
+} from '@/utils/backupUtil';
+
+/**
+ * Backup service
+ * Saves the domains, tlds, settings and alerts stores plus the search history
+ * to a versioned JSON file, and restores them by merging or replacing
+ */
+
+/**
+ * Result type for backup operations
+ */
+interface BackupResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Reads the persisted search history
+ * @returns Search history entries, empty when missing or unreadable
+ */
+const readSearchHistory = (): SearchHistoryEntry[] => {
+  try {
+    const stored = localStorage.getItem(SEARCH_HISTORY_CONFIG.storageKey);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? validateSearchHistory(parsed).valid : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Reads every backed up store and the search history
+ * @returns Promise resolving to the backup content
+ */
+export const exportBackup = async (): Promise<BackupResult<BackupFile>> => {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(BACKUP_STORE_NAMES.map(name => DB_CONFIG.stores[name]), 'readonly');
+
+    const [domains, tlds, settings, alerts] = await Promise.all([
+      tx.objectStore(DB_CONFIG.stores.domains).getAll() as Promise<DomainRecord[]>,
+      tx.objectStore(DB_CONFIG.stores.tlds).getAll() as Promise<TldRecord[]>,
+      tx.objectStore(DB_CONFIG.stores.settings).getAll() as Promise<SettingsRecord[]>,
+      tx.objectStore(DB_CONFIG.stores.alerts).getAll() as Promise<AlertRecord[]>
+    ]);
+    await tx.done;
+
+    return {
+      success: true,
+      data: createBackup({ domains, tlds, settings, alerts }, readSearchHistory(), DB_CONFIG.version)
+    };
+  } catch (error: any) {
+    return { success: false, error: `Unable to create the backup: ${error?.message ?? error}` };
+  }
+};
+
+/**
+ * Creates a backup and downloads it as a JSON file
+ * @returns Promise resolving to the downloaded file name
+ */
+export const downloadBackup = async (): Promise<BackupResult<string>> => {
+  const backupResult = await exportBackup();
+  if (!backupResult.success || !backupResult.data) {
+    return { success: false, error: backupResult.error };
+  }
+
+  const file = createBackupFile(backupResult.data);
+  const downloadResult = downloadExportFile(file);
+
+  return downloadResult.success
+    ? { success: true, data: file.fileName }
+    : { success: false, error: downloadResult.error };
+};
+
+/**
+ * Parses a backup file against the current database schema
+ * @param text - File content
+ * @returns Parsed backup, or the reason it cannot be restored
+ */
+export const readBackupFile = (text: string): BackupResult<BackupFile> => {
+  return parseBackupFile(text, DB_CONFIG.version);
+};
+
+/**
+ * Restores a backup
+ *
+ * All four stores are written in a single transaction, so a failed restore
+ * leaves the database untouched. The alert service then reloads the alerts,
+ * and the search history is written last.
+ *
+ * @param backup - Parsed backup (see readBackupFile)
+ * @param mode - Merge into or replace the current data
+ * @returns Promise resolving to the restore report
+ */
+export const restoreBackup = async (
+  backup: BackupFile,
+  mode: RestoreMode
+): Promise<BackupResult<RestoreReport>> => {
+  const domains = validateBackupRecords<DomainRecord>('domains', backup.stores.domains);
+  const tlds = validateBackupRecords<TldRecord>('tlds', backup.stores.tlds);
+  const settings = validateBackupRecords<SettingsRecord>('settings', backup.stores.settings);
+  const alerts = validateBackupRecords<AlertRecord>('alerts', backup.stores.alerts);
+  const history = validateSearchHistory(backup.searchHistory);
+
+  const incomingDomains = upgradeBackupDomains(domains.valid, backup.schemaVersion);
+  const invalidCounts: Record<BackupStoreName, number> = {
+    domains: domains.invalid,
+    tlds: tlds.invalid,
+    settings: settings.invalid,
+    alerts: alerts.invalid
+  };
+
+  let plans: Record<BackupStoreName, StoreMergePlan<unknown>>;
+
+  try {
+    const db = await getDb();
+    const tx = db.transaction(BACKUP_STORE_NAMES.map(name => DB_CONFIG.stores[name]), 'readwrite');
+
+    if (mode === 'replace') {
+      await Promise.all(BACKUP_STORE_NAMES.map(name => tx.objectStore(DB_CONFIG.stores[name]).clear()));
+      plans = {
+        domains: { toWrite: incomingDomains, conflicts: [], unchanged: 0 },
+        tlds: { toWrite: tlds.valid, conflicts: [], unchanged: 0 },
+        settings: { toWrite: settings.valid, conflicts: [], unchanged: 0 },
+        alerts: { toWrite: alerts.valid, conflicts: [], unchanged: 0 }
+      };
+    } else {
+      const [localDomains, localTlds, localSettings, localAlerts] = await Promise.all([
+        tx.objectStore(DB_CONFIG.stores.domains).getAll() as Promise<DomainRecord[]>,
+        tx.objectStore(DB_CONFIG.stores.tlds).getAll() as Promise<TldRecord[]>,
+        tx.objectStore(DB_CONFIG.stores.settings).getAll() as Promise<SettingsRecord[]>,
+        tx.objectStore(DB_CONFIG.stores.alerts).getAll() as Promise<AlertRecord[]>
+      ]);
+
+      plans = {
+        domains: planStoreMerge('domains', localDomains, incomingDomains, record => record.name),
+        tlds: planStoreMerge('tlds', localTlds, tlds.valid, record => record.tld),
+        // Settings are compared by value, their timestamps differ between machines
+        settings: planStoreMerge('settings', localSettings, settings.valid, record => record.key, record => record.value),
+        alerts: planAlertMerge(localAlerts, alerts.valid)
+      };
+    }
+
+    await Promise.all(BACKUP_STORE_NAMES.flatMap(name =>
+      plans[name].toWrite.map(record => tx.objectStore(DB_CONFIG.stores[name]).put(record))
+    ));
+    await tx.done;
+  } catch (error: any) {
+    return { success: false, error: `Unable to restore the backup: ${error?.message ?? error}` };
+  }
+
+  // The alert service would otherwise sync its cached alerts back over the restored ones
+  try {
+    await reloadAlerts();
+  } catch (error) {
+    console.warn('Failed to reload alerts after restore:', error);
+  }
+
+  // Search history
+  let historyCounts: RestoreStoreCounts = { ...createEmptyRestoreCounts(), invalid: history.invalid };
+  try {
+    const local = mode === 'replace' ? [] : readSearchHistory();
+    const merged = mergeSearchHistory(local, history.valid, SEARCH_HISTORY_CONFIG.maxSize);
+    localStorage.setItem(SEARCH_HISTORY_CONFIG.storageKey, JSON.stringify(merged.history));
+    historyCounts = {
+      ...historyCounts,
+      restored: merged.added,
+      unchanged: history.valid.length - merged.added
+    };
+  } catch (error) {
+    console.warn('Failed to restore search history:', error);
+  }
+
+  const conflicts: BackupConflict[] = BACKUP_STORE_NAMES.flatMap(name => plans[name].conflicts);
+  const storeCounts = Object.fromEntries(BACKUP_STORE_NAMES.map(name => [name, {
+    restored: plans[name].toWrite.length,
+    conflicts: plans[name].conflicts.length,
+    unchanged: plans[name].unchanged,
+    invalid: invalidCounts[name]
+  }])) as Record<BackupStoreName, RestoreStoreCounts>;
+
+  return {
+    success: true,
+    data: {
+      mode,
+      schemaVersion: backup.schemaVersion,
+      stores: { ...storeCounts, searchHistory: historyCounts },
+      conflicts
+    }
+  };
+};
@@ -0,0 +1,213 @@
+import { DomainAvailabilityStatus } from '@/types';
+import type { BulkCheckItem, BulkQueueStatus } from '@/types/bulk';
+import { fetchRdap } from './rdapService';
+import { getDomainAvailabilityStatus, getDomainInfrastructure } from './dnsService';
+import { createDomainCheckFromDns, createDomainCheckFromRdap, type DomainCheckResult } from '@/utils/rdapUtil';
+import { isBulkItemUnknown } from '@/utils/bulkUtil';
+
+/**
+ * Bulk domain check service
+ *
+ * Checks long lists of domains through a bounded-concurrency queue that can be
+ * paused, resumed and re-run on inconclusive results.
+ */
+
+/**
+ * Bulk check configuration
+ */
+export const BULK_CHECK_CONFIG = Object.freeze({
+  /** Parallel checks used when no concurrency is given */
+  DEFAULT_CONCURRENCY: 4,
+  /** Upper bound on parallel checks, to stay gentle with RDAP and DoH servers */
+  MAX_CONCURRENCY: 10
+} as const);
+
+/**
+ * Options of a bulk check queue
+ */
+export interface BulkCheckQueueOptions {
+  /** Number of domains checked in parallel */
+  readonly concurrency?: number;
+  /** Also looks up the A and MX records of registered domains */
+  readonly inspectRegistered?: boolean;
+  /** Called whenever an item changes state */
+  readonly onItemUpdate?: (index: number, item: BulkCheckItem) => void;
+  /** Called whenever the queue status changes */
+  readonly onStatusChange?: (status: BulkQueueStatus) => void;
+}
+
+/**
+ * Controller returned by createBulkCheckQueue
+ */
+export interface BulkCheckQueue {
+  /** Starts or resumes processing of pending items */
+  readonly start: () => void;
+  /** Stops picking new items; checks already in flight still complete */
+  readonly pause: () => void;
+  /** Puts every unknown or failed item back in the queue and starts it */
+  readonly retryUnknown: () => number;
+  /** Current items, in input order */
+  readonly getItems: () => readonly BulkCheckItem[];
+  readonly getStatus: () => BulkQueueStatus;
+}
+
+/**
+ * Checks a single domain, RDAP first with a DNS fallback
+ *
+ * Same strategy as the search results: an RDAP record means the domain is
+ * registered, otherwise DNS decides.
+ *
+ * @param domainName - Domain to check
+ * @returns Promise resolving to the check result
+ */
+export const checkDomain = async (domainName: string): Promise<DomainCheckResult> => {
+  const rdapResult = await fetchRdap(domainName);
+
+  if (rdapResult.success && rdapResult.data) {
+    return createDomainCheckFromRdap(rdapResult.data);
+  }
+
+  const dnsAvailability = await getDomainAvailabilityStatus(domainName);
+  return createDomainCheckFromDns(dnsAvailability);
+};
+
+/**
+ * Clamps a requested concurrency to the supported range
+ * @param concurrency - Requested concurrency
+ * @returns Concurrency between 1 and MAX_CONCURRENCY
+ */
+const clampConcurrency = (concurrency: number): number => {
+  if (!Number.isFinite(concurrency)) {
+    return BULK_CHECK_CONFIG.DEFAULT_CONCURRENCY;
+  }
+  return Math.min(Math.max(Math.floor(concurrency), 1), BULK_CHECK_CONFIG.MAX_CONCURRENCY);
+};
+
+/**
+ * Creates a bulk check queue for a list of domains
+ *
+ * Nothing is checked until `start()` is called.
+ *
+ * @param domains - Domains to check, already normalized and de-duplicated
+ * @param options - Concurrency, record inspection and update callbacks
+ * @returns Queue controller
+ *
+ * @example
+ * ```typescript
+ * const queue = createBulkCheckQueue(['a.com', 'b.net'], {
+ *   concurrency: 4,
+ *   onItemUpdate: (index, item) => { items.value[index] = item; }
+ * });
+ * queue.start();
+ * ```
+ */
+export const createBulkCheckQueue = (
+  domains: readonly string[],
+  options: BulkCheckQueueOptions = {}
+): BulkCheckQueue => {
+  const concurrency = clampConcurrency(options.concurrency ?? BULK_CHECK_CONFIG.DEFAULT_CONCURRENCY);
+  const items: BulkCheckItem[] = domains.map(domain => ({ domain, state: 'pending', attempts: 0 }));
+  let status: BulkQueueStatus = 'idle';
+  let activeWorkers = 0;
+
+  const setStatus = (nextStatus: BulkQueueStatus): void => {
+    if (status !== nextStatus) {
+      status = nextStatus;
+      options.onStatusChange?.(status);
+    }
+  };
+
+  const updateItem = (index: number, item: BulkCheckItem): void => {
+    items[index] = item;
+    options.onItemUpdate?.(index, item);
+  };
+
+  const processItem = async (index: number): Promise<void> => {
+    const item = items[index]!;
+    updateItem(index, { ...item, state: 'checking', error: undefined, attempts: item.attempts + 1 });
+
+    try {
+      const result = await checkDomain(item.domain);
+      const infrastructure = options.inspectRegistered && result.availability === DomainAvailabilityStatus.NOTAVAILABLE
+        ? await getDomainInfrastructure(item.domain)
+        : undefined;
+      updateItem(index, { ...items[index]!, state: 'done', result, infrastructure, checkedAt: new Date() });
+    } catch (error: any) {
+      updateItem(index, {
+        ...items[index]!,
+        state: 'error',
+        result: createDomainCheckFromDns(DomainAvailabilityStatus.UNKNOWN),
+        error: error?.message ?? String(error),
+        checkedAt: new Date()
+      });
+    }
+  };
+
+  const runWorker = async (): Promise<void> => {
+    activeWorkers++;
+
+    try {
+      while (status === 'running') {
+        const index = items.findIndex(item => item.state === 'pending');
+        if (index === -1) break;
+        await processItem(index);
+      }
+    } finally {
+      activeWorkers--;
+
+      // The last worker out closes the run, unless it was paused meanwhile
+      if (activeWorkers === 0 && status === 'running') {
+        setStatus('completed');
+      }
+    }
+  };
+
+  const start = (): void => {
+    if (status === 'running') return;
+
+    const pendingCount = items.filter(item => item.state === 'pending').length;
+    if (pendingCount === 0) {
+      setStatus('completed');
+      return;
+    }
+
+    setStatus('running');
+
+    // Workers still finishing an in-flight check after a pause keep counting
+    const workersToStart = Math.min(concurrency - activeWorkers, pendingCount);
+    for (let i = 0; i < workersToStart; i++) {
+      runWorker();
+    }
+  };
+
+  const pause = (): void => {
+    if (status === 'running') {
+      setStatus('paused');
+    }
+  };
+
+  const retryUnknown = (): number => {
+    let requeued = 0;
+
+    items.forEach((item, index) => {
+      if (isBulkItemUnknown(item)) {
+        updateItem(index, { ...item, state: 'pending', result: undefined, error: undefined });
+        requeued++;
+      }
+    });
+
+    if (requeued > 0) {
+      start();
+    }
+
+    return requeued;
+  };
+
+  return {
+    start,
+    pause,
+    retryUnknown,
+    getItems: () => items,
+    getStatus: () => status
+  };
+};
@@ -0,0 +1,270 @@
+import type { CacheEntryRecord, CacheStats } from '@/types/cache';
+import { DB_CONFIG, upgradeDatabase } from './dbSchema';
+
+/**
+ * Tiered response cache
+ *
+ * Keeps recent entries in memory and every entry in an IndexedDB store, so
+ * cached DNS and RDAP answers survive reloads and are shared with the Service
+ * Worker. Only the native IndexedDB API is used (no idb wrapper) for that
+ * reason. When IndexedDB is unavailable the cache silently stays in memory.
+ */
+
+/**
+ * Cache configuration
+ */
+export const CACHE_CONFIG = Object.freeze({
+  /** Writes between two eviction passes over the persistent tier */
+  PRUNE_INTERVAL: 50
+} as const);
+
+/**
+ * Options of a tiered cache
+ */
+export interface TieredCacheOptions {
+  /** IndexedDB object store holding the persistent tier */
+  readonly storeName: string;
+  readonly maxMemoryEntries: number;
+  readonly maxPersistentEntries: number;
+  /** Upper bound of any entry lifetime in milliseconds */
+  readonly maxAge: number;
+}
+
+/**
+ * Tiered cache of values of one kind
+ */
+export interface TieredCache<T> {
+  /** Gets a fresh value, from memory first and IndexedDB second */
+  readonly get: (key: string) => Promise<T | undefined>;
+  /** Gets a fresh entry with its storage and expiration times */
+  readonly getEntry: (key: string) => Promise<CacheEntryRecord<T> | undefined>;
+  /** Stores a value for ttl milliseconds (capped by maxAge) */
+  readonly set: (key: string, value: T, ttl: number) => Promise<void>;
+  readonly clear: () => Promise<void>;
+  /** Removes expired entries and the least recently used ones beyond the size limit */
+  readonly prune: () => Promise<number>;
+  readonly getStats: () => Promise<CacheStats>;
+}
+
+/**
+ * Shared connection of every cache, null when IndexedDB is unavailable
+ */
+let cacheConnection: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Opens the database holding the persistent tiers
+ * @returns Promise resolving to the connection, or null when IndexedDB cannot be used
+ */
+const openCacheDatabase = (): Promise<IDBDatabase | null> => {
+  if (cacheConnection) {
+    return cacheConnection;
+  }
+
+  cacheConnection = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DB_CONFIG.name, DB_CONFIG.version);
+
+    request.onupgradeneeded = (event) => {
+      upgradeDatabase(request.result, request.transaction!, event.oldVersion, event.newVersion ?? DB_CONFIG.version);
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+
+      // Never hold back an upgrade started by a newer page or worker
+      db.onversionchange = () => {
+        db.close();
+        cacheConnection = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      console.warn('Response cache falls back to memory:', request.error);
+      resolve(null);
+    };
+  });
+
+  return cacheConnection;
+};
+
+/**
+ * Wraps an IndexedDB request in a promise
+ * @param request - Pending request
+ * @returns Promise resolving to the request result
+ */
+const requestToPromise = <R>(request: IDBRequest<R>): Promise<R> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Deletes the records a cursor walks over
+ * @param request - Cursor request
+ * @param limit - Maximum number of records to delete
+ * @returns Promise resolving to the number of deleted records
+ */
+const deleteWithCursor = (request: IDBRequest<IDBCursorWithValue | null>, limit: number): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    let deleted = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || deleted >= limit) {
+        resolve(deleted);
+        return;
+      }
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Creates a tiered cache backed by an IndexedDB store
+ * @param options - Store and size limits
+ * @returns Cache instance
+ */
+export const createTieredCache = <T>(options: TieredCacheOptions): TieredCache<T> => {
+  const memory = new Map<string, CacheEntryRecord<T>>();
+  const counters = { memoryHits: 0, persistentHits: 0, misses: 0, writes: 0, evictions: 0 };
+  let writesSincePrune = 0;
+
+  /**
+   * Runs a request against the persistent tier
+   * @param mode - Transaction mode
+   * @param run - Issues the request
+   * @returns Promise resolving to the result, or undefined when IndexedDB failed
+   */
+  const withStore = async <R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R | undefined> => {
+    try {
+      const db = await openCacheDatabase();
+      if (!db) return undefined;
+      return await requestToPromise(run(db.transaction(options.storeName, mode).objectStore(options.storeName)));
+    } catch (error) {
+      console.warn(`Response cache ${options.storeName} unavailable:`, error);
+      return undefined;
+    }
+  };
+
+  /**
+   * Keeps an entry in memory, dropping the least recently used ones beyond the limit
+   * @param record - Cache entry
+   */
+  const remember = (record: CacheEntryRecord<T>): void => {
+    memory.delete(record.key);
+    memory.set(record.key, record);
+
+    while (memory.size > options.maxMemoryEntries) {
+      const oldestKey = memory.keys().next().value;
+      if (oldestKey === undefined) break;
+      memory.delete(oldestKey);
+    }
+  };
+
+  const getEntry = async (key: string): Promise<CacheEntryRecord<T> | undefined> => {
+    const now = Date.now();
+    const cached = memory.get(key);
+
+    if (cached && cached.expiresAt > now) {
+      const touched = { ...cached, lastAccessed: now };
+      remember(touched);
+      counters.memoryHits++;
+      return touched;
+    }
+    if (cached) {
+      memory.delete(key);
+    }
+
+    const record = await withStore<CacheEntryRecord<T> | undefined>('readonly', store => store.get(key));
+    if (record && record.expiresAt > now) {
+      const touched = { ...record, lastAccessed: now };
+      remember(touched);
+      void withStore('readwrite', store => store.put(touched));
+      counters.persistentHits++;
+      return touched;
+    }
+    if (record) {
+      void withStore('readwrite', store => store.delete(key));
+      counters.evictions++;
+    }
+
+    counters.misses++;
+    return undefined;
+  };
+
+  const get = async (key: string): Promise<T | undefined> => (await getEntry(key))?.value;
+
+  const prune = async (): Promise<number> => {
+    const now = Date.now();
+    let removed = 0;
+
+    memory.forEach((record, key) => {
+      if (record.expiresAt <= now) {
+        memory.delete(key);
+      }
+    });
+
+    try {
+      const db = await openCacheDatabase();
+      if (db) {
+        const store = db.transaction(options.storeName, 'readwrite').objectStore(options.storeName);
+        removed += await deleteWithCursor(store.index('expiresAt').openCursor(IDBKeyRange.upperBound(now)), Infinity);
+
+        const excess = await requestToPromise(store.count()) - options.maxPersistentEntries;
+        if (excess > 0) {
+          removed += await deleteWithCursor(store.index('lastAccessed').openCursor(), excess);
+        }
+      }
+    } catch (error) {
+      console.warn(`Unable to prune response cache ${options.storeName}:`, error);
+    }
+
+    counters.evictions += removed;
+    return removed;
+  };
+
+  const set = async (key: string, value: T, ttl: number): Promise<void> => {
+    const lifetime = Math.min(ttl, options.maxAge);
+    if (lifetime <= 0) return;
+
+    const now = Date.now();
+    const record: CacheEntryRecord<T> = { key, value, storedAt: now, expiresAt: now + lifetime, lastAccessed: now };
+
+    remember(record);
+    counters.writes++;
+    await withStore('readwrite', store => store.put(record));
+
+    if (++writesSincePrune >= CACHE_CONFIG.PRUNE_INTERVAL) {
+      writesSincePrune = 0;
+      void prune();
+    }
+  };
+
+  const clear = async (): Promise<void> => {
+    memory.clear();
+    await withStore('readwrite', store => store.clear());
+  };
+
+  const getStats = async (): Promise<CacheStats> => {
+    const reads = counters.memoryHits + counters.persistentHits + counters.misses;
+    return {
+      ...counters,
+      memoryEntries: memory.size,
+      persistentEntries: await withStore('readonly', store => store.count()) ?? 0,
+      hitRate: reads > 0 ? (counters.memoryHits + counters.persistentHits) / reads : 0
+    };
+  };
+
+  return { get, getEntry, set, clear, prune, getStats };
+};
@@ -0,0 +1,207 @@
+/**
+ * IndexedDB schema shared by the page (dbService) and the Service Worker
+ *
+ * Both contexts open the same `domaincheck-db` database, so they must agree on
+ * its version and run the same upgrade logic. Opening an older version than the
+ * one already on disk fails with a VersionError, which is why the version and
+ * migrations live here and nowhere else.
+ *
+ * This module only depends on the native IndexedDB API (no path aliases) so it
+ * can be bundled into the Service Worker.
+ */
+
+/**
+ * Database configuration
+ */
+export const DB_CONFIG = Object.freeze({
+  name: 'domaincheck-db',
+  version: 11,
+  stores: {
+    domains: 'domains',
+    tlds: 'tlds',
+    searches: 'searches',
+    dnsCache: 'dnsCache',
+    rdapCache: 'rdapCache',
+    settings: 'settings',
+    alerts: 'alerts',
+    domainSnapshots: 'domainSnapshots',
+    pendingChecks: 'pendingChecks'
+  }
+} as const);
+
+/**
+ * Single versioned schema migration
+ */
+export interface DbMigration {
+  readonly version: number;
+  readonly description: string;
+  readonly migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * Creates an index if it does not exist yet
+ * @param store - Object store to update
+ * @param name - Index name
+ * @param keyPath - Indexed key path
+ * @param options - Index options
+ */
+const ensureIndex = (
+  store: IDBObjectStore,
+  name: string,
+  keyPath: string,
+  options?: IDBIndexParameters
+): void => {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, options);
+  }
+};
+
+/**
+ * Gets an object store, creating it if it does not exist yet
+ * @param db - Database being upgraded
+ * @param transaction - Upgrade transaction
+ * @param name - Store name
+ * @param keyPath - Store key path
+ * @returns Object store
+ */
+const ensureStore = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  name: string,
+  keyPath: string
+): IDBObjectStore => {
+  return db.objectStoreNames.contains(name)
+    ? transaction.objectStore(name)
+    : db.createObjectStore(name, { keyPath });
+};
+
+/**
+ * Creates the base stores and indexes
+ *
+ * Idempotent: also repairs databases created by a partial schema, such as the
+ * legacy Service Worker schema that only had the alerts store.
+ *
+ * @param db - Database being upgraded
+ * @param transaction - Upgrade transaction
+ */
+const ensureBaseSchema = (db: IDBDatabase, transaction: IDBTransaction): void => {
+  const domainsStore = ensureStore(db, transaction, DB_CONFIG.stores.domains, 'name');
+  ensureIndex(domainsStore, 'availability', 'availability');
+  ensureIndex(domainsStore, 'isInWatchList', 'isInWatchList');
+  ensureIndex(domainsStore, 'lastChecked', 'lastChecked');
+  ensureIndex(domainsStore, 'registrar', 'registrar');
+
+  const tldsStore = ensureStore(db, transaction, DB_CONFIG.stores.tlds, 'tld');
+  ensureIndex(tldsStore, 'isEnabled', 'isEnabled');
+  ensureIndex(tldsStore, 'priority', 'priority');
+  ensureIndex(tldsStore, 'type', 'metadata.type');
+
+  ensureStore(db, transaction, DB_CONFIG.stores.settings, 'key');
+
+  const alertsStore = ensureStore(db, transaction, DB_CONFIG.stores.alerts, 'id');
+  ensureIndex(alertsStore, 'domain', 'domain', { unique: false });
+  ensureIndex(alertsStore, 'expirationDate', 'expirationDate');
+};
+
+/**
+ * Ordered list of schema migrations
+ *
+ * Add new migrations at the end and bump DB_CONFIG.version accordingly.
+ */
+export const DB_MIGRATIONS: readonly DbMigration[] = Object.freeze([
+  {
+    version: 1,
+    description: 'Create domains, tlds, settings and alerts stores',
+    migrate: ensureBaseSchema
+  },
+  {
+    version: 7,
+    description: "Remove 'enabled' index from alerts",
+    migrate: (_db, transaction) => {
+      const alertsStore = transaction.objectStore(DB_CONFIG.stores.alerts);
+      if (alertsStore.indexNames.contains('enabled')) {
+        alertsStore.deleteIndex('enabled');
+      }
+    }
+  },
+  {
+    version: 8,
+    description: 'Index alerts by their first firing date for multi-stage schedules',
+    migrate: (_db, transaction) => {
+      ensureIndex(transaction.objectStore(DB_CONFIG.stores.alerts), 'alertDate', 'alertDate');
+    }
+  },
+  {
+    version: 9,
+    description: 'Add domain snapshot history and flag stored domains as watched',
+    migrate: (db, transaction) => {
+      if (!db.objectStoreNames.contains(DB_CONFIG.stores.domainSnapshots)) {
+        const snapshotsStore = db.createObjectStore(DB_CONFIG.stores.domainSnapshots, {
+          keyPath: 'id',
+          autoIncrement: true
+        });
+        snapshotsStore.createIndex('domain', 'domain', { unique: false });
+        snapshotsStore.createIndex('domain_checkedAt', ['domain', 'checkedAt']);
+      }
+
+      // Every stored domain is a bookmark, but some were saved without the flag
+      const cursorRequest = transaction.objectStore(DB_CONFIG.stores.domains).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+
+        if (cursor.value.isInWatchList !== true) {
+          cursor.update({ ...cursor.value, isInWatchList: true });
+        }
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 10,
+    description: 'Add persistent DNS and RDAP response caches',
+    migrate: (db, transaction) => {
+      for (const name of [DB_CONFIG.stores.dnsCache, DB_CONFIG.stores.rdapCache]) {
+        const cacheStore = ensureStore(db, transaction, name, 'key');
+        ensureIndex(cacheStore, 'expiresAt', 'expiresAt');
+        ensureIndex(cacheStore, 'lastAccessed', 'lastAccessed');
+      }
+    }
+  },
+  {
+    version: 11,
+    description: 'Add the queue of domain checks postponed while offline',
+    migrate: (db, transaction) => {
+      const pendingStore = ensureStore(db, transaction, DB_CONFIG.stores.pendingChecks, 'domain');
+      ensureIndex(pendingStore, 'queuedAt', 'queuedAt');
+    }
+  }
+]);
+
+/**
+ * Upgrades the database schema from one version to another
+ * @param db - Database being upgraded
+ * @param transaction - Upgrade transaction
+ * @param oldVersion - Version currently on disk (0 for a new database)
+ * @param newVersion - Target version (default: DB_CONFIG.version)
+ */
+export const upgradeDatabase = (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number = DB_CONFIG.version
+): void => {
+  console.log(`Upgrading database from version ${oldVersion} to ${newVersion}`);
+
+  // Databases created by an older partial schema may miss base stores
+  if (oldVersion > 0) {
+    ensureBaseSchema(db, transaction);
+  }
+
+  for (const migration of DB_MIGRATIONS) {
+    if (migration.version > oldVersion && migration.version <= newVersion) {
+      migration.migrate(db, transaction);
+      console.log(`Applied database migration to version ${migration.version}: ${migration.description}`);
+    }
+  }
+};
@@ -1,21 +1,8 @@
-import { openDB, type IDBPDatabase, type IDBPTransaction } from 'idb';
-import { Domain, type DomainData } from '@/types';
-
-/**
- * Database configuration
- */
-const DB_CONFIG = Object.freeze({
-  name: 'domaincheck-db',
-  version: 7,
-  stores: {
-    domains: 'domains',
-    tlds: 'tlds', 
-    searches: 'searches',
-    dnsCache: 'dnsCache',
-    settings: 'settings',
-    alerts: 'alerts'
-  }
-} as const);
+import { openDB, unwrap, type IDBPDatabase } from 'idb';
+import { Domain, type DomainAvailabilityStatus, type DomainData } from '@/types';
+import type { DomainSnapshot } from '@/types/monitoring';
+import type { DomainLifecyclePhase } from '@/utils/lifecycleUtil';
+import { DB_CONFIG, upgradeDatabase } from './dbSchema';
 
 /**
  * Domain record for database storage
@@ -50,17 +37,38 @@ interface SettingsRecord {
   readonly lastUpdated: number;
 }
 
+/**
+ * Alert stage record for multi-stage schedules
+ */
+interface AlertStageRecord {
+  readonly id: string;
+  readonly daysBeforeExpiration: number;
+  readonly alertDate: string; // ISO string
+  readonly lastNotified?: string; // ISO string
+}
+
 /**
  * Alert record for database storage
  */
 interface AlertRecord {
   readonly id: string;
   readonly domain: string;
-  readonly alertDate: string; // ISO string
+  readonly type?: 'expiration' | 'availability' | 'lifecycle'; // missing on legacy expiration alerts
+  readonly alertDate: string; // ISO string (earliest firing point for staged alerts)
   readonly reminderFrequency: 'once' | 'daily' | 'weekly';
   readonly expirationDate: string; // ISO string
   readonly createdAt: string; // ISO string
   readonly lastNotified?: string; // ISO string
+  readonly stages?: readonly AlertStageRecord[];
+  readonly lastRdapSync?: string; // ISO string
+  readonly renewalDetectedAt?: string; // ISO string
+  readonly previousExpirationDate?: string; // ISO string
+  readonly rdapNotFoundCount?: number;
+  readonly rdapNotFoundSince?: string; // ISO string
+  readonly staleSince?: string; // ISO string
+  readonly lastAvailability?: DomainAvailabilityStatus;
+  readonly availabilityCheckedAt?: string; // ISO string
+  readonly lastLifecyclePhase?: DomainLifecyclePhase;
 }
 
 /**
@@ -100,62 +108,16 @@ export const getDb = async (): Promise<IDBPDatabase> => {
   // Create new initialization promise
   dbInitPromise = openDB(DB_CONFIG.name, DB_CONFIG.version, {
     upgrade(db, oldVersion, newVersion, transaction) {
-      console.log(`Upgrading database from version ${oldVersion} to ${newVersion}`);
-      
-      // Create domains store
-      if (!db.objectStoreNames.contains(DB_CONFIG.stores.domains)) {
-        const domainsStore = db.createObjectStore(DB_CONFIG.stores.domains, { 
-          keyPath: 'name' 
-        });
-        domainsStore.createIndex('availability', 'availability');
-        domainsStore.createIndex('isInWatchList', 'isInWatchList');
-        domainsStore.createIndex('lastChecked', 'lastChecked');
-        domainsStore.createIndex('registrar', 'registrar');
-      }
-      
-      // Create TLDs store
-      if (!db.objectStoreNames.contains(DB_CONFIG.stores.tlds)) {
-        const tldsStore = db.createObjectStore(DB_CONFIG.stores.tlds, { 
-          keyPath: 'tld' 
-        });
-        tldsStore.createIndex('isEnabled', 'isEnabled');
-        tldsStore.createIndex('priority', 'priority');
-        tldsStore.createIndex('type', 'metadata.type');
-      }
-      
-      // Create settings store
-      if (!db.objectStoreNames.contains(DB_CONFIG.stores.settings)) {
-        db.createObjectStore(DB_CONFIG.stores.settings, { 
-          keyPath: 'key' 
-        });
-      }
-      
-      // Create alerts store
-      if (!db.objectStoreNames.contains(DB_CONFIG.stores.alerts)) {
-        const alertsStore = db.createObjectStore(DB_CONFIG.stores.alerts, { 
-          keyPath: 'id' 
-        });
-        alertsStore.createIndex('domain', 'domain', { unique: false });
-        alertsStore.createIndex('expirationDate', 'expirationDate');
-      }
-      
-      // Migration for version 7: Remove 'enabled' field from alerts
-      if (oldVersion < 7 && db.objectStoreNames.contains(DB_CONFIG.stores.alerts)) {
-        const alertsStore = transaction.objectStore(DB_CONFIG.stores.alerts);
-        
-        // Remove old 'enabled' index if it exists
-        if (alertsStore.indexNames.contains('enabled')) {
-          alertsStore.deleteIndex('enabled');
-        }
-        
-        console.log('Removed enabled index from alerts store in database migration to version 7');
-      }
+      // Schema and migrations are shared with the Service Worker
+      upgradeDatabase(unwrap(db), unwrap(transaction), oldVersion, newVersion ?? DB_CONFIG.version);
     },
     blocked() {
       console.warn('Database upgrade blocked by another connection');
     },
     blocking() {
-      console.warn('Database connection is blocking an upgrade');
+      // Let the other context (tab or Service Worker) upgrade, the connection reopens lazily
+      console.warn('Database connection is blocking an upgrade, closing it');
+      closeDb();
     },
     terminated() {
       console.error('Database connection was terminated');
@@ -191,7 +153,7 @@ const handleDbError = <T>(operation: string, error: any): DbResult<T> => {
 
 /**
  * Saves a domain to the database
- * @param domain - Domain instance to save
+ * @param domain - Domain instance to save, stamped as checked now unless it carries lastChecked
  * @returns Promise resolving to operation result
  */
 export const saveDomain = async (domain: Domain): Promise<DbResult<void>> => {
@@ -202,7 +164,7 @@ export const saveDomain = async (domain: Domain): Promise<DbResult<void>> => {
     
     const domainRecord: DomainRecord = {
       ...domain.toJSON(),
-      lastChecked: new Date().toISOString()
+      lastChecked: (domain.lastChecked ?? new Date()).toISOString()
     };
     
     await store.put(domainRecord);
@@ -276,12 +238,14 @@ export const getWatchListDomains = async (): Promise<DbResult<Domain[]>> => {
     const db = await getDb();
     const tx = db.transaction(DB_CONFIG.stores.domains, 'readonly');
     const store = tx.objectStore(DB_CONFIG.stores.domains);
-    const index = store.index('isInWatchList');
     
-    const records = await index.getAll(IDBKeyRange.only(true));
+    // Booleans are not valid IndexedDB keys, so the isInWatchList index cannot be queried
+    const records = await store.getAll();
     await tx.done;
     
-    const domains = records.map(record => Domain.fromJSON(record));
+    const domains = records
+      .filter(record => record.isInWatchList === true)
+      .map(record => Domain.fromJSON(record));
     
     return { success: true, data: domains };
   } catch (error) {
@@ -608,6 +572,104 @@ export const updateAlertLastNotified = async (id: string, timestamp: string): Pr
   }
 };
 
+/**
+ * Saves a domain snapshot to the monitoring history
+ * @param snapshot - Snapshot to save
+ * @returns Promise resolving to the generated snapshot ID
+ */
+export const saveDomainSnapshot = async (snapshot: DomainSnapshot): Promise<DbResult<number>> => {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(DB_CONFIG.stores.domainSnapshots, 'readwrite');
+    const store = tx.objectStore(DB_CONFIG.stores.domainSnapshots);
+    
+    const id = await store.add(snapshot);
+    await tx.done;
+    
+    return { success: true, data: Number(id) };
+  } catch (error) {
+    return handleDbError('save domain snapshot', error);
+  }
+};
+
+/**
+ * Gets the snapshot history of a domain
+ * @param domain - Domain name
+ * @returns Promise resolving to snapshots, oldest first
+ */
+export const getDomainSnapshots = async (domain: string): Promise<DbResult<DomainSnapshot[]>> => {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(DB_CONFIG.stores.domainSnapshots, 'readonly');
+    const index = tx.objectStore(DB_CONFIG.stores.domainSnapshots).index('domain_checkedAt');
+    
+    const records = await index.getAll(IDBKeyRange.bound([domain, ''], [domain, '\uffff']));
+    await tx.done;
+    
+    return { success: true, data: records };
+  } catch (error) {
+    return handleDbError('get domain snapshots', error);
+  }
+};
+
+/**
+ * Gets the most recent snapshot of a domain
+ * @param domain - Domain name
+ * @returns Promise resolving to the latest snapshot, or null if none
+ */
+export const getLatestDomainSnapshot = async (domain: string): Promise<DbResult<DomainSnapshot | null>> => {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(DB_CONFIG.stores.domainSnapshots, 'readonly');
+    const index = tx.objectStore(DB_CONFIG.stores.domainSnapshots).index('domain_checkedAt');
+    
+    const cursor = await index.openCursor(IDBKeyRange.bound([domain, ''], [domain, '\uffff']), 'prev');
+    const record = cursor?.value ?? null;
+    await tx.done;
+    
+    return { success: true, data: record };
+  } catch (error) {
+    return handleDbError('get latest domain snapshot', error);
+  }
+};
+
+/**
+ * Removes the oldest snapshots of a domain beyond a maximum history size
+ * @param domain - Domain name
+ * @param maxSnapshots - Number of snapshots to keep
+ * @returns Promise resolving to the number of removed snapshots
+ */
+export const pruneDomainSnapshots = async (domain: string, maxSnapshots: number): Promise<DbResult<number>> => {
+  try {
+    const db = await getDb();
+    const tx = db.transaction(DB_CONFIG.stores.domainSnapshots, 'readwrite');
+    const store = tx.objectStore(DB_CONFIG.stores.domainSnapshots);
+    const index = store.index('domain_checkedAt');
+    
+    const keys = await index.getAllKeys(IDBKeyRange.bound([domain, ''], [domain, '\uffff']));
+    const keysToRemove = keys.slice(0, Math.max(0, keys.length - maxSnapshots));
+    
+    for (const key of keysToRemove) {
+      await store.delete(key);
+    }
+    
+    await tx.done;
+    
+    return { success: true, data: keysToRemove.length };
+  } catch (error) {
+    return handleDbError('prune domain snapshots', error);
+  }
+};
+
+/**
+ * Removes the whole snapshot history of a domain
+ * @param domain - Domain name
+ * @returns Promise resolving to the number of removed snapshots
+ */
+export const removeDomainSnapshots = async (domain: string): Promise<DbResult<number>> => {
+  return pruneDomainSnapshots(domain, 0);
+};
+
 /**
  * Clears all data from the database
  * @returns Promise resolving to operation result
@@ -619,14 +681,22 @@ export const clearAllData = async (): Promise<DbResult<void>> => {
       DB_CONFIG.stores.domains,
       DB_CONFIG.stores.tlds,
       DB_CONFIG.stores.settings,
-      DB_CONFIG.stores.alerts
+      DB_CONFIG.stores.alerts,
+      DB_CONFIG.stores.domainSnapshots,
+      DB_CONFIG.stores.dnsCache,
+      DB_CONFIG.stores.rdapCache,
+      DB_CONFIG.stores.pendingChecks
     ], 'readwrite');
     
     await Promise.all([
       tx.objectStore(DB_CONFIG.stores.domains).clear(),
       tx.objectStore(DB_CONFIG.stores.tlds).clear(),
       tx.objectStore(DB_CONFIG.stores.settings).clear(),
-      tx.objectStore(DB_CONFIG.stores.alerts).clear()
+      tx.objectStore(DB_CONFIG.stores.alerts).clear(),
+      tx.objectStore(DB_CONFIG.stores.domainSnapshots).clear(),
+      tx.objectStore(DB_CONFIG.stores.dnsCache).clear(),
+      tx.objectStore(DB_CONFIG.stores.rdapCache).clear(),
+      tx.objectStore(DB_CONFIG.stores.pendingChecks).clear()
     ]);
     
     await tx.done;
@@ -697,4 +767,4 @@ export const closeDb = (): void => {
  * @returns Promise resolving to migration result
  */
 // Export types for external use
-export type { DomainRecord, TldRecord, SettingsRecord, AlertRecord, DbResult };
+export type { DomainRecord, TldRecord, SettingsRecord, AlertRecord, AlertStageRecord, DbResult };
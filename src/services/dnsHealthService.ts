@@ -0,0 +1,87 @@
+import { DnsRecordType, type DnsJsonResponse } from '@/types/dns';
+import type { DnsHealthReport } from '@/types/dnsHealth';
+import { fetchDns } from './dnsService';
+import { fetchRdap } from './rdapService';
+import { buildDnsHealthReport, getHealthCheckHosts } from '@/utils/dnsHealthUtil';
+
+/**
+ * DNS health report service
+ * Gathers the records of a domain and its nameserver and mail hosts, then scores them
+ */
+
+/**
+ * Health report configuration
+ */
+const DNS_HEALTH_CONFIG = Object.freeze({
+  /** Hosts resolved per kind, so a zone listing dozens of MX stays quick */
+  MAX_HOSTS: 6
+} as const);
+
+/**
+ * Result type for health report operations
+ */
+interface DnsHealthResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Queries a record type, keeping only successful answers
+ * @param domain - Domain name
+ * @param type - DNS record type
+ * @returns Promise resolving to the answer, or undefined when the lookup failed
+ */
+const lookup = async (domain: string, type: DnsRecordType): Promise<DnsJsonResponse | undefined> => {
+  const result = await fetchDns(domain, type);
+  return result.success ? result.data : undefined;
+};
+
+/**
+ * Resolves a list of hosts
+ * @param hosts - Host names
+ * @returns Promise resolving to the A answer of each host
+ */
+const lookupHosts = async (hosts: readonly string[]): Promise<Record<string, DnsJsonResponse | undefined>> => {
+  const limited = hosts.slice(0, DNS_HEALTH_CONFIG.MAX_HOSTS);
+  const answers = await Promise.all(limited.map(host => lookup(host, DnsRecordType.A)));
+  return Object.fromEntries(limited.map((host, index) => [host, answers[index]]));
+};
+
+/**
+ * Builds the DNS health report of a domain
+ * @param domain - Domain name
+ * @returns Promise resolving to the scored report
+ */
+export const getDnsHealthReport = async (domain: string): Promise<DnsHealthResult<DnsHealthReport>> => {
+  try {
+    const [ns, soa, mx, txt, dmarc, caa, aaaa, rdapResult] = await Promise.all([
+      lookup(domain, DnsRecordType.NS),
+      lookup(domain, DnsRecordType.SOA),
+      lookup(domain, DnsRecordType.MX),
+      lookup(domain, DnsRecordType.TXT),
+      lookup(`_dmarc.${domain}`, DnsRecordType.TXT),
+      lookup(domain, DnsRecordType.CAA),
+      lookup(domain, DnsRecordType.AAAA),
+      fetchRdap(domain)
+    ]);
+
+    if (!ns && !soa && !mx && !txt && !aaaa) {
+      return { success: false, error: `No DNS answer for ${domain}` };
+    }
+
+    const hosts = getHealthCheckHosts(ns, mx);
+    const [nsHosts, mxHosts] = await Promise.all([lookupHosts(hosts.nsHosts), lookupHosts(hosts.mxHosts)]);
+
+    const rdapNameservers = rdapResult.success
+      ? rdapResult.data?.nameservers?.flatMap(nameserver => nameserver.ldhName ?? [])
+      : undefined;
+
+    return {
+      success: true,
+      data: buildDnsHealthReport({ domain, ns, soa, mx, txt, dmarc, caa, aaaa, nsHosts, mxHosts, rdapNameservers })
+    };
+  } catch (error: any) {
+    return { success: false, error: `Unable to build the health report: ${error?.message ?? error}` };
+  }
+};
@@ -0,0 +1,161 @@
+import {
+  DnsRecordType,
+  type DnsConsensusSetting,
+  type DnsResolverConfig,
+  type DnsResolverSetting
+} from '@/types/dns';
+import { getSetting, saveSetting } from './dbService';
+import { queryDnsResolver, setDnsConsensus, setDnsResolver } from './dnsService';
+import {
+  DNS_CONSENSUS_SETTING_KEY,
+  DNS_RESOLVER_SETTING_KEY,
+  DEFAULT_DNS_CONSENSUS_SETTING,
+  DEFAULT_DNS_RESOLVER,
+  resolveDnsConsensusSetting,
+  resolveDnsResolverSetting
+} from '@/utils/dohUtil';
+
+/**
+ * DNS resolver settings service
+ * Persists the DNS over HTTPS provider and consensus mode choices and applies them to dnsService
+ */
+
+/**
+ * Resolver settings configuration
+ */
+const DNS_RESOLVER_SERVICE_CONFIG = Object.freeze({
+  /** Domain queried when testing a resolver */
+  TEST_DOMAIN: 'example.com'
+} as const);
+
+/**
+ * Result type for resolver settings operations
+ */
+interface DnsResolverResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Loads the stored resolver choice
+ * @returns Promise resolving to the stored setting (Cloudflare when none is stored)
+ */
+export const loadDnsResolverSetting = async (): Promise<DnsResolverResult<DnsResolverSetting>> => {
+  const result = await getSetting<DnsResolverSetting>(DNS_RESOLVER_SETTING_KEY, { provider: DEFAULT_DNS_RESOLVER.provider });
+
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error ?? 'Unable to load the DNS resolver setting' };
+  }
+
+  return { success: true, data: result.data };
+};
+
+/**
+ * Loads the stored consensus mode choice
+ * @returns Promise resolving to the stored setting (off when none is stored)
+ */
+export const loadDnsConsensusSetting = async (): Promise<DnsResolverResult<DnsConsensusSetting>> => {
+  const result = await getSetting<DnsConsensusSetting>(DNS_CONSENSUS_SETTING_KEY, DEFAULT_DNS_CONSENSUS_SETTING);
+
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error ?? 'Unable to load the DNS consensus setting' };
+  }
+
+  return { success: true, data: result.data };
+};
+
+/**
+ * Applies the stored resolver and consensus mode choices to dnsService
+ *
+ * DNS queries issued before the settings are loaded wait for them, and fall
+ * back to the default resolver without consensus when a setting is missing
+ * or invalid.
+ */
+export const applyStoredDnsResolver = (): void => {
+  setDnsResolver(loadDnsResolverSetting().then(result => {
+    const { resolver } = resolveDnsResolverSetting(result.data);
+    return resolver ?? DEFAULT_DNS_RESOLVER;
+  }));
+  setDnsConsensus(loadDnsConsensusSetting().then(result => resolveDnsConsensusSetting(result.data)));
+};
+
+/**
+ * Validates, stores and applies a resolver choice
+ * @param setting - Resolver choice
+ * @returns Promise resolving to the applied resolver
+ */
+export const saveDnsResolverSetting = async (
+  setting: DnsResolverSetting
+): Promise<DnsResolverResult<DnsResolverConfig>> => {
+  const { resolver, error } = resolveDnsResolverSetting(setting);
+  if (!resolver) {
+    return { success: false, error };
+  }
+
+  const saveResult = await saveSetting(DNS_RESOLVER_SETTING_KEY, {
+    provider: setting.provider,
+    ...(setting.endpoint?.trim() && { endpoint: setting.endpoint.trim() })
+  });
+  if (!saveResult.success) {
+    return { success: false, error: saveResult.error };
+  }
+
+  setDnsResolver(resolver);
+  return { success: true, data: resolver };
+};
+
+/**
+ * Validates, stores and applies a consensus mode choice
+ * @param setting - Consensus mode choice
+ * @returns Promise resolving to the peer resolvers now queried alongside the primary one
+ */
+export const saveDnsConsensusSetting = async (
+  setting: DnsConsensusSetting
+): Promise<DnsResolverResult<readonly DnsResolverConfig[]>> => {
+  for (const entry of setting.resolvers) {
+    const { error } = resolveDnsResolverSetting(entry);
+    if (error) {
+      return { success: false, error };
+    }
+  }
+  if (setting.enabled && setting.resolvers.length === 0) {
+    return { success: false, error: 'Select at least one resolver to compare with' };
+  }
+
+  const saveResult = await saveSetting(DNS_CONSENSUS_SETTING_KEY, {
+    enabled: setting.enabled,
+    resolvers: setting.resolvers.map(entry => ({ ...entry }))
+  });
+  if (!saveResult.success) {
+    return { success: false, error: saveResult.error };
+  }
+
+  const peers = resolveDnsConsensusSetting(setting);
+  setDnsConsensus(peers);
+  return { success: true, data: peers };
+};
+
+/**
+ * Sends a test query through a resolver choice without applying it
+ * @param setting - Resolver choice to test
+ * @returns Promise resolving to the response time in milliseconds
+ */
+export const testDnsResolver = async (setting: DnsResolverSetting): Promise<DnsResolverResult<number>> => {
+  const { resolver, error } = resolveDnsResolverSetting(setting);
+  if (!resolver) {
+    return { success: false, error };
+  }
+
+  const startedAt = performance.now();
+  const result = await queryDnsResolver(resolver, DNS_RESOLVER_SERVICE_CONFIG.TEST_DOMAIN, DnsRecordType.A);
+
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error ?? 'The resolver did not answer' };
+  }
+  if (!result.data.Answer?.length) {
+    return { success: false, error: `The resolver answered without any record for ${DNS_RESOLVER_SERVICE_CONFIG.TEST_DOMAIN}` };
+  }
+
+  return { success: true, data: Math.round(performance.now() - startedAt) };
+};
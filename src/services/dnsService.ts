@@ -2,23 +2,43 @@ import { DomainAvailabilityStatus } from '@/types';
 import { 
   DnsRecordType, 
   DnsResponseStatus,
+  type DnsConsensusResult,
+  type DnsDisagreement,
   type DnsJsonResponse,
-  type DomainDnsInfo 
+  type DnsQueryOptions,
+  type DnsRecord,
+  type DnsResolverAnswer,
+  type DnsResolverConfig,
+  type DomainDnsInfo,
+  type DomainInfrastructure
 } from '@/types/dns';
+import type { CacheStats } from '@/types/cache';
+import { buildDohRequest, DEFAULT_DNS_RESOLVER, normalizeDnsJsonResponse } from '@/utils/dohUtil';
+import { decodeDnsResponse } from '@/utils/dnsWireUtil';
+import { buildDnsConsensus, findDnsDisagreements, mergeConsensusResolvers } from '@/utils/dnsConsensusUtil';
+import { createTimeoutSignal } from '@/utils/abortUtil';
+import { toAsciiDomain } from '@/utils/idnUtil';
+import { createTieredCache } from './cacheService';
+import { DB_CONFIG } from './dbSchema';
 
 /**
  * DNS Service Configuration
- * @see https://developers.cloudflare.com/1.1.1.1/encryption/dns-over-https/
  */
 const DNS_CONFIG = {
-  /** Cloudflare DNS over HTTPS endpoint */
-  ENDPOINT: 'https://cloudflare-dns.com/dns-query',
   /** Default timeout for DNS queries in milliseconds */
   TIMEOUT: 10000,
   /** Maximum domain name length per RFC */
   MAX_DOMAIN_LENGTH: 253,
-  /** Cache TTL for DNS responses in milliseconds */
-  CACHE_TTL: 300000, // 5 minutes
+  /** Shortest time a response is cached, in seconds (also used for SERVFAIL) */
+  MIN_CACHE_TTL: 30,
+  /** Longest time a response is cached, in seconds */
+  MAX_CACHE_TTL: 86400, // 1 day
+  /** Cache time of negative answers without SOA, in seconds */
+  NEGATIVE_CACHE_TTL: 300, // 5 minutes
+  /** Responses kept in memory */
+  MAX_MEMORY_ENTRIES: 1000,
+  /** Responses kept in IndexedDB */
+  MAX_PERSISTENT_ENTRIES: 5000,
 } as const;
 
 /**
@@ -33,15 +53,25 @@ const WEB_RECORD_TYPES = [
 ] as const;
 
 /**
- * Simple in-memory cache for DNS responses
+ * DNS response cache, in memory and in IndexedDB
  */
-interface DnsCacheEntry {
-  readonly response: DnsJsonResponse;
-  readonly timestamp: number;
-  readonly ttl: number;
-}
+const dnsCache = createTieredCache<DnsJsonResponse>({
+  storeName: DB_CONFIG.stores.dnsCache,
+  maxMemoryEntries: DNS_CONFIG.MAX_MEMORY_ENTRIES,
+  maxPersistentEntries: DNS_CONFIG.MAX_PERSISTENT_ENTRIES,
+  maxAge: DNS_CONFIG.MAX_CACHE_TTL * 1000
+});
 
-const dnsCache = new Map<string, DnsCacheEntry>();
+/**
+ * DNS over HTTPS resolver used by fetchDns
+ * Kept as a promise so queries issued while the stored setting loads wait for it
+ */
+let activeResolver: Promise<DnsResolverConfig> = Promise.resolve(DEFAULT_DNS_RESOLVER);
+
+/**
+ * Resolvers queried alongside the active one in consensus mode (empty when off)
+ */
+let consensusPeers: Promise<readonly DnsResolverConfig[]> = Promise.resolve([]);
 
 /**
  * Result type for DNS operations
@@ -53,6 +83,11 @@ interface DnsResult<T> {
   readonly fromCache?: boolean;
 }
 
+/**
+ * Sends a DNS query, through the cache or to a specific resolver
+ */
+type DnsQuery = (domain: string, type: DnsRecordType) => Promise<DnsResult<DnsJsonResponse>>;
+
 /**
  * Validates a domain name format according to RFC standards
  * @param domain - Domain to validate
@@ -63,7 +98,8 @@ const isValidDomain = (domain: string): boolean => {
   if (domain.length > DNS_CONFIG.MAX_DOMAIN_LENGTH) return false;
   
   // Basic domain validation - contains at least one dot and valid characters
-  const domainRegex = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+  // Leading labels may be underscore service labels such as _dmarc (RFC 8552)
+  const domainRegex = /^(_[a-zA-Z0-9-]{1,62}\.)*[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
   
   // Additional checks
   if (!domainRegex.test(domain)) return false;
@@ -73,83 +109,74 @@ const isValidDomain = (domain: string): boolean => {
   return true;
 };
 
-/**
- * Creates a timeout promise for fetch operations
- * @param timeoutMs - Timeout in milliseconds
- * @returns Promise that rejects after timeout
- */
-const createTimeoutPromise = (timeoutMs: number): Promise<never> => {
-  return new Promise((_, reject) => {
-    setTimeout(() => {
-      reject(new Error(`DNS query timeout after ${timeoutMs}ms`));
-    }, timeoutMs);
-  });
-};
-
 /**
  * Creates a cache key for DNS queries
+ * Answers differ between resolvers (filtering, split-horizon), so the resolver is part of the key
+ * @param resolver - Resolver answering the query
  * @param domain - Domain name
  * @param type - DNS record type
+ * @param options - Query options
  * @returns Cache key string
  */
-const createCacheKey = (domain: string, type: DnsRecordType): string => {
-  return `${domain.toLowerCase()}:${type}`;
+const createCacheKey = (
+  resolver: DnsResolverConfig,
+  domain: string,
+  type: DnsRecordType,
+  options: DnsQueryOptions = {}
+): string => {
+  return `${resolver.protocol}:${resolver.endpoint}|${domain.toLowerCase()}:${type}${options.dnssec ? ':do' : ''}`;
 };
 
 /**
- * Checks if a cached entry is still valid
- * @param entry - Cache entry to check
- * @returns true if entry is still valid
+ * Gets how long a response may be cached (RFC 1035 record TTLs, RFC 2308 negative caching)
+ * @param response - DNS response
+ * @returns Cache lifetime in seconds
  */
-const isCacheEntryValid = (entry: DnsCacheEntry): boolean => {
-  return Date.now() - entry.timestamp < entry.ttl;
-};
+const getResponseTtl = (response: DnsJsonResponse): number => {
+  const clamp = (ttl: number): number =>
+    Math.min(DNS_CONFIG.MAX_CACHE_TTL, Math.max(DNS_CONFIG.MIN_CACHE_TTL, ttl));
 
-/**
- * Gets a cached DNS response if available and valid
- * @param domain - Domain name
- * @param type - DNS record type
- * @returns Cached response or undefined
- */
-const getCachedResponse = (domain: string, type: DnsRecordType): DnsJsonResponse | undefined => {
-  const key = createCacheKey(domain, type);
-  const entry = dnsCache.get(key);
-  
-  if (entry && isCacheEntryValid(entry)) {
-    return entry.response;
+  if (response.Status !== DnsResponseStatus.NOERROR && response.Status !== DnsResponseStatus.NXDOMAIN) {
+    return DNS_CONFIG.MIN_CACHE_TTL;
   }
-  
-  // Clean up expired entry
-  if (entry) {
-    dnsCache.delete(key);
+
+  if (response.Answer?.length) {
+    return clamp(Math.min(...response.Answer.map(record => record.TTL)));
   }
-  
-  return undefined;
+
+  // Negative answers live as long as the SOA TTL, capped by the SOA minimum field
+  const soa = response.Authority?.find(record => record.type === DnsRecordType.SOA);
+  const soaMinimum = Number(soa?.data.trim().split(/\s+/)[6]);
+  if (soa) {
+    return clamp(isNaN(soaMinimum) ? soa.TTL : Math.min(soa.TTL, soaMinimum));
+  }
+
+  return DNS_CONFIG.NEGATIVE_CACHE_TTL;
 };
 
 /**
- * Caches a DNS response
- * @param domain - Domain name
- * @param type - DNS record type
- * @param response - DNS response to cache
- */
-const cacheResponse = (domain: string, type: DnsRecordType, response: DnsJsonResponse): void => {
-  const key = createCacheKey(domain, type);
-  const entry: DnsCacheEntry = {
-    response,
-    timestamp: Date.now(),
-    ttl: DNS_CONFIG.CACHE_TTL
+ * Ages the record TTLs of a cached response, as a caching resolver does (RFC 1035 section 7.4)
+ * @param response - Cached DNS response
+ * @param entry - Storage and expiration times of the cache entry
+ * @param now - Reference time in milliseconds
+ * @returns Response whose TTLs count down to the end of the cache entry
+ */
+const withRemainingTtl = (
+  response: DnsJsonResponse,
+  entry: { readonly storedAt: number; readonly expiresAt: number },
+  now: number = Date.now()
+): DnsJsonResponse => {
+  const elapsed = Math.floor((now - entry.storedAt) / 1000);
+  const remaining = Math.ceil((entry.expiresAt - now) / 1000);
+  const age = (records?: readonly DnsRecord[]): readonly DnsRecord[] | undefined =>
+    records?.map(record => ({ ...record, TTL: Math.max(0, Math.min(record.TTL - elapsed, remaining)) }));
+
+  return {
+    ...response,
+    Answer: age(response.Answer),
+    Authority: age(response.Authority),
+    Additional: age(response.Additional)
   };
-  
-  dnsCache.set(key, entry);
-  
-  // Prevent cache from growing too large
-  if (dnsCache.size > 1000) {
-    const oldestKey = dnsCache.keys().next().value;
-    if (oldestKey) {
-      dnsCache.delete(oldestKey);
-    }
-  }
 };
 
 /**
@@ -191,46 +218,68 @@ const hasParentSOARecord = (dnsResponse: DnsJsonResponse, domain: string): boole
 };
 
 /**
- * Executes a DNS query using Cloudflare's DNS over HTTPS service
+ * Sets the DNS over HTTPS resolver used by fetchDns
+ * @param resolver - Resolver, or a promise resolving to it while the setting loads
+ */
+export const setDnsResolver = (resolver: DnsResolverConfig | Promise<DnsResolverConfig>): void => {
+  // Fall back to the default resolver rather than failing every query
+  activeResolver = Promise.resolve(resolver).catch(() => DEFAULT_DNS_RESOLVER);
+};
+
+/**
+ * Gets the DNS over HTTPS resolver used by fetchDns
+ * @returns Promise resolving to the active resolver
+ */
+export const getDnsResolver = (): Promise<DnsResolverConfig> => activeResolver;
+
+/**
+ * Sets the resolvers queried alongside the active one for availability verdicts
+ * @param peers - Peer resolvers (empty to turn consensus mode off), or a promise resolving to them
+ */
+export const setDnsConsensus = (
+  peers: readonly DnsResolverConfig[] | Promise<readonly DnsResolverConfig[]>
+): void => {
+  // Fall back to the single resolver rather than failing every verdict
+  consensusPeers = Promise.resolve(peers).catch(() => []);
+};
+
+/**
+ * Gets the resolvers compared in consensus mode
+ * @returns Promise resolving to the active resolver and its peers, or only the active one when consensus mode is off
+ */
+export const getConsensusResolvers = async (): Promise<readonly DnsResolverConfig[]> => {
+  return mergeConsensusResolvers(await activeResolver, await consensusPeers);
+};
+
+/**
+ * Queries a specific DNS over HTTPS resolver, bypassing the cache
+ * @param resolver - Resolver to query
  * @param domain - The domain name to query
- * @param type - DNS record type to query for (defaults to A record)
+ * @param type - DNS record type to query for
+ * @param options - Query options
  * @returns Promise resolving to the DNS result
  */
-export const fetchDns = async (domain: string, type: DnsRecordType = DnsRecordType.A): Promise<DnsResult<DnsJsonResponse>> => {
-  // Validate domain format before making the request
-  if (!isValidDomain(domain)) {
+export const queryDnsResolver = async (
+  resolver: DnsResolverConfig,
+  domain: string,
+  type: DnsRecordType = DnsRecordType.A,
+  options: DnsQueryOptions = {}
+): Promise<DnsResult<DnsJsonResponse>> => {
+  // Internationalized names are queried with their A-labels
+  const asciiDomain = toAsciiDomain(domain);
+  if (!isValidDomain(asciiDomain)) {
     return {
       success: false,
       error: `Invalid domain format: ${domain}`
     };
   }
 
-  // Check cache first
-  const cachedResponse = getCachedResponse(domain, type);
-  if (cachedResponse) {
-    return {
-      success: true,
-      data: cachedResponse,
-      fromCache: true
-    };
-  }
+  // Aborts the request on timeout, not only the wait for it
+  const timeout = createTimeoutSignal(DNS_CONFIG.TIMEOUT, `DNS query timeout after ${DNS_CONFIG.TIMEOUT}ms`, options.signal);
 
   try {
-    const fetchPromise = fetch(`${DNS_CONFIG.ENDPOINT}?name=${encodeURIComponent(domain)}&type=${type}`, {
-      headers: {
-        'accept': 'application/dns-json',
-        'user-agent': 'DomainThings/1.0'
-      },
-      // Add request mode for better error handling
-      mode: 'cors',
-      cache: 'no-cache'
-    });
-    
-    // Race between fetch and timeout
-    const response: Response = await Promise.race([
-      fetchPromise,
-      createTimeoutPromise(DNS_CONFIG.TIMEOUT)
-    ]);
+    const { url, init } = buildDohRequest(resolver, asciiDomain, type, options);
+    const response: Response = await fetch(url, { ...init, signal: timeout.signal });
     
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error');
@@ -240,10 +289,9 @@ export const fetchDns = async (domain: string, type: DnsRecordType = DnsRecordTy
       };
     }
     
-    const dnsResponse: DnsJsonResponse = await response.json();
-    
-    // Cache successful response
-    cacheResponse(domain, type, dnsResponse);
+    const dnsResponse: DnsJsonResponse = resolver.protocol === 'wire'
+      ? decodeDnsResponse(new Uint8Array(await response.arrayBuffer()))
+      : normalizeDnsJsonResponse(await response.json());
     
     return {
       success: true,
@@ -254,8 +302,15 @@ export const fetchDns = async (domain: string, type: DnsRecordType = DnsRecordTy
   } catch (error: any) {
     const errorMessage = error?.message ?? String(error);
     
+    if (options.signal?.aborted) {
+      return {
+        success: false,
+        error: `DNS lookup cancelled for ${domain}`
+      };
+    }
+    
     // Provide more specific error messages
-    if (errorMessage.includes('timeout')) {
+    if (timeout.hasTimedOut() || errorMessage.includes('timeout')) {
       return {
         success: false,
         error: `DNS query timeout for ${domain}`
@@ -273,7 +328,69 @@ export const fetchDns = async (domain: string, type: DnsRecordType = DnsRecordTy
       success: false,
       error: `DNS lookup error: ${errorMessage}`
     };
+  } finally {
+    timeout.dispose();
+  }
+};
+
+/**
+ * Executes a DNS query against a resolver through the response cache
+ * @param resolver - Resolver answering on a cache miss
+ * @param domain - The domain name to query
+ * @param type - DNS record type to query for
+ * @param options - Query options
+ * @returns Promise resolving to the DNS result
+ */
+const fetchDnsFrom = async (
+  resolver: DnsResolverConfig,
+  domain: string,
+  type: DnsRecordType,
+  options: DnsQueryOptions = {}
+): Promise<DnsResult<DnsJsonResponse>> => {
+  // Internationalized names are queried with their A-labels
+  const asciiDomain = toAsciiDomain(domain);
+  if (!isValidDomain(asciiDomain)) {
+    return {
+      success: false,
+      error: `Invalid domain format: ${domain}`
+    };
+  }
+
+  const cacheKey = createCacheKey(resolver, asciiDomain, type, options);
+
+  // Check cache first
+  const cachedEntry = await dnsCache.getEntry(cacheKey);
+  if (cachedEntry) {
+    return {
+      success: true,
+      data: withRemainingTtl(cachedEntry.value, cachedEntry),
+      fromCache: true
+    };
+  }
+
+  const result = await queryDnsResolver(resolver, asciiDomain, type, options);
+  
+  // Cache successful response for as long as its records live
+  if (result.success && result.data) {
+    void dnsCache.set(cacheKey, result.data, getResponseTtl(result.data) * 1000);
   }
+  
+  return result;
+};
+
+/**
+ * Executes a DNS query using the configured DNS over HTTPS resolver
+ * @param domain - The domain name to query
+ * @param type - DNS record type to query for (defaults to A record)
+ * @param options - Query options
+ * @returns Promise resolving to the DNS result
+ */
+export const fetchDns = async (
+  domain: string,
+  type: DnsRecordType = DnsRecordType.A,
+  options: DnsQueryOptions = {}
+): Promise<DnsResult<DnsJsonResponse>> => {
+  return fetchDnsFrom(await activeResolver, domain, type, options);
 };
 
 /**
@@ -281,10 +398,11 @@ export const fetchDns = async (domain: string, type: DnsRecordType = DnsRecordTy
  * Used when initial query shows parent SOA but no direct domain records
  * 
  * @param domain - The domain to check
+ * @param query - Sends the SOA query
  * @returns Promise resolving to availability status
  */
-const performSOACheck = async (domain: string): Promise<DomainAvailabilityStatus> => {
-  const soaResult = await fetchDns(domain, DnsRecordType.SOA);
+const performSOACheck = async (domain: string, query: DnsQuery): Promise<DomainAvailabilityStatus> => {
+  const soaResult = await query(domain, DnsRecordType.SOA);
   
   if (!soaResult.success || !soaResult.data) {
     return DomainAvailabilityStatus.UNKNOWN;
@@ -302,7 +420,7 @@ const performSOACheck = async (domain: string): Promise<DomainAvailabilityStatus
 };
 
 /**
- * Determines if a domain is available for registration based on DNS analysis
+ * Derives the availability of a domain from its A query
  * 
  * This function uses a multi-step approach:
  * 1. Check for NXDOMAIN (clear availability indicator)
@@ -311,11 +429,15 @@ const performSOACheck = async (domain: string): Promise<DomainAvailabilityStatus
  * 4. Perform additional SOA lookup for edge cases
  * 
  * @param domain - The domain name to check
+ * @param dnsResult - Result of the A query
+ * @param query - Sends the follow-up SOA query
  * @returns Promise resolving to domain availability status
  */
-export const getDomainAvailabilityStatus = async (domain: string): Promise<DomainAvailabilityStatus> => {
-  const dnsResult = await fetchDns(domain, DnsRecordType.A);
-  
+const analyzeAvailability = async (
+  domain: string,
+  dnsResult: DnsResult<DnsJsonResponse>,
+  query: DnsQuery
+): Promise<DomainAvailabilityStatus> => {
   if (!dnsResult.success || !dnsResult.data) {
     return DomainAvailabilityStatus.UNKNOWN;
   }
@@ -352,7 +474,7 @@ export const getDomainAvailabilityStatus = async (domain: string): Promise<Domai
       // Check for parent zone SOA only
       if (hasParentSOARecord(dnsResponse, domain)) {
         // Perform additional SOA query to confirm domain registration
-        return await performSOACheck(domain);
+        return await performSOACheck(domain, query);
       }
     }
     
@@ -364,13 +486,113 @@ export const getDomainAvailabilityStatus = async (domain: string): Promise<Domai
 };
 
 /**
- * Provides detailed DNS information for a domain
- * Useful for debugging and fine-grained analysis of domain status
+ * Sends the same query to several resolvers in parallel
+ * @param resolvers - Resolvers to query
+ * @param domain - The domain name to query
+ * @param type - DNS record type to query for
+ * @param send - Sends the query to one resolver
+ * @returns Promise resolving to the answer of each resolver
+ */
+const queryResolvers = (
+  resolvers: readonly DnsResolverConfig[],
+  domain: string,
+  type: DnsRecordType,
+  send: (resolver: DnsResolverConfig, domain: string, type: DnsRecordType) => Promise<DnsResult<DnsJsonResponse>>
+): Promise<DnsResolverAnswer[]> => {
+  return Promise.all(resolvers.map(async (resolver): Promise<DnsResolverAnswer> => {
+    const result = await send(resolver, domain, type);
+    return result.success && result.data
+      ? { resolver, response: result.data }
+      : { resolver, error: result.error ?? 'No response' };
+  }));
+};
+
+/**
+ * Sends the same query to several resolvers in parallel, bypassing the cache
+ * @param domain - The domain name to query
+ * @param type - DNS record type to query for
+ * @param resolvers - Resolvers to compare (defaults to the consensus resolvers)
+ * @param signal - Cancels the queries
+ * @returns Promise resolving to the answer of each resolver and their disagreements
+ */
+export const compareDnsResolvers = async (
+  domain: string,
+  type: DnsRecordType = DnsRecordType.A,
+  resolvers?: readonly DnsResolverConfig[],
+  signal?: AbortSignal
+): Promise<{ readonly answers: readonly DnsResolverAnswer[]; readonly disagreements: readonly DnsDisagreement[] }> => {
+  const targets = resolvers ?? await getConsensusResolvers();
+  const answers = await queryResolvers(targets, domain, type, (resolver, name, queryType) =>
+    queryDnsResolver(resolver, name, queryType, { signal })
+  );
+
+  return { answers, disagreements: findDnsDisagreements(answers) };
+};
+
+/**
+ * Determines availability by asking several resolvers and comparing their verdicts
+ *
+ * Each resolver's answers, follow-up queries included, are cached under that resolver.
+ *
+ * @param domain - The domain name to check
+ * @param resolvers - Resolvers to ask (defaults to the consensus resolvers)
+ * @param signal - Cancels the queries
+ * @returns Promise resolving to the consensus verdict
+ */
+export const getDnsConsensus = async (
+  domain: string,
+  resolvers?: readonly DnsResolverConfig[],
+  signal?: AbortSignal
+): Promise<DnsConsensusResult> => {
+  // Owner names in answers are A-labels
+  const asciiDomain = toAsciiDomain(domain);
+  const targets = resolvers ?? await getConsensusResolvers();
+  const answers = await queryResolvers(targets, asciiDomain, DnsRecordType.A, (resolver, name, type) =>
+    fetchDnsFrom(resolver, name, type, { signal })
+  );
+
+  const verdicts = await Promise.all(answers.map(async answer => {
+    const query: DnsQuery = (name, type) => fetchDnsFrom(answer.resolver, name, type, { signal });
+    const status = await analyzeAvailability(
+      asciiDomain,
+      { success: Boolean(answer.response), data: answer.response, error: answer.error },
+      query
+    );
+    return { resolver: answer.resolver, status, dnsStatus: answer.response?.Status, error: answer.error };
+  }));
+
+  return buildDnsConsensus(verdicts, findDnsDisagreements(answers));
+};
+
+/**
+ * Determines if a domain is available for registration based on DNS analysis
  * 
+ * In consensus mode the verdict comes from several resolvers; otherwise the
+ * configured resolver answers alone.
+ * 
+ * @param domain - The domain name to check
+ * @param signal - Cancels the queries (the status is then UNKNOWN)
+ * @returns Promise resolving to domain availability status
+ */
+export const getDomainAvailabilityStatus = async (domain: string, signal?: AbortSignal): Promise<DomainAvailabilityStatus> => {
+  // Owner names in answers are A-labels
+  const asciiDomain = toAsciiDomain(domain);
+  const resolvers = await getConsensusResolvers();
+  if (resolvers.length > 1) {
+    return (await getDnsConsensus(asciiDomain, resolvers, signal)).status;
+  }
+
+  const query: DnsQuery = (name, type) => fetchDns(name, type, { signal });
+  return analyzeAvailability(asciiDomain, await query(asciiDomain, DnsRecordType.A), query);
+};
+
+/**
+ * Analyzes the configured resolver's answers for a domain
  * @param domain - The domain name to analyze
+ * @param signal - Cancels the queries
  * @returns Promise resolving to detailed DNS information
  */
-export const getDomainDnsInfo = async (domain: string): Promise<DomainDnsInfo> => {
+const getSingleResolverDnsInfo = async (domain: string, signal?: AbortSignal): Promise<DomainDnsInfo> => {
   const info: DomainDnsInfo = {
     status: DomainAvailabilityStatus.UNKNOWN,
     dnsStatus: DnsResponseStatus.SERVFAIL,
@@ -381,7 +603,7 @@ export const getDomainDnsInfo = async (domain: string): Promise<DomainDnsInfo> =
     confidence: 'low'
   };
 
-  const dnsResult = await fetchDns(domain, DnsRecordType.A);
+  const dnsResult = await fetchDns(domain, DnsRecordType.A, { signal });
   
   if (!dnsResult.success || !dnsResult.data) {
     return info;
@@ -432,7 +654,7 @@ export const getDomainDnsInfo = async (domain: string): Promise<DomainDnsInfo> =
     
     if (info.hasParentSOA) {
       // Perform additional SOA verification
-      const soaResult = await fetchDns(domain, DnsRecordType.SOA);
+      const soaResult = await fetchDns(domain, DnsRecordType.SOA, { signal });
       if (soaResult.success && soaResult.data?.Status === DnsResponseStatus.NOERROR && 
           soaResult.data.Answer && soaResult.data.Answer.length > 0) {
         info.hasSOA = true;
@@ -454,25 +676,73 @@ export const getDomainDnsInfo = async (domain: string): Promise<DomainDnsInfo> =
 };
 
 /**
- * Clears the DNS cache
+ * Provides detailed DNS information for a domain
+ * Useful for debugging and fine-grained analysis of domain status
+ * 
+ * In consensus mode the status and confidence come from the consensus
+ * verdict, and the per-resolver verdicts are attached.
+ * 
+ * @param domain - The domain name to analyze
+ * @param signal - Cancels the queries
+ * @returns Promise resolving to detailed DNS information
  */
-export const clearDnsCache = (): void => {
-  dnsCache.clear();
+export const getDomainDnsInfo = async (domain: string, signal?: AbortSignal): Promise<DomainDnsInfo> => {
+  // Owner names in answers are A-labels
+  const asciiDomain = toAsciiDomain(domain);
+  const resolvers = await getConsensusResolvers();
+  if (resolvers.length < 2) {
+    return getSingleResolverDnsInfo(asciiDomain, signal);
+  }
+
+  const [info, consensus] = await Promise.all([
+    getSingleResolverDnsInfo(asciiDomain, signal),
+    getDnsConsensus(asciiDomain, resolvers, signal)
+  ]);
+
+  return {
+    ...info,
+    status: consensus.status,
+    confidence: consensus.confidence,
+    consensus
+  };
 };
 
 /**
- * Gets DNS cache statistics
- * @returns Cache statistics
+ * Checks whether a domain has A and MX records
+ *
+ * Only NOERROR and NXDOMAIN answers tell whether a record exists; failed
+ * queries and other response codes leave the record unknown.
+ *
+ * @param domain - The domain name to inspect
+ * @param signal - Cancels the queries
+ * @returns Promise resolving to the presence of A and MX records
  */
-export const getDnsCacheStats = () => {
-  const now = Date.now();
-  const entries = Array.from(dnsCache.values());
-  const validEntries = entries.filter(entry => isCacheEntryValid(entry));
-  
-  return {
-    totalEntries: dnsCache.size,
-    validEntries: validEntries.length,
-    expiredEntries: entries.length - validEntries.length,
-    memoryUsage: JSON.stringify(Array.from(dnsCache.entries())).length
+export const getDomainInfrastructure = async (domain: string, signal?: AbortSignal): Promise<DomainInfrastructure> => {
+  const hasRecord = async (type: DnsRecordType): Promise<boolean | undefined> => {
+    const result = await fetchDns(domain, type, { signal });
+    if (!result.success || !result.data) return undefined;
+
+    switch (result.data.Status) {
+      case DnsResponseStatus.NOERROR:
+        return result.data.Answer?.some(record => record.type === type) ?? false;
+      case DnsResponseStatus.NXDOMAIN:
+        return false;
+      default:
+        return undefined;
+    }
   };
-};
\ No newline at end of file
+
+  const [hasA, hasMx] = await Promise.all([hasRecord(DnsRecordType.A), hasRecord(DnsRecordType.MX)]);
+  return { hasA, hasMx };
+};
+
+/**
+ * Clears the DNS cache, in memory and in IndexedDB
+ */
+export const clearDnsCache = (): Promise<void> => dnsCache.clear();
+
+/**
+ * Gets DNS cache statistics
+ * @returns Promise resolving to the cache statistics
+ */
+export const getDnsCacheStats = (): Promise<CacheStats> => dnsCache.getStats();
@@ -0,0 +1,55 @@
+import { DnsRecordType } from '@/types/dns';
+import type { DnssecReport } from '@/types/dnssec';
+import { fetchDns } from './dnsService';
+import { fetchRdap } from './rdapService';
+import { buildDnssecReport } from '@/utils/dnssecUtil';
+
+/**
+ * DNSSEC inspection service
+ * Fetches DS from the parent zone, DNSKEY from the zone and the RDAP secure DNS data
+ */
+
+/**
+ * Result type for DNSSEC operations
+ */
+interface DnssecResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Builds the DNSSEC report of a domain
+ *
+ * RDAP is optional: the report is built from DNS alone when the registry
+ * lookup fails.
+ *
+ * @param domain - Domain name
+ * @returns Promise resolving to the DNSSEC report
+ */
+export const getDnssecReport = async (domain: string): Promise<DnssecResult<DnssecReport>> => {
+  const [dsResult, dnskeyResult, rdapResult] = await Promise.all([
+    fetchDns(domain, DnsRecordType.DS, { dnssec: true }),
+    fetchDns(domain, DnsRecordType.DNSKEY, { dnssec: true }),
+    fetchRdap(domain)
+  ]);
+
+  if (!dsResult.success || !dsResult.data) {
+    return { success: false, error: dsResult.error ?? 'DS lookup failed' };
+  }
+  if (!dnskeyResult.success || !dnskeyResult.data) {
+    return { success: false, error: dnskeyResult.error ?? 'DNSKEY lookup failed' };
+  }
+
+  try {
+    const report = await buildDnssecReport({
+      domain,
+      dsResponse: dsResult.data,
+      dnskeyResponse: dnskeyResult.data,
+      rdap: rdapResult.success ? rdapResult.data?.secureDNS : undefined
+    });
+    return { success: true, data: report };
+  } catch (error: any) {
+    return { success: false, error: `Unable to check DNSSEC: ${error?.message ?? error}` };
+  }
+};
@@ -0,0 +1,75 @@
+import type { DomainData } from '@/types';
+import type { ExportFile } from '@/types/export';
+import { getWatchListDomains } from './dbService';
+import { getAllAlerts, type AlertSettings } from './alertService';
+
+/**
+ * Export service
+ * Loads the exportable datasets and hands generated files to the browser
+ */
+
+/**
+ * Result type for export operations
+ */
+interface ExportResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Loads the watch list in its Domain.toJSON() shape
+ * @returns Promise resolving to the watched domains
+ */
+export const getWatchListExportRows = async (): Promise<ExportResult<DomainData[]>> => {
+  const result = await getWatchListDomains();
+
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error ?? 'Unable to load the watch list' };
+  }
+
+  return { success: true, data: result.data.map(domain => domain.toJSON()) };
+};
+
+/**
+ * Loads every alert
+ * @returns Promise resolving to the alerts
+ */
+export const getAlertExportRows = async (): Promise<ExportResult<AlertSettings[]>> => {
+  try {
+    const alerts = await getAllAlerts();
+    return { success: true, data: [...alerts] };
+  } catch (error: any) {
+    return { success: false, error: `Unable to load alerts: ${error?.message ?? error}` };
+  }
+};
+
+/**
+ * Downloads a generated file through a temporary object URL
+ * @param file - File to download
+ * @returns Operation result
+ */
+export const downloadExportFile = (file: ExportFile): ExportResult<void> => {
+  if (typeof document === 'undefined') {
+    return { success: false, error: 'Downloads are only available in the browser' };
+  }
+
+  try {
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.fileName;
+    link.style.display = 'none';
+
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+
+    // Give the browser time to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: `Unable to download ${file.fileName}: ${error?.message ?? error}` };
+  }
+};
@@ -0,0 +1,181 @@
+import { Domain } from '@/types';
+import type { ImportEntry, ImportProgress, ImportRejection } from '@/types/import';
+import { fetchRdap } from './rdapService';
+import { getDb, saveDomain } from './dbService';
+import { DB_CONFIG } from './dbSchema';
+import { createDomainCheckFromRdap } from '@/utils/rdapUtil';
+
+/**
+ * Watch list import service
+ *
+ * Bookmarks parsed import entries that are not watched yet, then optionally
+ * enriches them with RDAP data in the background.
+ */
+
+/**
+ * Import configuration
+ */
+export const IMPORT_SERVICE_CONFIG = Object.freeze({
+  /** Parallel RDAP lookups while enriching, kept low for registry rate limits */
+  ENRICH_CONCURRENCY: 2
+} as const);
+
+/**
+ * Result type for import operations
+ */
+interface ImportResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Options of a watch list import
+ */
+export interface WatchListImportOptions {
+  /** Look each added domain up with RDAP after saving it */
+  readonly enrich?: boolean;
+  /** Rejections found while parsing, included in the progress report */
+  readonly parseRejections?: readonly ImportRejection[];
+  /** Called whenever the progress changes */
+  readonly onProgress?: (progress: ImportProgress) => void;
+}
+
+/**
+ * Builds the watched domain of an import entry
+ * @param entry - Parsed import entry
+ * @returns Domain flagged as watched
+ */
+const createImportedDomain = (entry: ImportEntry): Domain => {
+  return new Domain(entry.domain, undefined, true, false, undefined, entry.expirationDate, entry.registrar);
+};
+
+/**
+ * Looks an imported domain up with RDAP and stores the registration data
+ * @param domain - Imported domain
+ * @returns Promise resolving to the lookup result
+ */
+const enrichImportedDomain = async (domain: Domain): Promise<ImportResult<void>> => {
+  const rdapResult = await fetchRdap(domain.name);
+  if (!rdapResult.success || !rdapResult.data) {
+    return { success: false, error: rdapResult.error ?? 'RDAP lookup failed' };
+  }
+
+  const check = createDomainCheckFromRdap(rdapResult.data);
+  return saveDomain(domain.with({
+    availability: check.availability,
+    creationDate: check.creationDate,
+    expirationDate: check.expirationDate,
+    registrar: check.registrar,
+    lastChecked: new Date()
+  }));
+};
+
+/**
+ * Enriches imported domains through a small worker pool
+ * @param added - Saved entries and their domains
+ * @param update - Applies a progress change
+ * @param getProgress - Reads the current progress
+ */
+const runEnrichment = async (
+  added: readonly { readonly entry: ImportEntry; readonly domain: Domain }[],
+  update: (changes: Partial<ImportProgress>) => void,
+  getProgress: () => ImportProgress
+): Promise<void> => {
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    let next = added[nextIndex++];
+    while (next) {
+      const { entry, domain } = next;
+      const result = await enrichImportedDomain(domain);
+      const progress = getProgress();
+
+      update({
+        enriched: progress.enriched + 1,
+        enrichPending: progress.enrichPending - 1,
+        enrichErrors: result.success ? progress.enrichErrors : [...progress.enrichErrors, {
+          line: entry.line,
+          value: entry.domain,
+          reason: result.error ?? 'RDAP lookup failed'
+        }]
+      });
+      next = added[nextIndex++];
+    }
+  };
+
+  const workerCount = Math.min(IMPORT_SERVICE_CONFIG.ENRICH_CONCURRENCY, added.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+};
+
+/**
+ * Imports domains into the watch list
+ *
+ * Domains already stored are skipped. The returned promise resolves once the
+ * domains are saved; RDAP enrichment keeps running and reports through
+ * onProgress until enrichPending drops to 0.
+ *
+ * @param entries - Parsed import entries
+ * @param options - Enrichment and progress options
+ * @returns Promise resolving to the progress right after saving
+ */
+export const importWatchList = async (
+  entries: readonly ImportEntry[],
+  options: WatchListImportOptions = {}
+): Promise<ImportResult<ImportProgress>> => {
+  let existingNames: Set<string>;
+  try {
+    const db = await getDb();
+    existingNames = new Set((await db.getAllKeys(DB_CONFIG.stores.domains)).map(String));
+  } catch (error: any) {
+    return { success: false, error: `Unable to read the watch list: ${error?.message ?? error}` };
+  }
+
+  let progress: ImportProgress = {
+    total: entries.length,
+    added: 0,
+    alreadyWatched: 0,
+    enriched: 0,
+    enrichPending: 0,
+    rejected: [...(options.parseRejections ?? [])],
+    enrichErrors: []
+  };
+
+  const update = (changes: Partial<ImportProgress>): void => {
+    progress = { ...progress, ...changes };
+    options.onProgress?.(progress);
+  };
+
+  const added: { readonly entry: ImportEntry; readonly domain: Domain }[] = [];
+
+  for (const entry of entries) {
+    if (existingNames.has(entry.domain)) {
+      update({ alreadyWatched: progress.alreadyWatched + 1 });
+      continue;
+    }
+
+    const domain = createImportedDomain(entry);
+    const saveResult = await saveDomain(domain);
+
+    if (saveResult.success) {
+      existingNames.add(entry.domain);
+      added.push({ entry, domain });
+      update({ added: progress.added + 1 });
+    } else {
+      update({
+        rejected: [...progress.rejected, {
+          line: entry.line,
+          value: entry.domain,
+          reason: saveResult.error ?? 'Unable to save the domain'
+        }]
+      });
+    }
+  }
+
+  if (options.enrich && added.length > 0) {
+    update({ enrichPending: added.length });
+    void runEnrichment(added, update, () => progress);
+  }
+
+  return { success: true, data: progress };
+};
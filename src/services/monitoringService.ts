@@ -0,0 +1,245 @@
+import { DomainAvailabilityStatus } from '@/types';
+import type { DomainSnapshot, DomainTimelineEntry } from '@/types/monitoring';
+import { fetchRdap } from './rdapService';
+import { getDomainDnsInfo } from './dnsService';
+import * as db from './dbService';
+import { buildDomainTimeline, createDomainSnapshot, diffDomainSnapshots } from '@/utils/snapshotUtil';
+
+/**
+ * Watch-list monitoring service
+ *
+ * Periodically re-checks every watched domain with RDAP and DNS, stores a
+ * snapshot history and reports what changed between two checks.
+ */
+
+/**
+ * Monitoring configuration
+ */
+const MONITORING_CONFIG = Object.freeze({
+  /** Minimum delay between two monitoring runs */
+  INTERVAL_MS: 6 * 60 * 60 * 1000, // 6 hours
+  /** How often the app checks whether a run is due */
+  CHECK_INTERVAL_MS: 15 * 60 * 1000, // 15 minutes
+  /** Snapshots kept per domain */
+  MAX_SNAPSHOTS_PER_DOMAIN: 100,
+  /** Setting key storing the timestamp of the last run */
+  LAST_RUN_SETTING_KEY: 'watchListLastMonitoring'
+} as const);
+
+/**
+ * Result type for monitoring operations
+ */
+interface MonitoringResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Outcome of a single domain check
+ */
+export interface DomainMonitoringCheck {
+  readonly snapshot: DomainSnapshot;
+  readonly previous: DomainSnapshot | null;
+  readonly changes: DomainTimelineEntry['changes'];
+}
+
+/**
+ * Outcome of a watch-list monitoring run
+ */
+export interface MonitoringRunSummary {
+  /** True when the run was skipped because the last one is recent enough */
+  readonly skipped: boolean;
+  readonly checkedDomains: number;
+  /** Checks that detected at least one change */
+  readonly changedDomains: readonly DomainMonitoringCheck[];
+  readonly failedDomains: readonly string[];
+}
+
+/**
+ * Running monitoring pass, shared by concurrent callers
+ */
+let currentRun: Promise<MonitoringResult<MonitoringRunSummary>> | null = null;
+
+/**
+ * Background timer handle
+ */
+let monitoringTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Re-checks a single domain, stores its snapshot and diffs it with the previous one
+ * @param domainName - Domain to check
+ * @returns Promise resolving to the check outcome
+ */
+export const checkWatchedDomain = async (domainName: string): Promise<MonitoringResult<DomainMonitoringCheck>> => {
+  try {
+    const [rdapResult, dnsInfo, previousResult] = await Promise.all([
+      fetchRdap(domainName),
+      getDomainDnsInfo(domainName),
+      db.getLatestDomainSnapshot(domainName)
+    ]);
+
+    const rdapData = rdapResult.success ? rdapResult.data : undefined;
+
+    // Nothing reliable to record when both sources failed
+    if (!rdapData && dnsInfo.status === DomainAvailabilityStatus.UNKNOWN) {
+      return {
+        success: false,
+        error: `Unable to check ${domainName}: ${rdapResult.error ?? 'no RDAP or DNS answer'}`
+      };
+    }
+
+    const snapshot = createDomainSnapshot(domainName, rdapData, dnsInfo);
+    const previous = previousResult.data ?? null;
+    const changes = previous ? diffDomainSnapshots(previous, snapshot) : [];
+
+    const saveResult = await db.saveDomainSnapshot(snapshot);
+    if (!saveResult.success) {
+      return { success: false, error: saveResult.error };
+    }
+    await db.pruneDomainSnapshots(domainName, MONITORING_CONFIG.MAX_SNAPSHOTS_PER_DOMAIN);
+
+    // Keep the watch-list record in sync with the latest check
+    const domainResult = await db.getDomain(domainName);
+    if (domainResult.data) {
+      await db.saveDomain(domainResult.data.with({
+        availability: snapshot.availability,
+        registrar: snapshot.registrar,
+        expirationDate: snapshot.expirationDate ? new Date(snapshot.expirationDate) : undefined,
+        lastChecked: new Date(snapshot.checkedAt)
+      }));
+    }
+
+    return {
+      success: true,
+      data: { snapshot: { ...snapshot, id: saveResult.data }, previous, changes }
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: `Monitoring check failed for ${domainName}: ${error?.message ?? error}`
+    };
+  }
+};
+
+/**
+ * Performs a monitoring pass over every watched domain
+ * @param force - Ignore the last run timestamp
+ * @returns Promise resolving to the run summary
+ */
+const performMonitoringRun = async (force: boolean): Promise<MonitoringResult<MonitoringRunSummary>> => {
+  const now = Date.now();
+
+  if (!force) {
+    const lastRunResult = await db.getSetting<number>(MONITORING_CONFIG.LAST_RUN_SETTING_KEY, 0);
+    if (now - (lastRunResult.data ?? 0) < MONITORING_CONFIG.INTERVAL_MS) {
+      return {
+        success: true,
+        data: { skipped: true, checkedDomains: 0, changedDomains: [], failedDomains: [] }
+      };
+    }
+  }
+
+  const watchListResult = await db.getWatchListDomains();
+  if (!watchListResult.success || !watchListResult.data) {
+    return { success: false, error: watchListResult.error };
+  }
+
+  const changedDomains: DomainMonitoringCheck[] = [];
+  const failedDomains: string[] = [];
+
+  // Domains are checked one after another to stay gentle with RDAP servers
+  for (const domain of watchListResult.data) {
+    const checkResult = await checkWatchedDomain(domain.name);
+
+    if (!checkResult.success || !checkResult.data) {
+      failedDomains.push(domain.name);
+    } else if (checkResult.data.changes.length > 0) {
+      changedDomains.push(checkResult.data);
+    }
+  }
+
+  await db.saveSetting(MONITORING_CONFIG.LAST_RUN_SETTING_KEY, now);
+
+  return {
+    success: true,
+    data: {
+      skipped: false,
+      checkedDomains: watchListResult.data.length,
+      changedDomains,
+      failedDomains
+    }
+  };
+};
+
+/**
+ * Re-checks every watch-list domain unless a run happened recently
+ * @param options - Set `force` to ignore the last run timestamp
+ * @returns Promise resolving to the run summary
+ */
+export const runWatchListMonitoring = async (
+  options: { readonly force?: boolean } = {}
+): Promise<MonitoringResult<MonitoringRunSummary>> => {
+  if (currentRun) {
+    return currentRun;
+  }
+
+  currentRun = performMonitoringRun(options.force ?? false);
+
+  try {
+    return await currentRun;
+  } catch (error: any) {
+    return { success: false, error: `Watch-list monitoring failed: ${error?.message ?? error}` };
+  } finally {
+    currentRun = null;
+  }
+};
+
+/**
+ * Gets the change timeline of a domain
+ * @param domainName - Domain name
+ * @returns Promise resolving to timeline entries, newest first
+ */
+export const getDomainTimeline = async (domainName: string): Promise<MonitoringResult<DomainTimelineEntry[]>> => {
+  const snapshotsResult = await db.getDomainSnapshots(domainName);
+
+  if (!snapshotsResult.success || !snapshotsResult.data) {
+    return { success: false, error: snapshotsResult.error };
+  }
+
+  return { success: true, data: buildDomainTimeline(snapshotsResult.data) };
+};
+
+/**
+ * Starts periodic watch-list monitoring while the app is open
+ *
+ * Runs once immediately; each run is a no-op until the monitoring interval has elapsed.
+ */
+export const startWatchListMonitoring = (): void => {
+  if (monitoringTimer || typeof window === 'undefined') {
+    return;
+  }
+
+  const run = () => {
+    runWatchListMonitoring().then(result => {
+      if (!result.success) {
+        console.warn('Watch-list monitoring failed:', result.error);
+      } else if (result.data && result.data.changedDomains.length > 0) {
+        console.info(`Watch-list monitoring: ${result.data.changedDomains.length} domain(s) changed`);
+      }
+    });
+  };
+
+  run();
+  monitoringTimer = setInterval(run, MONITORING_CONFIG.CHECK_INTERVAL_MS);
+};
+
+/**
+ * Stops periodic watch-list monitoring
+ */
+export const stopWatchListMonitoring = (): void => {
+  if (monitoringTimer) {
+    clearInterval(monitoringTimer);
+    monitoringTimer = null;
+  }
+};
@@ -0,0 +1,156 @@
+import type { Domain } from '@/types';
+import type { PendingDomainCheck } from '@/types/offline';
+import { OFFLINE_CONFIG, isNavigatorOnline } from '@/utils/offlineUtil';
+import { getDb, getDomain, saveDomain } from './dbService';
+import { DB_CONFIG } from './dbSchema';
+
+/**
+ * Offline mode service
+ *
+ * Serves the last persisted watch-list record of a domain when it cannot be
+ * checked, and queues the check in IndexedDB so the Service Worker runs it
+ * through Background Sync once connectivity returns.
+ */
+
+/**
+ * Result type for offline operations
+ */
+interface OfflineResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Service Worker registration exposing the Background Sync API
+ */
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  readonly sync?: {
+    readonly register: (tag: string) => Promise<void>;
+  };
+}
+
+/**
+ * Gets the last persisted record of a domain
+ * @param domainName - Domain name
+ * @returns Promise resolving to the stored domain, or null when it was never saved
+ */
+export const getOfflineSnapshot = async (domainName: string): Promise<OfflineResult<Domain | null>> => {
+  const result = await getDomain(domainName);
+  return result.success
+    ? { success: true, data: result.data ?? null }
+    : { success: false, error: result.error };
+};
+
+/**
+ * Refreshes the persisted record of a watched domain with a successful check
+ * @param domain - Checked domain
+ * @returns Promise resolving to true when a stored record was updated
+ */
+export const refreshOfflineSnapshot = async (domain: Domain): Promise<OfflineResult<boolean>> => {
+  const storedResult = await getDomain(domain.name);
+  if (!storedResult.success) {
+    return { success: false, error: storedResult.error };
+  }
+
+  // Only watched domains are persisted, others have no snapshot to refresh
+  if (!storedResult.data) {
+    return { success: true, data: false };
+  }
+
+  const saveResult = await saveDomain(storedResult.data.with({
+    availability: domain.availability,
+    creationDate: domain.creationDate,
+    expirationDate: domain.expirationDate,
+    registrar: domain.registrar,
+    lastChecked: domain.lastChecked ?? new Date()
+  }));
+  return saveResult.success
+    ? { success: true, data: true }
+    : { success: false, error: saveResult.error };
+};
+
+/**
+ * Asks the Service Worker to run the pending checks
+ *
+ * Uses Background Sync when the browser supports it, so checks also run after
+ * the tab is closed. Otherwise the worker is messaged directly while online.
+ *
+ * @returns Promise resolving to true when a sync was requested
+ */
+export const requestPendingCheckSync = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return false;
+  }
+
+  try {
+    const registration: SyncCapableRegistration = await navigator.serviceWorker.ready;
+
+    if (registration.sync) {
+      await registration.sync.register(OFFLINE_CONFIG.SYNC_TAG);
+      return true;
+    }
+
+    if (isNavigatorOnline() && registration.active) {
+      registration.active.postMessage({ type: 'SYNC_PENDING_CHECKS', timestamp: new Date().toISOString() });
+      return true;
+    }
+  } catch (error) {
+    console.warn('Unable to request pending check sync:', error);
+  }
+
+  return false;
+};
+
+/**
+ * Queues a domain check for when connectivity returns
+ * @param domainName - Domain to check later
+ * @returns Promise resolving to the queued check
+ */
+export const queueDomainCheck = async (domainName: string): Promise<OfflineResult<PendingDomainCheck>> => {
+  try {
+    const db = await getDb();
+    const existing: PendingDomainCheck | undefined = await db.get(DB_CONFIG.stores.pendingChecks, domainName);
+
+    const pendingCheck: PendingDomainCheck = existing ?? {
+      domain: domainName,
+      queuedAt: new Date().toISOString(),
+      attempts: 0
+    };
+    await db.put(DB_CONFIG.stores.pendingChecks, pendingCheck);
+
+    void requestPendingCheckSync();
+    return { success: true, data: pendingCheck };
+  } catch (error: any) {
+    return { success: false, error: `Unable to queue the check of ${domainName}: ${error?.message ?? error}` };
+  }
+};
+
+/**
+ * Gets the checks waiting for connectivity
+ * @returns Promise resolving to the pending checks, oldest first
+ */
+export const getPendingChecks = async (): Promise<OfflineResult<PendingDomainCheck[]>> => {
+  try {
+    const db = await getDb();
+    const pendingChecks: PendingDomainCheck[] = await db.getAllFromIndex(DB_CONFIG.stores.pendingChecks, 'queuedAt');
+    return { success: true, data: pendingChecks };
+  } catch (error: any) {
+    return { success: false, error: `Unable to load pending checks: ${error?.message ?? error}` };
+  }
+};
+
+/**
+ * Removes a domain from the pending checks
+ * @param domainName - Domain checked in the meantime
+ * @returns Promise resolving to the operation result
+ */
+export const removePendingCheck = async (domainName: string): Promise<OfflineResult<void>> => {
+  try {
+    const db = await getDb();
+    await db.delete(DB_CONFIG.stores.pendingChecks, domainName);
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: `Unable to remove the pending check of ${domainName}: ${error?.message ?? error}` };
+  }
+};
@@ -0,0 +1,98 @@
+import type { PublicSuffixListInfo, StoredPublicSuffixListSnapshot } from '@/types/psl';
+import { createTimeoutSignal } from '@/utils/abortUtil';
+import {
+  PSL_CONFIG,
+  applyPublicSuffixSnapshot,
+  extractPublicSuffixListVersion,
+  getPublicSuffixListInfo
+} from '@/utils/pslUtil';
+import { getSetting, saveSetting } from './dbService';
+
+/**
+ * Public Suffix List service
+ * Downloads newer lists from the publicsuffix/list repository, stores them in IndexedDB and applies them to pslUtil
+ */
+
+/**
+ * Public Suffix List service configuration
+ */
+const PUBLIC_SUFFIX_SERVICE_CONFIG = Object.freeze({
+  /** Download timeout in milliseconds */
+  TIMEOUT: 30000
+} as const);
+
+/**
+ * Result type for Public Suffix List operations
+ */
+interface PublicSuffixResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Applies the stored snapshot when it is newer than the bundled one
+ * @returns Promise resolving to the list in use
+ */
+export const applyStoredPublicSuffixList = async (): Promise<PublicSuffixResult<PublicSuffixListInfo>> => {
+  const result = await getSetting<StoredPublicSuffixListSnapshot>(PSL_CONFIG.SETTING_KEY);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  applyPublicSuffixSnapshot(result.data);
+  return { success: true, data: getPublicSuffixListInfo() };
+};
+
+/**
+ * Downloads the current list, then stores and applies it when newer than the one in use
+ * @returns Promise resolving to the list in use
+ */
+export const updatePublicSuffixList = async (): Promise<PublicSuffixResult<PublicSuffixListInfo>> => {
+  const timeout = createTimeoutSignal(PUBLIC_SUFFIX_SERVICE_CONFIG.TIMEOUT, 'Public Suffix List download timeout');
+
+  try {
+    const response = await fetch(PSL_CONFIG.LIST_URL, { signal: timeout.signal });
+    if (!response.ok) {
+      return { success: false, error: `HTTP ${response.status}: ${response.statusText}` };
+    }
+
+    const text = await response.text();
+    const updatedAt = new Date().toISOString();
+    const snapshot: StoredPublicSuffixListSnapshot = {
+      // Lists without VERSION header are versioned by their download date
+      version: extractPublicSuffixListVersion(text) ?? updatedAt,
+      text,
+      updatedAt
+    };
+
+    if (snapshot.version <= getPublicSuffixListInfo().version) {
+      return { success: true, data: getPublicSuffixListInfo() };
+    }
+
+    if (!applyPublicSuffixSnapshot(snapshot)) {
+      return { success: false, error: 'Downloaded Public Suffix List is incomplete' };
+    }
+
+    const saveResult = await saveSetting(PSL_CONFIG.SETTING_KEY, snapshot);
+    if (!saveResult.success) {
+      return { success: false, error: saveResult.error };
+    }
+
+    return { success: true, data: getPublicSuffixListInfo() };
+  } catch (error: any) {
+    if (timeout.hasTimedOut()) {
+      return { success: false, error: 'Public Suffix List download timeout' };
+    }
+
+    // Browsers report network failures and blocked cross-origin requests alike, as a TypeError
+    return {
+      success: false,
+      error: error instanceof TypeError
+        ? `Unable to reach ${new URL(PSL_CONFIG.LIST_URL).host}: the network is down or the request was blocked`
+        : `Unable to download the Public Suffix List: ${error?.message ?? error}`
+    };
+  } finally {
+    timeout.dispose();
+  }
+};
@@ -1,4 +1,11 @@
-import type { RdapResponse, RdapBootstrap, RdapService } from '@/types/rdap';
+import type { RdapResponse, RdapBootstrap, RdapService, RdapQueueMetrics, RdapServerMetrics } from '@/types/rdap';
+import type { CacheStats } from '@/types/cache';
+import { getBackoffDelay, parseRetryAfter } from '@/utils/rdapUtil';
+import { createTimeoutSignal, waitUnlessAborted } from '@/utils/abortUtil';
+import { findRegistrySuffix } from '@/utils/pslUtil';
+import { toAsciiDomain } from '@/utils/idnUtil';
+import { createTieredCache } from './cacheService';
+import { DB_CONFIG } from './dbSchema';
 
 /**
  * RDAP Service Configuration
@@ -12,8 +19,18 @@ const RDAP_CONFIG = {
   BOOTSTRAP_CACHE_TTL: 86400000, // 24 hours
   /** Cache TTL for RDAP responses in milliseconds */
   RESPONSE_CACHE_TTL: 3600000, // 1 hour
+  /** RDAP responses kept in memory */
+  MAX_MEMORY_RESPONSES: 500,
+  /** RDAP responses kept in IndexedDB */
+  MAX_PERSISTENT_RESPONSES: 2000,
   /** Maximum retry attempts for failed requests */
-  MAX_RETRIES: 2,
+  MAX_RETRIES: 3,
+  /** Requests sent at the same time to a single RDAP server */
+  MAX_CONCURRENT_PER_SERVER: 2,
+  /** Delay of the first retry in milliseconds, doubled on each attempt */
+  BACKOFF_BASE_DELAY: 1000,
+  /** Upper bound of a backoff or Retry-After delay in milliseconds */
+  BACKOFF_MAX_DELAY: 60000,
 } as const;
 
 /**
@@ -25,6 +42,8 @@ interface RdapResult<T> {
   readonly error?: string;
   readonly fromCache?: boolean;
   readonly provider?: string;
+  /** HTTP status of a failed RDAP query (404 means the domain is not registered) */
+  readonly status?: number;
 }
 
 /**
@@ -37,38 +56,85 @@ interface RdapCacheEntry<T> {
 }
 
 /**
- * In-memory cache for bootstrap services and RDAP responses
+ * Outcome of a single RDAP request
+ */
+interface RdapAttempt {
+  readonly result: RdapResult<RdapResponse>;
+  /** True for rate limiting, server errors, timeouts and network errors */
+  readonly retryable: boolean;
+  /** Delay requested by the server with a Retry-After header */
+  readonly retryAfter?: number;
+}
+
+/**
+ * Query shared by every caller asking for the same domain
+ */
+interface InFlightQuery {
+  readonly promise: Promise<RdapResult<RdapResponse>>;
+  /** Aborted once every caller gave up */
+  readonly controller: AbortController;
+  callers: number;
+}
+
+/**
+ * Request queue of a single RDAP server
+ */
+interface RdapServerQueue {
+  active: number;
+  readonly waiting: (() => void)[];
+  /** Epoch milliseconds until which no request is sent */
+  pausedUntil: number;
+  resumeTimer: ReturnType<typeof setTimeout> | null;
+  completed: number;
+  failed: number;
+  rateLimited: number;
+  retries: number;
+}
+
+/**
+ * In-memory cache for bootstrap services
+ * The bootstrap file itself is kept by the HTTP cache across reloads
  */
 const bootstrapCache = new Map<string, RdapCacheEntry<RdapService[]>>();
-const responseCache = new Map<string, RdapCacheEntry<RdapResponse>>();
 
 /**
- * Cached services to avoid repeated bootstrap fetches
+ * RDAP response cache, in memory and in IndexedDB
  */
-let cachedServices: RdapService[] | null = null;
-let lastBootstrapFetch: number = 0;
+const responseCache = createTieredCache<RdapResponse>({
+  storeName: DB_CONFIG.stores.rdapCache,
+  maxMemoryEntries: RDAP_CONFIG.MAX_MEMORY_RESPONSES,
+  maxPersistentEntries: RDAP_CONFIG.MAX_PERSISTENT_RESPONSES,
+  maxAge: RDAP_CONFIG.RESPONSE_CACHE_TTL
+});
 
 /**
- * Creates a timeout promise for fetch operations
- * @param timeoutMs - Timeout in milliseconds
- * @returns Promise that rejects after timeout
+ * Request queues keyed by RDAP base URL
  */
-const createTimeoutPromise = (timeoutMs: number): Promise<never> => {
-  return new Promise((_, reject) => {
-    setTimeout(() => {
-      reject(new Error(`RDAP query timeout after ${timeoutMs}ms`));
-    }, timeoutMs);
-  });
-};
+const serverQueues = new Map<string, RdapServerQueue>();
 
 /**
- * Checks if a cached entry is still valid
- * @param entry - Cache entry to check
- * @returns true if entry is still valid
+ * Queries in flight keyed by domain, shared by concurrent callers
  */
-const isCacheEntryValid = <T>(entry: RdapCacheEntry<T>): boolean => {
-  return Date.now() - entry.timestamp < entry.ttl;
-};
+const inFlightQueries = new Map<string, InFlightQuery>();
+let deduplicatedQueries = 0;
+
+/**
+ * Cached services to avoid repeated bootstrap fetches
+ */
+let cachedServices: RdapService[] | null = null;
+let lastBootstrapFetch: number = 0;
+
+/**
+ * Creates the result of a cancelled query
+ * @param domain - Domain name
+ * @param provider - RDAP service URL, when known
+ * @returns Failed result
+ */
+const createCancelledResult = (domain: string, provider?: string): RdapResult<RdapResponse> => ({
+  success: false,
+  error: `RDAP query cancelled for ${domain}`,
+  provider
+});
 
 /**
  * Validates domain name format for RDAP queries
@@ -87,20 +153,39 @@ const isValidDomainForRdap = (domain: string): boolean => {
 };
 
 /**
- * Extracts TLD from domain name
+ * RDAP lookup of a domain
+ */
+interface RdapLookup {
+  /** Domain queried, without subdomains (e.g. "example.co.uk") */
+  readonly registrableDomain: string;
+  /** Bootstrap keys to try, from the registry suffix to the TLD (e.g. "co.uk", then "uk") */
+  readonly suffixes: readonly string[];
+}
+
+/**
+ * Finds the registrable domain and the bootstrap keys of a domain
  * @param domain - Domain name
- * @returns TLD or undefined if not found
+ * @returns RDAP lookup or undefined if the domain has no registrable part
  */
-const extractTld = (domain: string): string | undefined => {
-  const parts = domain.split('.');
-  return parts.length > 1 ? parts[parts.length - 1] : undefined;
+const getRdapLookup = (domain: string): RdapLookup | undefined => {
+  const match = findRegistrySuffix(domain);
+  if (!match?.registrableDomain) {
+    return undefined;
+  }
+
+  const suffixLabels = match.publicSuffix.split('.');
+  return {
+    registrableDomain: match.registrableDomain,
+    suffixes: suffixLabels.map((_, index) => suffixLabels.slice(index).join('.'))
+  };
 };
 
 /**
  * Fetches RDAP bootstrap services with caching and error handling
+ * @param signal - Cancels the bootstrap fetch
  * @returns Promise resolving to RDAP services result
  */
-export const getServices = async (): Promise<RdapResult<RdapService[]>> => {
+export const getServices = async (signal?: AbortSignal): Promise<RdapResult<RdapService[]>> => {
   // Check if we have valid cached services
   if (cachedServices && 
       Date.now() - lastBootstrapFetch < RDAP_CONFIG.BOOTSTRAP_CACHE_TTL) {
@@ -111,21 +196,19 @@ export const getServices = async (): Promise<RdapResult<RdapService[]>> => {
     };
   }
 
+  const timeout = createTimeoutSignal(RDAP_CONFIG.TIMEOUT, `RDAP bootstrap timeout after ${RDAP_CONFIG.TIMEOUT}ms`, signal);
+
   try {
-    const fetchPromise = fetch(RDAP_CONFIG.BOOTSTRAP_URL, {
+    const response: Response = await fetch(RDAP_CONFIG.BOOTSTRAP_URL, {
       headers: {
         'accept': 'application/json',
         'user-agent': 'DomainThings/1.0'
       },
       mode: 'cors',
-      cache: 'default'
+      cache: 'default',
+      signal: timeout.signal
     });
     
-    const response: Response = await Promise.race([
-      fetchPromise,
-      createTimeoutPromise(RDAP_CONFIG.TIMEOUT)
-    ]);
-    
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error');
       return {
@@ -157,8 +240,15 @@ export const getServices = async (): Promise<RdapResult<RdapService[]>> => {
   } catch (error: any) {
     const errorMessage = error?.message ?? String(error);
     
+    if (signal?.aborted) {
+      return {
+        success: false,
+        error: 'RDAP bootstrap fetch cancelled'
+      };
+    }
+    
     // Provide more specific error messages
-    if (errorMessage.includes('timeout')) {
+    if (timeout.hasTimedOut() || errorMessage.includes('timeout')) {
       return {
         success: false,
         error: 'RDAP bootstrap request timeout'
@@ -176,6 +266,8 @@ export const getServices = async (): Promise<RdapResult<RdapService[]>> => {
       success: false,
       error: `Bootstrap fetch error: ${errorMessage}`
     };
+  } finally {
+    timeout.dispose();
   }
 };
 
@@ -204,101 +296,138 @@ const getServiceUrl = (service: RdapService): string | undefined => {
 
 /**
  * Creates a cache key for RDAP responses
+ * Subdomains share the response of their registrable domain
  * @param domain - Domain name
  * @returns Cache key
  */
 const createResponseCacheKey = (domain: string): string => {
-  return domain.toLowerCase();
+  return (findRegistrySuffix(domain)?.registrableDomain ?? domain).toLowerCase();
 };
 
 /**
- * Gets cached RDAP response if available and valid
- * @param domain - Domain name
- * @returns Cached response or undefined
+ * Gets the request queue of an RDAP server
+ * @param server - RDAP base URL
+ * @returns Server queue
  */
-const getCachedResponse = (domain: string): RdapResponse | undefined => {
-  const key = createResponseCacheKey(domain);
-  const entry = responseCache.get(key);
-  
-  if (entry && isCacheEntryValid(entry)) {
-    return entry.data;
+const getServerQueue = (server: string): RdapServerQueue => {
+  let queue = serverQueues.get(server);
+  if (!queue) {
+    queue = {
+      active: 0,
+      waiting: [],
+      pausedUntil: 0,
+      resumeTimer: null,
+      completed: 0,
+      failed: 0,
+      rateLimited: 0,
+      retries: 0
+    };
+    serverQueues.set(server, queue);
   }
-  
-  // Clean up expired entry
-  if (entry) {
-    responseCache.delete(key);
+  return queue;
+};
+
+/**
+ * Starts waiting requests while the server has free slots and is not paused
+ * @param queue - Server queue
+ */
+const drainServerQueue = (queue: RdapServerQueue): void => {
+  const pauseLeft = queue.pausedUntil - Date.now();
+
+  if (pauseLeft > 0) {
+    if (!queue.resumeTimer && queue.waiting.length > 0) {
+      queue.resumeTimer = setTimeout(() => {
+        queue.resumeTimer = null;
+        drainServerQueue(queue);
+      }, pauseLeft);
+    }
+    return;
+  }
+
+  while (queue.active < RDAP_CONFIG.MAX_CONCURRENT_PER_SERVER && queue.waiting.length > 0) {
+    queue.active++;
+    queue.waiting.shift()?.();
   }
-  
-  return undefined;
 };
 
 /**
- * Caches an RDAP response
- * @param domain - Domain name
- * @param response - RDAP response to cache
+ * Runs a request once its server has a free slot
+ * @param queue - Server queue
+ * @param request - Request to run
+ * @param signal - Removes the request from the queue while it waits
+ * @returns Promise resolving to the request outcome, or null when cancelled before it started
  */
-const cacheResponse = (domain: string, response: RdapResponse): void => {
-  const key = createResponseCacheKey(domain);
-  const entry: RdapCacheEntry<RdapResponse> = {
-    data: response,
-    timestamp: Date.now(),
-    ttl: RDAP_CONFIG.RESPONSE_CACHE_TTL
-  };
-  
-  responseCache.set(key, entry);
-  
-  // Prevent cache from growing too large
-  if (responseCache.size > 500) {
-    const oldestKey = responseCache.keys().next().value;
-    if (oldestKey) {
-      responseCache.delete(oldestKey);
+const runInServerQueue = async <T>(
+  queue: RdapServerQueue,
+  request: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T | null> => {
+  const started = await new Promise<boolean>(resolve => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
     }
+
+    const start = (): void => {
+      signal?.removeEventListener('abort', cancel);
+      resolve(true);
+    };
+    const cancel = (): void => {
+      const index = queue.waiting.indexOf(start);
+      if (index >= 0) queue.waiting.splice(index, 1);
+      resolve(false);
+    };
+
+    signal?.addEventListener('abort', cancel, { once: true });
+    queue.waiting.push(start);
+    drainServerQueue(queue);
+  });
+
+  if (!started) return null;
+
+  try {
+    return await request();
+  } finally {
+    queue.active--;
+    drainServerQueue(queue);
   }
 };
 
 /**
- * Performs RDAP query with retry logic
+ * Performs a single RDAP request
  * @param url - RDAP service URL
  * @param domain - Domain name
- * @param retryCount - Current retry attempt
- * @returns Promise resolving to RDAP response
+ * @param signal - Cancels the request
+ * @returns Promise resolving to the request outcome
  */
-const performRdapQuery = async (
-  url: string, 
-  domain: string, 
-  retryCount: number = 0
-): Promise<RdapResult<RdapResponse>> => {
+const performRdapRequest = async (url: string, domain: string, signal?: AbortSignal): Promise<RdapAttempt> => {
+  const timeout = createTimeoutSignal(RDAP_CONFIG.TIMEOUT, `RDAP query timeout after ${RDAP_CONFIG.TIMEOUT}ms`, signal);
+
   try {
     const rdapUrl = `${url}domain/${encodeURIComponent(domain)}`;
     
-    const fetchPromise = fetch(rdapUrl, {
+    const response: Response = await fetch(rdapUrl, {
       headers: {
         'accept': 'application/rdap+json',
         'user-agent': 'DomainThings/1.0'
       },
       mode: 'cors',
-      cache: 'default'
+      cache: 'default',
+      signal: timeout.signal
     });
     
-    const response: Response = await Promise.race([
-      fetchPromise,
-      createTimeoutPromise(RDAP_CONFIG.TIMEOUT)
-    ]);
-    
     if (!response.ok) {
       const errorText = await response.text().catch(() => 'Unknown error');
       
-      // Check if we should retry (5xx errors or timeouts)
-      if (response.status >= 500 && retryCount < RDAP_CONFIG.MAX_RETRIES) {
-        console.warn(`RDAP query failed (${response.status}), retrying... (${retryCount + 1}/${RDAP_CONFIG.MAX_RETRIES})`);
-        await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1))); // Exponential backoff
-        return performRdapQuery(url, domain, retryCount + 1);
-      }
-      
       return {
-        success: false,
-        error: `RDAP query failed with status ${response.status}: ${errorText}`,
-        provider: url
+        result: {
+          success: false,
+          error: `RDAP query failed with status ${response.status}: ${errorText}`,
+          provider: url,
+          status: response.status
+        },
+        retryable: response.status === 429 || response.status >= 500,
+        retryAfter: parseRetryAfter(response.headers.get('retry-after'))
       };
     }
     
@@ -307,68 +436,113 @@ const performRdapQuery = async (
     // Basic validation of RDAP response
     if (!rdapResponse.objectClassName || !rdapResponse.ldhName) {
       return {
-        success: false,
-        error: 'Invalid RDAP response: missing required fields',
-        provider: url
+        result: {
+          success: false,
+          error: 'Invalid RDAP response: missing required fields',
+          provider: url
+        },
+        retryable: false
       };
     }
     
-    // Cache successful response
-    cacheResponse(domain, rdapResponse);
-    
     return {
-      success: true,
-      data: rdapResponse,
-      fromCache: false,
-      provider: url
+      result: {
+        success: true,
+        data: rdapResponse,
+        fromCache: false,
+        provider: url
+      },
+      retryable: false
     };
     
   } catch (error: any) {
-    const errorMessage = error?.message ?? String(error);
-    
-    // Retry on network errors
-    if ((errorMessage.includes('timeout') || errorMessage.includes('network')) && 
-        retryCount < RDAP_CONFIG.MAX_RETRIES) {
-      console.warn(`RDAP query error (${errorMessage}), retrying... (${retryCount + 1}/${RDAP_CONFIG.MAX_RETRIES})`);
-      await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1)));
-      return performRdapQuery(url, domain, retryCount + 1);
+    if (signal?.aborted) {
+      return { result: createCancelledResult(domain, url), retryable: false };
     }
     
+    const errorMessage = timeout.hasTimedOut()
+      ? `RDAP query timeout after ${RDAP_CONFIG.TIMEOUT}ms`
+      : error?.message ?? String(error);
+    
     return {
-      success: false,
-      error: `RDAP query error: ${errorMessage}`,
-      provider: url
+      result: {
+        success: false,
+        error: `RDAP query error: ${errorMessage}`,
+        provider: url
+      },
+      retryable: errorMessage.includes('timeout') || errorMessage.includes('network')
     };
+  } finally {
+    timeout.dispose();
   }
 };
 
 /**
- * Fetches RDAP data for a domain with comprehensive error handling
- * @param domain - Domain name to query
- * @returns Promise resolving to RDAP response result
+ * Performs RDAP query through the server queue, retrying with backoff
+ *
+ * A 429 pauses every request to the same server for the Retry-After delay
+ * (or the backoff delay without the header), other retryable failures only
+ * delay the request that failed.
+ *
+ * @param url - RDAP service URL
+ * @param domain - Domain name
+ * @param signal - Cancels the query, including waits in the queue and between retries
+ * @returns Promise resolving to RDAP response
  */
-export const fetchRdap = async (domain: string): Promise<RdapResult<RdapResponse>> => {
-  // Validate domain format
-  if (!isValidDomainForRdap(domain)) {
-    return {
-      success: false,
-      error: `Invalid domain format for RDAP query: ${domain}`
-    };
-  }
+const performRdapQuery = async (url: string, domain: string, signal?: AbortSignal): Promise<RdapResult<RdapResponse>> => {
+  const queue = getServerQueue(url);
   
-  // Check cache first
-  const cachedResponse = getCachedResponse(domain);
-  if (cachedResponse) {
-    return {
-      success: true,
-      data: cachedResponse,
-      fromCache: true
-    };
+  for (let attempt = 0; ; attempt++) {
+    const attemptResult = await runInServerQueue(queue, () => performRdapRequest(url, domain, signal), signal);
+    if (!attemptResult || signal?.aborted) {
+      return createCancelledResult(domain, url);
+    }
+    
+    const { result, retryable, retryAfter } = attemptResult;
+    const isRateLimited = result.status === 429;
+    
+    if (isRateLimited) {
+      queue.rateLimited++;
+    }
+    
+    if (!retryable || attempt >= RDAP_CONFIG.MAX_RETRIES) {
+      if (result.success) {
+        queue.completed++;
+        
+        // Cache successful response
+        void responseCache.set(createResponseCacheKey(domain), result.data!, RDAP_CONFIG.RESPONSE_CACHE_TTL);
+      } else {
+        queue.failed++;
+      }
+      return result;
+    }
+    
+    const delay = Math.min(
+      retryAfter ?? getBackoffDelay(attempt, RDAP_CONFIG.BACKOFF_BASE_DELAY, RDAP_CONFIG.BACKOFF_MAX_DELAY),
+      RDAP_CONFIG.BACKOFF_MAX_DELAY
+    );
+    queue.retries++;
+    console.warn(`RDAP query failed (${result.status ?? result.error}), retrying in ${delay}ms... (${attempt + 1}/${RDAP_CONFIG.MAX_RETRIES})`);
+    
+    if (isRateLimited) {
+      queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + delay);
+    } else {
+      await waitUnlessAborted(delay, signal);
+    }
   }
-  
-  // Extract TLD from domain
-  const tld = extractTld(domain);
-  if (!tld) {
+};
+
+/**
+ * Finds the RDAP server of a domain and queries it
+ * @param domain - Domain name to query
+ * @param signal - Cancels the query
+ * @returns Promise resolving to RDAP response result
+ */
+const resolveAndQueryRdap = async (domain: string, signal: AbortSignal): Promise<RdapResult<RdapResponse>> => {
+  // Extract registrable domain and TLD from domain
+  const lookup = getRdapLookup(domain);
+  const tld = lookup?.suffixes[lookup.suffixes.length - 1];
+  if (!lookup || !tld) {
     return {
       success: false,
       error: `Unable to extract TLD from domain: ${domain}`
@@ -376,7 +550,7 @@ export const fetchRdap = async (domain: string): Promise<RdapResult<RdapResponse
   }
   
   // Get RDAP services
-  const servicesResult = await getServices();
+  const servicesResult = await getServices(signal);
   if (!servicesResult.success || !servicesResult.data) {
     return {
       success: false,
@@ -384,8 +558,11 @@ export const fetchRdap = async (domain: string): Promise<RdapResult<RdapResponse
     };
   }
   
-  // Find appropriate service for TLD
-  const service = findServiceForTld(tld, servicesResult.data);
+  // Find appropriate service, a registry suffix may have its own before the TLD
+  const services = servicesResult.data;
+  const service = lookup.suffixes
+    .map(suffix => findServiceForTld(suffix, services))
+    .find(candidate => candidate !== undefined);
   if (!service) {
     return {
       success: false,
@@ -403,7 +580,109 @@ export const fetchRdap = async (domain: string): Promise<RdapResult<RdapResponse
   }
   
   // Perform RDAP query
-  return performRdapQuery(serviceUrl, domain);
+  return performRdapQuery(serviceUrl, lookup.registrableDomain, signal);
+};
+
+/**
+ * Waits for a shared query on behalf of one caller
+ * @param query - Shared query
+ * @param domain - Domain name
+ * @param cacheKey - Key of the query in the in-flight map
+ * @param signal - Signal of the caller; the shared query is aborted once every caller aborted
+ * @returns Promise resolving to the query result, or a cancelled result when the caller aborted
+ */
+const joinInFlightQuery = (
+  query: InFlightQuery,
+  domain: string,
+  cacheKey: string,
+  signal?: AbortSignal
+): Promise<RdapResult<RdapResponse>> => {
+  query.callers++;
+  if (!signal) {
+    return query.promise;
+  }
+  
+  return new Promise(resolve => {
+    const leave = (): void => {
+      if (--query.callers === 0) {
+        // Later callers start a fresh query instead of joining the cancelled one
+        if (inFlightQueries.get(cacheKey) === query) {
+          inFlightQueries.delete(cacheKey);
+        }
+        query.controller.abort(signal.reason);
+      }
+      resolve(createCancelledResult(domain));
+    };
+    
+    if (signal.aborted) {
+      leave();
+      return;
+    }
+    
+    signal.addEventListener('abort', leave, { once: true });
+    query.promise.then(result => {
+      signal.removeEventListener('abort', leave);
+      resolve(result);
+    });
+  });
+};
+
+/**
+ * Fetches RDAP data for a domain with comprehensive error handling
+ * 
+ * Concurrent calls for the same domain share a single query, which is only
+ * cancelled when every caller aborted.
+ * 
+ * @param domain - Domain name to query
+ * @param signal - Cancels the query for this caller
+ * @returns Promise resolving to RDAP response result
+ */
+export const fetchRdap = async (domain: string, signal?: AbortSignal): Promise<RdapResult<RdapResponse>> => {
+  // Internationalized names are queried with their A-labels
+  const asciiDomain = toAsciiDomain(domain);
+  
+  // Validate domain format
+  if (!isValidDomainForRdap(asciiDomain)) {
+    return {
+      success: false,
+      error: `Invalid domain format for RDAP query: ${domain}`
+    };
+  }
+  
+  if (signal?.aborted) {
+    return createCancelledResult(domain);
+  }
+  
+  // Join the query already running for the same domain
+  const cacheKey = createResponseCacheKey(asciiDomain);
+  const inFlightQuery = inFlightQueries.get(cacheKey);
+  if (inFlightQuery) {
+    deduplicatedQueries++;
+    return joinInFlightQuery(inFlightQuery, domain, cacheKey, signal);
+  }
+  
+  const controller = new AbortController();
+  const promise = (async (): Promise<RdapResult<RdapResponse>> => {
+    // Check cache first
+    const cachedResponse = await responseCache.get(cacheKey);
+    if (cachedResponse) {
+      return {
+        success: true,
+        data: cachedResponse,
+        fromCache: true
+      };
+    }
+    
+    return resolveAndQueryRdap(asciiDomain, controller.signal);
+  })().finally(() => {
+    if (inFlightQueries.get(cacheKey) === query) {
+      inFlightQueries.delete(cacheKey);
+    }
+  });
+  
+  const query: InFlightQuery = { promise, controller, callers: 0 };
+  inFlightQueries.set(cacheKey, query);
+  return joinInFlightQuery(query, domain, cacheKey, signal);
 };
 
 /**
@@ -444,35 +723,51 @@ export const getTlds = async (): Promise<RdapResult<string[]>> => {
 };
 
 /**
- * Clears all RDAP caches
+ * Gets the state of the RDAP request queues
+ * @returns Queue metrics, per RDAP server
+ */
+export const getRdapQueueMetrics = (): RdapQueueMetrics => {
+  const servers = [...serverQueues.entries()].map(([server, queue]): RdapServerMetrics => ({
+    server,
+    active: queue.active,
+    queued: queue.waiting.length,
+    pausedUntil: queue.pausedUntil > Date.now() ? new Date(queue.pausedUntil).toISOString() : undefined,
+    completed: queue.completed,
+    failed: queue.failed,
+    rateLimited: queue.rateLimited,
+    retries: queue.retries
+  }));
+  
+  return {
+    inFlight: inFlightQueries.size,
+    deduplicated: deduplicatedQueries,
+    servers
+  };
+};
+
+/**
+ * Clears all RDAP caches, in memory and in IndexedDB
  */
-export const clearRdapCache = (): void => {
+export const clearRdapCache = async (): Promise<void> => {
   bootstrapCache.clear();
-  responseCache.clear();
   cachedServices = null;
   lastBootstrapFetch = 0;
+  await responseCache.clear();
 };
 
 /**
  * Gets RDAP cache statistics
- * @returns Cache statistics
+ * @returns Promise resolving to the bootstrap state and the response cache statistics
  */
-export const getRdapCacheStats = () => {
-  const now = Date.now();
-  const bootstrapValid = cachedServices && (now - lastBootstrapFetch < RDAP_CONFIG.BOOTSTRAP_CACHE_TTL);
-  const responseEntries = Array.from(responseCache.values());
-  const validResponses = responseEntries.filter(entry => isCacheEntryValid(entry));
+export const getRdapCacheStats = async (): Promise<CacheStats & {
+  readonly bootstrapCached: boolean;
+  readonly bootstrapValid: boolean;
+}> => {
+  const bootstrapValid = Boolean(cachedServices) && (Date.now() - lastBootstrapFetch < RDAP_CONFIG.BOOTSTRAP_CACHE_TTL);
   
   return {
-    bootstrapCached: !!cachedServices,
-    bootstrapValid,
-    totalResponses: responseCache.size,
-    validResponses: validResponses.length,
-    expiredResponses: responseEntries.length - validResponses.length,
-    memoryUsage: JSON.stringify([
-      cachedServices,
-      Array.from(responseCache.entries())
-    ]).length
+    ...await responseCache.getStats(),
+    bootstrapCached: Boolean(cachedServices),
+    bootstrapValid
   };
 };
-
@@ -0,0 +1,65 @@
+import type { SuggestionWordLists } from '@/types/suggestion';
+import { getSetting, saveSetting } from './dbService';
+import { resolveWordLists, SUGGESTION_CONFIG } from '@/utils/suggestionUtil';
+
+/**
+ * Domain suggestion settings service
+ * Persists the prefix, suffix and synonym lists the suggestions are built from
+ */
+
+/**
+ * Result type for suggestion settings operations
+ */
+interface SuggestionResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+}
+
+/**
+ * Loads the stored word lists
+ * @returns Promise resolving to the stored lists (the built-in lists when none are stored)
+ */
+export const loadSuggestionWordLists = async (): Promise<SuggestionResult<SuggestionWordLists>> => {
+  const result = await getSetting<unknown>(SUGGESTION_CONFIG.SETTING_KEY);
+
+  if (!result.success) {
+    return { success: false, error: result.error ?? 'Unable to load the suggestion word lists' };
+  }
+
+  return { success: true, data: resolveWordLists(result.data) };
+};
+
+/**
+ * Validates and stores word lists
+ * @param wordLists - Lists edited by the user
+ * @returns Promise resolving to the lists as stored
+ */
+export const saveSuggestionWordLists = async (
+  wordLists: SuggestionWordLists
+): Promise<SuggestionResult<SuggestionWordLists>> => {
+  const resolved = resolveWordLists(wordLists);
+
+  if (resolved.prefixes.length + resolved.suffixes.length + Object.keys(resolved.synonyms).length === 0) {
+    return { success: false, error: 'Add at least one prefix, suffix or synonym' };
+  }
+
+  const saveResult = await saveSetting(SUGGESTION_CONFIG.SETTING_KEY, {
+    prefixes: [...resolved.prefixes],
+    suffixes: [...resolved.suffixes],
+    synonyms: Object.fromEntries(Object.entries(resolved.synonyms).map(([word, values]) => [word, [...values]]))
+  });
+  if (!saveResult.success) {
+    return { success: false, error: saveResult.error };
+  }
+
+  return { success: true, data: resolved };
+};
+
+/**
+ * Restores the built-in word lists
+ * @returns Promise resolving to the built-in lists
+ */
+export const resetSuggestionWordLists = async (): Promise<SuggestionResult<SuggestionWordLists>> => {
+  return saveSuggestionWordLists(SUGGESTION_CONFIG.DEFAULT_WORD_LISTS);
+};
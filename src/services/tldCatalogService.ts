@@ -0,0 +1,47 @@
+import type { TldInfo } from '@/types/tld';
+import { getServices } from './rdapService';
+import { mergeTldCatalog } from '@/utils/tldCatalogUtil';
+
+/**
+ * TLD catalog service
+ * Combines the bundled root zone snapshot with the live IANA RDAP bootstrap
+ */
+
+/**
+ * Result type for catalog operations
+ */
+interface TldCatalogResult<T> {
+  readonly success: boolean;
+  readonly data?: T;
+  readonly error?: string;
+  /** False when the RDAP bootstrap could not be loaded and no TLD has RDAP servers */
+  readonly hasRdapBootstrap?: boolean;
+}
+
+/**
+ * Gets every delegated TLD with its root zone data and RDAP servers
+ *
+ * The root zone data is bundled, so the catalog is still returned without
+ * RDAP servers when the bootstrap cannot be fetched.
+ *
+ * @param signal - Cancels the bootstrap request
+ * @returns Promise resolving to the TLDs in alphabetical order
+ */
+export const getTldCatalogList = async (signal?: AbortSignal): Promise<TldCatalogResult<TldInfo[]>> => {
+  const servicesResult = await getServices(signal);
+
+  if (!servicesResult.success || !servicesResult.data) {
+    return {
+      success: true,
+      data: mergeTldCatalog([]),
+      error: `RDAP servers unavailable: ${servicesResult.error}`,
+      hasRdapBootstrap: false
+    };
+  }
+
+  return {
+    success: true,
+    data: mergeTldCatalog(servicesResult.data),
+    hasRdapBootstrap: true
+  };
+};
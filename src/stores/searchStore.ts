@@ -1,10 +1,25 @@
 import { ref, computed, watch } from 'vue';
 import { defineStore } from 'pinia';
 
+/**
+ * Search history persistence settings
+ */
+export const SEARCH_HISTORY_CONFIG = Object.freeze({
+  storageKey: 'domaincheck-search-history',
+  maxSize: 50
+} as const);
+
+/**
+ * Characters allowed in a query: letters and marks of any script for
+ * internationalized names, digits, hyphens and full stops (including the
+ * ideographic ones mapped to dots)
+ */
+const QUERY_PATTERN = /^[\p{L}\p{M}\p{N}.\u3002\uFF0E\uFF61-]+$/u;
+
 /**
  * Search history entry
  */
-interface SearchHistoryEntry {
+export interface SearchHistoryEntry {
   readonly query: string;
   readonly timestamp: number;
   readonly resultCount?: number;
@@ -22,7 +37,7 @@ export const useSearchStore = defineStore('search', () => {
   
   // Search history (max 50 entries)
   const searchHistory = ref<SearchHistoryEntry[]>([]);
-  const maxHistorySize = 50;
+  const maxHistorySize = SEARCH_HISTORY_CONFIG.maxSize;
   
   // Search validation
   const minQueryLength = 2;
@@ -45,7 +60,7 @@ export const useSearchStore = defineStore('search', () => {
     const trimmed = query.value;
     return trimmed.length >= minQueryLength && 
            trimmed.length <= maxQueryLength &&
-           /^[a-zA-Z0-9.-]+$/.test(trimmed);
+           QUERY_PATTERN.test(trimmed);
   });
   
   /**
@@ -64,8 +79,8 @@ export const useSearchStore = defineStore('search', () => {
       return `Query must be no more than ${maxQueryLength} characters`;
     }
     
-    if (!/^[a-zA-Z0-9.-]+$/.test(trimmed)) {
-      return 'Query can only contain letters, numbers, dots, and hyphens';
+    if (!QUERY_PATTERN.test(trimmed)) {
+      return 'Query can only contain letters (in any script), numbers, dots, and hyphens';
     }
     
     return null;
@@ -194,7 +209,7 @@ export const useSearchStore = defineStore('search', () => {
    */
   const persistHistory = (): void => {
     try {
-      localStorage.setItem('domaincheck-search-history', JSON.stringify(searchHistory.value));
+      localStorage.setItem(SEARCH_HISTORY_CONFIG.storageKey, JSON.stringify(searchHistory.value));
     } catch (error) {
       console.warn('Failed to persist search history:', error);
     }
@@ -205,7 +220,7 @@ export const useSearchStore = defineStore('search', () => {
    */
   const loadHistory = (): void => {
     try {
-      const stored = localStorage.getItem('domaincheck-search-history');
+      const stored = localStorage.getItem(SEARCH_HISTORY_CONFIG.storageKey);
       if (stored) {
         const parsed = JSON.parse(stored);
         if (Array.isArray(parsed)) {
@@ -0,0 +1,77 @@
+/**
+ * Backup and restore type definitions
+ */
+
+import type { AlertRecord, DomainRecord, SettingsRecord, TldRecord } from '@/services/dbService';
+import type { SearchHistoryEntry } from '@/stores/searchStore';
+
+/**
+ * Database stores included in a backup
+ */
+export type BackupStoreName = 'domains' | 'tlds' | 'settings' | 'alerts';
+
+/**
+ * Records of each backed up store, in their stored shape
+ */
+export interface BackupStores {
+  readonly domains: readonly DomainRecord[];
+  readonly tlds: readonly TldRecord[];
+  readonly settings: readonly SettingsRecord[];
+  readonly alerts: readonly AlertRecord[];
+}
+
+/**
+ * Backup file content
+ */
+export interface BackupFile {
+  /** Marker identifying DomainCheck backups */
+  readonly format: 'domaincheck-backup';
+  /** Version of the backup file layout */
+  readonly backupVersion: number;
+  /** DB_CONFIG.version of the database the records were read from */
+  readonly schemaVersion: number;
+  readonly createdAt: string; // ISO string
+  readonly stores: BackupStores;
+  readonly searchHistory: readonly SearchHistoryEntry[];
+}
+
+/**
+ * How a backup is restored
+ * - 'merge': adds missing records and keeps local ones on conflict
+ * - 'replace': clears the backed up stores and the search history first
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Local record that differs from its backup counterpart during a merge
+ */
+export interface BackupConflict {
+  readonly store: BackupStoreName | 'searchHistory';
+  /** Record key (domain name, TLD, setting key, alert ID or search query) */
+  readonly key: string;
+  readonly reason: string;
+}
+
+/**
+ * Per-store restore counts
+ */
+export interface RestoreStoreCounts {
+  /** Records written to the store */
+  readonly restored: number;
+  /** Records kept local because of a conflict */
+  readonly conflicts: number;
+  /** Records identical to the local ones */
+  readonly unchanged: number;
+  /** Malformed records ignored */
+  readonly invalid: number;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface RestoreReport {
+  readonly mode: RestoreMode;
+  readonly schemaVersion: number;
+  readonly stores: Readonly<Record<BackupStoreName | 'searchHistory', RestoreStoreCounts>>;
+  readonly conflicts: readonly BackupConflict[];
+}
@@ -0,0 +1,84 @@
+import type { DomainAvailabilityStatus } from ".";
+import type { DomainCheckResult } from "@/utils/rdapUtil";
+import type { DomainInfrastructure } from "./dns";
+
+/**
+ * Bulk domain check type definitions
+ */
+
+/**
+ * Line of the bulk input that could not be turned into a domain
+ */
+export interface BulkInputRejection {
+  /** 1-based line number in the pasted or uploaded text */
+  readonly line: number;
+  readonly value: string;
+  readonly reason: string;
+}
+
+/**
+ * Outcome of parsing a pasted list or CSV file
+ */
+export interface BulkInputParseResult {
+  /** Normalized, de-duplicated domains in input order */
+  readonly domains: readonly string[];
+  readonly rejected: readonly BulkInputRejection[];
+  /** Number of domains dropped because they appeared earlier in the input */
+  readonly duplicates: number;
+  /** Number of domains dropped because the input exceeds the maximum size */
+  readonly truncated: number;
+}
+
+/**
+ * Processing state of a single domain in the queue
+ */
+export type BulkCheckItemState = 'pending' | 'checking' | 'done' | 'error';
+
+/**
+ * Single domain of a bulk check
+ */
+export interface BulkCheckItem {
+  readonly domain: string;
+  readonly state: BulkCheckItemState;
+  readonly result?: DomainCheckResult;
+  /** A and MX records of a registered domain, when the queue inspects them */
+  readonly infrastructure?: DomainInfrastructure;
+  readonly error?: string;
+  readonly attempts: number;
+  readonly checkedAt?: Date;
+}
+
+/**
+ * Overall state of the bulk check queue
+ */
+export type BulkQueueStatus = 'idle' | 'running' | 'paused' | 'completed';
+
+/**
+ * Counters displayed while a bulk check runs
+ */
+export interface BulkCheckProgress {
+  readonly total: number;
+  /** Domains with a final result (done or error) */
+  readonly processed: number;
+  readonly available: number;
+  readonly notAvailable: number;
+  readonly unknown: number;
+  readonly inFlight: number;
+}
+
+/**
+ * Sortable columns of the results table
+ */
+export type BulkSortKey = 'domain' | 'availability' | 'registrar' | 'expirationDate';
+
+/**
+ * Filters of the results table
+ */
+export interface BulkResultFilter {
+  /** Availability to keep, or 'all' */
+  readonly availability: DomainAvailabilityStatus | 'all';
+  /** Case-insensitive registrar substring */
+  readonly registrar: string;
+  /** Keep domains expiring within this many days (null: no expiry filter) */
+  readonly expiresWithinDays: number | null;
+}
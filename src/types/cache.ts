@@ -0,0 +1,34 @@
+/**
+ * Response cache type definitions
+ */
+
+/**
+ * Cache entry as stored in memory and in IndexedDB
+ */
+export interface CacheEntryRecord<T> {
+  readonly key: string;
+  readonly value: T;
+  /** Epoch milliseconds */
+  readonly storedAt: number;
+  /** Epoch milliseconds after which the entry is stale */
+  readonly expiresAt: number;
+  /** Epoch milliseconds of the last read, used to evict the least recently used entries */
+  readonly lastAccessed: number;
+}
+
+/**
+ * Statistics of a tiered cache
+ */
+export interface CacheStats {
+  readonly memoryEntries: number;
+  /** Entries stored in IndexedDB (0 when IndexedDB is unavailable) */
+  readonly persistentEntries: number;
+  readonly memoryHits: number;
+  readonly persistentHits: number;
+  readonly misses: number;
+  readonly writes: number;
+  /** Entries removed because they expired or the cache was full */
+  readonly evictions: number;
+  /** Share of reads served from the cache, from 0 to 1 */
+  readonly hitRate: number;
+}
@@ -71,7 +71,15 @@ export enum DnsRecordType {
   /** IPv6 address record */
   AAAA = 28,
   /** Service locator */
-  SRV = 33
+  SRV = 33,
+  /** Delegation signer (DNSSEC) */
+  DS = 43,
+  /** DNSSEC signature */
+  RRSIG = 46,
+  /** DNSSEC public key */
+  DNSKEY = 48,
+  /** Certification Authority Authorization */
+  CAA = 257
 }
 
 /**
@@ -149,4 +157,116 @@ export interface DomainDnsInfo {
   hasParentSOA: boolean;
   recordTypes: DnsRecordType[];
   confidence: 'high' | 'medium' | 'low';
+  /** Per-resolver verdicts, when consensus mode is enabled */
+  consensus?: DnsConsensusResult;
+}
+
+/**
+ * Services a registered domain is set up for, used to tell parked look-alikes
+ * from ones that serve a website or receive mail
+ */
+export interface DomainInfrastructure {
+  /** The domain resolves to an IPv4 address, undefined when the lookup failed */
+  readonly hasA?: boolean;
+  /** The domain publishes mail exchangers, undefined when the lookup failed */
+  readonly hasMx?: boolean;
+}
+
+/**
+ * DNS over HTTPS transport.
+ * - 'json': JSON API (`application/dns-json`), as offered by Cloudflare and Google
+ * - 'wire': RFC 8484 DNS wire format (`application/dns-message`)
+ * @see https://www.rfc-editor.org/rfc/rfc8484
+ */
+export type DnsResolverProtocol = 'json' | 'wire';
+
+/**
+ * Selectable DNS over HTTPS providers.
+ * `custom` and `wire` use an endpoint chosen by the user.
+ */
+export type DnsResolverProvider = 'cloudflare' | 'google' | 'custom' | 'wire';
+
+/**
+ * DNS resolver choice persisted in the settings store.
+ */
+export interface DnsResolverSetting {
+  readonly provider: DnsResolverProvider;
+  /** Endpoint of the `custom` and `wire` providers */
+  readonly endpoint?: string;
+}
+
+/**
+ * Fully resolved DNS over HTTPS resolver used for queries.
+ */
+export interface DnsResolverConfig {
+  readonly provider: DnsResolverProvider;
+  readonly protocol: DnsResolverProtocol;
+  readonly endpoint: string;
+}
+
+/**
+ * Consensus mode choice persisted in the settings store.
+ * The primary resolver always takes part; `resolvers` lists the additional ones.
+ */
+export interface DnsConsensusSetting {
+  readonly enabled: boolean;
+  readonly resolvers: readonly DnsResolverSetting[];
+}
+
+/**
+ * Response of one resolver to a query sent to several resolvers.
+ */
+export interface DnsResolverAnswer {
+  readonly resolver: DnsResolverConfig;
+  readonly response?: DnsJsonResponse;
+  readonly error?: string;
+}
+
+/**
+ * Kind of difference between resolver answers.
+ * - 'status': different response codes (e.g. NXDOMAIN from a filtering resolver)
+ * - 'answers': same response code, different records (split-horizon, geo DNS, sinkholes)
+ * - 'verdict': different availability conclusions
+ * - 'failure': a resolver did not answer
+ */
+export type DnsDisagreementKind = 'status' | 'answers' | 'verdict' | 'failure';
+
+/**
+ * Difference between resolver answers, worded for display.
+ */
+export interface DnsDisagreement {
+  readonly kind: DnsDisagreementKind;
+  readonly description: string;
+}
+
+/**
+ * Availability verdict of a single resolver.
+ */
+export interface DnsResolverVerdict {
+  readonly resolver: DnsResolverConfig;
+  readonly status: DomainAvailabilityStatus;
+  readonly dnsStatus?: DnsResponseStatus;
+  readonly error?: string;
+}
+
+/**
+ * Availability verdict agreed by several resolvers.
+ */
+export interface DnsConsensusResult {
+  readonly status: DomainAvailabilityStatus;
+  readonly confidence: 'high' | 'medium' | 'low';
+  /** Share of the queried resolvers backing the verdict, from 0 to 1 */
+  readonly agreement: number;
+  readonly verdicts: readonly DnsResolverVerdict[];
+  readonly disagreements: readonly DnsDisagreement[];
+}
+
+/**
+ * Options of a DNS query
+ */
+export interface DnsQueryOptions {
+  /** Ask for DNSSEC records (DO bit), so RRSIGs are included in the answer */
+  readonly dnssec?: boolean;
+  /** Cancels the query */
+  readonly signal?: AbortSignal;
 }
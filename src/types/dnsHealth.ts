@@ -0,0 +1,48 @@
+/**
+ * DNS health report type definitions
+ */
+
+/**
+ * Outcome of a health check
+ * - 'pass': configured as recommended
+ * - 'warn': works but weakens delivery, security or resilience
+ * - 'fail': misconfiguration likely to break something
+ * - 'info': nothing to score (e.g. no mail, no registry data)
+ */
+export type DnsHealthCheckStatus = 'pass' | 'warn' | 'fail' | 'info';
+
+/**
+ * Identifier of a health check
+ */
+export type DnsHealthCheckId =
+  | 'ns-count'
+  | 'ns-resolvable'
+  | 'ns-registry'
+  | 'soa'
+  | 'mx'
+  | 'mx-cname'
+  | 'spf'
+  | 'dmarc'
+  | 'caa'
+  | 'ipv6';
+
+/**
+ * Result of a single health check
+ */
+export interface DnsHealthCheck {
+  readonly id: DnsHealthCheckId;
+  readonly label: string;
+  readonly status: DnsHealthCheckStatus;
+  readonly detail: string;
+}
+
+/**
+ * DNS health report of a domain
+ */
+export interface DnsHealthReport {
+  readonly domain: string;
+  /** Score from 0 to 100, info checks excluded */
+  readonly score: number;
+  readonly checks: readonly DnsHealthCheck[];
+  readonly checkedAt: Date;
+}
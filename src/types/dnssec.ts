@@ -0,0 +1,94 @@
+/**
+ * DNSSEC inspection type definitions
+ */
+
+/**
+ * Overall DNSSEC state of a domain
+ * - 'signed': the parent DS matches a DNSKEY of the zone
+ * - 'unsigned': no DS at the parent, the domain is not protected
+ * - 'broken': DS and zone keys do not form a valid chain
+ * - 'unknown': the resolver could not answer
+ */
+export type DnssecStatus = 'signed' | 'unsigned' | 'broken' | 'unknown';
+
+/**
+ * DS record published by the parent zone (RFC 4034 section 5)
+ */
+export interface DnssecDsRecord {
+  readonly keyTag: number;
+  readonly algorithm: number;
+  readonly digestType: number;
+  /** Uppercase hexadecimal digest */
+  readonly digest: string;
+}
+
+/**
+ * DNSKEY record published by the zone (RFC 4034 section 2)
+ */
+export interface DnssecKey {
+  readonly keyTag: number;
+  readonly flags: number;
+  readonly protocol: number;
+  readonly algorithm: number;
+  /** base64 public key */
+  readonly publicKey: string;
+  /** Secure Entry Point flag, set on key signing keys */
+  readonly isSecureEntryPoint: boolean;
+}
+
+/**
+ * RRSIG record covering the DNSKEY set (RFC 4034 section 3)
+ */
+export interface DnssecSignature {
+  readonly typeCovered: string;
+  readonly algorithm: number;
+  readonly keyTag: number;
+  readonly signer: string;
+  readonly inception: Date;
+  readonly expiration: Date;
+}
+
+/**
+ * Outcome of checking a DS record against the zone keys
+ * - 'match': the digest of a DNSKEY equals the DS digest
+ * - 'mismatch': a DNSKEY has the key tag but another digest
+ * - 'no-key': no DNSKEY has the key tag and algorithm
+ * - 'unsupported-digest': the digest type cannot be computed here
+ */
+export type DnssecDsMatchResult = 'match' | 'mismatch' | 'no-key' | 'unsupported-digest';
+
+/**
+ * DS record and the outcome of its check
+ */
+export interface DnssecDsMatch {
+  readonly ds: DnssecDsRecord;
+  readonly result: DnssecDsMatchResult;
+}
+
+/**
+ * RDAP secure DNS data compared with the DNS answers
+ */
+export interface DnssecRdapComparison {
+  readonly delegationSigned: boolean;
+  readonly dsData: readonly DnssecDsRecord[];
+  /** True when RDAP and the parent zone describe the same delegation */
+  readonly consistent: boolean;
+}
+
+/**
+ * DNSSEC report of a domain
+ */
+export interface DnssecReport {
+  readonly domain: string;
+  readonly status: DnssecStatus;
+  readonly summary: string;
+  /** The resolver validated the DNSKEY answer (AD flag) */
+  readonly validated: boolean;
+  readonly ds: readonly DnssecDsRecord[];
+  readonly keys: readonly DnssecKey[];
+  readonly signatures: readonly DnssecSignature[];
+  readonly dsMatches: readonly DnssecDsMatch[];
+  readonly rdap?: DnssecRdapComparison;
+  /** Problems worth showing, even when the status is signed */
+  readonly issues: readonly string[];
+}
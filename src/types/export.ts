@@ -0,0 +1,59 @@
+/**
+ * Data export type definitions
+ */
+
+/**
+ * Export file formats
+ * - 'csv': RFC 4180 CSV
+ * - 'csv-bom': the same CSV preceded by a UTF-8 byte order mark, so Excel reads accents correctly (not an .xlsx workbook)
+ * - 'json': array of objects shaped like the stored records (e.g. Domain.toJSON())
+ */
+export type ExportFormat = 'csv' | 'csv-bom' | 'json';
+
+/**
+ * How dates are written in the export
+ */
+export type ExportDateStyle = 'iso' | 'locale';
+
+/**
+ * Raw cell value produced by a column
+ */
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Column of an export
+ */
+export interface ExportColumn<T> {
+  /** Property name in JSON exports */
+  readonly key: string;
+  /** Header in CSV exports */
+  readonly label: string;
+  readonly getValue: (row: T) => ExportValue;
+  /** Readable text for CSV cells (JSON keeps the raw value) */
+  readonly formatText?: (value: ExportValue) => string;
+  /** Format locale dates without the time */
+  readonly dateOnly?: boolean;
+  /** Selected when the column chooser opens (default: true) */
+  readonly defaultSelected?: boolean;
+}
+
+/**
+ * Export settings chosen by the user
+ */
+export interface ExportOptions {
+  readonly format: ExportFormat;
+  readonly dateStyle: ExportDateStyle;
+  /** Keys of the columns to include, in output order */
+  readonly columnKeys: readonly string[];
+  /** Locale used by the 'locale' date style (default: browser locale) */
+  readonly locale?: string;
+}
+
+/**
+ * Generated export file
+ */
+export interface ExportFile {
+  readonly fileName: string;
+  readonly mimeType: string;
+  readonly content: string;
+}
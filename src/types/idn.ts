@@ -0,0 +1,19 @@
+/**
+ * Internationalized domain name type definitions
+ */
+
+/**
+ * Domain name converted with the UTS-46 processing
+ */
+export interface IdnConversion {
+  /** Name sent to DNS and RDAP, with xn-- A-labels (e.g. "xn--caf-dma.fr") */
+  readonly ascii: string;
+  /** Name shown to users, with Unicode U-labels (e.g. "café.fr") */
+  readonly unicode: string;
+  /** True when at least one label is not plain ASCII */
+  readonly isInternationalized: boolean;
+  /** Disallowed code points and malformed labels */
+  readonly errors: readonly string[];
+  /** Homograph risks such as mixed scripts */
+  readonly warnings: readonly string[];
+}
@@ -0,0 +1,81 @@
+/**
+ * Watch list import type definitions
+ */
+
+/**
+ * Supported import formats
+ * - 'text': one domain per line
+ * - 'csv': registrar export or any CSV, with a column mapping
+ * - 'json': array of domain strings or of objects with a domain field
+ */
+export type ImportFormat = 'text' | 'csv' | 'json';
+
+/**
+ * Columns of a CSV import, as 0-based indexes
+ */
+export interface ImportColumnMapping {
+  readonly domain: number;
+  readonly expirationDate?: number;
+  readonly registrar?: number;
+}
+
+/**
+ * Options of a CSV import
+ */
+export interface CsvImportOptions {
+  readonly mapping: ImportColumnMapping;
+  /** Skip the first row (default: true) */
+  readonly hasHeader?: boolean;
+}
+
+/**
+ * Domain read from the import source
+ */
+export interface ImportEntry {
+  /** Normalized root domain */
+  readonly domain: string;
+  /** 1-based line (text, CSV) or item number (JSON) */
+  readonly line: number;
+  readonly expirationDate?: Date;
+  readonly registrar?: string;
+}
+
+/**
+ * Line or item of the import source that was not imported
+ */
+export interface ImportRejection {
+  /** 1-based line (text, CSV) or item number (JSON) */
+  readonly line: number;
+  readonly value: string;
+  readonly reason: string;
+}
+
+/**
+ * Outcome of parsing an import source
+ */
+export interface ImportParseResult {
+  /** De-duplicated entries in source order */
+  readonly entries: readonly ImportEntry[];
+  readonly rejected: readonly ImportRejection[];
+  /** Entries dropped because they appeared earlier in the source */
+  readonly duplicates: number;
+}
+
+/**
+ * Progress of a watch list import
+ */
+export interface ImportProgress {
+  readonly total: number;
+  /** Domains bookmarked by this import */
+  readonly added: number;
+  /** Domains skipped because they were already in the watch list */
+  readonly alreadyWatched: number;
+  /** RDAP lookups completed, successful or not */
+  readonly enriched: number;
+  /** RDAP lookups still to run (0 when enrichment is off) */
+  readonly enrichPending: number;
+  /** Lines rejected while parsing or saving */
+  readonly rejected: readonly ImportRejection[];
+  /** Domains added without RDAP data because the lookup failed */
+  readonly enrichErrors: readonly ImportRejection[];
+}
@@ -1,3 +1,5 @@
+import { findRegistrySuffix } from '@/utils/pslUtil';
+import { toUnicodeDomain } from '@/utils/idnUtil';
 
 /**
  * Domain availability status enum
@@ -51,10 +53,10 @@ export class Domain implements IDomain {
     public readonly registrar?: string,
     public readonly lastChecked?: Date
   ) {
-    // Parse label and TLD from name
-    const [labelPart = '', tldPart = ''] = name.split('.');
-    this._label = labelPart;
-    this._tld = tldPart;
+    // Parse label and TLD from name, the TLD being the registry suffix (e.g. "co.uk")
+    const match = findRegistrySuffix(name);
+    this._label = match?.label ?? '';
+    this._tld = match?.publicSuffix ?? '';
   }
 
   private readonly _label: string;
@@ -68,12 +70,19 @@ export class Domain implements IDomain {
   }
 
   /**
-   * Top-level domain
+   * Top-level domain, or registry suffix such as "co.uk"
    */
   get tld(): string {
     return this._tld;
   }
 
+  /**
+   * Name with Unicode labels for display, e.g. "café.fr" for "xn--caf-dma.fr"
+   */
+  get unicodeName(): string {
+    return toUnicodeDomain(this.name);
+  }
+
   /**
    * Legacy property for compatibility
    * @deprecated Use availability instead
@@ -0,0 +1,56 @@
+import type { DomainAvailabilityStatus } from ".";
+import type { DnsResponseStatus } from "./dns";
+
+/**
+ * Watch-list monitoring type definitions
+ */
+
+/**
+ * Point-in-time record of a watched domain, as stored in the snapshot history
+ */
+export interface DomainSnapshot {
+  readonly id?: number;
+  readonly domain: string;
+  readonly checkedAt: string; // ISO string
+  readonly availability: DomainAvailabilityStatus;
+  readonly registrar?: string;
+  readonly expirationDate?: string; // ISO string
+  /** RDAP status codes, sorted */
+  readonly statuses: readonly string[];
+  /** Delegated nameservers (lowercase), sorted */
+  readonly nameservers: readonly string[];
+  readonly dnsStatus?: DnsResponseStatus;
+  /** False when RDAP could not be queried; RDAP fields are then unknown, not empty */
+  readonly hasRdap: boolean;
+}
+
+/**
+ * Kinds of changes detected between two snapshots
+ */
+export type DomainChangeType =
+  | 'availability'
+  | 'registrar'
+  | 'expiration'
+  | 'status'
+  | 'nameservers';
+
+/**
+ * Single change between two snapshots
+ */
+export interface DomainChange {
+  readonly type: DomainChangeType;
+  readonly previous?: string;
+  readonly current?: string;
+  /** Values added to a list field (status codes, nameservers) */
+  readonly added?: readonly string[];
+  /** Values removed from a list field (status codes, nameservers) */
+  readonly removed?: readonly string[];
+}
+
+/**
+ * Snapshot with the changes it introduced compared to the previous one
+ */
+export interface DomainTimelineEntry {
+  readonly snapshot: DomainSnapshot;
+  readonly changes: readonly DomainChange[];
+}
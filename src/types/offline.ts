@@ -0,0 +1,23 @@
+/**
+ * Offline mode type definitions
+ */
+
+/**
+ * Domain check postponed until connectivity returns
+ */
+export interface PendingDomainCheck {
+  readonly domain: string;
+  readonly queuedAt: string; // ISO string
+  /** Background Sync passes that failed to reach RDAP and DNS */
+  readonly attempts: number;
+}
+
+/**
+ * Outcome of a Background Sync pass over the pending checks
+ */
+export interface PendingCheckSyncSummary {
+  /** Domains checked and removed from the queue */
+  readonly checked: readonly string[];
+  /** Domains left in the queue for the next pass */
+  readonly remaining: readonly string[];
+}
@@ -0,0 +1,73 @@
+/**
+ * Public Suffix List type definitions
+ */
+
+/**
+ * Section of the list a rule belongs to
+ * ICANN rules are delegated by registries, private ones by companies (e.g. github.io)
+ */
+export type PublicSuffixSection = 'icann' | 'private';
+
+/**
+ * Public Suffix List text with its version
+ */
+export interface PublicSuffixListSnapshot {
+  /** VERSION header of the list, or the date it was fetched */
+  readonly version: string;
+  readonly text: string;
+}
+
+/**
+ * Snapshot downloaded by the app and stored in IndexedDB
+ */
+export interface StoredPublicSuffixListSnapshot extends PublicSuffixListSnapshot {
+  readonly updatedAt: string; // ISO string
+}
+
+/**
+ * Parsed rules, keyed by the suffix they apply to
+ */
+export interface PublicSuffixRules {
+  /** Plain rules, e.g. "co.uk" */
+  readonly normal: ReadonlyMap<string, PublicSuffixSection>;
+  /** Wildcard rules keyed by their parent, e.g. "ck" for "*.ck" */
+  readonly wildcard: ReadonlyMap<string, PublicSuffixSection>;
+  /** Exception rules keyed without the "!", e.g. "www.ck" */
+  readonly exception: ReadonlyMap<string, PublicSuffixSection>;
+  readonly size: number;
+}
+
+/**
+ * Public suffix of a host name
+ */
+export interface PublicSuffixMatch {
+  /** Public suffix, e.g. "co.uk" for "www.example.co.uk" */
+  readonly publicSuffix: string;
+  /** Label registered under the suffix, e.g. "example" (undefined when the host is a suffix) */
+  readonly label?: string;
+  /** Registrable domain, e.g. "example.co.uk" (undefined when the host is a suffix) */
+  readonly registrableDomain?: string;
+  /** Labels in front of the registrable domain, e.g. ["www"] */
+  readonly subdomains: readonly string[];
+  /** Section of the prevailing rule, null when no rule matched and the last label was used */
+  readonly section: PublicSuffixSection | null;
+}
+
+/**
+ * Options of a public suffix lookup
+ */
+export interface PublicSuffixOptions {
+  /** Also apply private rules (default: true) */
+  readonly includePrivate?: boolean;
+}
+
+/**
+ * Public Suffix List in use
+ */
+export interface PublicSuffixListInfo {
+  readonly version: string;
+  readonly source: 'bundled' | 'stored';
+  readonly ruleCount: number;
+  /** When the stored snapshot was fetched */
+  readonly updatedAt?: string; // ISO string
+}
@@ -32,7 +32,7 @@ export interface RdapLink {
 }
 
 /**
- * RDAP status values as defined in RFC 7483
+ * RDAP status values as defined in RFC 7483 and RFC 8056
  */
 export type RdapStatus =
   | "unknown"
@@ -53,7 +53,24 @@ export type RdapStatus =
   | "pending renew"
   | "pending transfer"
   | "pending update"
-  | "pending delete";
+  | "pending delete"
+  // EPP status mapping (RFC 8056)
+  | "add period"
+  | "auto renew period"
+  | "client delete prohibited"
+  | "client hold"
+  | "client renew prohibited"
+  | "client transfer prohibited"
+  | "client update prohibited"
+  | "pending restore"
+  | "redemption period"
+  | "renew period"
+  | "server delete prohibited"
+  | "server renew prohibited"
+  | "server transfer prohibited"
+  | "server update prohibited"
+  | "server hold"
+  | "transfer period";
 
 /**
  * RDAP notice and remark types as defined in RFC 7483
@@ -83,10 +100,10 @@ export interface RdapResponse {
   readonly objectClassName: string;
   readonly handle: string;
   readonly ldhName: string;
+  /** Domain name with U-labels, present for internationalized domains */
+  readonly unicodeName?: string;
   readonly nameservers?: readonly RdapNameserver[];
-  readonly secureDNS?: {
-    readonly delegationSigned: boolean;
-  };
+  readonly secureDNS?: RdapSecureDns;
   readonly links?: readonly RdapLink[];
   readonly entities?: readonly RdapEntity[];
   readonly events?: readonly RdapEvent[];
@@ -96,6 +113,37 @@ export interface RdapResponse {
   readonly port43?: string;
 }
 
+/**
+ * RDAP secure DNS information (RFC 9083 section 5.3)
+ */
+export interface RdapSecureDns {
+  readonly zoneSigned?: boolean;
+  readonly delegationSigned: boolean;
+  readonly maxSigLife?: number;
+  readonly dsData?: readonly RdapDsData[];
+  readonly keyData?: readonly RdapKeyData[];
+}
+
+/**
+ * DS record registered for a domain
+ */
+export interface RdapDsData {
+  readonly keyTag: number;
+  readonly algorithm: number;
+  readonly digest: string;
+  readonly digestType: number;
+}
+
+/**
+ * DNSKEY registered for a domain (registries without DS support)
+ */
+export interface RdapKeyData {
+  readonly flags: number;
+  readonly protocol: number;
+  readonly publicKey: string;
+  readonly algorithm: number;
+}
+
 /**
  * RDAP event object representing domain lifecycle events
  */
@@ -151,4 +199,33 @@ export interface RdapEntity {
   readonly events?: readonly RdapEvent[];
   readonly links?: readonly RdapLink[];
   readonly legalRepresentative?: string;
-}
\ No newline at end of file
+}
+/**
+ * Request queue state of a single RDAP server
+ */
+export interface RdapServerMetrics {
+  /** RDAP base URL */
+  readonly server: string;
+  /** Requests currently sent to the server */
+  readonly active: number;
+  /** Requests waiting for a free slot */
+  readonly queued: number;
+  /** ISO date until which the server asked us to slow down */
+  readonly pausedUntil?: string;
+  readonly completed: number;
+  readonly failed: number;
+  /** Responses with HTTP status 429 */
+  readonly rateLimited: number;
+  readonly retries: number;
+}
+
+/**
+ * Request queue state of every RDAP server
+ */
+export interface RdapQueueMetrics {
+  /** Distinct domains being queried */
+  readonly inFlight: number;
+  /** Calls served by joining an in-flight query for the same domain */
+  readonly deduplicated: number;
+  readonly servers: readonly RdapServerMetrics[];
+}
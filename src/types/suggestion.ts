@@ -0,0 +1,50 @@
+/**
+ * Domain name suggestion type definitions
+ */
+
+/**
+ * Word lists the suggestions are built from, managed by the user
+ */
+export interface SuggestionWordLists {
+  /** Words put before the searched name, e.g. "get" */
+  readonly prefixes: readonly string[];
+  /** Words put after the searched name, e.g. "app" */
+  readonly suffixes: readonly string[];
+  /** Replacements of a word found in the searched name, e.g. { car: ['auto'] } */
+  readonly synonyms: Readonly<Record<string, readonly string[]>>;
+}
+
+/**
+ * Way a suggested label was built
+ */
+export type SuggestionSource = 'prefix' | 'suffix' | 'synonym';
+
+/**
+ * Scored domain name suggestion
+ */
+export interface DomainSuggestion {
+  readonly domain: string;
+  readonly label: string;
+  readonly tld: string;
+  readonly source: SuggestionSource;
+  /** True when the words are joined with a hyphen rather than compounded */
+  readonly isHyphenated: boolean;
+  /** Overall score between 0 and 1, higher is better */
+  readonly score: number;
+  /** Score of the label length between 0 and 1 */
+  readonly lengthScore: number;
+  /** Score of how easily the label reads aloud between 0 and 1 */
+  readonly pronounceabilityScore: number;
+}
+
+/**
+ * Options of the suggestion engine
+ */
+export interface SuggestionOptions {
+  /** Word lists to use (default: the built-in lists) */
+  readonly wordLists?: SuggestionWordLists;
+  /** TLDs to suggest, in order of preference (default: common TLDs) */
+  readonly tlds?: readonly string[];
+  /** Maximum number of suggestions returned */
+  readonly maxSuggestions?: number;
+}
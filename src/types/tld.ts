@@ -0,0 +1,66 @@
+/**
+ * TLD catalog type definitions
+ */
+
+/**
+ * Category of a TLD, as stored in TldRecord.metadata
+ */
+export type TldType = 'gTLD' | 'ccTLD' | 'sTLD';
+
+/**
+ * Root zone snapshot bundled with the app
+ */
+export interface TldCatalogSnapshot {
+  /** Date of the registry data, e.g. "2023-02-09" */
+  readonly version: string;
+  /** One TLD per line: A-label, type, country, delegation date, sponsor, tab-separated */
+  readonly text: string;
+}
+
+/**
+ * Root zone data of a TLD
+ */
+export interface TldCatalogEntry {
+  /** TLD in its A-label form, e.g. "xn--p1ai" */
+  readonly tld: string;
+  readonly type: TldType;
+  /** ISO 3166-1 code of the country or territory of a ccTLD, e.g. "GB" */
+  readonly country?: string;
+  /** Sponsoring organisation or registry operator */
+  readonly sponsor?: string;
+  /** True for internationalized TLDs */
+  readonly isIdn: boolean;
+  /** Date the TLD entered the root zone, YYYY-MM-DD */
+  readonly delegationDate?: string;
+}
+
+/**
+ * TLD shown in the extension list: root zone data merged with the RDAP bootstrap
+ */
+export interface TldInfo extends TldCatalogEntry {
+  /** TLD in its Unicode form, e.g. "рф" */
+  readonly unicode: string;
+  /** English name of the country, for ccTLDs */
+  readonly countryName?: string;
+  /** RDAP base URLs published by IANA for the TLD */
+  readonly rdapServers: readonly string[];
+  /** False for TLDs delegated after the snapshot, whose type is guessed */
+  readonly isInCatalog: boolean;
+}
+
+/**
+ * Filters of the extension list
+ */
+export interface TldFilter {
+  /** Case-insensitive text matched against the TLD, country and sponsor */
+  readonly query: string;
+  readonly type: TldType | 'all';
+  /** ISO 3166-1 code, or 'all' */
+  readonly country: string;
+  readonly rdap: 'all' | 'with' | 'without';
+}
+
+/**
+ * Sortable fields of the extension list
+ */
+export type TldSortKey = 'tld' | 'type' | 'country' | 'delegationDate';
@@ -0,0 +1,54 @@
+/**
+ * Look-alike (typosquatting) domain type definitions
+ */
+
+/**
+ * Permutation applied to a brand domain to build a look-alike
+ */
+export type TyposquatTechnique =
+  | 'omission'
+  | 'repetition'
+  | 'transposition'
+  | 'keyboard'
+  | 'bitflip'
+  | 'homoglyph'
+  | 'hyphenation'
+  | 'tld-swap'
+  | 'added-word';
+
+/**
+ * Look-alike domain generated from a brand domain
+ */
+export interface TyposquatVariant {
+  /** Name sent to DNS and RDAP, with xn-- A-labels for homoglyphs */
+  readonly domain: string;
+  /** Name shown to users, with Unicode letters */
+  readonly displayName: string;
+  readonly technique: TyposquatTechnique;
+}
+
+/**
+ * Options of the permutation engine
+ */
+export interface TyposquatOptions {
+  /** Techniques to apply (default: all) */
+  readonly techniques?: readonly TyposquatTechnique[];
+  /** Suffixes used by TLD swaps (default: common TLDs) */
+  readonly tlds?: readonly string[];
+  /** Words prepended and appended by the added-word technique */
+  readonly words?: readonly string[];
+  /** Maximum number of variants returned */
+  readonly maxVariants?: number;
+}
+
+/**
+ * Look-alikes generated for a brand domain
+ */
+export interface TyposquatGenerationResult {
+  /** Registrable brand domain the variants imitate */
+  readonly brandDomain: string;
+  /** Unique variants, grouped by technique in the order of the options */
+  readonly variants: readonly TyposquatVariant[];
+  /** Number of variants dropped because of maxVariants */
+  readonly truncated: number;
+}
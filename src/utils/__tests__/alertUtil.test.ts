@@ -0,0 +1,203 @@
+import { describe, expect, test } from 'vitest'
+import { DomainAvailabilityStatus } from '@/types'
+import {
+  buildScheduleStages,
+  getAvailabilityCheckOutcome,
+  getDueStages,
+  getExpirationSyncAction,
+  getNextAlertDate,
+  getNextReminderDate,
+  isReminderDue,
+  rescheduleAlertDates
+} from '../alertUtil'
+
+// Daylight saving time starts on 2025-03-09 and ends on 2025-11-02 in this zone
+process.env.TZ = 'America/New_York'
+
+const alert = (overrides: Partial<Parameters<typeof getNextReminderDate>[0]> = {}) => ({
+  alertDate: new Date(2025, 0, 31, 9),
+  expirationDate: new Date(2025, 11, 31, 9),
+  reminderFrequency: 'daily' as const,
+  ...overrides
+})
+
+describe('getNextReminderDate', () => {
+  test('fires on the alert date until notified', () => {
+    expect(getNextReminderDate(alert())).toEqual(new Date(2025, 0, 31, 9))
+    expect(getNextReminderDate(alert({ reminderFrequency: 'once', lastNotified: new Date(2025, 0, 31, 9) }))).toBeNull()
+  })
+
+  test('accepts ISO strings from IndexedDB', () => {
+    expect(getNextReminderDate(alert({
+      alertDate: '2025-01-31T14:00:00.000Z',
+      lastNotified: '2025-01-31T14:05:00.000Z'
+    }))).toEqual(new Date('2025-02-01T14:00:00.000Z'))
+    expect(getNextReminderDate(alert({ alertDate: 'not a date' }))).toBeNull()
+  })
+
+  test('counts daily and weekly slots from the alert date, not from the last notification', () => {
+    expect(getNextReminderDate(alert({ lastNotified: new Date(2025, 1, 3, 18) }))).toEqual(new Date(2025, 1, 4, 9))
+    expect(getNextReminderDate(alert({ reminderFrequency: 'weekly', lastNotified: new Date(2025, 1, 3) })))
+      .toEqual(new Date(2025, 1, 7, 9))
+  })
+
+  test('crosses month ends and leap days', () => {
+    expect(getNextReminderDate(alert({ lastNotified: new Date(2025, 0, 31, 9) }))).toEqual(new Date(2025, 1, 1, 9))
+    expect(getNextReminderDate(alert({
+      alertDate: new Date(2024, 1, 28, 9),
+      lastNotified: new Date(2024, 1, 28, 9)
+    }))).toEqual(new Date(2024, 1, 29, 9))
+  })
+
+  test('keeps the local time of day across daylight saving time changes', () => {
+    expect(getNextReminderDate(alert({ lastNotified: new Date(2025, 2, 8, 9) }))).toEqual(new Date(2025, 2, 9, 9))
+    expect(getNextReminderDate(alert({ lastNotified: new Date(2025, 2, 20, 9) }))).toEqual(new Date(2025, 2, 21, 9))
+    expect(getNextReminderDate(alert({ reminderFrequency: 'weekly', lastNotified: new Date(2025, 10, 1) })))
+      .toEqual(new Date(2025, 10, 7, 9))
+  })
+
+  test('stops after the expiration date', () => {
+    expect(getNextReminderDate(alert({ lastNotified: new Date(2025, 11, 30, 9) }))).toEqual(new Date(2025, 11, 31, 9))
+    expect(getNextReminderDate(alert({ lastNotified: new Date(2025, 11, 31, 9) }))).toBeNull()
+  })
+})
+
+describe('isReminderDue', () => {
+  test('compares the next reminder with the reference date', () => {
+    const notified = alert({ lastNotified: new Date(2025, 2, 8, 9) })
+    expect(isReminderDue(notified, new Date(2025, 2, 9, 8, 59))).toBe(false)
+    expect(isReminderDue(notified, new Date(2025, 2, 9, 9))).toBe(true)
+    expect(isReminderDue(alert({ reminderFrequency: 'once', lastNotified: new Date(2025, 0, 31, 9) }), new Date(2026, 0, 1)))
+      .toBe(false)
+  })
+})
+
+describe('buildScheduleStages', () => {
+  test('orders stages from the earliest date and names them by offset', () => {
+    const stages = buildScheduleStages(new Date(2025, 5, 30, 12), [7, 30, 1])
+    expect(stages.map(stage => stage.id)).toEqual(['stage_30', 'stage_7', 'stage_1'])
+    expect(stages.map(stage => stage.alertDate)).toEqual([
+      new Date(2025, 4, 31, 12),
+      new Date(2025, 5, 23, 12),
+      new Date(2025, 5, 29, 12)
+    ])
+  })
+
+  test('crosses month ends, leap days and daylight saving time changes', () => {
+    expect(buildScheduleStages(new Date(2024, 2, 1, 9), [1, 30]).map(stage => stage.alertDate)).toEqual([
+      new Date(2024, 0, 31, 9),
+      new Date(2024, 1, 29, 9)
+    ])
+    expect(buildScheduleStages(new Date(2025, 3, 10, 0, 30), [60]).map(stage => stage.alertDate))
+      .toEqual([new Date(2025, 1, 9, 0, 30)])
+    expect(buildScheduleStages(new Date(2025, 10, 10, 9), [14]).map(stage => stage.alertDate))
+      .toEqual([new Date(2025, 9, 27, 9)])
+  })
+})
+
+describe('getDueStages', () => {
+  const stages = buildScheduleStages(new Date(2025, 5, 30, 12), [30, 7, 1])
+
+  test('returns past stages that were not notified, earliest first', () => {
+    const alertWithStages = { stages: [...stages].reverse() }
+    expect(getDueStages(alertWithStages, new Date(2025, 5, 23, 11)).map(stage => stage.id)).toEqual(['stage_30'])
+    expect(getDueStages(alertWithStages, new Date(2025, 5, 23, 12)).map(stage => stage.id)).toEqual(['stage_30', 'stage_7'])
+    expect(getDueStages({}, new Date(2026, 0, 1))).toEqual([])
+  })
+
+  test('skips notified stages and reads ISO strings', () => {
+    const stored = stages.map(stage => ({ ...stage, alertDate: stage.alertDate.toISOString() }))
+    stored[0] = { ...stored[0]!, lastNotified: new Date(2025, 4, 31, 12).toISOString() }
+    expect(getDueStages({ stages: stored }, new Date(2025, 5, 30)).map(stage => stage.id)).toEqual(['stage_7', 'stage_1'])
+    expect(getNextAlertDate({ ...alert(), stages: stored })).toEqual(new Date(2025, 5, 23, 12))
+  })
+})
+
+describe('getExpirationSyncAction', () => {
+  const now = new Date(2025, 5, 10, 12)
+
+  test('updates found domains and leaves failed lookups alone', () => {
+    expect(getExpirationSyncAction('found', { rdapNotFoundCount: 2, rdapNotFoundSince: new Date(2025, 5, 1) }, { now }))
+      .toBe('update')
+    expect(getExpirationSyncAction('failed', { rdapNotFoundCount: 5, rdapNotFoundSince: new Date(2025, 5, 1) }, { now }))
+      .toBe('failed')
+  })
+
+  test('does not trust a single 404', () => {
+    expect(getExpirationSyncAction('not-found', {}, { now })).toBe('not-found')
+    expect(getExpirationSyncAction('not-found', { rdapNotFoundCount: 1, rdapNotFoundSince: new Date(2025, 5, 9, 12) }, { now }))
+      .toBe('not-found')
+  })
+
+  test('flags the domain after repeated 404s spread over several days', () => {
+    expect(getExpirationSyncAction('not-found', { rdapNotFoundCount: 2, rdapNotFoundSince: new Date(2025, 5, 8, 12) }, { now }))
+      .toBe('stale')
+    // Forced syncs in quick succession are not enough
+    expect(getExpirationSyncAction('not-found', { rdapNotFoundCount: 9, rdapNotFoundSince: new Date(2025, 5, 10, 11) }, { now }))
+      .toBe('not-found')
+    expect(getExpirationSyncAction('not-found', { rdapNotFoundCount: 1, rdapNotFoundSince: '2025-05-01T00:00:00.000Z' }, { now }))
+      .toBe('not-found')
+  })
+
+  test('flags the domain on the first 404 when DNS answers NXDOMAIN', () => {
+    expect(getExpirationSyncAction('not-found', {}, { now, isNxdomain: true })).toBe('stale')
+    expect(getExpirationSyncAction('found', {}, { now, isNxdomain: true })).toBe('update')
+  })
+})
+
+describe('rescheduleAlertDates', () => {
+  const expirationDate = new Date(2025, 11, 31, 9)
+  const stages = buildScheduleStages(expirationDate, [30, 7]).map((stage, index) =>
+    index === 0 ? { ...stage, lastNotified: new Date(2025, 11, 1, 9) } : stage
+  )
+
+  test('moves the stages to a renewed expiration date and resets their history', () => {
+    const renewal = rescheduleAlertDates({ ...alert({ expirationDate }), stages }, new Date(2026, 11, 31, 9))
+
+    expect(renewal.renewed).toBe(true)
+    expect(renewal.alertDate).toEqual(new Date(2026, 11, 1, 9))
+    expect(renewal.stages?.map(stage => [stage.alertDate, stage.lastNotified])).toEqual([
+      [new Date(2026, 11, 1, 9), undefined],
+      [new Date(2026, 11, 24, 9), undefined]
+    ])
+  })
+
+  test('keeps the history when the registry corrects the date backwards', () => {
+    const correction = rescheduleAlertDates({ ...alert({ expirationDate }), stages }, new Date(2025, 11, 30, 9))
+
+    expect(correction.renewed).toBe(false)
+    expect(correction.stages?.[0]).toMatchObject({ alertDate: new Date(2025, 10, 30, 9), lastNotified: new Date(2025, 11, 1, 9) })
+  })
+
+  test('shifts the alert date of single alerts by the same amount, from ISO strings', () => {
+    const stored = alert({ alertDate: '2025-12-01T14:00:00.000Z', expirationDate: '2025-12-31T14:00:00.000Z' })
+    expect(rescheduleAlertDates(stored, new Date('2026-01-10T14:00:00.000Z'))).toEqual({
+      renewed: true,
+      alertDate: new Date('2025-12-11T14:00:00.000Z'),
+      stages: undefined
+    })
+  })
+})
+
+describe('getAvailabilityCheckOutcome', () => {
+  const { AVAILABLE, NOTAVAILABLE, UNKNOWN } = DomainAvailabilityStatus
+
+  test('notifies once DNS and RDAP agree a registered domain is gone', () => {
+    expect(getAvailabilityCheckOutcome(AVAILABLE, 'not-found', NOTAVAILABLE)).toEqual({ status: AVAILABLE, notify: true })
+    expect(getAvailabilityCheckOutcome(AVAILABLE, 'not-found', AVAILABLE)).toEqual({ status: AVAILABLE, notify: false })
+  })
+
+  test('keeps domains RDAP still returns registered, as in redemption or pending delete', () => {
+    expect(getAvailabilityCheckOutcome(AVAILABLE, 'found', NOTAVAILABLE)).toEqual({ status: NOTAVAILABLE, notify: false })
+  })
+
+  test('waits for the next check when RDAP does not answer', () => {
+    expect(getAvailabilityCheckOutcome(AVAILABLE, 'failed', NOTAVAILABLE)).toEqual({ status: UNKNOWN, notify: false })
+    expect(getAvailabilityCheckOutcome(AVAILABLE, undefined, NOTAVAILABLE)).toEqual({ status: UNKNOWN, notify: false })
+  })
+
+  test('trusts DNS when it still sees the domain', () => {
+    expect(getAvailabilityCheckOutcome(NOTAVAILABLE, undefined, NOTAVAILABLE)).toEqual({ status: NOTAVAILABLE, notify: false })
+    expect(getAvailabilityCheckOutcome(UNKNOWN, undefined, NOTAVAILABLE)).toEqual({ status: UNKNOWN, notify: false })
+  })
+})
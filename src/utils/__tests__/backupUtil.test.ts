@@ -0,0 +1,197 @@
+import { describe, expect, test } from 'vitest'
+import type { AlertRecord, DomainRecord, SettingsRecord } from '@/services/dbService'
+import {
+  createBackup,
+  mergeSearchHistory,
+  parseBackupFile,
+  planAlertMerge,
+  planStoreMerge,
+  upgradeBackupDomains,
+  validateBackupRecords,
+  validateSearchHistory
+} from '../backupUtil'
+
+const emptyStores = { domains: [], tlds: [], settings: [], alerts: [] }
+
+const alertRecord = (overrides: Partial<AlertRecord> = {}): AlertRecord => ({
+  id: 'alert_1',
+  domain: 'example.com',
+  alertDate: '2025-06-01T00:00:00.000Z',
+  reminderFrequency: 'once',
+  expirationDate: '2025-07-01T00:00:00.000Z',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  ...overrides
+})
+
+describe('parseBackupFile', () => {
+  test('reads back a backup created by the app', () => {
+    const backup = createBackup({ ...emptyStores, domains: [{ name: 'example.com' }] }, [{ query: 'example', timestamp: 1 }], 9)
+    const result = parseBackupFile(JSON.stringify(backup), 9)
+
+    expect(result.success).toBe(true)
+    expect(result.data?.schemaVersion).toBe(9)
+    expect(result.data?.stores.domains).toEqual([{ name: 'example.com' }])
+    expect(result.data?.searchHistory).toEqual([{ query: 'example', timestamp: 1 }])
+  })
+
+  test('rejects files that are not usable backups', () => {
+    const backup = (overrides: Record<string, unknown>) => JSON.stringify({
+      format: 'domaincheck-backup',
+      backupVersion: 1,
+      schemaVersion: 9,
+      stores: emptyStores,
+      ...overrides
+    })
+
+    expect(parseBackupFile('{', 9).error).toBe('The file is not valid JSON')
+    expect(parseBackupFile('[]', 9).error).toBe('The file is not a DomainCheck backup')
+    expect(parseBackupFile(backup({ backupVersion: 2 }), 9).error).toMatch(/newer version/)
+    expect(parseBackupFile(backup({ schemaVersion: undefined }), 9).error).toMatch(/does not declare/)
+    expect(parseBackupFile(backup({ schemaVersion: 10 }), 9).error).toMatch(/schema 10 but this app supports up to 9/)
+    expect(parseBackupFile(backup({ schemaVersion: 0 }), 9).error).toMatch(/no longer supported/)
+    expect(parseBackupFile(backup({ stores: { ...emptyStores, alerts: undefined } }), 9).error)
+      .toBe('The backup is missing store data')
+  })
+
+  test('defaults a missing search history', () => {
+    const text = JSON.stringify({ format: 'domaincheck-backup', backupVersion: 1, schemaVersion: 9, stores: emptyStores })
+    expect(parseBackupFile(text, 9).data?.searchHistory).toEqual([])
+  })
+})
+
+describe('validateBackupRecords', () => {
+  test('keeps records carrying their key and counts the rest', () => {
+    expect(validateBackupRecords('domains', [{ name: 'example.com' }, { name: '' }, null, 'example.org'])).toEqual({
+      valid: [{ name: 'example.com' }],
+      invalid: 3
+    })
+    expect(validateBackupRecords('alerts', [alertRecord(), { ...alertRecord(), alertDate: undefined }]).invalid).toBe(1)
+  })
+
+  test('filters malformed search history entries', () => {
+    expect(validateSearchHistory([{ query: 'example', timestamp: 1 }, { query: 'example' }, { timestamp: 1 }])).toEqual({
+      valid: [{ query: 'example', timestamp: 1 }],
+      invalid: 2
+    })
+  })
+})
+
+describe('upgradeBackupDomains', () => {
+  const domains: DomainRecord[] = [{ name: 'a.com' }, { name: 'b.com', isInWatchList: false }]
+
+  test('flags domains from schemas before the watch list flag as watched', () => {
+    expect(upgradeBackupDomains(domains, 8).map(domain => domain.isInWatchList)).toEqual([true, true])
+  })
+
+  test('leaves current records untouched', () => {
+    expect(upgradeBackupDomains(domains, 9)).toEqual(domains)
+  })
+})
+
+describe('planStoreMerge', () => {
+  const setting = (key: string, value: unknown, lastUpdated = 1): SettingsRecord => ({ key, value, lastUpdated })
+
+  test('adds new records, counts identical ones and keeps local ones on conflict', () => {
+    const plan = planStoreMerge(
+      'settings',
+      [setting('theme', 'dark'), setting('language', 'en')],
+      [setting('theme', 'dark'), setting('language', 'fr'), setting('concurrency', 4)],
+      record => record.key
+    )
+
+    expect(plan.toWrite).toEqual([setting('concurrency', 4)])
+    expect(plan.unchanged).toBe(1)
+    expect(plan.conflicts).toEqual([
+      { store: 'settings', key: 'language', reason: 'Local record differs from the backup, kept the local one' }
+    ])
+  })
+
+  test('compares records regardless of key order and undefined fields', () => {
+    const local = [{ name: 'example.com', registrar: 'Registrar', expirationDate: undefined }]
+    const incoming = [{ registrar: 'Registrar', name: 'example.com' }]
+
+    expect(planStoreMerge('domains', local, incoming, record => record.name).unchanged).toBe(1)
+  })
+
+  test('compares only the comparable part when given', () => {
+    const plan = planStoreMerge(
+      'settings',
+      [setting('theme', 'dark', 1)],
+      [setting('theme', 'dark', 2)],
+      record => record.key,
+      record => record.value
+    )
+
+    expect(plan).toEqual({ toWrite: [], conflicts: [], unchanged: 1 })
+  })
+
+  test('writes a key only once when the backup repeats it', () => {
+    const plan = planStoreMerge('settings', [], [setting('theme', 'dark'), setting('theme', 'light')], record => record.key)
+
+    expect(plan.toWrite).toEqual([setting('theme', 'dark')])
+    expect(plan.conflicts.map(conflict => conflict.key)).toEqual(['theme'])
+  })
+})
+
+describe('planAlertMerge', () => {
+  test('does not add a second alert of the same type for a domain', () => {
+    const plan = planAlertMerge(
+      [alertRecord()],
+      [
+        alertRecord({ id: 'alert_2' }),
+        alertRecord({ id: 'alert_3', type: 'availability' }),
+        alertRecord({ id: 'alert_4', domain: 'example.org' })
+      ]
+    )
+
+    expect(plan.toWrite.map(alert => alert.id)).toEqual(['alert_3', 'alert_4'])
+    expect(plan.conflicts).toEqual([
+      { store: 'alerts', key: 'alert_2', reason: 'example.com already has a local expiration alert, kept the local one' }
+    ])
+  })
+
+  test('treats legacy alerts without a type as expiration alerts', () => {
+    const plan = planAlertMerge([alertRecord({ type: 'expiration' })], [alertRecord({ id: 'alert_2', type: undefined })])
+
+    expect(plan.toWrite).toEqual([])
+    expect(plan.conflicts).toHaveLength(1)
+  })
+
+  test('keeps ID conflicts and duplicates within the backup apart', () => {
+    const plan = planAlertMerge(
+      [alertRecord({ reminderFrequency: 'daily' })],
+      [alertRecord(), alertRecord({ id: 'alert_2', domain: 'example.org' }), alertRecord({ id: 'alert_3', domain: 'example.org' })]
+    )
+
+    expect(plan.toWrite.map(alert => alert.id)).toEqual(['alert_2'])
+    expect(plan.conflicts.map(conflict => conflict.key)).toEqual(['alert_1', 'alert_3'])
+  })
+})
+
+describe('mergeSearchHistory', () => {
+  test('keeps the latest timestamp of each query regardless of case', () => {
+    const { history, added } = mergeSearchHistory(
+      [{ query: 'Example', timestamp: 10 }, { query: 'domain', timestamp: 5 }],
+      [{ query: 'example', timestamp: 20 }, { query: 'domain', timestamp: 1 }, { query: 'new', timestamp: 7 }],
+      10
+    )
+
+    expect(history).toEqual([
+      { query: 'example', timestamp: 20 },
+      { query: 'new', timestamp: 7 },
+      { query: 'domain', timestamp: 5 }
+    ])
+    expect(added).toBe(1)
+  })
+
+  test('keeps the newest entries up to the maximum size', () => {
+    const { history, added } = mergeSearchHistory(
+      [{ query: 'local', timestamp: 3 }],
+      [{ query: 'old', timestamp: 1 }, { query: 'recent', timestamp: 4 }],
+      2
+    )
+
+    expect(history.map(entry => entry.query)).toEqual(['recent', 'local'])
+    expect(added).toBe(1)
+  })
+})
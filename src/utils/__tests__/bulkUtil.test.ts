@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'vitest'
+import { extractDomainCandidate, parseBulkDomainInput } from '../bulkUtil'
+
+describe('extractDomainCandidate', () => {
+  test('strips quotes, schemes, paths, ports and the trailing dot', () => {
+    expect(extractDomainCandidate(' "https://Example.com:8443/page?q=1" ')).toBe('Example.com')
+    expect(extractDomainCandidate("'example.org.'")).toBe('example.org')
+  })
+})
+
+describe('parseBulkDomainInput', () => {
+  test('reads one domain per line and skips blanks and comments', () => {
+    expect(parseBulkDomainInput('example.com\n\n# watched\r\nhttps://Example.NET/\n')).toEqual({
+      domains: ['example.com', 'example.net'],
+      rejected: [],
+      duplicates: 0,
+      truncated: 0
+    })
+  })
+
+  test('takes the first valid domain of CSV rows and skips the header', () => {
+    const csv = 'name;domain;notes\n1;shop.example.com;main\n2,"example.org",\n3\tinvalid\tnone'
+    expect(parseBulkDomainInput(csv)).toEqual({
+      domains: ['shop.example.com', 'example.org'],
+      rejected: [{ line: 4, value: '3\tinvalid\tnone', reason: 'No valid domain name found' }],
+      duplicates: 0,
+      truncated: 0
+    })
+  })
+
+  test('rejects a first line that looks like a domain', () => {
+    expect(parseBulkDomainInput('not_a.domain!\nexample.com').rejected).toEqual([
+      { line: 1, value: 'not_a.domain!', reason: 'No valid domain name found' }
+    ])
+  })
+
+  test('counts duplicates and domains beyond the limit', () => {
+    const result = parseBulkDomainInput('a.com\nA.com\nb.com\nc.com\nb.com', 2)
+    expect(result.domains).toEqual(['a.com', 'b.com'])
+    expect(result.duplicates).toBe(2)
+    expect(result.truncated).toBe(1)
+  })
+
+  test('converts internationalized names to their A-label', () => {
+    expect(parseBulkDomainInput('bücher.de').domains).toEqual(['xn--bcher-kva.de'])
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, expect, test } from 'vitest'
+import { DomainAvailabilityStatus } from '@/types'
+import { DnsRecordType, DnsResponseStatus, type DnsJsonResponse, type DnsRecord, type DnsResolverConfig } from '@/types/dns'
+import { DEFAULT_DNS_RESOLVER } from '../dohUtil'
+import { buildDnsConsensus, findDnsDisagreements, getAnswerSignature, mergeConsensusResolvers } from '../dnsConsensusUtil'
+
+const { AVAILABLE, NOTAVAILABLE, UNKNOWN } = DomainAvailabilityStatus
+
+const resolver = (host: string): DnsResolverConfig => ({ provider: 'custom', protocol: 'json', endpoint: `https://${host}/dns-query` })
+const first = resolver('first.example')
+const second = resolver('second.example')
+const third = resolver('third.example')
+
+const response = (Status: DnsResponseStatus, Answer?: DnsRecord[]): DnsJsonResponse => ({
+  Status,
+  TC: false,
+  RD: true,
+  RA: true,
+  AD: false,
+  CD: false,
+  Question: [{ name: 'example.com', type: DnsRecordType.A }],
+  Answer
+})
+
+const a = (data: string, TTL = 300): DnsRecord => ({ name: 'example.com', type: DnsRecordType.A, TTL, data })
+
+describe('getAnswerSignature', () => {
+  test('ignores TTLs, order, case and trailing dots', () => {
+    const cname: DnsRecord = { name: 'www.example.com', type: DnsRecordType.CNAME, TTL: 60, data: 'Example.com.' }
+    expect(getAnswerSignature(response(DnsResponseStatus.NOERROR, [a('192.0.2.2', 10), cname, a('192.0.2.1')])))
+      .toEqual(['A 192.0.2.1', 'A 192.0.2.2', 'CNAME example.com'])
+  })
+})
+
+describe('findDnsDisagreements', () => {
+  test('finds nothing when every resolver returns the same records', () => {
+    expect(findDnsDisagreements([
+      { resolver: first, response: response(DnsResponseStatus.NOERROR, [a('192.0.2.1', 300)]) },
+      { resolver: second, response: response(DnsResponseStatus.NOERROR, [a('192.0.2.1', 12)]) }
+    ])).toEqual([])
+  })
+
+  test('reports resolvers that did not answer', () => {
+    expect(findDnsDisagreements([
+      { resolver: first, response: response(DnsResponseStatus.NXDOMAIN) },
+      { resolver: second, error: 'DNS query timeout for example.com' }
+    ])).toEqual([
+      { kind: 'failure', description: 'second.example did not answer: DNS query timeout for example.com' }
+    ])
+  })
+
+  test('reports different response codes as possible filtering', () => {
+    const disagreements = findDnsDisagreements([
+      { resolver: first, response: response(DnsResponseStatus.NOERROR, [a('192.0.2.1')]) },
+      { resolver: second, response: response(DnsResponseStatus.NXDOMAIN) },
+      { resolver: third, response: response(DnsResponseStatus.NOERROR, [a('192.0.2.2')]) }
+    ])
+
+    // Record differences are not reported on top of a status difference
+    expect(disagreements).toEqual([{
+      kind: 'status',
+      description: 'Response codes differ: NOERROR from first.example, third.example; NXDOMAIN from second.example. ' +
+        'A filtering resolver may be hiding this domain.'
+    }])
+  })
+
+  test('tells sinkholes from split-horizon answers', () => {
+    const [sinkhole] = findDnsDisagreements([
+      { resolver: first, response: response(DnsResponseStatus.NOERROR, [a('192.0.2.1')]) },
+      { resolver: second, response: response(DnsResponseStatus.NOERROR, [a('0.0.0.0')]) }
+    ])
+    expect(sinkhole?.kind).toBe('answers')
+    expect(sinkhole?.description).toBe('Records differ: A 192.0.2.1 from first.example; A 0.0.0.0 from second.example. ' +
+      'second.example returned a sinkhole address and likely filters this domain.')
+
+    const [geo] = findDnsDisagreements([
+      { resolver: first, response: response(DnsResponseStatus.NOERROR, [a('192.0.2.1')]) },
+      { resolver: second, response: response(DnsResponseStatus.NOERROR) }
+    ])
+    expect(geo?.description).toBe('Records differ: A 192.0.2.1 from first.example; no records from second.example. ' +
+      'Split-horizon or geo DNS can explain this.')
+  })
+})
+
+describe('buildDnsConsensus', () => {
+  test('is confident when every resolver agrees', () => {
+    const verdicts = [{ resolver: first, status: AVAILABLE }, { resolver: second, status: AVAILABLE }]
+    expect(buildDnsConsensus(verdicts)).toEqual({
+      status: AVAILABLE,
+      confidence: 'high',
+      agreement: 1,
+      verdicts,
+      disagreements: []
+    })
+  })
+
+  test('follows a strict majority and reports the dissent', () => {
+    const consensus = buildDnsConsensus([
+      { resolver: first, status: NOTAVAILABLE },
+      { resolver: second, status: AVAILABLE },
+      { resolver: third, status: NOTAVAILABLE }
+    ], [{ kind: 'status', description: 'Response codes differ' }])
+
+    expect(consensus.status).toBe(NOTAVAILABLE)
+    expect(consensus.confidence).toBe('medium')
+    expect(consensus.agreement).toBeCloseTo(2 / 3)
+    expect(consensus.disagreements).toEqual([
+      { kind: 'status', description: 'Response codes differ' },
+      {
+        kind: 'verdict',
+        description: 'Resolvers disagree on availability: registered from first.example, third.example; available from second.example.'
+      }
+    ])
+  })
+
+  test('lets unknown verdicts abstain while counting against the agreement', () => {
+    const consensus = buildDnsConsensus([
+      { resolver: first, status: AVAILABLE },
+      { resolver: second, status: UNKNOWN, error: 'DNS query timeout for example.com' },
+      { resolver: third, status: UNKNOWN, dnsStatus: DnsResponseStatus.SERVFAIL }
+    ])
+
+    expect(consensus).toMatchObject({ status: AVAILABLE, confidence: 'low', disagreements: [] })
+    expect(consensus.agreement).toBeCloseTo(1 / 3)
+  })
+
+  test('returns unknown on a tie or without any vote', () => {
+    expect(buildDnsConsensus([
+      { resolver: first, status: AVAILABLE },
+      { resolver: second, status: NOTAVAILABLE }
+    ])).toMatchObject({ status: UNKNOWN, confidence: 'low', agreement: 0 })
+    expect(buildDnsConsensus([{ resolver: first, status: UNKNOWN }])).toMatchObject({ status: UNKNOWN, agreement: 0 })
+    expect(buildDnsConsensus([])).toMatchObject({ status: UNKNOWN, agreement: 0 })
+  })
+
+  test('is not highly confident with a single resolver', () => {
+    expect(buildDnsConsensus([{ resolver: first, status: NOTAVAILABLE }])).toMatchObject({
+      status: NOTAVAILABLE,
+      confidence: 'medium',
+      agreement: 1
+    })
+  })
+})
+
+describe('mergeConsensusResolvers', () => {
+  test('keeps the primary resolver first and drops duplicate endpoints', () => {
+    expect(mergeConsensusResolvers(DEFAULT_DNS_RESOLVER, [first, { ...DEFAULT_DNS_RESOLVER }, first]))
+      .toEqual([DEFAULT_DNS_RESOLVER, first])
+  })
+})
@@ -0,0 +1,224 @@
+import { describe, expect, test } from 'vitest'
+import { DnsRecordType, DnsResponseStatus, type DnsJsonResponse, type DnsRecord } from '@/types/dns'
+import type { DnsHealthCheck, DnsHealthCheckId } from '@/types/dnsHealth'
+import {
+  buildDnsHealthReport,
+  computeHealthScore,
+  getHealthCheckHosts,
+  parseCaaRecord,
+  parseMxRecord,
+  parseTxtData,
+  type DnsHealthInput
+} from '../dnsHealthUtil'
+
+const response = (
+  records: readonly Omit<DnsRecord, 'TTL'>[],
+  Status: DnsResponseStatus = DnsResponseStatus.NOERROR
+): DnsJsonResponse => ({
+  Status,
+  TC: false,
+  RD: true,
+  RA: true,
+  AD: false,
+  CD: false,
+  Question: [],
+  Answer: records.map(record => ({ TTL: 300, ...record }))
+})
+
+const records = (name: string, type: DnsRecordType, data: readonly string[]): DnsJsonResponse =>
+  response(data.map(value => ({ name, type, data: value })))
+
+const address = (name: string): DnsJsonResponse => records(name, DnsRecordType.A, ['192.0.2.1'])
+
+// Letsencrypt issue tag in the RFC 3597 generic form some resolvers return for CAA
+const GENERIC_CAA = '\\# 22 00 05 69 73 73 75 65 6c 65 74 73 65 6e 63 72 79 70 74 2e 6f 72 67'
+
+const healthyInput = (overrides: Partial<DnsHealthInput> = {}): DnsHealthInput => ({
+  domain: 'example.com',
+  ns: records('example.com', DnsRecordType.NS, ['ns1.example.net.', 'NS2.example.net.']),
+  soa: records('example.com', DnsRecordType.SOA, ['ns1.example.net. hostmaster.example.com. 2025061001 7200 3600 1209600 3600']),
+  mx: records('example.com', DnsRecordType.MX, ['20 mx2.example.com.', '10 mx1.example.com.']),
+  txt: records('example.com', DnsRecordType.TXT, ['"v=spf1 include:_spf.example.net " "-all"', '"google-site-verification=abc"']),
+  dmarc: records('_dmarc.example.com', DnsRecordType.TXT, ['"v=DMARC1; p=reject; rua=mailto:dmarc@example.com"']),
+  caa: records('example.com', DnsRecordType.CAA, ['0 issue "letsencrypt.org"']),
+  aaaa: records('example.com', DnsRecordType.AAAA, ['2001:db8::1']),
+  nsHosts: { 'ns1.example.net': address('ns1.example.net'), 'ns2.example.net': address('ns2.example.net') },
+  mxHosts: { 'mx1.example.com': address('mx1.example.com'), 'mx2.example.com': address('mx2.example.com') },
+  rdapNameservers: ['NS1.EXAMPLE.NET', 'ns2.example.net'],
+  now: new Date(Date.UTC(2025, 5, 15)),
+  ...overrides
+})
+
+const check = (input: DnsHealthInput, id: DnsHealthCheckId): DnsHealthCheck => {
+  return buildDnsHealthReport(input).checks.find(result => result.id === id)!
+}
+
+describe('record parsers', () => {
+  test('joins and unescapes TXT character strings', () => {
+    expect(parseTxtData('"v=spf1 " "-all"')).toBe('v=spf1 -all')
+    expect(parseTxtData('"say \\"hi\\""')).toBe('say "hi"')
+    expect(parseTxtData(' v=spf1 -all ')).toBe('v=spf1 -all')
+  })
+
+  test('reads MX records, null MX included', () => {
+    expect(parseMxRecord('10 MX.Example.com.')).toEqual({ preference: 10, host: 'mx.example.com' })
+    expect(parseMxRecord('0 .')).toEqual({ preference: 0, host: '' })
+    expect(parseMxRecord('mx.example.com')).toBeNull()
+  })
+
+  test('reads CAA records in text and RFC 3597 form', () => {
+    expect(parseCaaRecord('0 issue "letsencrypt.org"')).toEqual({ tag: 'issue', value: 'letsencrypt.org' })
+    expect(parseCaaRecord(GENERIC_CAA)).toEqual({ tag: 'issue', value: 'letsencrypt.org' })
+    expect(parseCaaRecord('\\# 4 00 05 69 73')).toBeNull()
+  })
+
+  test('lists the hosts to resolve without duplicates or null MX', () => {
+    expect(getHealthCheckHosts(
+      records('example.com', DnsRecordType.NS, ['ns1.example.net.', 'NS1.example.net']),
+      records('example.com', DnsRecordType.MX, ['10 mx.example.com.', '0 .'])
+    )).toEqual({ nsHosts: ['ns1.example.net'], mxHosts: ['mx.example.com'] })
+  })
+})
+
+describe('buildDnsHealthReport', () => {
+  test('scores a well configured domain 100', () => {
+    const report = buildDnsHealthReport(healthyInput())
+
+    expect(report.score).toBe(100)
+    expect(report.checks.map(result => result.status)).toEqual(Array(10).fill('pass'))
+    expect(check(healthyInput(), 'mx').detail).toBe('mx1.example.com (10), mx2.example.com (20)')
+  })
+
+  test('reports failed lookups as unscored info', () => {
+    const report = buildDnsHealthReport(healthyInput({ soa: undefined, dmarc: undefined }))
+
+    expect(report.checks.find(result => result.id === 'soa')).toMatchObject({
+      status: 'info',
+      detail: 'The SOA lookup failed, so this was not checked'
+    })
+    expect(report.score).toBe(100)
+  })
+
+  test('flags a single, unresolvable or unregistered nameserver', () => {
+    const single = healthyInput({
+      ns: records('example.com', DnsRecordType.NS, ['ns1.example.net.', 'ns3.example.org.']),
+      nsHosts: { 'ns1.example.net': address('ns1.example.net'), 'ns3.example.org': response([], DnsResponseStatus.NXDOMAIN) }
+    })
+
+    expect(check(single, 'ns-resolvable')).toMatchObject({ status: 'warn', detail: expect.stringContaining('ns3.example.org') })
+    expect(check(single, 'ns-registry').detail).toBe('registered only: ns2.example.net; published only: ns3.example.org')
+    expect(check(healthyInput({ ns: records('example.com', DnsRecordType.NS, ['ns1.example.net.']) }), 'ns-count').status)
+      .toBe('warn')
+  })
+})
+
+describe('SOA limits', () => {
+  const soa = (data: string) => healthyInput({ soa: records('example.com', DnsRecordType.SOA, [data]) })
+
+  test('accepts timers within RFC 1912 ranges', () => {
+    expect(check(soa('ns1.example.net. hostmaster.example.com. 2025061001 7200 3600 1209600 3600'), 'soa')).toEqual({
+      id: 'soa',
+      label: 'SOA record',
+      status: 'pass',
+      detail: 'Serial 2025061001, refresh 7200s, retry 3600s, expire 1209600s'
+    })
+  })
+
+  test('warns on each timer out of range and on future serials', () => {
+    expect(check(soa('ns1.example.net. hostmaster.example.com. 2025070101 600 900 86400 60'), 'soa').detail).toBe(
+      'Unusual values: serial 2025070101 is dated in the future; refresh 600s is outside 1200–86400s; ' +
+      'retry 900s is not shorter than refresh; expire 86400s is too short; negative caching TTL 60s is outside 300–86400s'
+    )
+  })
+
+  test('does not read plain counters as dates', () => {
+    expect(check(soa('ns1.example.net. hostmaster.example.com. 42 7200 3600 1209600 3600'), 'soa').status).toBe('pass')
+  })
+
+  test('fails without an SOA at the apex', () => {
+    expect(check(healthyInput({ soa: response([]) }), 'soa').status).toBe('fail')
+  })
+})
+
+describe('mail checks', () => {
+  test('accepts a null MX and skips target checks', () => {
+    const input = healthyInput({ mx: records('example.com', DnsRecordType.MX, ['0 .']), mxHosts: {} })
+    expect(check(input, 'mx').detail).toBe('Null MX: the domain explicitly refuses mail')
+    expect(check(input, 'mx-cname').status).toBe('info')
+  })
+
+  test('fails mail exchangers pointing at a CNAME', () => {
+    const alias = response([
+      { name: 'mx1.example.com.', type: DnsRecordType.CNAME, data: 'mail.example.net.' },
+      { name: 'mail.example.net.', type: DnsRecordType.A, data: '192.0.2.25' }
+    ])
+
+    expect(check(healthyInput({ mxHosts: { 'mx1.example.com': alias } }), 'mx-cname')).toMatchObject({
+      status: 'fail',
+      detail: 'MX pointing at a CNAME: mx1.example.com'
+    })
+    expect(check(healthyInput({ mxHosts: { 'mx1.example.com': response([]) } }), 'mx-cname').detail)
+      .toBe('MX host without address: mx1.example.com')
+  })
+})
+
+describe('SPF policy', () => {
+  const spf = (...data: string[]) => check(healthyInput({ txt: records('example.com', DnsRecordType.TXT, data) }), 'spf')
+
+  test('grades the "all" mechanism', () => {
+    expect(spf('"v=spf1 mx ~all"').status).toBe('pass')
+    expect(spf('"v=spf1 mx ?all"').status).toBe('warn')
+    expect(spf('"v=spf1 +all"').status).toBe('fail')
+    expect(spf('"v=spf1 mx all"').status).toBe('fail')
+    expect(spf('"v=spf1 mx"').status).toBe('warn')
+    expect(spf('"v=spf1 redirect=_spf.example.net"').status).toBe('pass')
+  })
+
+  test('fails several policies and warns on none', () => {
+    expect(spf('"v=spf1 -all"', '"v=spf1 mx -all"').detail).toBe('2 SPF records; receivers treat this as a permanent error')
+    expect(spf('"v=spf10 -all"', '"verification=abc"').status).toBe('warn')
+  })
+})
+
+describe('DMARC policy', () => {
+  const dmarc = (...data: string[]) => check(healthyInput({ dmarc: records('_dmarc.example.com', DnsRecordType.TXT, data) }), 'dmarc')
+
+  test('grades the policy and the sampled share', () => {
+    expect(dmarc('"v=DMARC1; p=quarantine"').status).toBe('pass')
+    expect(dmarc('"v=DMARC1; p=none; rua=mailto:a@example.com"').detail).toMatch(/^Monitoring only \(p=none\)/)
+    expect(dmarc('"v=DMARC1; p=reject; pct=25"').detail).toMatch(/^Policy applied to 25% of mail only/)
+    expect(dmarc('"v=DMARC1; rua=mailto:a@example.com"').detail).toMatch(/^Missing policy \(p=\)/)
+  })
+
+  test('fails several records and warns on none', () => {
+    expect(dmarc('"v=DMARC1; p=reject"', '"v=DMARC1; p=none"').status).toBe('fail')
+    expect(dmarc('"v=spf1 -all"').status).toBe('warn')
+  })
+})
+
+describe('CAA records', () => {
+  test('lists the allowed issuers from both record forms', () => {
+    const caa = records('example.com', DnsRecordType.CAA, [
+      GENERIC_CAA,
+      '0 issuewild "pki.goog; cansignhttpexchanges=yes"',
+      '0 iodef "mailto:security@example.com"'
+    ])
+
+    expect(check(healthyInput({ caa }), 'caa').detail).toBe('Certificates restricted to letsencrypt.org, pki.goog')
+    expect(check(healthyInput({ caa: response([]) }), 'caa').status).toBe('info')
+  })
+})
+
+describe('computeHealthScore', () => {
+  const result = (status: DnsHealthCheck['status']): DnsHealthCheck => ({ id: 'ipv6', label: 'IPv6', status, detail: '' })
+
+  test('averages scored checks and ignores info ones', () => {
+    expect(computeHealthScore([result('pass'), result('warn'), result('fail'), result('info')])).toBe(50)
+    expect(computeHealthScore([result('pass'), result('pass'), result('warn')])).toBe(83)
+  })
+
+  test('gives 100 when nothing was scored', () => {
+    expect(computeHealthScore([])).toBe(100)
+    expect(computeHealthScore([result('info')])).toBe(100)
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'vitest'
+import { DnsRecordType, DnsResponseStatus } from '@/types/dns'
+import { decodeDnsResponse, DnsWireFormatError, encodeDnsQuery } from '../dnsWireUtil'
+import * as fixtures from './fixtures/dnsWireFixtures'
+
+const fromHex = (hex: string): Uint8Array => Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16))
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+
+describe('encodeDnsQuery', () => {
+  test('builds the RFC 8484 example query for www.example.com', () => {
+    // RFC 8484 section 4.1.1: "AAABAAABAAAAAAAAA3d3dwdleGFtcGxlA2NvbQAAAQAB" in base64url
+    expect(toHex(encodeDnsQuery('www.example.com', DnsRecordType.A))).toBe(
+      '00000100000100000000000003777777076578616d706c6503636f6d0000010001'
+    )
+  })
+
+  test('writes the message ID and record type', () => {
+    const query = encodeDnsQuery('example.com.', DnsRecordType.CAA, 0xbeef)
+    expect(toHex(query.slice(0, 2))).toBe('beef')
+    expect(toHex(query.slice(-4))).toBe('01010001')
+  })
+
+  test('rejects non-ASCII and oversized labels', () => {
+    expect(() => encodeDnsQuery('bücher.de', DnsRecordType.A)).toThrow(DnsWireFormatError)
+    expect(() => encodeDnsQuery(`${'a'.repeat(64)}.com`, DnsRecordType.A)).toThrow(DnsWireFormatError)
+  })
+})
+
+describe('decodeDnsResponse', () => {
+  test('decodes header flags, question and A answer, skipping the OPT record', () => {
+    const response = decodeDnsResponse(fromHex(fixtures.EXAMPLE_COM_A))
+
+    expect(response).toEqual({
+      Status: DnsResponseStatus.NOERROR,
+      TC: false,
+      RD: true,
+      RA: true,
+      AD: true,
+      CD: false,
+      Question: [{ name: 'example.com', type: DnsRecordType.A }],
+      Answer: [{ name: 'example.com', type: DnsRecordType.A, TTL: 3600, data: '93.184.215.14' }]
+    })
+  })
+
+  test('compresses IPv6 addresses', () => {
+    const response = decodeDnsResponse(fromHex(fixtures.EXAMPLE_COM_AAAA))
+    expect(response.Answer?.[0]?.data).toBe('2606:2800:21f:cb07:6820:80da:af6b:8b2c')
+  })
+
+  test('follows compression pointers into earlier RDATA', () => {
+    const response = decodeDnsResponse(fromHex(fixtures.GMAIL_COM_MX))
+    expect(response.Answer?.map(record => record.data)).toEqual([
+      '5 gmail-smtp-in.l.google.com.',
+      '10 alt1.l.google.com.'
+    ])
+
+    const ns = decodeDnsResponse(fromHex(fixtures.EXAMPLE_COM_NS))
+    expect(ns.Answer?.map(record => record.data)).toEqual(['a.iana-servers.net.', 'b.iana-servers.net.'])
+  })
+
+  test('reports NXDOMAIN with the parent SOA in the authority section', () => {
+    const response = decodeDnsResponse(fromHex(fixtures.NXDOMAIN_COM))
+
+    expect(response.Status).toBe(DnsResponseStatus.NXDOMAIN)
+    expect(response.Answer).toBeUndefined()
+    expect(response.Authority).toEqual([{
+      name: 'com',
+      type: DnsRecordType.SOA,
+      TTL: 900,
+      data: 'a.gtld-servers.net. nstld.verisign-grs.com. 1718000000 1800 900 604800 86400'
+    }])
+  })
+
+  test('quotes TXT character strings', () => {
+    const response = decodeDnsResponse(fromHex(fixtures.EXAMPLE_COM_TXT))
+    expect(response.Answer?.[0]?.data).toBe('"v=spf1 -all" "say \\"hi\\""')
+  })
+
+  test('decodes SRV and CAA records', () => {
+    expect(decodeDnsResponse(fromHex(fixtures.SIP_SRV)).Answer?.[0]?.data).toBe('10 60 5060 sip.example.com.')
+    expect(decodeDnsResponse(fromHex(fixtures.EXAMPLE_COM_CAA)).Answer?.map(record => record.data)).toEqual([
+      '0 issue "letsencrypt.org"',
+      '128 iodef "mailto:security@example.com"'
+    ])
+  })
+
+  test('decodes DNSSEC records', () => {
+    expect(decodeDnsResponse(fromHex(fixtures.EXAMPLE_COM_DS)).Answer?.[0]?.data).toBe(
+      '370 13 2 8AFBE0ECE7D0F8AF54A2A4F1DB8EE8E5D2AC8D1B0DE9D1AC28D0C2E5C1A9E7F0'
+    )
+
+    const [dnskey, rrsig] = decodeDnsResponse(fromHex(fixtures.EXAMPLE_COM_DNSKEY)).Answer ?? []
+    expect(dnskey?.data).toBe('257 3 13 AQIDBAUGBwgJCgsMDQ4PEBESExQVFhcYGRobHB0eHyA=')
+    expect(rrsig?.type).toBe(DnsRecordType.RRSIG)
+    expect(rrsig?.data.split(' ').slice(0, 8)).toEqual([
+      'DNSKEY', '13', '2', '3600', '20260101000000', '20251201000000', '370', 'example.com.'
+    ])
+  })
+
+  test('rejects truncated messages and compression loops', () => {
+    expect(() => decodeDnsResponse(fromHex(fixtures.TRUNCATED))).toThrow(DnsWireFormatError)
+    expect(() => decodeDnsResponse(fromHex(fixtures.POINTER_LOOP))).toThrow(/pointer loop/)
+    expect(() => decodeDnsResponse(encodeDnsQuery('example.com', DnsRecordType.A))).toThrow(/not a response/)
+  })
+})
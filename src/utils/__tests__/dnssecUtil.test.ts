@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest'
+import { computeDsDigest, matchDsRecords, parseDnskeyRecord, parseDsRecord } from '../dnssecUtil'
+
+// RFC 4034 section 5.4 example, also used for SHA-256 in RFC 4509 section 2.3
+const OWNER = 'dskey.example.com'
+const DNSKEY = '256 3 5 AQOeiiR0GOMYkDshWoSKz9Xz fwJr1AYtsmx3TGkJaNXVbfi/ 2pHm822aJ5iI9BMzNXxeYCmZ DRD99WYwYqUSdjMmmAphXdvx ' +
+  'egXd/M5+X7OrzKBaMbCVdFLU Uh6DhweJBjEVv5f2wwjM9Xzc nOf+EPbtG9DMBmADjFDc2w/r ljwvFw=='
+const DS_SHA1 = '60485 5 1 2BB183AF5F22588179A53B0A 98631FAD1A292118'
+const DS_SHA256 = '60485 5 2 D4B7D520E7BB5F0F67674A0C CEB1E3E0614B93C4F9E99B83 83F6A1E4469DA50A'
+
+const key = parseDnskeyRecord(DNSKEY)!
+
+describe('parseDnskeyRecord', () => {
+  test('computes the key tag of the RFC 4034 example key', () => {
+    expect(key).toMatchObject({ flags: 256, protocol: 3, algorithm: 5, keyTag: 60485, isSecureEntryPoint: false })
+  })
+
+  test('computes the key tag of a secure entry point', () => {
+    // Flags add to the checksum, so the same key as a KSK has another tag
+    expect(parseDnskeyRecord(DNSKEY.replace(/^256/, '257'))).toMatchObject({ keyTag: 60486, isSecureEntryPoint: true })
+  })
+
+  test('rejects malformed records', () => {
+    expect(parseDnskeyRecord('256 3 5')).toBeNull()
+    expect(parseDnskeyRecord('256 3 5 not*base64')).toBeNull()
+  })
+})
+
+describe('parseDsRecord', () => {
+  test('joins digest chunks and rejects non-hex digests', () => {
+    expect(parseDsRecord(DS_SHA1)).toEqual({
+      keyTag: 60485,
+      algorithm: 5,
+      digestType: 1,
+      digest: '2BB183AF5F22588179A53B0A98631FAD1A292118'
+    })
+    expect(parseDsRecord('60485 5 1 XYZ')).toBeNull()
+  })
+})
+
+describe('computeDsDigest', () => {
+  test('matches the RFC 4034 SHA-1 and RFC 4509 SHA-256 digests', async () => {
+    expect(await computeDsDigest(OWNER, key, 1)).toBe('2BB183AF5F22588179A53B0A98631FAD1A292118')
+    expect(await computeDsDigest(OWNER, key, 2)).toBe('D4B7D520E7BB5F0F67674A0CCEB1E3E0614B93C4F9E99B8383F6A1E4469DA50A')
+  })
+
+  test('uses the canonical lowercase owner name', async () => {
+    expect(await computeDsDigest('DSKEY.Example.COM', key, 1)).toBe('2BB183AF5F22588179A53B0A98631FAD1A292118')
+  })
+
+  test('returns null for unsupported digest types', async () => {
+    expect(await computeDsDigest(OWNER, key, 3)).toBeNull()
+  })
+})
+
+describe('matchDsRecords', () => {
+  test('reports the outcome of each DS record', async () => {
+    const ds = [DS_SHA1, DS_SHA256, '60485 5 1 0000000000000000000000000000000000000000', '12345 5 1 AB', '60485 5 3 AB']
+      .map(record => parseDsRecord(record)!)
+
+    expect((await matchDsRecords(OWNER, ds, [key])).map(match => match.result))
+      .toEqual(['match', 'match', 'mismatch', 'no-key', 'unsupported-digest'])
+  })
+
+  test('needs a key of the same algorithm', async () => {
+    const [match] = await matchDsRecords(OWNER, [parseDsRecord(DS_SHA1)!], [{ ...key, algorithm: 8 }])
+    expect(match?.result).toBe('no-key')
+  })
+
+  test('does not match the key of another owner', async () => {
+    const [match] = await matchDsRecords('other.example.com', [parseDsRecord(DS_SHA1)!], [key])
+    expect(match?.result).toBe('mismatch')
+  })
+})
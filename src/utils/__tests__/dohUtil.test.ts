@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'vitest'
+import { DnsRecordType, DnsResponseStatus, type DnsJsonResponse } from '@/types/dns'
+import {
+  DEFAULT_DNS_RESOLVER,
+  buildDohRequest,
+  getDnsResolverLabel,
+  normalizeDnsJsonResponse,
+  resolveDnsConsensusSetting,
+  resolveDnsResolverSetting,
+  validateDohEndpoint
+} from '../dohUtil'
+
+describe('validateDohEndpoint', () => {
+  test('accepts https URLs with a path', () => {
+    expect(validateDohEndpoint('https://dns.example.com/dns-query')).toBeNull()
+    expect(validateDohEndpoint('  https://dns.example.com:8443/resolve  ')).toBeNull()
+  })
+
+  test('rejects relative, plain HTTP and query string URLs', () => {
+    expect(validateDohEndpoint('dns.example.com/dns-query')).toMatch(/^Enter a full URL/)
+    expect(validateDohEndpoint('http://dns.example.com/dns-query')).toBe('DNS over HTTPS endpoints must use https://')
+    expect(validateDohEndpoint('https://dns.example.com/dns-query?dns=')).toBe('Enter the endpoint without query string')
+    expect(validateDohEndpoint('https://dns.example.com/dns-query#top')).toBe('Enter the endpoint without query string')
+  })
+})
+
+describe('resolveDnsResolverSetting', () => {
+  test('falls back to the default resolver without a known provider', () => {
+    expect(resolveDnsResolverSetting()).toEqual({ resolver: DEFAULT_DNS_RESOLVER })
+    expect(resolveDnsResolverSetting(null)).toEqual({ resolver: DEFAULT_DNS_RESOLVER })
+    // @ts-expect-error settings written by a newer version may name unknown providers
+    expect(resolveDnsResolverSetting({ provider: 'unknown' })).toEqual({ resolver: DEFAULT_DNS_RESOLVER })
+  })
+
+  test('keeps the fixed endpoint of preset providers', () => {
+    expect(resolveDnsResolverSetting({ provider: 'google', endpoint: 'https://dns.example.com/resolve' })).toEqual({
+      resolver: { provider: 'google', protocol: 'json', endpoint: 'https://dns.google/resolve' }
+    })
+  })
+
+  test('uses the endpoint entered for custom providers, or their default one', () => {
+    expect(resolveDnsResolverSetting({ provider: 'wire', endpoint: ' https://dns.quad9.net/dns-query ' })).toEqual({
+      resolver: { provider: 'wire', protocol: 'wire', endpoint: 'https://dns.quad9.net/dns-query' }
+    })
+    expect(resolveDnsResolverSetting({ provider: 'wire' }).resolver?.endpoint).toBe('https://cloudflare-dns.com/dns-query')
+  })
+
+  test('reports invalid custom endpoints', () => {
+    expect(resolveDnsResolverSetting({ provider: 'custom' })).toEqual({
+      error: 'Enter a full URL, e.g. https://dns.example.com/dns-query'
+    })
+    expect(resolveDnsResolverSetting({ provider: 'custom', endpoint: 'http://dns.example.com' }).error)
+      .toBe('DNS over HTTPS endpoints must use https://')
+  })
+})
+
+describe('resolveDnsConsensusSetting', () => {
+  test('lists the valid peers of an enabled consensus mode', () => {
+    expect(resolveDnsConsensusSetting({
+      enabled: true,
+      resolvers: [{ provider: 'google' }, { provider: 'custom', endpoint: 'ftp://dns.example.com' }]
+    })).toEqual([{ provider: 'google', protocol: 'json', endpoint: 'https://dns.google/resolve' }])
+  })
+
+  test('returns no peer when consensus mode is off', () => {
+    expect(resolveDnsConsensusSetting({ enabled: false, resolvers: [{ provider: 'google' }] })).toEqual([])
+    expect(resolveDnsConsensusSetting()).toEqual([])
+  })
+})
+
+describe('getDnsResolverLabel', () => {
+  test('names presets and shows the host of other endpoints', () => {
+    expect(getDnsResolverLabel(DEFAULT_DNS_RESOLVER)).toBe('Cloudflare')
+    expect(getDnsResolverLabel({ provider: 'wire', protocol: 'wire', endpoint: 'https://dns.quad9.net/dns-query' })).toBe('Quad9')
+    expect(getDnsResolverLabel({ provider: 'custom', protocol: 'json', endpoint: 'https://dns.example.com/resolve' }))
+      .toBe('dns.example.com')
+  })
+})
+
+describe('buildDohRequest', () => {
+  test('queries JSON providers by name and type', () => {
+    const { url, init } = buildDohRequest(DEFAULT_DNS_RESOLVER, 'example.com', DnsRecordType.MX, { dnssec: true })
+
+    expect(url).toBe('https://cloudflare-dns.com/dns-query?name=example.com&type=15&do=1')
+    expect(init.headers).toEqual({ accept: 'application/dns-json' })
+  })
+
+  test('sends wire-format queries as unpadded base64url', () => {
+    const resolver = { provider: 'wire', protocol: 'wire', endpoint: 'https://dns.example.com/dns-query' } as const
+    const { url, init } = buildDohRequest(resolver, 'www.example.com', DnsRecordType.A)
+
+    // RFC 8484 section 4.1.1
+    expect(url).toBe('https://dns.example.com/dns-query?dns=AAABAAABAAAAAAAAA3d3dwdleGFtcGxlA2NvbQAAAQAB')
+    expect(init.headers).toEqual({ accept: 'application/dns-message' })
+  })
+})
+
+describe('normalizeDnsJsonResponse', () => {
+  test('strips the trailing dot of owner names, except for the root', () => {
+    const response: DnsJsonResponse = {
+      Status: DnsResponseStatus.NOERROR,
+      TC: false,
+      RD: true,
+      RA: true,
+      AD: false,
+      CD: false,
+      Question: [{ name: 'example.com.', type: DnsRecordType.NS }],
+      Answer: [{ name: 'example.com.', type: DnsRecordType.NS, TTL: 300, data: 'ns1.example.net.' }],
+      Authority: [{ name: '.', type: DnsRecordType.SOA, TTL: 300, data: 'a.root-servers.net. nstld.verisign-grs.com. 1 1800 900 604800 86400' }]
+    }
+
+    const normalized = normalizeDnsJsonResponse(response)
+    expect(normalized.Question[0]?.name).toBe('example.com')
+    expect(normalized.Answer?.[0]).toEqual({ name: 'example.com', type: DnsRecordType.NS, TTL: 300, data: 'ns1.example.net.' })
+    expect(normalized.Authority?.[0]?.name).toBe('.')
+    expect(normalized.Additional).toBeUndefined()
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, expect, test } from 'vitest'
+import { DomainAvailabilityStatus, type DomainData } from '@/types'
+import type { ExportOptions } from '@/types/export'
+import {
+  DOMAIN_EXPORT_COLUMNS,
+  buildCsv,
+  buildJson,
+  createExportFile,
+  escapeCsvCell,
+  formatExportDate,
+  getDefaultColumnKeys
+} from '../exportUtil'
+
+const domains: DomainData[] = [
+  {
+    name: 'example.com',
+    availability: DomainAvailabilityStatus.NOTAVAILABLE,
+    registrar: 'Example Registrar, Inc.',
+    creationDate: '1995-08-14T04:00:00.000Z',
+    expirationDate: '2026-08-13T04:00:00.000Z',
+    isInWatchList: true
+  },
+  { name: 'example.org', availability: DomainAvailabilityStatus.AVAILABLE }
+]
+
+const options = (overrides: Partial<ExportOptions> = {}): ExportOptions => ({
+  format: 'csv',
+  dateStyle: 'iso',
+  columnKeys: ['name', 'availability', 'registrar', 'expirationDate'],
+  ...overrides
+})
+
+describe('escapeCsvCell', () => {
+  test('quotes cells with separators, quotes and line breaks', () => {
+    expect(escapeCsvCell('example.com')).toBe('example.com')
+    expect(escapeCsvCell('Example, Inc.')).toBe('"Example, Inc."')
+    expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsvCell('line\nbreak')).toBe('"line\nbreak"')
+    expect(escapeCsvCell('line\r\nbreak')).toBe('"line\r\nbreak"')
+  })
+
+  test('neutralizes cells spreadsheet apps would read as formulas', () => {
+    expect(escapeCsvCell('=HYPERLINK("http://evil.example")')).toBe('"\'=HYPERLINK(""http://evil.example"")"')
+    expect(escapeCsvCell('+1')).toBe("'+1")
+    expect(escapeCsvCell('-1')).toBe("'-1")
+    expect(escapeCsvCell('@SUM(A1)')).toBe("'@SUM(A1)")
+    expect(escapeCsvCell('\t=1')).toBe("'\t=1")
+    expect(escapeCsvCell('a=1')).toBe('a=1')
+  })
+})
+
+describe('formatExportDate', () => {
+  const date = new Date('2026-08-13T04:00:00.000Z')
+
+  test('writes ISO 8601 or locale dates', () => {
+    expect(formatExportDate(date, 'iso', true)).toBe('2026-08-13T04:00:00.000Z')
+    expect(formatExportDate(date, 'locale', true, 'en-US')).toBe(date.toLocaleDateString('en-US'))
+    expect(formatExportDate(date, 'locale', false, 'en-US')).toBe(date.toLocaleString('en-US'))
+  })
+
+  test('leaves invalid dates empty', () => {
+    expect(formatExportDate(new Date('not a date'), 'iso')).toBe('')
+  })
+})
+
+describe('getDefaultColumnKeys', () => {
+  test('leaves out the columns not selected by default', () => {
+    expect(getDefaultColumnKeys(DOMAIN_EXPORT_COLUMNS)).toEqual([
+      'name',
+      'availability',
+      'registrar',
+      'creationDate',
+      'expirationDate',
+      'lastChecked'
+    ])
+  })
+})
+
+describe('buildCsv', () => {
+  test('writes the selected columns in order with readable values and CRLF line endings', () => {
+    expect(buildCsv(domains, DOMAIN_EXPORT_COLUMNS, options())).toBe(
+      'Domain,Availability,Registrar,Expires\r\n' +
+      'example.com,registered,"Example Registrar, Inc.",2026-08-13T04:00:00.000Z\r\n' +
+      'example.org,available,,\r\n'
+    )
+  })
+
+  test('skips unknown column keys', () => {
+    expect(buildCsv(domains, DOMAIN_EXPORT_COLUMNS, options({ columnKeys: ['isInWatchList', 'missing'] })))
+      .toBe('In watch list\r\ntrue\r\n\r\n')
+  })
+})
+
+describe('buildJson', () => {
+  test('keeps raw values and writes missing ones as null', () => {
+    expect(JSON.parse(buildJson(domains, DOMAIN_EXPORT_COLUMNS, options()))).toEqual([
+      {
+        name: 'example.com',
+        availability: DomainAvailabilityStatus.NOTAVAILABLE,
+        registrar: 'Example Registrar, Inc.',
+        expirationDate: '2026-08-13T04:00:00.000Z'
+      },
+      { name: 'example.org', availability: DomainAvailabilityStatus.AVAILABLE, registrar: null, expirationDate: null }
+    ])
+  })
+})
+
+describe('createExportFile', () => {
+  const now = new Date('2025-06-10T12:00:00.000Z')
+
+  test('dates the file name and picks the MIME type of the format', () => {
+    expect(createExportFile(domains, DOMAIN_EXPORT_COLUMNS, options(), 'watch-list', now)).toMatchObject({
+      fileName: 'watch-list-2025-06-10.csv',
+      mimeType: 'text/csv;charset=utf-8'
+    })
+    expect(createExportFile(domains, DOMAIN_EXPORT_COLUMNS, options({ format: 'json' }), 'watch-list', now)).toMatchObject({
+      fileName: 'watch-list-2025-06-10.json',
+      mimeType: 'application/json;charset=utf-8'
+    })
+  })
+
+  test('prefixes the BOM CSV with a UTF-8 byte order mark only', () => {
+    const csv = createExportFile(domains, DOMAIN_EXPORT_COLUMNS, options(), 'watch-list', now)
+    const bomCsv = createExportFile(domains, DOMAIN_EXPORT_COLUMNS, options({ format: 'csv-bom' }), 'watch-list', now)
+
+    expect(csv.content.startsWith('\uFEFF')).toBe(false)
+    expect(bomCsv.content).toBe(`\uFEFF${csv.content}`)
+    expect(bomCsv.fileName).toBe('watch-list-2025-06-10.csv')
+  })
+})
@@ -0,0 +1,77 @@
+/**
+ * DNS response packets used by the wire codec tests
+ * Each fixture is a complete DNS message, as returned by an RFC 8484 server, written as hex
+ */
+
+/** example.com A, with an EDNS OPT record (DO bit) in the additional section */
+export const EXAMPLE_COM_A =
+  '000081a00001000100000001076578616d706c6503636f6d0000010001c00c00' +
+  '01000100000e1000045db8d70e00002904d0000080000000'
+
+/** example.com AAAA */
+export const EXAMPLE_COM_AAAA =
+  '000081800001000100000000076578616d706c6503636f6d00001c0001c00c00' +
+  '1c00010000012c001026062800021fcb07682080daaf6b8b2c'
+
+/** gmail.com MX, the second exchange compresses into the first one (message ID 0x1234) */
+export const GMAIL_COM_MX =
+  '12348180000100020000000005676d61696c03636f6d00000f0001c00c000f00' +
+  '0100000e10001e00050d676d61696c2d736d74702d696e016c06676f6f676c65' +
+  '03636f6d00c00c000f000100000e100009000a04616c7431c037'
+
+/** NXDOMAIN for an unregistered .com name, with the com SOA in the authority section */
+export const NXDOMAIN_COM =
+  '0000818300010000000100001d746869732d646f6d61696e2d646f65732d6e6f' +
+  '742d65786973742d343203636f6d000001000103636f6d000006000100000384' +
+  '004001610c67746c642d73657276657273036e657400056e73746c640c766572' +
+  '697369676e2d67727303636f6d0066669980000007080000038400093a800001' +
+  '5180'
+
+/** example.com TXT made of two character strings, one holding quotes */
+export const EXAMPLE_COM_TXT =
+  '000081800001000100000000076578616d706c6503636f6d0000100001c00c00' +
+  '1000010001518000150b763d73706631202d616c6c087361792022686922'
+
+/** example.com NS, the second name server compresses into the first one */
+export const EXAMPLE_COM_NS =
+  '000081800001000200000000076578616d706c6503636f6d0000020001c00c00' +
+  '02000100015180001401610c69616e612d73657276657273036e657400c00c00' +
+  '0200010001518000040162c02b'
+
+/** _sip._tcp.example.com SRV */
+export const SIP_SRV =
+  '000081800001000100000000045f736970045f746370076578616d706c650363' +
+  '6f6d0000210001c00c00210001000002580017000a003c13c403736970076578' +
+  '616d706c6503636f6d00'
+
+/** example.com CAA with an issue and a critical iodef property */
+export const EXAMPLE_COM_CAA =
+  '000081800001000200000000076578616d706c6503636f6d0001010001c00c01' +
+  '01000100000e100016000569737375656c657473656e63727970742e6f7267c0' +
+  '0c0101000100000e1000228005696f6465666d61696c746f3a73656375726974' +
+  '79406578616d706c652e636f6d'
+
+/** example.com DS (algorithm 13, SHA-256 digest) */
+export const EXAMPLE_COM_DS =
+  '000081a00001000100000000076578616d706c6503636f6d00002b0001c00c00' +
+  '2b000100015180002401720d028afbe0ece7d0f8af54a2a4f1db8ee8e5d2ac8d' +
+  '1b0de9d1ac28d0c2e5c1a9e7f0'
+
+/** example.com DNSKEY (KSK) and its RRSIG */
+export const EXAMPLE_COM_DNSKEY =
+  '000081a00001000200000000076578616d706c6503636f6d0000300001c00c00' +
+  '30000100000e1000240101030d0102030405060708090a0b0c0d0e0f10111213' +
+  '1415161718191a1b1c1d1e1f20c00c002e000100000e10005400300d0200000e' +
+  '106955b900692cda800172c00c6465666768696a6b6c6d6e6f70717273747576' +
+  '7778797a7b7c7d7e7f808182838485868788898a8b8c8d8e8f90919293949596' +
+  '9798999a9b9c9d9e9fa0a1a2a3'
+
+/** example.com A response cut in the middle of the answer */
+export const TRUNCATED =
+  '000081a00001000100000001076578616d706c6503636f6d0000010001c00c00' +
+  '01000100000e1000'
+
+/** Answer owner name whose compression pointer points to itself */
+export const POINTER_LOOP =
+  '000081800001000100000000076578616d706c6503636f6d0000010001c01d00' +
+  '0100010000003c000401020304'
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'vitest'
+import { convertDomainName, decodePunycode, encodePunycode, IdnError, toAsciiDomain, toUnicodeDomain } from '../idnUtil'
+
+describe('Punycode', () => {
+  // RFC 3492 section 7.1 samples and well-known labels
+  const samples: [string, string][] = [
+    ['café', 'caf-dma'],
+    ['bücher', 'bcher-kva'],
+    ['例え', 'r8jz45g'],
+    ['рф', 'p1ai'],
+    ['ليهمابتكلموشعربي؟', 'egbpdaj6bu4bxfgehfvwxn'],
+    ['他们为什么不说中文', 'ihqwcrb4cv8a8dqg056pqjye']
+  ]
+
+  test.each(samples)('encodes and decodes %s', (unicode, encoded) => {
+    expect(encodePunycode(unicode)).toBe(encoded)
+    expect(decodePunycode(encoded)).toBe(unicode)
+  })
+
+  test('rejects truncated input', () => {
+    expect(() => decodePunycode('zz')).toThrow(IdnError)
+  })
+})
+
+describe('convertDomainName', () => {
+  test('maps case, compatibility forms and ideographic full stops', () => {
+    expect(toAsciiDomain('Café.FR')).toBe('xn--caf-dma.fr')
+    expect(toAsciiDomain('ﾃｽﾄ。jp')).toBe('xn--zckzah.jp')
+    expect(toUnicodeDomain('xn--caf-dma.fr')).toBe('café.fr')
+    expect(convertDomainName('example.com').isInternationalized).toBe(false)
+  })
+
+  test('reports disallowed code points and malformed A-labels', () => {
+    expect(convertDomainName('ex✓.com').errors).toEqual(['Label "ex✓" contains the disallowed character "✓" (U+2713)'])
+    expect(convertDomainName('xn--zz.com').errors).toHaveLength(1)
+  })
+
+  test('warns about homographs of Latin names', () => {
+    expect(convertDomainName('аррӏе.com').warnings).toEqual([
+      'Label "аррӏе" only uses letters that look like Latin ones and can pass for "apple"'
+    ])
+    expect(convertDomainName('pаypal.com').warnings[0]).toContain('mixes Latin and Cyrillic letters')
+    expect(convertDomainName('münchen日本.de').warnings).toEqual([])
+  })
+})
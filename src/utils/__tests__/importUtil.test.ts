@@ -0,0 +1,155 @@
+import { describe, expect, test } from 'vitest'
+import {
+  detectImportFormat,
+  guessColumnMapping,
+  normalizeImportDomain,
+  parseCsvImport,
+  parseCsvRows,
+  parseJsonImport,
+  parseTextImport,
+  parseWatchListImport
+} from '../importUtil'
+
+describe('detectImportFormat', () => {
+  test('trusts the file extension first', () => {
+    expect(detectImportFormat('example.com', 'domains.json')).toBe('json')
+    expect(detectImportFormat('example.com', 'export.TSV')).toBe('csv')
+  })
+
+  test('falls back to the content', () => {
+    expect(detectImportFormat('  ["example.com"]')).toBe('json')
+    expect(detectImportFormat('domain;expires\nexample.com;2026-01-01')).toBe('csv')
+    expect(detectImportFormat('example.com\nexample.org', 'domains.txt')).toBe('text')
+  })
+})
+
+describe('parseCsvRows', () => {
+  test('detects the separator and skips blank rows', () => {
+    expect(parseCsvRows('domain;registrar\r\n\r\nexample.com;Registrar\n')).toEqual([
+      { line: 1, cells: ['domain', 'registrar'] },
+      { line: 3, cells: ['example.com', 'Registrar'] }
+    ])
+    expect(parseCsvRows('a\tb\nc\td').map(row => row.cells)).toEqual([['a', 'b'], ['c', 'd']])
+  })
+
+  test('reads quoted cells holding separators, quotes and line breaks', () => {
+    const rows = parseCsvRows('domain,notes\nexample.com,"Bought from ""Registrar"", Inc."\n"example.org","two\nlines"\nexample.net,x')
+
+    expect(rows).toEqual([
+      { line: 1, cells: ['domain', 'notes'] },
+      { line: 2, cells: ['example.com', 'Bought from "Registrar", Inc.'] },
+      { line: 3, cells: ['example.org', 'two\nlines'] },
+      { line: 5, cells: ['example.net', 'x'] }
+    ])
+  })
+})
+
+describe('guessColumnMapping', () => {
+  test('recognizes registrar export headers', () => {
+    expect(guessColumnMapping(['Registrar', 'Domain Name', 'Status', 'Expiration Date'])).toEqual({
+      domain: 1,
+      expirationDate: 3,
+      registrar: 0
+    })
+    expect(guessColumnMapping(['Id', 'Your domains', 'Paid until'])).toEqual({
+      domain: 1,
+      expirationDate: 2,
+      registrar: undefined
+    })
+  })
+
+  test('defaults the domain to the first column', () => {
+    expect(guessColumnMapping(['a', 'b'])).toEqual({ domain: 0, expirationDate: undefined, registrar: undefined })
+  })
+})
+
+describe('normalizeImportDomain', () => {
+  test('reduces host names and URLs to the registrable domain', () => {
+    expect(normalizeImportDomain('https://www.Example.com/path')).toEqual({ domain: 'example.com' })
+    expect(normalizeImportDomain('shop.example.co.uk')).toEqual({ domain: 'example.co.uk' })
+  })
+
+  test('explains rejected values', () => {
+    expect(normalizeImportDomain('   ').reason).toBe('Empty value')
+    expect(normalizeImportDomain('not a domain').reason).toMatch(/is not a valid domain name/)
+  })
+})
+
+describe('parseTextImport', () => {
+  test('skips comments and blank lines and counts duplicates', () => {
+    const result = parseTextImport('# my domains\nexample.com\n\nwww.example.com\nexample.org\nnot a domain')
+
+    expect(result.entries.map(entry => [entry.line, entry.domain])).toEqual([[2, 'example.com'], [5, 'example.org']])
+    expect(result.duplicates).toBe(1)
+    expect(result.rejected.map(rejection => rejection.line)).toEqual([6])
+  })
+
+  test('rejects domains past the limit', () => {
+    const result = parseTextImport('a.com\nb.com\nc.com', 2)
+
+    expect(result.entries).toHaveLength(2)
+    expect(result.rejected).toEqual([{ line: 3, value: 'c.com', reason: 'Import limited to 2 domains' }])
+  })
+})
+
+describe('parseCsvImport', () => {
+  const csv = 'Domain,Expires,Registrar\nexample.com,2026-03-01,  Registrar  \n,2026-01-01,Other\nexample.org,someday,'
+
+  test('reads the mapped columns after the header', () => {
+    const result = parseCsvImport(csv, { mapping: { domain: 0, expirationDate: 1, registrar: 2 } })
+
+    expect(result.entries).toEqual([
+      { domain: 'example.com', line: 2, expirationDate: new Date('2026-03-01'), registrar: 'Registrar' },
+      { domain: 'example.org', line: 4, expirationDate: undefined, registrar: undefined }
+    ])
+    expect(result.rejected).toEqual([{ line: 3, value: ', 2026-01-01, Other', reason: 'Domain column is empty' }])
+  })
+
+  test('reads the first row as data without a header', () => {
+    const result = parseCsvImport('example.com\nexample.net', { mapping: { domain: 0 }, hasHeader: false })
+    expect(result.entries.map(entry => entry.domain)).toEqual(['example.com', 'example.net'])
+  })
+
+  test('guesses the mapping when none is given', () => {
+    const result = parseWatchListImport('Expiration Date;Domain Name\n2026-03-01;example.com', 'csv')
+    expect(result.entries).toEqual([
+      { domain: 'example.com', line: 2, expirationDate: new Date('2026-03-01'), registrar: undefined }
+    ])
+  })
+})
+
+describe('parseJsonImport', () => {
+  test('reads domain strings and objects with known fields', () => {
+    const result = parseJsonImport(JSON.stringify([
+      'example.com',
+      { name: 'example.org', expirationDate: '2026-03-01T00:00:00.000Z', registrar: 'Registrar' },
+      { ldhName: 'EXAMPLE.NET', expires: 'never' },
+      { id: 1 },
+      42
+    ]))
+
+    expect(result.entries).toEqual([
+      { domain: 'example.com', line: 1, expirationDate: undefined, registrar: undefined },
+      { domain: 'example.org', line: 2, expirationDate: new Date('2026-03-01T00:00:00.000Z'), registrar: 'Registrar' },
+      { domain: 'example.net', line: 3, expirationDate: undefined, registrar: undefined }
+    ])
+    expect(result.rejected).toEqual([
+      { line: 4, value: '{"id":1}', reason: 'No domain field found' },
+      { line: 5, value: '42', reason: 'No domain field found' }
+    ])
+  })
+
+  test('accepts an object wrapping the array', () => {
+    expect(parseJsonImport('{"domains":["example.com","example.com"]}')).toMatchObject({
+      entries: [{ domain: 'example.com', line: 1 }],
+      duplicates: 1
+    })
+  })
+
+  test('rejects invalid JSON and other shapes as a whole', () => {
+    expect(parseJsonImport('[example.com').rejected[0]?.reason).toMatch(/^Invalid JSON: /)
+    expect(parseJsonImport('{"domain":"example.com"}').rejected).toEqual([
+      { line: 1, value: '{"domain":"example.com"}', reason: 'Expected an array of domains' }
+    ])
+  })
+})
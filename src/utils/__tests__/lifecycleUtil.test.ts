@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'vitest'
+import { isDroppingPhase, predictDomainLifecycle } from '../lifecycleUtil'
+
+const now = new Date('2025-06-01T00:00:00Z')
+
+const daysFromNow = (days: number): Date => new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+describe('predictDomainLifecycle', () => {
+  test('reads the redemption phase from RDAP statuses', () => {
+    expect(predictDomainLifecycle(['Redemption Period', 'pending delete'], daysFromNow(-50), now)).toEqual({
+      phase: 'redemption',
+      estimatedDropDate: daysFromNow(30),
+      fromStatus: true,
+      confidence: 'high'
+    })
+    // Without expiration date the whole redemption period is still ahead
+    expect(predictDomainLifecycle(['pending restore'], undefined, now)).toMatchObject({
+      estimatedDropDate: daysFromNow(35),
+      confidence: 'medium'
+    })
+  })
+
+  test('keeps drop dates of pending deletes within five days', () => {
+    expect(predictDomainLifecycle(['pending delete'], daysFromNow(-78), now).estimatedDropDate).toEqual(daysFromNow(2))
+    expect(predictDomainLifecycle(['pending delete'], daysFromNow(-200), now).estimatedDropDate).toEqual(now)
+    expect(predictDomainLifecycle(['pending delete'], daysFromNow(300), now)).toMatchObject({
+      phase: 'pendingDelete',
+      estimatedDropDate: daysFromNow(5)
+    })
+  })
+
+  test('ignores the expiration date already moved forward during the auto-renew period', () => {
+    expect(predictDomainLifecycle(['auto renew period'], daysFromNow(350), now)).toEqual({
+      phase: 'autoRenewGrace',
+      estimatedDropDate: daysFromNow(80),
+      fromStatus: true,
+      confidence: 'low'
+    })
+    expect(predictDomainLifecycle(['auto renew period'], undefined, now).estimatedDropDate).toEqual(daysFromNow(80))
+  })
+
+  test('infers the phase from the expiration date without lifecycle status', () => {
+    expect(predictDomainLifecycle(['active'], daysFromNow(10), now)).toEqual({
+      phase: 'active',
+      estimatedDropDate: daysFromNow(90),
+      fromStatus: false,
+      confidence: 'low'
+    })
+    expect(predictDomainLifecycle([], daysFromNow(-10), now).phase).toBe('autoRenewGrace')
+    expect(predictDomainLifecycle([], daysFromNow(-60), now).phase).toBe('redemption')
+    expect(predictDomainLifecycle([], daysFromNow(-79), now)).toMatchObject({ phase: 'pendingDelete', estimatedDropDate: daysFromNow(1) })
+    expect(predictDomainLifecycle([], new Date('invalid'), now)).toMatchObject({ phase: 'active', estimatedDropDate: undefined })
+  })
+})
+
+describe('isDroppingPhase', () => {
+  test('treats every phase after expiration as dropping', () => {
+    expect(isDroppingPhase('active')).toBe(false)
+    expect(isDroppingPhase('autoRenewGrace')).toBe(true)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest'
+import { findPublicSuffix, findRegistrySuffix, parsePublicSuffixList } from '../pslUtil'
+
+const LIST = `// ===BEGIN ICANN DOMAINS===
+com
+uk
+co.uk
+// Japan
+jp
+*.kobe.jp
+!city.kobe.jp
+ck
+*.ck
+!www.ck
+// ===END ICANN DOMAINS===
+// ===BEGIN PRIVATE DOMAINS===
+github.io
+// ===END PRIVATE DOMAINS===`
+
+const rules = parsePublicSuffixList(LIST)
+
+const registrable = (hostName: string, includePrivate = true): string | undefined =>
+  findPublicSuffix(hostName, rules, { includePrivate })?.registrableDomain
+
+describe('parsePublicSuffixList', () => {
+  test('sorts rules by kind and section, skipping comments', () => {
+    expect(rules.size).toBe(10)
+    expect(rules.normal.get('co.uk')).toBe('icann')
+    expect(rules.normal.get('github.io')).toBe('private')
+    expect(rules.wildcard.get('kobe.jp')).toBe('icann')
+    expect(rules.exception.get('city.kobe.jp')).toBe('icann')
+  })
+})
+
+describe('findPublicSuffix', () => {
+  // Cases from https://raw.githubusercontent.com/publicsuffix/list/master/tests/test_psl.txt
+  test('uses the longest matching rule', () => {
+    expect(findPublicSuffix('www.example.co.uk', rules)).toEqual({
+      publicSuffix: 'co.uk',
+      label: 'example',
+      registrableDomain: 'example.co.uk',
+      subdomains: ['www'],
+      section: 'icann'
+    })
+    expect(registrable('example.com')).toBe('example.com')
+    expect(registrable('co.uk')).toBeUndefined()
+  })
+
+  test('applies wildcard and exception rules', () => {
+    expect(registrable('c.kobe.jp')).toBeUndefined()
+    expect(registrable('b.c.kobe.jp')).toBe('b.c.kobe.jp')
+    expect(registrable('city.kobe.jp')).toBe('city.kobe.jp')
+    expect(registrable('www.city.kobe.jp')).toBe('city.kobe.jp')
+    expect(registrable('www.ck')).toBe('www.ck')
+    expect(registrable('test.ck')).toBeUndefined()
+  })
+
+  test('falls back to the last label and ignores case and the trailing dot', () => {
+    expect(findPublicSuffix('Example.Example.', rules)?.registrableDomain).toBe('example.example')
+    expect(findPublicSuffix('example.example', rules)?.section).toBeNull()
+    expect(findPublicSuffix('example..com', rules)).toBeNull()
+  })
+
+  test('skips private rules on request', () => {
+    expect(registrable('foo.github.io')).toBe('foo.github.io')
+    expect(registrable('foo.github.io', false)).toBe('github.io')
+  })
+})
+
+describe('findRegistrySuffix', () => {
+  test('splits domains with the bundled list', () => {
+    expect(findRegistrySuffix('foo.com.br')?.publicSuffix).toBe('com.br')
+    expect(findRegistrySuffix('shop.example.co.uk')?.registrableDomain).toBe('example.co.uk')
+  })
+})
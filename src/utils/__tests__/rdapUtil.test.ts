@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'vitest'
+import { getBackoffDelay, parseRetryAfter } from '../rdapUtil'
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2025-06-10T12:00:00.000Z')
+
+  test('reads delay seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000)
+    expect(parseRetryAfter(' 0 ', now)).toBe(0)
+  })
+
+  test('reads HTTP dates relative to now, never below zero', () => {
+    expect(parseRetryAfter('Tue, 10 Jun 2025 12:00:30 GMT', now)).toBe(30000)
+    expect(parseRetryAfter('Tue, 10 Jun 2025 11:59:00 GMT', now)).toBe(0)
+  })
+
+  test('ignores missing and invalid headers', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined()
+    expect(parseRetryAfter('', now)).toBeUndefined()
+    expect(parseRetryAfter('soon', now)).toBeUndefined()
+    expect(parseRetryAfter('in 5 seconds', now)).toBeUndefined()
+  })
+})
+
+describe('getBackoffDelay', () => {
+  test('doubles the delay on each attempt, jittered between half and all of it', () => {
+    expect([0, 1, 2].map(attempt => getBackoffDelay(attempt, 1000, 60000, () => 0))).toEqual([500, 1000, 2000])
+    expect([0, 1, 2].map(attempt => getBackoffDelay(attempt, 1000, 60000, () => 0.999))).toEqual([1000, 1999, 3998])
+  })
+
+  test('caps the delay before adding jitter', () => {
+    expect(getBackoffDelay(10, 1000, 60000, () => 0)).toBe(30000)
+    expect(getBackoffDelay(10, 1000, 60000, () => 0.5)).toBe(45000)
+  })
+})
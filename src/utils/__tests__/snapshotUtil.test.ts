@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'vitest'
+import type { RdapResponse } from '@/types/rdap'
+import type { DomainSnapshot } from '@/types/monitoring'
+import { DnsRecordType, DnsResponseStatus, type DomainDnsInfo } from '@/types/dns'
+import { DomainAvailabilityStatus } from '@/types'
+import { buildDomainTimeline, createDomainSnapshot, describeDomainChange, diffDomainSnapshots } from '../snapshotUtil'
+
+const RDAP = {
+  objectClassName: 'domain',
+  handle: 'EXAMPLE',
+  ldhName: 'example.com',
+  status: ['client transfer prohibited', 'Active'],
+  nameservers: [{ objectClassName: 'nameserver', ldhName: 'NS2.EXAMPLE.NET' }, { objectClassName: 'nameserver', ldhName: 'ns1.example.net' }],
+  events: [{ eventAction: 'expiration', eventDate: '2026-08-13T04:00:00Z' }],
+  entities: [{ objectClassName: 'entity', roles: ['registrar'], vcardArray: ['vcard', [['fn', {}, 'text', 'Example Registrar']]] }]
+} as unknown as RdapResponse
+
+const DNS_AVAILABLE: DomainDnsInfo = {
+  status: DomainAvailabilityStatus.AVAILABLE,
+  dnsStatus: DnsResponseStatus.NXDOMAIN,
+  hasWebRecords: false,
+  hasSOA: false,
+  hasParentSOA: true,
+  recordTypes: [DnsRecordType.A],
+  confidence: 'high'
+}
+
+const snapshot = (overrides: Partial<DomainSnapshot> = {}): DomainSnapshot => ({
+  ...createDomainSnapshot('example.com', RDAP, undefined, new Date('2025-06-01T00:00:00Z')),
+  ...overrides
+})
+
+describe('createDomainSnapshot', () => {
+  test('reads registration data from RDAP and normalizes lists', () => {
+    expect(snapshot()).toEqual({
+      domain: 'example.com',
+      checkedAt: '2025-06-01T00:00:00.000Z',
+      availability: DomainAvailabilityStatus.NOTAVAILABLE,
+      registrar: 'Example Registrar',
+      expirationDate: '2026-08-13T04:00:00.000Z',
+      statuses: ['active', 'client transfer prohibited'],
+      nameservers: ['ns1.example.net', 'ns2.example.net'],
+      dnsStatus: undefined,
+      hasRdap: true
+    })
+  })
+
+  test('falls back to the DNS verdict without RDAP', () => {
+    expect(createDomainSnapshot('example.com', undefined, DNS_AVAILABLE)).toMatchObject({
+      availability: DomainAvailabilityStatus.AVAILABLE,
+      dnsStatus: DnsResponseStatus.NXDOMAIN,
+      statuses: [],
+      hasRdap: false
+    })
+    expect(createDomainSnapshot('example.com', undefined, undefined).availability).toBe(DomainAvailabilityStatus.UNKNOWN)
+  })
+})
+
+describe('diffDomainSnapshots', () => {
+  test('reports every changed field', () => {
+    const current = snapshot({
+      registrar: 'Other Registrar',
+      expirationDate: '2027-08-13T04:00:00.000Z',
+      statuses: ['active', 'pending delete'],
+      nameservers: ['ns1.example.net']
+    })
+    expect(diffDomainSnapshots(snapshot(), current)).toEqual([
+      { type: 'registrar', previous: 'Example Registrar', current: 'Other Registrar' },
+      { type: 'expiration', previous: '2026-08-13T04:00:00.000Z', current: '2027-08-13T04:00:00.000Z' },
+      { type: 'status', added: ['pending delete'], removed: ['client transfer prohibited'] },
+      { type: 'nameservers', added: [], removed: ['ns2.example.net'] }
+    ])
+    expect(diffDomainSnapshots(snapshot(), snapshot())).toEqual([])
+  })
+
+  test('ignores RDAP outages and unknown availability', () => {
+    const outage = snapshot({ hasRdap: false, registrar: undefined, statuses: [], nameservers: [] })
+    expect(diffDomainSnapshots(snapshot(), outage)).toEqual([])
+    expect(diffDomainSnapshots(snapshot(), { ...outage, availability: DomainAvailabilityStatus.UNKNOWN })).toEqual([])
+    expect(diffDomainSnapshots(snapshot(), { ...outage, availability: DomainAvailabilityStatus.AVAILABLE })).toEqual([
+      { type: 'availability', previous: 'registered', current: 'available' }
+    ])
+  })
+})
+
+describe('buildDomainTimeline', () => {
+  test('diffs each snapshot with the one before it, newest first', () => {
+    const first = snapshot()
+    const renewed = snapshot({ checkedAt: '2025-07-01T00:00:00.000Z', expirationDate: '2027-08-13T04:00:00.000Z' })
+    const timeline = buildDomainTimeline([renewed, first])
+    expect(timeline.map(entry => entry.snapshot)).toEqual([renewed, first])
+    expect(timeline.map(entry => entry.changes.map(change => change.type))).toEqual([['expiration'], []])
+  })
+})
+
+describe('describeDomainChange', () => {
+  test('describes changes in short sentences', () => {
+    expect(describeDomainChange({ type: 'availability', previous: 'registered', current: 'available' }))
+      .toBe('Became available (was registered)')
+    expect(describeDomainChange({ type: 'registrar', current: 'Other Registrar' }))
+      .toBe('Registrar changed from none to Other Registrar')
+    expect(describeDomainChange({ type: 'nameservers', added: ['ns3.example.net'], removed: [] }))
+      .toBe('Nameservers: + ns3.example.net')
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest'
+import {
+  generateDomainSuggestions,
+  parseSynonyms,
+  parseWordList,
+  resolveWordLists,
+  scoreLabelLength,
+  scorePronounceability,
+  SUGGESTION_CONFIG
+} from '../suggestionUtil'
+
+const wordLists = { prefixes: ['get'], suffixes: ['hq'], synonyms: { car: ['auto'] } }
+
+describe('scoring', () => {
+  test('prefers short labels', () => {
+    expect(scoreLabelLength('coffee')).toBe(1)
+    expect(scoreLabelLength('coffeeshop')).toBeLessThan(1)
+    expect(scoreLabelLength('a'.repeat(30))).toBe(0)
+  })
+
+  test('prefers labels that read aloud', () => {
+    expect(scorePronounceability('coffee')).toBeGreaterThan(0.8)
+    expect(scorePronounceability('strngth')).toBe(0)
+    expect(scorePronounceability('coffee4u')).toBeLessThan(scorePronounceability('coffee'))
+  })
+})
+
+describe('word lists', () => {
+  test('parses user input', () => {
+    expect(parseWordList('Get, try\nget  my-')).toEqual(['get', 'try'])
+    expect(parseSynonyms('car: auto, vehicle\nshop = store\nno synonyms')).toEqual({
+      car: ['auto', 'vehicle'],
+      shop: ['store']
+    })
+  })
+
+  test('falls back to the built-in lists for malformed settings', () => {
+    expect(resolveWordLists(undefined)).toBe(SUGGESTION_CONFIG.DEFAULT_WORD_LISTS)
+    expect(resolveWordLists({ prefixes: ['A', 42] }).prefixes).toEqual(['a'])
+    expect(resolveWordLists({ prefixes: [] }).suffixes).toEqual(SUGGESTION_CONFIG.DEFAULT_WORD_LISTS.suffixes)
+  })
+})
+
+describe('generateDomainSuggestions', () => {
+  test('builds compound, hyphenated and synonym variants on the given TLDs', () => {
+    const domains = generateDomainSuggestions('fastcar', { wordLists, tlds: ['com'], maxSuggestions: 10 })
+      .map(suggestion => suggestion.domain)
+    expect(domains).toEqual(expect.arrayContaining([
+      'getfastcar.com', 'get-fastcar.com', 'fastcarhq.com', 'fastcar-hq.com', 'fastauto.com'
+    ]))
+    expect(domains).toHaveLength(5)
+  })
+
+  test('ranks compounds and preferred TLDs first', () => {
+    const suggestions = generateDomainSuggestions('auto.de', { wordLists, tlds: ['de', 'com'] })
+    expect(suggestions[0]).toMatchObject({ domain: 'car.de', source: 'synonym', isHyphenated: false })
+    expect(suggestions.findIndex(s => s.domain === 'car.com')).toBeLessThan(suggestions.findIndex(s => s.domain === 'get-auto.de'))
+    expect(suggestions.every(s => ['de', 'com'].includes(s.tld))).toBe(true)
+  })
+
+  test('returns nothing for invalid queries', () => {
+    expect(generateDomainSuggestions('not valid')).toEqual([])
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest'
+import type { RdapService } from '@/types/rdap'
+import {
+  filterTlds,
+  findTldCatalogEntry,
+  getTldRecordMetadata,
+  hasTldDelegationDates,
+  mergeTldCatalog,
+  parseTldCatalog,
+  sortTlds
+} from '../tldCatalogUtil'
+import { validateTld } from '../domainUtil'
+
+const CATALOG = [
+  'com\tgTLD\t\t1985-01-01\tVeriSign Global Registry Services',
+  'museum\tsTLD\t\t\tMuseum Domain Management Association',
+  'uk\tccTLD\tGB\t\t',
+  'xn--p1ai\tccTLD\tRU\t\t',
+  'broken line'
+].join('\n')
+
+const SERVICES: RdapService[] = [
+  [['com'], ['https://rdap.verisign.com/com/v1/']],
+  [['newtld'], ['https://rdap.example/']]
+]
+
+const entries = parseTldCatalog(CATALOG)
+const tlds = mergeTldCatalog(SERVICES, entries)
+const filter = { query: '', type: 'all', country: 'all', rdap: 'all' } as const
+
+describe('parseTldCatalog', () => {
+  test('reads entries and skips malformed lines', () => {
+    expect(entries.size).toBe(4)
+    expect(entries.get('xn--p1ai')).toEqual({ tld: 'xn--p1ai', type: 'ccTLD', country: 'RU', isIdn: true })
+  })
+})
+
+describe('hasTldDelegationDates', () => {
+  test('requires a delegation date for every TLD', () => {
+    expect(hasTldDelegationDates(entries)).toBe(false)
+    expect(hasTldDelegationDates(parseTldCatalog('com\tgTLD\t\t1985-01-01\t\nuk\tccTLD\tGB\t1985-07-24\t'))).toBe(true)
+    expect(hasTldDelegationDates(new Map())).toBe(false)
+  })
+})
+
+describe('mergeTldCatalog', () => {
+  test('adds RDAP servers and the TLDs missing from the snapshot', () => {
+    expect(tlds.map(tld => tld.tld)).toEqual(['com', 'museum', 'newtld', 'uk', 'xn--p1ai'])
+    expect(tlds[0]?.rdapServers).toEqual(['https://rdap.verisign.com/com/v1/'])
+    expect(tlds.find(tld => tld.tld === 'newtld')).toMatchObject({ type: 'gTLD', isInCatalog: false })
+    expect(tlds.find(tld => tld.tld === 'xn--p1ai')).toMatchObject({ unicode: 'рф', countryName: 'Russia' })
+  })
+
+  test('filters by type, country, RDAP support and text', () => {
+    expect(filterTlds(tlds, { ...filter, type: 'ccTLD' }).map(tld => tld.tld)).toEqual(['uk', 'xn--p1ai'])
+    expect(filterTlds(tlds, { ...filter, country: 'GB' }).map(tld => tld.tld)).toEqual(['uk'])
+    expect(filterTlds(tlds, { ...filter, rdap: 'with' }).map(tld => tld.tld)).toEqual(['com', 'newtld'])
+    expect(filterTlds(tlds, { ...filter, query: 'verisign' }).map(tld => tld.tld)).toEqual(['com'])
+    expect(filterTlds(tlds, { ...filter, query: '.рф' }).map(tld => tld.tld)).toEqual(['xn--p1ai'])
+  })
+
+  test('sorts with missing values last', () => {
+    expect(sortTlds(tlds, 'delegationDate').map(tld => tld.tld)[0]).toBe('com')
+    expect(sortTlds(tlds, 'country', 'desc').map(tld => tld.tld)).toEqual(['uk', 'xn--p1ai', 'com', 'museum', 'newtld'])
+  })
+})
+
+describe('bundled catalog', () => {
+  test('describes delegated TLDs', () => {
+    expect(findTldCatalogEntry('.COM')?.sponsor).toBe('VeriSign Global Registry Services')
+    expect(findTldCatalogEntry('рф')?.country).toBe('RU')
+    expect(getTldRecordMetadata('uk')).toEqual({ type: 'ccTLD', country: 'United Kingdom' })
+    expect(validateTld('de').metadata).toMatchObject({ type: 'ccTLD', isKnown: true })
+    expect(validateTld('notatld').metadata).toMatchObject({ type: 'gTLD', isKnown: false })
+  })
+})
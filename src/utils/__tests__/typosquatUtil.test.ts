@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'vitest'
+import type { TyposquatTechnique } from '@/types/typosquat'
+import { generateTyposquatVariants } from '../typosquatUtil'
+
+const domainsOf = (brandDomain: string, technique: TyposquatTechnique): string[] =>
+  generateTyposquatVariants(brandDomain, { techniques: [technique] })?.variants.map(variant => variant.domain) ?? []
+
+describe('generateTyposquatVariants', () => {
+  test('derives typing mistakes from the label', () => {
+    expect(domainsOf('abc.com', 'omission')).toEqual(['bc.com', 'ac.com', 'ab.com'])
+    expect(domainsOf('abc.com', 'repetition')).toEqual(['aabc.com', 'abbc.com', 'abcc.com'])
+    expect(domainsOf('abc.com', 'transposition')).toEqual(['bac.com', 'acb.com'])
+    expect(domainsOf('abc.com', 'hyphenation')).toEqual(['a-bc.com', 'ab-c.com'])
+    expect(domainsOf('go.com', 'keyboard')).toEqual(expect.arrayContaining(['fo.com', 'ho.com', 'to.com', 'yo.com', 'gi.com', 'gp.com']))
+  })
+
+  test('flips single bits into other host name characters', () => {
+    const flipped = domainsOf('a.com', 'bitflip')
+    expect(flipped).toEqual(['c.com', 'e.com', 'i.com', 'q.com'])
+  })
+
+  test('replaces letters with ASCII and Unicode homoglyphs', () => {
+    const variants = generateTyposquatVariants('google.com', { techniques: ['homoglyph'] })?.variants ?? []
+    const names = variants.map(variant => variant.displayName)
+    // Cyrillic and Greek omicrons
+    expect(names).toEqual(expect.arrayContaining(['g0ogle.com', 'goog1e.com', 'g\u043eogle.com', 'g\u03bfogle.com']))
+    expect(variants.find(variant => variant.displayName === 'g\u043eogle.com')?.domain).toMatch(/^xn--/)
+  })
+
+  test('keeps the registry suffix and swaps TLDs', () => {
+    expect(domainsOf('www.example.co.uk', 'omission')[0]).toBe('xample.co.uk')
+    expect(generateTyposquatVariants('example.com', { techniques: ['tld-swap'], tlds: ['com', 'net', '.org'] })?.variants
+      .map(variant => variant.domain)).toEqual(['example.net', 'example.org'])
+  })
+
+  test('skips invalid and duplicate variants and honours the limit', () => {
+    expect(domainsOf('ab.com', 'transposition')).toEqual(['ba.com'])
+    expect(domainsOf('aa.com', 'transposition')).toEqual([])
+    expect(domainsOf('a.com', 'omission')).toEqual([])
+    const result = generateTyposquatVariants('example.com', { techniques: ['omission', 'repetition'], maxVariants: 3 })
+    expect(result?.variants).toHaveLength(3)
+    expect(result?.truncated).toBe(11)
+    expect(generateTyposquatVariants('not a domain')).toBeNull()
+  })
+})
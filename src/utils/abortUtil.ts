@@ -0,0 +1,113 @@
+/**
+ * AbortSignal helpers used to cancel lookups
+ */
+
+/**
+ * Abort signal following other signals, released with dispose
+ */
+export interface LinkedAbortSignal {
+  readonly signal: AbortSignal;
+  /** Aborts the linked signal only */
+  readonly abort: (reason?: unknown) => void;
+  /** Stops following the source signals */
+  readonly dispose: () => void;
+}
+
+/**
+ * Abort signal that also fires after a timeout
+ */
+export interface TimeoutAbortSignal {
+  readonly signal: AbortSignal;
+  /** True when the timeout, not the parent signal, aborted the request */
+  readonly hasTimedOut: () => boolean;
+  /** Clears the timer and stops following the parent signal */
+  readonly dispose: () => void;
+}
+
+/**
+ * Creates a signal aborted as soon as one of the source signals aborts
+ * @param signals - Source signals (undefined entries are ignored)
+ * @returns Linked signal
+ */
+export const linkAbortSignals = (signals: readonly (AbortSignal | undefined)[]): LinkedAbortSignal => {
+  const controller = new AbortController();
+  const listeners: [AbortSignal, () => void][] = [];
+
+  const dispose = (): void => {
+    listeners.forEach(([signal, listener]) => signal.removeEventListener('abort', listener));
+    listeners.length = 0;
+  };
+
+  for (const signal of signals) {
+    if (!signal) continue;
+
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+
+    const listener = (): void => {
+      controller.abort(signal.reason);
+      dispose();
+    };
+    signal.addEventListener('abort', listener, { once: true });
+    listeners.push([signal, listener]);
+  }
+
+  return {
+    signal: controller.signal,
+    abort: (reason?: unknown) => controller.abort(reason),
+    dispose
+  };
+};
+
+/**
+ * Creates a signal aborted after a timeout or when the parent signal aborts
+ * @param timeoutMs - Timeout in milliseconds
+ * @param message - Error message used as the timeout abort reason
+ * @param parent - Signal of the caller
+ * @returns Timeout signal
+ */
+export const createTimeoutSignal = (timeoutMs: number, message: string, parent?: AbortSignal): TimeoutAbortSignal => {
+  const linked = linkAbortSignals([parent]);
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    linked.abort(new Error(message));
+  }, timeoutMs);
+
+  return {
+    signal: linked.signal,
+    hasTimedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      linked.dispose();
+    }
+  };
+};
+
+/**
+ * Waits for a delay, resolving early when the signal aborts
+ * @param delayMs - Delay in milliseconds
+ * @param signal - Signal cancelling the wait
+ * @returns Promise resolving after the delay or the abort
+ */
+export const waitUnlessAborted = (delayMs: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,399 @@
+import { DomainAvailabilityStatus } from '@/types';
+
+/**
+ * Alert scheduling utilities
+ * Pure functions shared by the alert service, the alert components and the Service Worker
+ *
+ * Dates are accepted either as Date objects (main thread) or ISO strings (IndexedDB / Service Worker)
+ */
+
+/**
+ * Reminder frequency options for alert notifications
+ */
+export type ReminderFrequency = 'once' | 'daily' | 'weekly';
+
+/**
+ * Alert kinds
+ * - 'expiration': reminders before the domain expiration date
+ * - 'availability': one notification when a registered domain becomes available
+ * - 'lifecycle': one notification each time a registered domain enters a new drop-catch phase
+ */
+export type AlertType = 'expiration' | 'availability' | 'lifecycle';
+
+/**
+ * Date value as stored on either side of the Service Worker boundary
+ */
+type DateInput = Date | string;
+
+/**
+ * Minimal alert shape needed to compute a reminder schedule
+ */
+export interface SchedulableAlert {
+  readonly alertDate: DateInput;
+  readonly reminderFrequency: ReminderFrequency;
+  readonly expirationDate: DateInput;
+  readonly lastNotified?: DateInput;
+}
+
+/**
+ * Interval in calendar days between two reminders for recurring frequencies
+ */
+const REMINDER_INTERVALS_DAYS: Readonly<Record<Exclude<ReminderFrequency, 'once'>, number>> = Object.freeze({
+  daily: 1,
+  weekly: 7
+});
+
+/**
+ * Length of a day without daylight saving time change
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Converts a date input to a timestamp
+ * @param value - Date or ISO string
+ * @returns Timestamp in milliseconds (NaN if invalid)
+ */
+const toTime = (value: DateInput): number => {
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+};
+
+/**
+ * Adds calendar days to a timestamp, keeping the local time of day across daylight saving time changes
+ * @param time - Timestamp in milliseconds
+ * @param days - Number of days to add (negative to subtract)
+ * @returns Shifted timestamp in milliseconds
+ */
+const addDays = (time: number, days: number): number => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+/**
+ * Computes the next time an alert should fire
+ *
+ * - An alert that was never notified fires on its alertDate
+ * - 'once' alerts never fire again after the first notification
+ * - 'daily' and 'weekly' alerts fire on their cadence counted in calendar days
+ *   from alertDate, until the next slot falls after the domain expiration date
+ *
+ * @param alert - Alert to evaluate
+ * @returns Next reminder date, or null if the alert is finished
+ */
+export const getNextReminderDate = (alert: SchedulableAlert): Date | null => {
+  const alertTime = toTime(alert.alertDate);
+  const expirationTime = toTime(alert.expirationDate);
+
+  if (isNaN(alertTime)) {
+    return null;
+  }
+
+  if (!alert.lastNotified) {
+    return new Date(alertTime);
+  }
+
+  if (alert.reminderFrequency === 'once') {
+    return null;
+  }
+
+  const lastNotifiedTime = toTime(alert.lastNotified);
+  const intervalDays = REMINDER_INTERVALS_DAYS[alert.reminderFrequency];
+
+  if (isNaN(lastNotifiedTime) || !intervalDays) {
+    return null;
+  }
+
+  // First cadence slot strictly after the last notification; slots keep the
+  // local time of alertDate, so a daylight saving time change can move them
+  // by an hour from the estimate
+  let elapsedSlots = Math.max(0, Math.floor((lastNotifiedTime - alertTime) / (intervalDays * DAY_MS)));
+  while (addDays(alertTime, elapsedSlots * intervalDays) <= lastNotifiedTime) {
+    elapsedSlots++;
+  }
+  const nextTime = addDays(alertTime, elapsedSlots * intervalDays);
+
+  if (!isNaN(expirationTime) && nextTime > expirationTime) {
+    return null;
+  }
+
+  return new Date(nextTime);
+};
+
+/**
+ * Checks if an alert is due for a notification
+ * @param alert - Alert to evaluate
+ * @param now - Reference date (default: current date)
+ * @returns true if a notification should be sent
+ */
+export const isReminderDue = (alert: SchedulableAlert, now: Date = new Date()): boolean => {
+  const nextReminder = getNextReminderDate(alert);
+  return nextReminder !== null && now.getTime() >= nextReminder.getTime();
+};
+
+/**
+ * Single firing point of a multi-stage alert schedule
+ */
+export interface SchedulableStage {
+  readonly id: string;
+  readonly daysBeforeExpiration: number;
+  readonly alertDate: DateInput;
+  readonly lastNotified?: DateInput;
+}
+
+/**
+ * Minimal alert shape carrying an optional multi-stage schedule
+ */
+export interface StagedAlert extends SchedulableAlert {
+  readonly stages?: readonly SchedulableStage[];
+}
+
+/**
+ * Predefined expiration alert policies (days before expiration)
+ */
+export const ALERT_SCHEDULE_PRESETS: Readonly<Record<string, readonly number[]>> = Object.freeze({
+  standard: Object.freeze([90, 60, 30, 14, 7, 1]),
+  monthly: Object.freeze([90, 60, 30]),
+  lastMinute: Object.freeze([14, 7, 3, 1])
+});
+
+/**
+ * Maximum number of days before expiration a stage can be scheduled
+ */
+const MAX_STAGE_OFFSET_DAYS = 3650;
+
+/**
+ * Validates a list of stage offsets
+ * @param offsets - Days before expiration for each stage
+ * @returns Error message, or null if offsets are valid
+ */
+export const validateStageOffsets = (offsets: readonly number[]): string | null => {
+  if (!Array.isArray(offsets) || offsets.length === 0) {
+    return 'Schedule must contain at least one stage';
+  }
+
+  if (offsets.some(days => !Number.isInteger(days) || days < 0 || days > MAX_STAGE_OFFSET_DAYS)) {
+    return `Stage offsets must be whole numbers of days between 0 and ${MAX_STAGE_OFFSET_DAYS}`;
+  }
+
+  if (new Set(offsets).size !== offsets.length) {
+    return 'Stage offsets must be unique';
+  }
+
+  return null;
+};
+
+/**
+ * Builds the firing dates of a schedule from its offsets
+ *
+ * Offsets are calendar days, so every stage keeps the local time of day of the
+ * expiration date across daylight saving time changes.
+ *
+ * @param expirationDate - Domain expiration date
+ * @param offsets - Days before expiration for each stage
+ * @returns Stages ordered from the earliest to the latest firing date
+ */
+export const buildScheduleStages = (
+  expirationDate: Date,
+  offsets: readonly number[]
+): { id: string; daysBeforeExpiration: number; alertDate: Date }[] => {
+  return [...offsets]
+    .sort((a, b) => b - a)
+    .map(days => ({
+      id: `stage_${days}`,
+      daysBeforeExpiration: days,
+      alertDate: new Date(addDays(expirationDate.getTime(), -days))
+    }));
+};
+
+/**
+ * Gets the stages of a schedule that reached their date and were not notified yet
+ * @param alert - Staged alert to evaluate
+ * @param now - Reference date (default: current date)
+ * @returns Due stages, ordered from the earliest to the latest firing date
+ */
+export const getDueStages = <T extends SchedulableStage>(
+  alert: { readonly stages?: readonly T[] },
+  now: Date = new Date()
+): T[] => {
+  return (alert.stages ?? [])
+    .filter(stage => !stage.lastNotified && toTime(stage.alertDate) <= now.getTime())
+    .sort((a, b) => toTime(a.alertDate) - toTime(b.alertDate));
+};
+
+/**
+ * Computes the next firing date of an alert, whether it is staged or not
+ * @param alert - Alert to evaluate
+ * @returns Next firing date, or null if the alert is finished
+ */
+export const getNextAlertDate = (alert: StagedAlert): Date | null => {
+  if (!alert.stages || alert.stages.length === 0) {
+    return getNextReminderDate(alert);
+  }
+
+  const pendingTimes = alert.stages
+    .filter(stage => !stage.lastNotified)
+    .map(stage => toTime(stage.alertDate))
+    .filter(time => !isNaN(time));
+
+  return pendingTimes.length > 0 ? new Date(Math.min(...pendingTimes)) : null;
+};
+
+/**
+ * Gets the kind of an alert, records created before alert types are expiration alerts
+ * @param alert - Alert to inspect
+ * @returns Alert type
+ */
+export const getAlertType = (alert: { readonly type?: AlertType }): AlertType => {
+  return alert.type ?? 'expiration';
+};
+
+/**
+ * Outcome of the RDAP lookup of an expiration re-sync
+ * - 'found': RDAP returned the domain
+ * - 'not-found': RDAP answered 404
+ * - 'failed': any other error
+ */
+export type RdapLookupOutcome = 'found' | 'not-found' | 'failed';
+
+/**
+ * What an expiration re-sync does with the alerts of a domain
+ * - 'update': apply the RDAP expiration date and clear the not-found streak
+ * - 'not-found': count the 404 and keep the alerts unchanged
+ * - 'stale': the domain is confirmed gone, flag the alerts for the user
+ * - 'failed': leave the alerts unchanged
+ */
+export type ExpirationSyncAction = 'update' | 'not-found' | 'stale' | 'failed';
+
+/**
+ * Rules to confirm a domain disappeared from RDAP
+ *
+ * A single 404 also comes from misrouted bootstrap lookups or lagging
+ * registries, so the domain must be missing on several syncs spread over a
+ * few days, unless DNS answers NXDOMAIN for it as well.
+ */
+export const EXPIRATION_SYNC_STALE_RULES = Object.freeze({
+  /** Consecutive RDAP 404s needed without DNS confirmation */
+  minNotFoundCount: 3,
+  /** Time since the first 404 of the streak needed without DNS confirmation */
+  minNotFoundMs: 2 * 24 * 60 * 60 * 1000
+} as const);
+
+/**
+ * Decides what an expiration re-sync does with the alerts of a domain
+ * @param lookup - Outcome of the RDAP lookup
+ * @param history - Not-found streak stored on the alerts before this lookup
+ * @param options - `isNxdomain` when DNS confirms the domain does not exist, `now` as reference date
+ * @returns Action to apply
+ */
+export const getExpirationSyncAction = (
+  lookup: RdapLookupOutcome,
+  history: { readonly rdapNotFoundCount?: number; readonly rdapNotFoundSince?: DateInput },
+  options: { readonly isNxdomain?: boolean; readonly now?: Date } = {}
+): ExpirationSyncAction => {
+  if (lookup !== 'not-found') {
+    return lookup === 'found' ? 'update' : 'failed';
+  }
+
+  if (options.isNxdomain) {
+    return 'stale';
+  }
+
+  const notFoundCount = (history.rdapNotFoundCount ?? 0) + 1;
+  const firstNotFoundTime = history.rdapNotFoundSince ? toTime(history.rdapNotFoundSince) : NaN;
+  const streakMs = isNaN(firstNotFoundTime) ? 0 : (options.now ?? new Date()).getTime() - firstNotFoundTime;
+
+  return notFoundCount >= EXPIRATION_SYNC_STALE_RULES.minNotFoundCount && streakMs >= EXPIRATION_SYNC_STALE_RULES.minNotFoundMs
+    ? 'stale'
+    : 'not-found';
+};
+
+/**
+ * Expiration re-sync timing, shared by the page and the Service Worker
+ */
+export const EXPIRATION_SYNC_CONFIG = Object.freeze({
+  /** Setting holding the timestamp of the last sync, from either side */
+  settingKey: 'alertsLastExpirationSync',
+  /** Minimum time between two syncs */
+  intervalMs: 24 * 60 * 60 * 1000
+} as const);
+
+/**
+ * Moves the firing dates of an alert to a new expiration date
+ *
+ * Pending firing dates keep their distance to the expiration date. On a renewal
+ * (later expiration date) the stages lose their notification history so the
+ * new cycle notifies again.
+ *
+ * @param alert - Alert to reschedule
+ * @param newExpirationDate - Expiration date reported by RDAP
+ * @returns New alert date and stages, and whether the domain was renewed
+ */
+export const rescheduleAlertDates = <T extends SchedulableStage>(
+  alert: SchedulableAlert & { readonly stages?: readonly T[] },
+  newExpirationDate: Date
+): {
+  renewed: boolean;
+  alertDate: Date;
+  stages?: { id: string; daysBeforeExpiration: number; alertDate: Date; lastNotified?: T['lastNotified'] }[];
+} => {
+  const renewed = newExpirationDate.getTime() > toTime(alert.expirationDate);
+  const shiftMs = newExpirationDate.getTime() - toTime(alert.expirationDate);
+
+  const stages = alert.stages && alert.stages.length > 0
+    ? buildScheduleStages(newExpirationDate, alert.stages.map(stage => stage.daysBeforeExpiration)).map(stage => ({
+        ...stage,
+        lastNotified: renewed ? undefined : alert.stages?.find(previous => previous.id === stage.id)?.lastNotified
+      }))
+    : undefined;
+
+  return {
+    renewed,
+    alertDate: stages?.[0]?.alertDate ?? new Date(toTime(alert.alertDate) + shiftMs),
+    stages
+  };
+};
+
+/**
+ * Result of the live check of an availability alert
+ */
+export interface AvailabilityCheckOutcome {
+  /** Status to store, UNKNOWN keeps the last known one */
+  readonly status: DomainAvailabilityStatus;
+  /** True when the domain just became available */
+  readonly notify: boolean;
+}
+
+/**
+ * Decides what the live check of an availability alert found
+ *
+ * DNS alone cannot tell a free domain from one in redemption or pending delete,
+ * whose delegation is already removed, so an available verdict needs RDAP to
+ * answer 404 as well. Domains RDAP still returns stay registered.
+ *
+ * @param dnsStatus - Availability read from DNS
+ * @param rdapLookup - Outcome of the RDAP lookup, only needed when DNS reports the domain available
+ * @param previousStatus - Status stored by the previous check
+ * @returns Status to store and whether to notify
+ */
+export const getAvailabilityCheckOutcome = (
+  dnsStatus: DomainAvailabilityStatus,
+  rdapLookup: RdapLookupOutcome | undefined,
+  previousStatus?: DomainAvailabilityStatus
+): AvailabilityCheckOutcome => {
+  if (dnsStatus !== DomainAvailabilityStatus.AVAILABLE) {
+    return { status: dnsStatus, notify: false };
+  }
+
+  if (rdapLookup === 'found') {
+    return { status: DomainAvailabilityStatus.NOTAVAILABLE, notify: false };
+  }
+
+  if (rdapLookup !== 'not-found') {
+    return { status: DomainAvailabilityStatus.UNKNOWN, notify: false };
+  }
+
+  return {
+    status: DomainAvailabilityStatus.AVAILABLE,
+    notify: previousStatus === DomainAvailabilityStatus.NOTAVAILABLE
+  };
+};
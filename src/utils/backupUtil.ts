@@ -0,0 +1,365 @@
+import type { AlertRecord, DomainRecord, SettingsRecord, TldRecord } from '@/services/dbService';
+import type { SearchHistoryEntry } from '@/stores/searchStore';
+import type {
+  BackupConflict,
+  BackupFile,
+  BackupStoreName,
+  BackupStores,
+  RestoreStoreCounts
+} from '@/types/backup';
+import type { ExportFile } from '@/types/export';
+import { getAlertType } from './alertUtil';
+
+/**
+ * Backup utilities
+ * Pure functions building, validating and merging database backups
+ */
+
+/**
+ * Backup file settings
+ */
+export const BACKUP_CONFIG = Object.freeze({
+  format: 'domaincheck-backup',
+  /** Bump when the layout of BackupFile changes */
+  backupVersion: 1,
+  /** Oldest database schema whose records can still be restored */
+  minSchemaVersion: 1,
+  /** Schema that started flagging every stored domain as watched */
+  watchListFlagSchemaVersion: 9,
+  fileBaseName: 'domaincheck-backup',
+  mimeType: 'application/json;charset=utf-8'
+} as const);
+
+/**
+ * Backed up stores in restore order
+ */
+export const BACKUP_STORE_NAMES: readonly BackupStoreName[] = Object.freeze(['domains', 'tlds', 'settings', 'alerts']);
+
+/**
+ * Result type for backup parsing
+ */
+interface BackupParseResult {
+  readonly success: boolean;
+  readonly data?: BackupFile;
+  readonly error?: string;
+}
+
+/**
+ * Outcome of merging one store
+ */
+export interface StoreMergePlan<T> {
+  /** Records to write (missing locally) */
+  readonly toWrite: readonly T[];
+  readonly conflicts: readonly BackupConflict[];
+  readonly unchanged: number;
+}
+
+/**
+ * Checks that a value is a non-empty string
+ * @param value - Value to check
+ * @returns True for non-empty strings
+ */
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+/**
+ * Checks that a value is a plain object
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Record validators of each backed up store, checking the key path and required fields
+ */
+const RECORD_VALIDATORS: Readonly<Record<BackupStoreName, (record: Record<string, unknown>) => boolean>> = Object.freeze({
+  domains: record => isNonEmptyString(record.name),
+  tlds: record => isNonEmptyString(record.tld),
+  settings: record => isNonEmptyString(record.key),
+  alerts: record =>
+    isNonEmptyString(record.id) &&
+    isNonEmptyString(record.domain) &&
+    isNonEmptyString(record.alertDate) &&
+    isNonEmptyString(record.expirationDate)
+});
+
+/**
+ * Serializes a value with sorted object keys, so equal records compare equal
+ * @param value - Value to serialize
+ * @returns Canonical JSON text
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isObject(value)) {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Creates an empty per-store count
+ * @returns Zeroed counts
+ */
+export const createEmptyRestoreCounts = (): RestoreStoreCounts => ({
+  restored: 0,
+  conflicts: 0,
+  unchanged: 0,
+  invalid: 0
+});
+
+/**
+ * Builds a backup from the store contents
+ * @param stores - Records of each backed up store
+ * @param searchHistory - Persisted search history
+ * @param schemaVersion - Current database schema version
+ * @param now - Backup date (default: now)
+ * @returns Backup file content
+ */
+export const createBackup = (
+  stores: BackupStores,
+  searchHistory: readonly SearchHistoryEntry[],
+  schemaVersion: number,
+  now: Date = new Date()
+): BackupFile => ({
+  format: BACKUP_CONFIG.format,
+  backupVersion: BACKUP_CONFIG.backupVersion,
+  schemaVersion,
+  createdAt: now.toISOString(),
+  stores,
+  searchHistory
+});
+
+/**
+ * Builds the downloadable file of a backup
+ * @param backup - Backup content
+ * @returns JSON file named after the backup date
+ */
+export const createBackupFile = (backup: BackupFile): ExportFile => ({
+  fileName: `${BACKUP_CONFIG.fileBaseName}-${backup.createdAt.slice(0, 10)}.json`,
+  mimeType: BACKUP_CONFIG.mimeType,
+  content: JSON.stringify(backup, null, 2)
+});
+
+/**
+ * Splits the records of a store into valid and malformed ones
+ * @param storeName - Backed up store
+ * @param records - Records read from the backup
+ * @returns Valid records and the number of malformed ones
+ */
+export const validateBackupRecords = <T>(
+  storeName: BackupStoreName,
+  records: readonly unknown[]
+): { readonly valid: T[]; readonly invalid: number } => {
+  const valid = records.filter(
+    (record): record is Record<string, unknown> => isObject(record) && RECORD_VALIDATORS[storeName](record)
+  ) as T[];
+
+  return { valid, invalid: records.length - valid.length };
+};
+
+/**
+ * Filters out malformed search history entries
+ * @param entries - Entries read from the backup
+ * @returns Valid entries and the number of malformed ones
+ */
+export const validateSearchHistory = (
+  entries: readonly unknown[]
+): { readonly valid: SearchHistoryEntry[]; readonly invalid: number } => {
+  const valid = entries.filter(
+    (entry): entry is SearchHistoryEntry =>
+      isObject(entry) && isNonEmptyString(entry.query) && typeof entry.timestamp === 'number'
+  );
+
+  return { valid, invalid: entries.length - valid.length };
+};
+
+/**
+ * Upgrades records written by an older schema to the current one
+ *
+ * Mirrors the data changes of the database migrations, which only run on
+ * records already on disk.
+ *
+ * @param domains - Backed up domain records
+ * @param schemaVersion - Schema version of the backup
+ * @returns Domain records in the current shape
+ */
+export const upgradeBackupDomains = (
+  domains: readonly DomainRecord[],
+  schemaVersion: number
+): DomainRecord[] => {
+  if (schemaVersion >= BACKUP_CONFIG.watchListFlagSchemaVersion) return [...domains];
+  return domains.map(domain => domain.isInWatchList === true ? domain : { ...domain, isInWatchList: true });
+};
+
+/**
+ * Parses and validates a backup file
+ * @param text - File content
+ * @param currentSchemaVersion - Schema version of this database (DB_CONFIG.version)
+ * @returns Parsed backup, or the reason it cannot be restored
+ */
+export const parseBackupFile = (text: string, currentSchemaVersion: number): BackupParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'The file is not valid JSON' };
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_CONFIG.format) {
+    return { success: false, error: 'The file is not a DomainCheck backup' };
+  }
+
+  if (typeof parsed.backupVersion !== 'number' || parsed.backupVersion > BACKUP_CONFIG.backupVersion) {
+    return { success: false, error: 'The backup was created by a newer version of DomainCheck, update the app first' };
+  }
+
+  const schemaVersion = parsed.schemaVersion;
+  if (typeof schemaVersion !== 'number' || !Number.isInteger(schemaVersion)) {
+    return { success: false, error: 'The backup does not declare its database schema version' };
+  }
+  if (schemaVersion > currentSchemaVersion) {
+    return {
+      success: false,
+      error: `The backup uses database schema ${schemaVersion} but this app supports up to ${currentSchemaVersion}, update the app first`
+    };
+  }
+  if (schemaVersion < BACKUP_CONFIG.minSchemaVersion) {
+    return { success: false, error: `Database schema ${schemaVersion} is no longer supported` };
+  }
+
+  const stores = parsed.stores;
+  if (!isObject(stores) || BACKUP_STORE_NAMES.some(name => !Array.isArray(stores[name]))) {
+    return { success: false, error: 'The backup is missing store data' };
+  }
+
+  return {
+    success: true,
+    data: {
+      format: BACKUP_CONFIG.format,
+      backupVersion: parsed.backupVersion,
+      schemaVersion,
+      createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+      stores: {
+        domains: stores.domains as DomainRecord[],
+        tlds: stores.tlds as TldRecord[],
+        settings: stores.settings as SettingsRecord[],
+        alerts: stores.alerts as AlertRecord[]
+      },
+      searchHistory: Array.isArray(parsed.searchHistory) ? parsed.searchHistory : []
+    }
+  };
+};
+
+/**
+ * Plans the merge of backed up records into a store, keeping local records on conflict
+ * @param storeName - Store being merged
+ * @param local - Records currently in the store
+ * @param incoming - Valid records from the backup
+ * @param getKey - Gets the key path value of a record
+ * @param getComparable - Gets the part of a record that must match (default: whole record)
+ * @returns Records to write, conflicts and the number of identical records
+ */
+export const planStoreMerge = <T>(
+  storeName: BackupStoreName,
+  local: readonly T[],
+  incoming: readonly T[],
+  getKey: (record: T) => string,
+  getComparable: (record: T) => unknown = record => record
+): StoreMergePlan<T> => {
+  const localByKey = new Map(local.map(record => [getKey(record), record]));
+  const toWrite: T[] = [];
+  const conflicts: BackupConflict[] = [];
+  let unchanged = 0;
+
+  for (const record of incoming) {
+    const key = getKey(record);
+    const existing = localByKey.get(key);
+
+    if (!existing) {
+      toWrite.push(record);
+      localByKey.set(key, record);
+    } else if (stableStringify(getComparable(existing)) === stableStringify(getComparable(record))) {
+      unchanged++;
+    } else {
+      conflicts.push({ store: storeName, key, reason: 'Local record differs from the backup, kept the local one' });
+    }
+  }
+
+  return { toWrite, conflicts, unchanged };
+};
+
+/**
+ * Plans the merge of backed up alerts
+ *
+ * Besides ID conflicts, an alert is not added when the domain already has a
+ * local alert of the same type under another ID, which would fire twice.
+ *
+ * @param local - Alerts currently in the store
+ * @param incoming - Valid alerts from the backup
+ * @returns Alerts to write, conflicts and the number of identical alerts
+ */
+export const planAlertMerge = (
+  local: readonly AlertRecord[],
+  incoming: readonly AlertRecord[]
+): StoreMergePlan<AlertRecord> => {
+  const plan = planStoreMerge('alerts', local, incoming, alert => alert.id);
+  const localKinds = new Set(local.map(alert => `${alert.domain}|${getAlertType(alert)}`));
+  const toWrite: AlertRecord[] = [];
+  const conflicts = [...plan.conflicts];
+
+  for (const alert of plan.toWrite) {
+    const kind = `${alert.domain}|${getAlertType(alert)}`;
+    if (localKinds.has(kind)) {
+      conflicts.push({
+        store: 'alerts',
+        key: alert.id,
+        reason: `${alert.domain} already has a local ${getAlertType(alert)} alert, kept the local one`
+      });
+    } else {
+      toWrite.push(alert);
+      localKinds.add(kind);
+    }
+  }
+
+  return { toWrite, conflicts, unchanged: plan.unchanged };
+};
+
+/**
+ * Merges search histories, keeping the latest timestamp of each query
+ * @param local - Current search history
+ * @param incoming - Valid entries from the backup
+ * @param maxSize - Maximum number of entries kept
+ * @returns Merged history, newest first, and the number of entries added
+ */
+export const mergeSearchHistory = (
+  local: readonly SearchHistoryEntry[],
+  incoming: readonly SearchHistoryEntry[],
+  maxSize: number
+): { readonly history: SearchHistoryEntry[]; readonly added: number } => {
+  const byQuery = new Map<string, SearchHistoryEntry>();
+
+  for (const entry of [...local, ...incoming]) {
+    const key = entry.query.toLowerCase();
+    const existing = byQuery.get(key);
+    if (!existing || entry.timestamp > existing.timestamp) {
+      byQuery.set(key, entry);
+    }
+  }
+
+  const history = [...byQuery.values()]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, maxSize);
+  const localQueries = new Set(local.map(entry => entry.query.toLowerCase()));
+
+  return {
+    history,
+    added: history.filter(entry => !localQueries.has(entry.query.toLowerCase())).length
+  };
+};
@@ -0,0 +1,219 @@
+import { DomainAvailabilityStatus } from '@/types';
+import type {
+  BulkCheckItem,
+  BulkCheckProgress,
+  BulkInputParseResult,
+  BulkInputRejection,
+  BulkResultFilter,
+  BulkSortKey
+} from '@/types/bulk';
+import { normalizeDomain } from './domainUtil';
+import { getDaysUntil } from './rdapUtil';
+
+/**
+ * Bulk check utilities
+ * Pure functions for parsing pasted lists / CSV files and arranging results
+ */
+
+/**
+ * Bulk input configuration
+ */
+const BULK_INPUT_CONFIG = Object.freeze({
+  /** Maximum number of domains accepted in one bulk check */
+  MAX_DOMAINS: 1000,
+  /** CSV cell separators */
+  CELL_SEPARATOR: /[,;\t]/,
+  /** Lines starting with this prefix are comments */
+  COMMENT_PREFIX: '#'
+} as const);
+
+/**
+ * Extracts a bare host name from a cell that may contain a URL
+ * @param value - Raw cell value (e.g. "https://Example.com/page", "\"example.com\"")
+ * @returns Host name candidate
+ */
+export const extractDomainCandidate = (value: string): string => {
+  return value
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+    .trim();
+};
+
+/**
+ * Parses a pasted list or CSV file into domains to check
+ *
+ * Each line holds one domain, or CSV cells of which the first valid domain is
+ * used. Blank lines and `#` comments are ignored; a first line without any
+ * dot is treated as a CSV header.
+ *
+ * @param text - Raw input text
+ * @param maxDomains - Maximum number of domains to keep
+ * @returns Parsed domains and the rejected lines
+ */
+export const parseBulkDomainInput = (
+  text: string,
+  maxDomains: number = BULK_INPUT_CONFIG.MAX_DOMAINS
+): BulkInputParseResult => {
+  const domains: string[] = [];
+  const seen = new Set<string>();
+  const rejected: BulkInputRejection[] = [];
+  let duplicates = 0;
+  let truncated = 0;
+  let hasContent = false;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(BULK_INPUT_CONFIG.COMMENT_PREFIX)) {
+      return;
+    }
+
+    const isFirstLine = !hasContent;
+    hasContent = true;
+
+    const domain = line
+      .split(BULK_INPUT_CONFIG.CELL_SEPARATOR)
+      .map(cell => normalizeDomain(extractDomainCandidate(cell)))
+      .find((cell): cell is string => Boolean(cell));
+
+    if (!domain) {
+      // A leading line without any dot is a CSV header, not an error
+      if (!isFirstLine || line.includes('.')) {
+        rejected.push({ line: index + 1, value: line, reason: 'No valid domain name found' });
+      }
+      return;
+    }
+
+    if (seen.has(domain)) {
+      duplicates++;
+      return;
+    }
+
+    if (domains.length >= maxDomains) {
+      truncated++;
+      return;
+    }
+
+    seen.add(domain);
+    domains.push(domain);
+  });
+
+  return { domains, rejected, duplicates, truncated };
+};
+
+/**
+ * Computes the progress counters of a bulk check
+ * @param items - Queue items
+ * @returns Progress counters
+ */
+export const getBulkCheckProgress = (items: readonly BulkCheckItem[]): BulkCheckProgress => {
+  const countAvailability = (status: DomainAvailabilityStatus) =>
+    items.filter(item => item.state === 'done' && item.result?.availability === status).length;
+
+  return {
+    total: items.length,
+    processed: items.filter(item => item.state === 'done' || item.state === 'error').length,
+    available: countAvailability(DomainAvailabilityStatus.AVAILABLE),
+    notAvailable: countAvailability(DomainAvailabilityStatus.NOTAVAILABLE),
+    unknown: items.filter(isBulkItemUnknown).length,
+    inFlight: items.filter(item => item.state === 'checking').length
+  };
+};
+
+/**
+ * Checks if an item finished without a conclusive availability
+ * @param item - Queue item
+ * @returns true if the item can be retried
+ */
+export const isBulkItemUnknown = (item: BulkCheckItem): boolean => {
+  return item.state === 'error' ||
+    (item.state === 'done' && item.result?.availability === DomainAvailabilityStatus.UNKNOWN);
+};
+
+/**
+ * Filters bulk check results
+ * @param items - Queue items
+ * @param filter - Availability, registrar and expiry filters
+ * @returns Matching items
+ */
+export const filterBulkItems = (
+  items: readonly BulkCheckItem[],
+  filter: BulkResultFilter
+): BulkCheckItem[] => {
+  const registrarQuery = filter.registrar.trim().toLowerCase();
+
+  return items.filter(item => {
+    if (filter.availability !== 'all') {
+      const availability = item.state === 'error'
+        ? DomainAvailabilityStatus.UNKNOWN
+        : item.result?.availability;
+      if (availability !== filter.availability) return false;
+    }
+
+    if (registrarQuery && !item.result?.registrar?.toLowerCase().includes(registrarQuery)) {
+      return false;
+    }
+
+    if (filter.expiresWithinDays !== null) {
+      const expirationDate = item.result?.expirationDate;
+      if (!expirationDate || getDaysUntil(expirationDate) > filter.expiresWithinDays) return false;
+    }
+
+    return true;
+  });
+};
+
+/**
+ * Sort order of availability values: available first, unknown last
+ */
+const AVAILABILITY_SORT_ORDER: Readonly<Record<DomainAvailabilityStatus, number>> = Object.freeze({
+  [DomainAvailabilityStatus.AVAILABLE]: 0,
+  [DomainAvailabilityStatus.NOTAVAILABLE]: 1,
+  [DomainAvailabilityStatus.UNKNOWN]: 2
+});
+
+/**
+ * Sorts bulk check results; items without a value for the key always come last
+ * @param items - Queue items
+ * @param key - Column to sort on
+ * @param direction - Sort direction
+ * @returns Sorted copy of the items
+ */
+export const sortBulkItems = (
+  items: readonly BulkCheckItem[],
+  key: BulkSortKey,
+  direction: 'asc' | 'desc' = 'asc'
+): BulkCheckItem[] => {
+  const getValue = (item: BulkCheckItem): string | number | undefined => {
+    switch (key) {
+      case 'domain':
+        return item.domain;
+      case 'availability':
+        return item.result ? AVAILABILITY_SORT_ORDER[item.result.availability] : undefined;
+      case 'registrar':
+        return item.result?.registrar?.toLowerCase();
+      case 'expirationDate':
+        return item.result?.expirationDate?.getTime();
+    }
+  };
+
+  const factor = direction === 'asc' ? 1 : -1;
+
+  return [...items].sort((a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+
+    if (valueA === undefined || valueB === undefined) {
+      return valueA === valueB ? 0 : valueA === undefined ? 1 : -1;
+    }
+
+    const comparison = typeof valueA === 'number' && typeof valueB === 'number'
+      ? valueA - valueB
+      : String(valueA).localeCompare(String(valueB));
+
+    return comparison * factor;
+  });
+};
@@ -0,0 +1,197 @@
+import { DomainAvailabilityStatus } from '@/types';
+import {
+  DnsRecordType,
+  DnsResponseStatus,
+  type DnsConsensusResult,
+  type DnsDisagreement,
+  type DnsJsonResponse,
+  type DnsResolverAnswer,
+  type DnsResolverConfig,
+  type DnsResolverVerdict
+} from '@/types/dns';
+import { getDnsResolverLabel } from './dohUtil';
+
+/**
+ * DNS consensus utilities
+ * Pure functions comparing the answers of several resolvers to the same query
+ */
+
+/**
+ * Addresses returned by filtering resolvers instead of the real records
+ */
+const SINKHOLE_ADDRESSES: ReadonlySet<string> = new Set(['0.0.0.0', '127.0.0.1', '::', '::1']);
+
+/**
+ * Display names of the availability verdicts
+ */
+const VERDICT_LABELS: Readonly<Record<DomainAvailabilityStatus, string>> = Object.freeze({
+  [DomainAvailabilityStatus.AVAILABLE]: 'available',
+  [DomainAvailabilityStatus.NOTAVAILABLE]: 'registered',
+  [DomainAvailabilityStatus.UNKNOWN]: 'unknown'
+});
+
+/**
+ * Gets a display name of a response code
+ * @param status - DNS response code
+ * @returns Mnemonic such as NXDOMAIN
+ */
+const getStatusLabel = (status: DnsResponseStatus): string => DnsResponseStatus[status] ?? `RCODE ${status}`;
+
+/**
+ * Builds a comparable signature of the Answer section
+ *
+ * TTLs are left out since every resolver cache counts them down on its own.
+ *
+ * @param response - DNS response
+ * @returns Sorted "TYPE data" entries
+ */
+export const getAnswerSignature = (response: DnsJsonResponse): readonly string[] => {
+  return (response.Answer ?? [])
+    .map(record => `${DnsRecordType[record.type] ?? record.type} ${record.data.toLowerCase().replace(/\.$/, '')}`)
+    .sort();
+};
+
+/**
+ * Lists "value from resolvers" groups for a description
+ * @param groups - Resolver labels keyed by the value they returned
+ * @returns Text such as "NOERROR from Google; NXDOMAIN from Quad9"
+ */
+const describeGroups = (groups: ReadonlyMap<string, readonly string[]>): string => {
+  return Array.from(groups, ([value, labels]) => `${value} from ${labels.join(', ')}`).join('; ');
+};
+
+/**
+ * Groups resolver labels by a value derived from their answers
+ * @param answers - Successful resolver answers
+ * @param getValue - Derives the compared value
+ * @returns Resolver labels keyed by value
+ */
+const groupAnswers = (
+  answers: readonly DnsResolverAnswer[],
+  getValue: (response: DnsJsonResponse) => string
+): Map<string, string[]> => {
+  const groups = new Map<string, string[]>();
+  answers.forEach(answer => {
+    if (!answer.response) return;
+    const value = getValue(answer.response);
+    groups.set(value, [...(groups.get(value) ?? []), getDnsResolverLabel(answer.resolver)]);
+  });
+  return groups;
+};
+
+/**
+ * Compares the answers of several resolvers to the same query
+ *
+ * Different response codes usually mean a filtering resolver (NXDOMAIN or
+ * REFUSED for a blocked domain); the same code with different records points
+ * to split-horizon or geo DNS, or to a sinkhole address.
+ *
+ * @param answers - Answer of each resolver
+ * @returns Disagreements found, empty when every resolver agrees
+ */
+export const findDnsDisagreements = (answers: readonly DnsResolverAnswer[]): readonly DnsDisagreement[] => {
+  const disagreements: DnsDisagreement[] = answers
+    .filter(answer => !answer.response)
+    .map(answer => ({
+      kind: 'failure',
+      description: `${getDnsResolverLabel(answer.resolver)} did not answer: ${answer.error ?? 'unknown error'}`
+    }));
+
+  const answered = answers.filter(answer => answer.response);
+  const statusGroups = groupAnswers(answered, response => getStatusLabel(response.Status));
+
+  if (statusGroups.size > 1) {
+    disagreements.push({
+      kind: 'status',
+      description: `Response codes differ: ${describeGroups(statusGroups)}. A filtering resolver may be hiding this domain.`
+    });
+    return disagreements;
+  }
+
+  const answerGroups = groupAnswers(answered, response => getAnswerSignature(response).join(', ') || 'no records');
+  if (answerGroups.size > 1) {
+    const sinkholes = answered
+      .filter(answer => answer.response?.Answer?.some(record => SINKHOLE_ADDRESSES.has(record.data)))
+      .map(answer => getDnsResolverLabel(answer.resolver));
+
+    disagreements.push({
+      kind: 'answers',
+      description: sinkholes.length > 0
+        ? `Records differ: ${describeGroups(answerGroups)}. ${sinkholes.join(', ')} returned a sinkhole address and likely filters this domain.`
+        : `Records differ: ${describeGroups(answerGroups)}. Split-horizon or geo DNS can explain this.`
+    });
+  }
+
+  return disagreements;
+};
+
+/**
+ * Derives the consensus verdict of several resolvers
+ *
+ * UNKNOWN verdicts (failures, SERVFAIL) do not vote, but still count against
+ * the agreement. Confidence is high when every resolver agrees, medium for a
+ * strict majority and low otherwise; a tie yields UNKNOWN.
+ *
+ * @param verdicts - Verdict of each resolver
+ * @param disagreements - Disagreements found in the answers
+ * @returns Consensus result
+ */
+export const buildDnsConsensus = (
+  verdicts: readonly DnsResolverVerdict[],
+  disagreements: readonly DnsDisagreement[] = []
+): DnsConsensusResult => {
+  const votes = new Map<DomainAvailabilityStatus, string[]>();
+  verdicts.forEach(verdict => {
+    if (verdict.status === DomainAvailabilityStatus.UNKNOWN) return;
+    votes.set(verdict.status, [...(votes.get(verdict.status) ?? []), getDnsResolverLabel(verdict.resolver)]);
+  });
+
+  const ranked = Array.from(votes).sort(([, a], [, b]) => b.length - a.length);
+  const [leader, runnerUp] = ranked;
+  const allDisagreements = [...disagreements];
+
+  if (votes.size > 1) {
+    const groups = new Map(ranked.map(([status, labels]) => [VERDICT_LABELS[status], labels]));
+    allDisagreements.push({
+      kind: 'verdict',
+      description: `Resolvers disagree on availability: ${describeGroups(groups)}.`
+    });
+  }
+
+  if (!leader || (runnerUp && runnerUp[1].length === leader[1].length)) {
+    return {
+      status: DomainAvailabilityStatus.UNKNOWN,
+      confidence: 'low',
+      agreement: 0,
+      verdicts,
+      disagreements: allDisagreements
+    };
+  }
+
+  const [status, supporters] = leader;
+  const agreement = verdicts.length > 0 ? supporters.length / verdicts.length : 0;
+  const confidence = supporters.length === verdicts.length && verdicts.length > 1
+    ? 'high'
+    : supporters.length > verdicts.length / 2 ? 'medium' : 'low';
+
+  return { status, confidence, agreement, verdicts, disagreements: allDisagreements };
+};
+
+/**
+ * Combines the primary resolver with its consensus peers
+ * @param primary - Primary resolver
+ * @param peers - Consensus peers
+ * @returns Resolvers without duplicate endpoints, primary first
+ */
+export const mergeConsensusResolvers = (
+  primary: DnsResolverConfig,
+  peers: readonly DnsResolverConfig[]
+): readonly DnsResolverConfig[] => {
+  const seen = new Set<string>();
+  return [primary, ...peers].filter(resolver => {
+    const key = `${resolver.protocol}:${resolver.endpoint}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
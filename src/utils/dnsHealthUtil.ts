@@ -0,0 +1,472 @@
+import { DnsRecordType, DnsResponseStatus, type DnsJsonResponse } from '@/types/dns';
+import type { DnsHealthCheck, DnsHealthCheckStatus, DnsHealthReport } from '@/types/dnsHealth';
+
+/**
+ * DNS health utilities
+ * Pure checks run over the answers gathered for a health report
+ */
+
+/**
+ * SOA timer ranges (RFC 1912 section 2.2, RFC 2308 section 5), in seconds
+ */
+const SOA_LIMITS = Object.freeze({
+  MIN_REFRESH: 1200,
+  MAX_REFRESH: 86400,
+  MIN_EXPIRE: 604800,
+  MIN_NEGATIVE_TTL: 300,
+  MAX_NEGATIVE_TTL: 86400
+} as const);
+
+/**
+ * Score earned by each check status, info checks are not scored
+ */
+const STATUS_SCORES: Readonly<Record<Exclude<DnsHealthCheckStatus, 'info'>, number>> = Object.freeze({
+  pass: 1,
+  warn: 0.5,
+  fail: 0
+});
+
+/**
+ * Answers gathered for a health report; a missing response means the lookup failed
+ */
+export interface DnsHealthInput {
+  readonly domain: string;
+  readonly ns?: DnsJsonResponse;
+  readonly soa?: DnsJsonResponse;
+  readonly mx?: DnsJsonResponse;
+  readonly txt?: DnsJsonResponse;
+  /** TXT answer of _dmarc.<domain> */
+  readonly dmarc?: DnsJsonResponse;
+  readonly caa?: DnsJsonResponse;
+  readonly aaaa?: DnsJsonResponse;
+  /** A answer of each nameserver host */
+  readonly nsHosts: Readonly<Record<string, DnsJsonResponse | undefined>>;
+  /** A answer of each mail exchanger host */
+  readonly mxHosts: Readonly<Record<string, DnsJsonResponse | undefined>>;
+  /** Nameservers registered with the registry (RDAP), when available */
+  readonly rdapNameservers?: readonly string[];
+  /** Reference time for the SOA serial check (defaults to now) */
+  readonly now?: Date;
+}
+
+/**
+ * Normalizes a host name for comparisons
+ * @param host - Host name, possibly fully qualified
+ * @returns Lowercase host without trailing dot
+ */
+export const normalizeHost = (host: string): string => host.trim().toLowerCase().replace(/\.$/, '');
+
+/**
+ * Gets the data of the records of one type in the Answer section
+ * @param response - DNS response
+ * @param type - Record type
+ * @returns Record data
+ */
+const getAnswerData = (response: DnsJsonResponse | undefined, type: DnsRecordType): string[] => {
+  return (response?.Answer ?? []).filter(record => record.type === type).map(record => record.data);
+};
+
+/**
+ * Joins the character strings of a TXT record
+ * @param data - Record data, quoted ("v=spf1 " "-all") or raw
+ * @returns Unquoted text
+ */
+export const parseTxtData = (data: string): string => {
+  const strings = Array.from(data.matchAll(/"((?:[^"\\]|\\.)*)"/g), match => match[1]!.replace(/\\(.)/g, '$1'));
+  return strings.length > 0 ? strings.join('') : data.trim();
+};
+
+/**
+ * Parses the text form of an MX record
+ * @param data - Record data, e.g. "10 mail.example.com."
+ * @returns Preference and normalized host ("" for a null MX)
+ */
+export const parseMxRecord = (data: string): { readonly preference: number; readonly host: string } | null => {
+  const [preference, host] = data.trim().split(/\s+/);
+  if (!preference || host === undefined || isNaN(Number(preference))) return null;
+  return { preference: Number(preference), host: host === '.' ? '' : normalizeHost(host) };
+};
+
+/**
+ * Parses the text form of a CAA record, including the RFC 3597 form some resolvers return
+ * @param data - Record data, e.g. '0 issue "letsencrypt.org"' or "\# 22 00 05 69 73 73 75 65 ..."
+ * @returns Tag and value, or null when malformed
+ */
+export const parseCaaRecord = (data: string): { readonly tag: string; readonly value: string } | null => {
+  const generic = /^\\#\s+\d+\s+([0-9a-f\s]+)$/i.exec(data.trim());
+  if (generic) {
+    const bytes = generic[1]!.replace(/\s+/g, '').match(/../g)?.map(byte => parseInt(byte, 16)) ?? [];
+    const tagLength = bytes[1] ?? 0;
+    if (bytes.length < 2 + tagLength) return null;
+    const decode = (part: number[]): string => String.fromCharCode(...part);
+    return { tag: decode(bytes.slice(2, 2 + tagLength)).toLowerCase(), value: decode(bytes.slice(2 + tagLength)) };
+  }
+
+  const match = /^\d+\s+(\S+)\s+(.*)$/.exec(data.trim());
+  return match ? { tag: match[1]!.toLowerCase(), value: parseTxtData(match[2]!) } : null;
+};
+
+/**
+ * Checks whether a host lookup returned an address
+ * @param response - A answer of the host
+ * @returns true when the host resolves
+ */
+const hasAddress = (response: DnsJsonResponse | undefined): boolean => {
+  return response?.Status === DnsResponseStatus.NOERROR &&
+    (response.Answer ?? []).some(record => record.type === DnsRecordType.A || record.type === DnsRecordType.AAAA);
+};
+
+/**
+ * Builds the check reported when a lookup failed
+ * @param id - Check identifier
+ * @param label - Check label
+ * @param record - Queried record
+ * @returns Info check
+ */
+const lookupFailed = (id: DnsHealthCheck['id'], label: string, record: string): DnsHealthCheck => ({
+  id,
+  label,
+  status: 'info',
+  detail: `The ${record} lookup failed, so this was not checked`
+});
+
+/**
+ * Checks the number of nameservers (RFC 1034 asks for at least two)
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkNsCount = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'Nameservers';
+  if (!input.ns) return lookupFailed('ns-count', label, 'NS');
+
+  const hosts = getAnswerData(input.ns, DnsRecordType.NS).map(normalizeHost);
+  if (hosts.length === 0) {
+    return { id: 'ns-count', label, status: 'fail', detail: 'No NS records are published' };
+  }
+  return {
+    id: 'ns-count',
+    label,
+    status: hosts.length >= 2 ? 'pass' : 'warn',
+    detail: hosts.length >= 2
+      ? `${hosts.length} nameservers: ${hosts.join(', ')}`
+      : `Only one nameserver (${hosts[0]}); a second one keeps the domain up when it fails`
+  };
+};
+
+/**
+ * Checks that every nameserver host resolves, a common cause of lame delegations
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkNsResolvable = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'Nameserver addresses';
+  const hosts = Object.keys(input.nsHosts);
+  if (hosts.length === 0) {
+    return { id: 'ns-resolvable', label, status: 'info', detail: 'No nameserver to check' };
+  }
+
+  const unresolved = hosts.filter(host => !hasAddress(input.nsHosts[host]));
+  if (unresolved.length === 0) {
+    return { id: 'ns-resolvable', label, status: 'pass', detail: 'Every nameserver host resolves' };
+  }
+  return {
+    id: 'ns-resolvable',
+    label,
+    status: unresolved.length === hosts.length ? 'fail' : 'warn',
+    detail: `Nameserver${unresolved.length === 1 ? '' : 's'} without address (lame delegation): ${unresolved.join(', ')}`
+  };
+};
+
+/**
+ * Compares the published nameservers with those registered at the registry
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkNsRegistry = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'Nameservers match the registry';
+  const registered = (input.rdapNameservers ?? []).map(normalizeHost);
+  if (registered.length === 0) {
+    return { id: 'ns-registry', label, status: 'info', detail: 'The registry did not list nameservers' };
+  }
+  if (!input.ns) return lookupFailed('ns-registry', label, 'NS');
+
+  const published = getAnswerData(input.ns, DnsRecordType.NS).map(normalizeHost);
+  const onlyPublished = published.filter(host => !registered.includes(host));
+  const onlyRegistered = registered.filter(host => !published.includes(host));
+
+  if (onlyPublished.length === 0 && onlyRegistered.length === 0) {
+    return { id: 'ns-registry', label, status: 'pass', detail: 'The zone and the registry list the same nameservers' };
+  }
+  return {
+    id: 'ns-registry',
+    label,
+    status: 'warn',
+    detail: [
+      onlyRegistered.length > 0 && `registered only: ${onlyRegistered.join(', ')}`,
+      onlyPublished.length > 0 && `published only: ${onlyPublished.join(', ')}`
+    ].filter(Boolean).join('; ')
+  };
+};
+
+/**
+ * Checks the SOA serial and timers
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkSoa = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'SOA record';
+  if (!input.soa) return lookupFailed('soa', label, 'SOA');
+
+  const [data] = getAnswerData(input.soa, DnsRecordType.SOA);
+  const fields = data?.trim().split(/\s+/) ?? [];
+  if (fields.length < 7) {
+    return { id: 'soa', label, status: 'fail', detail: 'No SOA record at the zone apex' };
+  }
+
+  const [serial, refresh, retry, expire, negativeTtl] = fields.slice(2, 7).map(Number) as [number, number, number, number, number];
+  const problems: string[] = [];
+  const now = input.now ?? new Date();
+
+  const serialDate = /^(\d{4})(\d{2})(\d{2})\d{2}$/.exec(String(serial));
+  if (serialDate) {
+    const date = Date.UTC(+serialDate[1]!, +serialDate[2]! - 1, +serialDate[3]!);
+    if (date > now.getTime()) {
+      problems.push(`serial ${serial} is dated in the future`);
+    }
+  }
+  if (refresh < SOA_LIMITS.MIN_REFRESH || refresh > SOA_LIMITS.MAX_REFRESH) {
+    problems.push(`refresh ${refresh}s is outside ${SOA_LIMITS.MIN_REFRESH}–${SOA_LIMITS.MAX_REFRESH}s`);
+  }
+  if (retry >= refresh) {
+    problems.push(`retry ${retry}s is not shorter than refresh`);
+  }
+  if (expire < SOA_LIMITS.MIN_EXPIRE || expire <= refresh + retry) {
+    problems.push(`expire ${expire}s is too short`);
+  }
+  if (negativeTtl < SOA_LIMITS.MIN_NEGATIVE_TTL || negativeTtl > SOA_LIMITS.MAX_NEGATIVE_TTL) {
+    problems.push(`negative caching TTL ${negativeTtl}s is outside ${SOA_LIMITS.MIN_NEGATIVE_TTL}–${SOA_LIMITS.MAX_NEGATIVE_TTL}s`);
+  }
+
+  return {
+    id: 'soa',
+    label,
+    status: problems.length > 0 ? 'warn' : 'pass',
+    detail: problems.length > 0
+      ? `Unusual values: ${problems.join('; ')}`
+      : `Serial ${serial}, refresh ${refresh}s, retry ${retry}s, expire ${expire}s`
+  };
+};
+
+/**
+ * Checks that the domain publishes mail exchangers
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkMx = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'Mail exchangers';
+  if (!input.mx) return lookupFailed('mx', label, 'MX');
+
+  const records = getAnswerData(input.mx, DnsRecordType.MX).flatMap(data => parseMxRecord(data) ?? []);
+  if (records.length === 0) {
+    return { id: 'mx', label, status: 'info', detail: 'No MX record: the domain does not receive mail' };
+  }
+  if (records.every(record => record.host === '')) {
+    return { id: 'mx', label, status: 'pass', detail: 'Null MX: the domain explicitly refuses mail' };
+  }
+
+  const hosts = [...records].sort((a, b) => a.preference - b.preference).map(record => `${record.host} (${record.preference})`);
+  return { id: 'mx', label, status: 'pass', detail: hosts.join(', ') };
+};
+
+/**
+ * Checks that mail exchangers resolve to addresses rather than aliases (RFC 2181 section 10.3)
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkMxTargets = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'Mail exchanger targets';
+  const hosts = Object.keys(input.mxHosts);
+  if (hosts.length === 0) {
+    return { id: 'mx-cname', label, status: 'info', detail: 'No mail exchanger to check' };
+  }
+
+  const aliases = hosts.filter(host => (input.mxHosts[host]?.Answer ?? [])
+    .some(record => record.type === DnsRecordType.CNAME && normalizeHost(record.name) === host));
+  const unresolved = hosts.filter(host => !hasAddress(input.mxHosts[host]));
+
+  if (aliases.length > 0) {
+    return { id: 'mx-cname', label, status: 'fail', detail: `MX pointing at a CNAME: ${aliases.join(', ')}` };
+  }
+  if (unresolved.length > 0) {
+    return { id: 'mx-cname', label, status: 'fail', detail: `MX host without address: ${unresolved.join(', ')}` };
+  }
+  return { id: 'mx-cname', label, status: 'pass', detail: 'Every mail exchanger resolves to an address' };
+};
+
+/**
+ * Checks the SPF policy (RFC 7208)
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkSpf = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'SPF';
+  if (!input.txt) return lookupFailed('spf', label, 'TXT');
+
+  const policies = getAnswerData(input.txt, DnsRecordType.TXT)
+    .map(parseTxtData)
+    .filter(text => /^v=spf1(\s|$)/i.test(text));
+
+  if (policies.length === 0) {
+    return { id: 'spf', label, status: 'warn', detail: 'No SPF record: anyone can send mail claiming to be this domain' };
+  }
+  if (policies.length > 1) {
+    return { id: 'spf', label, status: 'fail', detail: `${policies.length} SPF records; receivers treat this as a permanent error` };
+  }
+
+  const policy = policies[0]!;
+  const terms = policy.toLowerCase().split(/\s+/);
+  const all = terms.find(term => /^[+?~-]?all$/.test(term));
+
+  if (!all) {
+    return terms.some(term => term.startsWith('redirect='))
+      ? { id: 'spf', label, status: 'pass', detail: policy }
+      : { id: 'spf', label, status: 'warn', detail: `No "all" mechanism, unlisted senders are neutral: ${policy}` };
+  }
+  if (all === 'all' || all === '+all') {
+    return { id: 'spf', label, status: 'fail', detail: `"${all}" lets any server send for this domain: ${policy}` };
+  }
+  if (all === '?all') {
+    return { id: 'spf', label, status: 'warn', detail: `"?all" leaves unlisted senders neutral: ${policy}` };
+  }
+  return { id: 'spf', label, status: 'pass', detail: policy };
+};
+
+/**
+ * Checks the DMARC policy (RFC 7489)
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkDmarc = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'DMARC';
+  if (!input.dmarc) return lookupFailed('dmarc', label, '_dmarc TXT');
+
+  const records = getAnswerData(input.dmarc, DnsRecordType.TXT)
+    .map(parseTxtData)
+    .filter(text => /^v=DMARC1\s*(;|$)/i.test(text));
+
+  if (records.length === 0) {
+    return { id: 'dmarc', label, status: 'warn', detail: 'No DMARC record at _dmarc' };
+  }
+  if (records.length > 1) {
+    return { id: 'dmarc', label, status: 'fail', detail: `${records.length} DMARC records; receivers ignore them all` };
+  }
+
+  const record = records[0]!;
+  const tags = new Map(record.split(';').map(part => {
+    const [tag = '', ...value] = part.split('=');
+    return [tag.trim().toLowerCase(), value.join('=').trim().toLowerCase()] as const;
+  }));
+  const policy = tags.get('p');
+  const percent = Number(tags.get('pct') ?? 100);
+
+  if (!policy) {
+    return { id: 'dmarc', label, status: 'fail', detail: `Missing policy (p=): ${record}` };
+  }
+  if (policy === 'none') {
+    return { id: 'dmarc', label, status: 'warn', detail: `Monitoring only (p=none): ${record}` };
+  }
+  if (percent < 100) {
+    return { id: 'dmarc', label, status: 'warn', detail: `Policy applied to ${percent}% of mail only: ${record}` };
+  }
+  return { id: 'dmarc', label, status: 'pass', detail: record };
+};
+
+/**
+ * Checks the CAA records (RFC 8659)
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkCaa = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'CAA';
+  if (!input.caa) return lookupFailed('caa', label, 'CAA');
+
+  const records = getAnswerData(input.caa, DnsRecordType.CAA).flatMap(data => parseCaaRecord(data) ?? []);
+  const issuers = records.filter(record => record.tag === 'issue' || record.tag === 'issuewild');
+
+  if (issuers.length === 0) {
+    return { id: 'caa', label, status: 'info', detail: 'No CAA record: any certificate authority may issue certificates' };
+  }
+  const names = Array.from(new Set(issuers.map(record => record.value.split(';')[0]!.trim() || 'none')));
+  return { id: 'caa', label, status: 'pass', detail: `Certificates restricted to ${names.join(', ')}` };
+};
+
+/**
+ * Checks that the domain is reachable over IPv6
+ * @param input - Gathered answers
+ * @returns Check result
+ */
+const checkIpv6 = (input: DnsHealthInput): DnsHealthCheck => {
+  const label = 'IPv6';
+  if (!input.aaaa) return lookupFailed('ipv6', label, 'AAAA');
+
+  const addresses = getAnswerData(input.aaaa, DnsRecordType.AAAA);
+  return addresses.length > 0
+    ? { id: 'ipv6', label, status: 'pass', detail: addresses.join(', ') }
+    : { id: 'ipv6', label, status: 'warn', detail: `No AAAA record for ${input.domain}` };
+};
+
+/**
+ * Gets the hosts a health report needs to resolve
+ * @param ns - NS answer
+ * @param mx - MX answer
+ * @returns Nameserver and mail exchanger hosts
+ */
+export const getHealthCheckHosts = (
+  ns: DnsJsonResponse | undefined,
+  mx: DnsJsonResponse | undefined
+): { readonly nsHosts: readonly string[]; readonly mxHosts: readonly string[] } => ({
+  nsHosts: Array.from(new Set(getAnswerData(ns, DnsRecordType.NS).map(normalizeHost))),
+  mxHosts: Array.from(new Set(getAnswerData(mx, DnsRecordType.MX)
+    .flatMap(data => parseMxRecord(data)?.host || [])))
+});
+
+/**
+ * Computes the score of a set of checks
+ * @param checks - Check results
+ * @returns Score from 0 to 100 (100 when nothing was scored)
+ */
+export const computeHealthScore = (checks: readonly DnsHealthCheck[]): number => {
+  const scored = checks.filter((check): check is DnsHealthCheck & { status: Exclude<DnsHealthCheckStatus, 'info'> } =>
+    check.status !== 'info');
+  if (scored.length === 0) return 100;
+
+  const total = scored.reduce((sum, check) => sum + STATUS_SCORES[check.status], 0);
+  return Math.round((total / scored.length) * 100);
+};
+
+/**
+ * Runs every health check over the gathered answers
+ * @param input - Gathered answers
+ * @returns Scored health report
+ */
+export const buildDnsHealthReport = (input: DnsHealthInput): DnsHealthReport => {
+  const checks = [
+    checkNsCount(input),
+    checkNsResolvable(input),
+    checkNsRegistry(input),
+    checkSoa(input),
+    checkMx(input),
+    checkMxTargets(input),
+    checkSpf(input),
+    checkDmarc(input),
+    checkCaa(input),
+    checkIpv6(input)
+  ];
+
+  return {
+    domain: input.domain,
+    score: computeHealthScore(checks),
+    checks,
+    checkedAt: input.now ?? new Date()
+  };
+};
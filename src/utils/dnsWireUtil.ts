@@ -0,0 +1,481 @@
+import {
+  DnsRecordType,
+  type DnsJsonResponse,
+  type DnsQueryOptions,
+  type DnsQuestion,
+  type DnsRecord
+} from '@/types/dns';
+
+/**
+ * DNS wire format utilities (RFC 1035, RFC 8484)
+ * Builds query packets and decodes responses into the DnsJsonResponse shape
+ * returned by the JSON DoH APIs, so callers do not depend on the transport
+ */
+
+/**
+ * Wire format constants
+ */
+const DNS_WIRE_CONFIG = Object.freeze({
+  HEADER_LENGTH: 12,
+  /** Internet class */
+  CLASS_IN: 1,
+  /** EDNS(0) pseudo-record, not reported by the JSON APIs */
+  TYPE_OPT: 41,
+  /** UDP payload size advertised in the OPT record (DNS flag day 2020) */
+  EDNS_PAYLOAD_SIZE: 1232,
+  MAX_LABEL_LENGTH: 63,
+  MAX_NAME_LENGTH: 255,
+  /** Compression pointers followed before giving up on a looping name */
+  MAX_POINTERS: 64
+} as const);
+
+/**
+ * Malformed or truncated DNS message
+ */
+export class DnsWireFormatError extends Error {
+  constructor(message: string, public readonly offset?: number) {
+    super(offset === undefined ? message : `${message} at byte ${offset}`);
+    this.name = 'DnsWireFormatError';
+  }
+}
+
+/**
+ * Encodes a domain name as length-prefixed labels
+ * @param name - Domain name (ASCII)
+ * @returns Encoded name ending with the root label
+ */
+export const encodeName = (name: string): number[] => {
+  const labels = name.replace(/\.$/, '').split('.').filter(Boolean);
+  const bytes: number[] = [];
+
+  for (const label of labels) {
+    if (label.length > DNS_WIRE_CONFIG.MAX_LABEL_LENGTH) {
+      throw new DnsWireFormatError(`Label "${label}" is longer than ${DNS_WIRE_CONFIG.MAX_LABEL_LENGTH} characters`);
+    }
+    bytes.push(label.length);
+    for (let i = 0; i < label.length; i++) {
+      const code = label.charCodeAt(i);
+      if (code > 0x7f) {
+        throw new DnsWireFormatError(`Label "${label}" is not ASCII, encode it as an A-label first`);
+      }
+      bytes.push(code);
+    }
+  }
+  bytes.push(0);
+
+  if (bytes.length > DNS_WIRE_CONFIG.MAX_NAME_LENGTH) {
+    throw new DnsWireFormatError(`Name "${name}" is longer than ${DNS_WIRE_CONFIG.MAX_NAME_LENGTH} bytes`);
+  }
+
+  return bytes;
+};
+
+/**
+ * Builds a recursive query packet with a single question
+ * @param domain - Domain name to query
+ * @param type - DNS record type
+ * @param id - Message ID (RFC 8484 recommends 0 so responses stay cacheable)
+ * @param options - Query options; dnssec adds an EDNS(0) OPT record with the DO bit
+ * @returns Query packet
+ */
+export const encodeDnsQuery = (
+  domain: string,
+  type: DnsRecordType,
+  id: number = 0,
+  options: DnsQueryOptions = {}
+): Uint8Array => {
+  const header = [
+    (id >> 8) & 0xff, id & 0xff,
+    0x01, 0x00, // RD
+    0x00, 0x01, // QDCOUNT
+    0x00, 0x00, // ANCOUNT
+    0x00, 0x00, // NSCOUNT
+    0x00, options.dnssec ? 0x01 : 0x00 // ARCOUNT
+  ];
+
+  const question = [
+    ...encodeName(domain),
+    (type >> 8) & 0xff, type & 0xff,
+    0x00, DNS_WIRE_CONFIG.CLASS_IN
+  ];
+
+  // OPT pseudo-record (RFC 6891): root name, payload size as class, DO bit in the TTL flags
+  const opt = options.dnssec
+    ? [
+      0x00,
+      0x00, DNS_WIRE_CONFIG.TYPE_OPT,
+      (DNS_WIRE_CONFIG.EDNS_PAYLOAD_SIZE >> 8) & 0xff, DNS_WIRE_CONFIG.EDNS_PAYLOAD_SIZE & 0xff,
+      0x00, 0x00, 0x80, 0x00,
+      0x00, 0x00
+    ]
+    : [];
+
+  return Uint8Array.from([...header, ...question, ...opt]);
+};
+
+/**
+ * Sequential reader over a DNS message
+ */
+class DnsMessageReader {
+  private readonly view: DataView;
+  offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Ensures enough bytes remain
+   * @param length - Bytes about to be read
+   * @param offset - Read position
+   */
+  private ensure(length: number, offset: number = this.offset): void {
+    if (offset + length > this.bytes.length) {
+      throw new DnsWireFormatError('Unexpected end of message', offset);
+    }
+  }
+
+  /**
+   * Reads an unsigned byte
+   * @returns Byte value
+   */
+  uint8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  /**
+   * Reads an unsigned 16-bit integer
+   * @returns Integer value
+   */
+  uint16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  /**
+   * Reads an unsigned 32-bit integer
+   * @returns Integer value
+   */
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Reads raw bytes
+   * @param length - Number of bytes
+   * @returns Copy of the bytes
+   */
+  bytesOf(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  /**
+   * Reads a possibly compressed domain name (RFC 1035 section 4.1.4)
+   * @returns Name without trailing dot ("" for the root)
+   */
+  name(): string {
+    const labels: string[] = [];
+    let position = this.offset;
+    let jumped = false;
+    let pointers = 0;
+
+    for (;;) {
+      this.ensure(1, position);
+      const length = this.bytes[position]!;
+
+      if ((length & 0xc0) === 0xc0) {
+        this.ensure(2, position);
+        if (++pointers > DNS_WIRE_CONFIG.MAX_POINTERS) {
+          throw new DnsWireFormatError('Compression pointer loop', position);
+        }
+        const target = ((length & 0x3f) << 8) | this.bytes[position + 1]!;
+        if (!jumped) this.offset = position + 2;
+        jumped = true;
+        position = target;
+        continue;
+      }
+
+      if (length & 0xc0) {
+        throw new DnsWireFormatError('Unsupported label type', position);
+      }
+
+      if (length === 0) {
+        if (!jumped) this.offset = position + 1;
+        return labels.join('.');
+      }
+
+      this.ensure(1 + length, position);
+      labels.push(String.fromCharCode(...this.bytes.slice(position + 1, position + 1 + length)));
+      position += 1 + length;
+    }
+  }
+}
+
+/**
+ * Formats a name found in RDATA the way the JSON APIs do (fully qualified)
+ * @param name - Decoded name
+ * @returns Name with trailing dot
+ */
+const toFqdn = (name: string): string => `${name}.`;
+
+/**
+ * Formats an IPv6 address in its compressed text form (RFC 5952)
+ * @param bytes - 16 address bytes
+ * @returns IPv6 text
+ */
+const formatIpv6 = (bytes: Uint8Array): string => {
+  const groups = Array.from({ length: 8 }, (_, i) => ((bytes[i * 2]! << 8) | bytes[i * 2 + 1]!));
+
+  // Longest run of at least two zero groups
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8;) {
+    if (groups[i] !== 0) { i++; continue; }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart < 0) return hex.join(':');
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+};
+
+/**
+ * Quotes a character string, escaping quotes and backslashes
+ * @param text - Decoded text
+ * @returns Quoted text
+ */
+const quoteText = (text: string): string => `"${text.replace(/(["\\])/g, '\\$1')}"`;
+
+/**
+ * Formats character strings (TXT) as quoted, space-separated strings
+ * @param rdata - RDATA bytes
+ * @returns Quoted text
+ */
+const formatCharacterStrings = (rdata: Uint8Array): string => {
+  const strings: string[] = [];
+  let position = 0;
+
+  while (position < rdata.length) {
+    const length = rdata[position]!;
+    const text = new TextDecoder().decode(rdata.slice(position + 1, position + 1 + length));
+    strings.push(quoteText(text));
+    position += 1 + length;
+  }
+
+  return strings.join(' ');
+};
+
+/**
+ * Formats bytes as uppercase hexadecimal (DS digests)
+ * @param bytes - Bytes to format
+ * @returns Hex text
+ */
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+/**
+ * Formats bytes as base64 (DNSKEY keys, RRSIG signatures)
+ * @param bytes - Bytes to format
+ * @returns base64 text
+ */
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+/**
+ * Formats a DNSSEC timestamp as YYYYMMDDHHmmSS (RFC 4034 section 3.2)
+ * @param seconds - Seconds since the epoch (serial number arithmetic is not applied)
+ * @returns Timestamp text
+ */
+const formatDnssecTime = (seconds: number): string => {
+  return new Date(seconds * 1000).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+};
+
+/**
+ * Gets the mnemonic of a record type
+ * @param type - Record type code
+ * @returns Mnemonic, or the RFC 3597 TYPEnnn form
+ */
+const getTypeMnemonic = (type: number): string => DnsRecordType[type] ?? `TYPE${type}`;
+
+/**
+ * Formats RDATA of an unsupported type (RFC 3597 generic syntax)
+ * @param rdata - RDATA bytes
+ * @returns Generic text, e.g. "\# 4 0a000001"
+ */
+const formatGenericRdata = (rdata: Uint8Array): string => {
+  const hex = Array.from(rdata, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `\\# ${rdata.length}${hex ? ` ${hex}` : ''}`;
+};
+
+/**
+ * Decodes the RDATA of a record into the text form used by the JSON APIs
+ * @param reader - Reader positioned at the RDATA
+ * @param type - Record type
+ * @param length - RDATA length
+ * @returns Record data text
+ */
+const decodeRdata = (reader: DnsMessageReader, type: number, length: number): string => {
+  const end = reader.offset + length;
+
+  const data = ((): string => {
+    switch (type) {
+      case DnsRecordType.A:
+        return Array.from(reader.bytesOf(4)).join('.');
+      case DnsRecordType.AAAA:
+        return formatIpv6(reader.bytesOf(16));
+      case DnsRecordType.NS:
+      case DnsRecordType.CNAME:
+      case DnsRecordType.PTR:
+        return toFqdn(reader.name());
+      case DnsRecordType.MX: {
+        const preference = reader.uint16();
+        return `${preference} ${toFqdn(reader.name())}`;
+      }
+      case DnsRecordType.SOA: {
+        const mname = toFqdn(reader.name());
+        const rname = toFqdn(reader.name());
+        const values = [reader.uint32(), reader.uint32(), reader.uint32(), reader.uint32(), reader.uint32()];
+        return [mname, rname, ...values].join(' ');
+      }
+      case DnsRecordType.TXT:
+        return formatCharacterStrings(reader.bytesOf(length));
+      case DnsRecordType.SRV: {
+        const [priority, weight, port] = [reader.uint16(), reader.uint16(), reader.uint16()];
+        return `${priority} ${weight} ${port} ${toFqdn(reader.name())}`;
+      }
+      case DnsRecordType.CAA: {
+        const flags = reader.uint8();
+        const tag = String.fromCharCode(...reader.bytesOf(reader.uint8()));
+        const value = new TextDecoder().decode(reader.bytesOf(end - reader.offset));
+        return `${flags} ${tag} ${quoteText(value)}`;
+      }
+      case DnsRecordType.DS: {
+        const [keyTag, algorithm, digestType] = [reader.uint16(), reader.uint8(), reader.uint8()];
+        return `${keyTag} ${algorithm} ${digestType} ${toHex(reader.bytesOf(end - reader.offset))}`;
+      }
+      case DnsRecordType.DNSKEY: {
+        const [flags, protocol, algorithm] = [reader.uint16(), reader.uint8(), reader.uint8()];
+        return `${flags} ${protocol} ${algorithm} ${toBase64(reader.bytesOf(end - reader.offset))}`;
+      }
+      case DnsRecordType.RRSIG: {
+        const typeCovered = getTypeMnemonic(reader.uint16());
+        const [algorithm, labels] = [reader.uint8(), reader.uint8()];
+        const [originalTtl, expiration, inception] = [reader.uint32(), reader.uint32(), reader.uint32()];
+        const keyTag = reader.uint16();
+        const signer = toFqdn(reader.name());
+        const signature = toBase64(reader.bytesOf(end - reader.offset));
+        return [
+          typeCovered, algorithm, labels, originalTtl,
+          formatDnssecTime(expiration), formatDnssecTime(inception),
+          keyTag, signer, signature
+        ].join(' ');
+      }
+      default:
+        return formatGenericRdata(reader.bytesOf(length));
+    }
+  })();
+
+  if (reader.offset !== end) {
+    throw new DnsWireFormatError(`RDATA of type ${type} does not match its length`, reader.offset);
+  }
+
+  return data;
+};
+
+/**
+ * Reads the records of a message section
+ * @param reader - Reader positioned at the section
+ * @param count - Number of records
+ * @returns Records, without EDNS OPT pseudo-records
+ */
+const readRecords = (reader: DnsMessageReader, count: number): DnsRecord[] => {
+  const records: DnsRecord[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const name = reader.name();
+    const type = reader.uint16();
+    reader.uint16(); // class
+    const ttl = reader.uint32();
+    const length = reader.uint16();
+
+    if (type === DNS_WIRE_CONFIG.TYPE_OPT) {
+      reader.bytesOf(length);
+      continue;
+    }
+
+    records.push({ name, type, TTL: ttl, data: decodeRdata(reader, type, length) });
+  }
+
+  return records;
+};
+
+/**
+ * Decodes a DNS response message
+ * @param message - Response bytes
+ * @returns Response in the JSON API shape
+ * @throws DnsWireFormatError when the message is malformed
+ */
+export const decodeDnsResponse = (message: Uint8Array): DnsJsonResponse => {
+  if (message.length < DNS_WIRE_CONFIG.HEADER_LENGTH) {
+    throw new DnsWireFormatError('Message shorter than a DNS header');
+  }
+
+  const reader = new DnsMessageReader(message);
+  reader.uint16(); // ID
+  const flags = reader.uint16();
+  const questionCount = reader.uint16();
+  const answerCount = reader.uint16();
+  const authorityCount = reader.uint16();
+  const additionalCount = reader.uint16();
+
+  if (!(flags & 0x8000)) {
+    throw new DnsWireFormatError('Message is a query, not a response');
+  }
+
+  const questions: DnsQuestion[] = [];
+  for (let i = 0; i < questionCount; i++) {
+    const name = reader.name();
+    const type = reader.uint16();
+    reader.uint16(); // class
+    questions.push({ name, type });
+  }
+
+  const answer = readRecords(reader, answerCount);
+  const authority = readRecords(reader, authorityCount);
+  const additional = readRecords(reader, additionalCount);
+
+  return {
+    Status: flags & 0x000f,
+    TC: Boolean(flags & 0x0200),
+    RD: Boolean(flags & 0x0100),
+    RA: Boolean(flags & 0x0080),
+    AD: Boolean(flags & 0x0020),
+    CD: Boolean(flags & 0x0010),
+    Question: questions,
+    ...(answer.length > 0 && { Answer: answer }),
+    ...(authority.length > 0 && { Authority: authority }),
+    ...(additional.length > 0 && { Additional: additional })
+  };
+};
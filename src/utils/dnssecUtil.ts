@@ -0,0 +1,397 @@
+import { DnsRecordType, DnsResponseStatus, type DnsJsonResponse } from '@/types/dns';
+import type {
+  DnssecDsMatch,
+  DnssecDsRecord,
+  DnssecKey,
+  DnssecRdapComparison,
+  DnssecReport,
+  DnssecSignature,
+  DnssecStatus
+} from '@/types/dnssec';
+import type { RdapSecureDns } from '@/types/rdap';
+import { encodeName } from './dnsWireUtil';
+
+/**
+ * DNSSEC utilities
+ * Parses DS, DNSKEY and RRSIG records and checks the chain between the parent and the zone
+ */
+
+/**
+ * DNSSEC algorithm names (IANA DNS Security Algorithm Numbers)
+ */
+export const DNSSEC_ALGORITHMS: Readonly<Record<number, string>> = Object.freeze({
+  5: 'RSASHA1',
+  7: 'RSASHA1-NSEC3-SHA1',
+  8: 'RSASHA256',
+  10: 'RSASHA512',
+  13: 'ECDSAP256SHA256',
+  14: 'ECDSAP384SHA384',
+  15: 'ED25519',
+  16: 'ED448'
+});
+
+/**
+ * DS digest types computed with Web Crypto (IANA DS RR Type Digest Algorithms)
+ */
+export const DS_DIGEST_TYPES: Readonly<Record<number, { readonly label: string; readonly algorithm: string }>> = Object.freeze({
+  1: { label: 'SHA-1', algorithm: 'SHA-1' },
+  2: { label: 'SHA-256', algorithm: 'SHA-256' },
+  4: { label: 'SHA-384', algorithm: 'SHA-384' }
+});
+
+/**
+ * DNSKEY flag bits (RFC 4034 section 2.1.1)
+ */
+const DNSKEY_FLAGS = Object.freeze({
+  ZONE_KEY: 0x0100,
+  SECURE_ENTRY_POINT: 0x0001
+} as const);
+
+/**
+ * Summary of each DNSSEC status
+ */
+const STATUS_SUMMARIES: Readonly<Record<DnssecStatus, string>> = Object.freeze({
+  signed: 'DNSSEC signed: the parent DS record matches a key of the zone',
+  unsigned: 'Not signed: the parent zone publishes no DS record',
+  broken: 'Broken chain of trust: validating resolvers may fail to resolve this domain',
+  unknown: 'DNSSEC status unknown: the resolver did not answer'
+});
+
+/**
+ * Inputs of a DNSSEC report
+ */
+export interface DnssecReportInput {
+  readonly domain: string;
+  /** DS query answered with the DO bit */
+  readonly dsResponse: DnsJsonResponse;
+  /** DNSKEY query answered with the DO bit */
+  readonly dnskeyResponse: DnsJsonResponse;
+  /** RDAP secure DNS data, when the registry returned any */
+  readonly rdap?: RdapSecureDns;
+  /** Reference time for signature validity (defaults to now) */
+  readonly now?: Date;
+}
+
+/**
+ * Decodes base64 text into bytes
+ * @param text - base64 text, whitespace allowed
+ * @returns Bytes, or null for invalid base64
+ */
+const fromBase64 = (text: string): Uint8Array | null => {
+  try {
+    return Uint8Array.from(atob(text.replace(/\s+/g, '')), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Formats bytes as uppercase hexadecimal
+ * @param buffer - Bytes to format
+ * @returns Hex text
+ */
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+/**
+ * Parses a DNSSEC timestamp, either YYYYMMDDHHmmSS or seconds since the epoch
+ * @param value - Timestamp text
+ * @returns Date, or null when unreadable
+ */
+const parseDnssecTime = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(value);
+  const date = match
+    ? new Date(Date.UTC(+match[1]!, +match[2]! - 1, +match[3]!, +match[4]!, +match[5]!, +match[6]!))
+    : /^\d+$/.test(value) ? new Date(Number(value) * 1000) : null;
+
+  return date && !isNaN(date.getTime()) ? date : null;
+};
+
+/**
+ * Computes the key tag of a DNSKEY (RFC 4034 appendix B)
+ * @param rdata - DNSKEY RDATA (flags, protocol, algorithm, public key)
+ * @returns Key tag
+ */
+const computeKeyTag = (rdata: Uint8Array): number => {
+  let sum = 0;
+  rdata.forEach((byte, index) => {
+    sum += index & 1 ? byte : byte << 8;
+  });
+  sum += (sum >> 16) & 0xffff;
+  return sum & 0xffff;
+};
+
+/**
+ * Builds the RDATA of a DNSKEY
+ * @param key - Parsed key fields
+ * @returns RDATA bytes, or null when the public key is not valid base64
+ */
+const buildDnskeyRdata = (key: Pick<DnssecKey, 'flags' | 'protocol' | 'algorithm' | 'publicKey'>): Uint8Array | null => {
+  const publicKey = fromBase64(key.publicKey);
+  if (!publicKey) return null;
+
+  return Uint8Array.from([(key.flags >> 8) & 0xff, key.flags & 0xff, key.protocol, key.algorithm, ...publicKey]);
+};
+
+/**
+ * Parses the text form of a DS record
+ * @param data - Record data, e.g. "2371 13 2 1F98..."
+ * @returns DS fields, or null when malformed
+ */
+export const parseDsRecord = (data: string): DnssecDsRecord | null => {
+  const [keyTag, algorithm, digestType, ...digest] = data.trim().split(/\s+/);
+  const digestHex = digest.join('').toUpperCase();
+
+  if (!keyTag || !algorithm || !digestType || !/^[0-9A-F]+$/.test(digestHex)) return null;
+
+  return { keyTag: Number(keyTag), algorithm: Number(algorithm), digestType: Number(digestType), digest: digestHex };
+};
+
+/**
+ * Parses the text form of a DNSKEY record
+ * @param data - Record data, e.g. "257 3 13 mdsswUyr..."
+ * @returns Key fields with the computed key tag, or null when malformed
+ */
+export const parseDnskeyRecord = (data: string): DnssecKey | null => {
+  const [flags, protocol, algorithm, ...publicKey] = data.trim().split(/\s+/);
+  if (!flags || !protocol || !algorithm || publicKey.length === 0) return null;
+
+  const fields = {
+    flags: Number(flags),
+    protocol: Number(protocol),
+    algorithm: Number(algorithm),
+    publicKey: publicKey.join('')
+  };
+  const rdata = buildDnskeyRdata(fields);
+  if (!rdata || [fields.flags, fields.protocol, fields.algorithm].some(isNaN)) return null;
+
+  return {
+    ...fields,
+    keyTag: computeKeyTag(rdata),
+    isSecureEntryPoint: Boolean(fields.flags & DNSKEY_FLAGS.SECURE_ENTRY_POINT)
+  };
+};
+
+/**
+ * Parses the text form of an RRSIG record
+ * @param data - Record data, e.g. "DNSKEY 13 2 3600 20240101000000 20231201000000 2371 example.com. abc..."
+ * @returns Signature fields, or null when malformed
+ */
+export const parseRrsigRecord = (data: string): DnssecSignature | null => {
+  const [typeCovered, algorithm, , , expiration, inception, keyTag, signer] = data.trim().split(/\s+/);
+  const expirationDate = parseDnssecTime(expiration ?? '');
+  const inceptionDate = parseDnssecTime(inception ?? '');
+
+  if (!typeCovered || !algorithm || !keyTag || !signer || !expirationDate || !inceptionDate) return null;
+
+  return {
+    typeCovered: typeCovered.toUpperCase(),
+    algorithm: Number(algorithm),
+    keyTag: Number(keyTag),
+    signer: signer.replace(/\.$/, ''),
+    inception: inceptionDate,
+    expiration: expirationDate
+  };
+};
+
+/**
+ * Computes the DS digest of a DNSKEY (RFC 4034 section 5.1.4)
+ * @param owner - Owner name of the DNSKEY
+ * @param key - Zone key
+ * @param digestType - DS digest type
+ * @returns Promise resolving to the uppercase hex digest, or null for an unsupported digest type
+ */
+export const computeDsDigest = async (owner: string, key: DnssecKey, digestType: number): Promise<string | null> => {
+  const digest = DS_DIGEST_TYPES[digestType];
+  const rdata = buildDnskeyRdata(key);
+  if (!digest || !rdata) return null;
+
+  const name = encodeName(owner.toLowerCase());
+  const input = Uint8Array.from([...name, ...rdata]);
+  return toHex(await crypto.subtle.digest(digest.algorithm, input));
+};
+
+/**
+ * Checks each DS record against the zone keys
+ * @param owner - Domain name
+ * @param dsRecords - DS records of the parent zone
+ * @param keys - DNSKEY records of the zone
+ * @returns Promise resolving to the outcome of each DS record
+ */
+export const matchDsRecords = async (
+  owner: string,
+  dsRecords: readonly DnssecDsRecord[],
+  keys: readonly DnssecKey[]
+): Promise<readonly DnssecDsMatch[]> => {
+  return Promise.all(dsRecords.map(async (ds): Promise<DnssecDsMatch> => {
+    if (!DS_DIGEST_TYPES[ds.digestType]) {
+      return { ds, result: 'unsupported-digest' };
+    }
+
+    const candidates = keys.filter(key => key.keyTag === ds.keyTag && key.algorithm === ds.algorithm);
+    if (candidates.length === 0) {
+      return { ds, result: 'no-key' };
+    }
+
+    for (const key of candidates) {
+      if (await computeDsDigest(owner, key, ds.digestType) === ds.digest) {
+        return { ds, result: 'match' };
+      }
+    }
+    return { ds, result: 'mismatch' };
+  }));
+};
+
+/**
+ * Builds a comparable key of a DS record
+ * @param ds - DS record
+ * @returns Key combining key tag, algorithm, digest type and digest
+ */
+const getDsKey = (ds: DnssecDsRecord): string => `${ds.keyTag}/${ds.algorithm}/${ds.digestType}/${ds.digest}`;
+
+/**
+ * Compares the RDAP secure DNS data with the DS records of the parent zone
+ * @param rdap - RDAP secure DNS data
+ * @param dsRecords - DS records of the parent zone
+ * @returns Comparison and the problems found
+ */
+const compareWithRdap = (
+  rdap: RdapSecureDns,
+  dsRecords: readonly DnssecDsRecord[]
+): { readonly comparison: DnssecRdapComparison; readonly issues: readonly string[] } => {
+  const issues: string[] = [];
+  const dsData = (rdap.dsData ?? []).map(ds => ({
+    keyTag: ds.keyTag,
+    algorithm: ds.algorithm,
+    digestType: ds.digestType,
+    digest: ds.digest.replace(/\s+/g, '').toUpperCase()
+  }));
+
+  if (rdap.delegationSigned && dsRecords.length === 0) {
+    issues.push('The registry reports a signed delegation, but the parent zone publishes no DS record');
+  } else if (!rdap.delegationSigned && dsRecords.length > 0) {
+    issues.push('The parent zone publishes DS records, but the registry reports an unsigned delegation');
+  }
+
+  if (dsData.length > 0) {
+    const published = new Set(dsRecords.map(getDsKey));
+    const registered = new Set(dsData.map(getDsKey));
+    const missing = dsData.filter(ds => !published.has(getDsKey(ds)));
+    const unregistered = dsRecords.filter(ds => !registered.has(getDsKey(ds)));
+
+    if (missing.length > 0) {
+      issues.push(`DS record${missing.length === 1 ? '' : 's'} with key tag ${missing.map(ds => ds.keyTag).join(', ')} registered in RDAP but not published in DNS`);
+    }
+    if (unregistered.length > 0) {
+      issues.push(`DS record${unregistered.length === 1 ? '' : 's'} with key tag ${unregistered.map(ds => ds.keyTag).join(', ')} published in DNS but not registered in RDAP`);
+    }
+  }
+
+  return {
+    comparison: { delegationSigned: rdap.delegationSigned, dsData, consistent: issues.length === 0 },
+    issues
+  };
+};
+
+/**
+ * Derives the DNSSEC status of a domain from its DS and DNSKEY answers
+ *
+ * The DS query reaches the parent zone and the DNSKEY query the zone itself.
+ * A matching DS digest proves the delegation; expired signatures, missing
+ * keys or a SERVFAIL from a validating resolver mean a broken chain.
+ *
+ * @param input - DNS answers, RDAP data and reference time
+ * @returns Promise resolving to the DNSSEC report
+ */
+export const buildDnssecReport = async (input: DnssecReportInput): Promise<DnssecReport> => {
+  const { domain, dsResponse, dnskeyResponse } = input;
+  const now = input.now ?? new Date();
+  const issues: string[] = [];
+
+  const parseAnswers = <T>(response: DnsJsonResponse, type: DnsRecordType, parse: (data: string) => T | null): T[] =>
+    (response.Answer ?? [])
+      .filter(record => record.type === type)
+      .flatMap(record => {
+        const parsed = parse(record.data);
+        return parsed ? [parsed] : [];
+      });
+
+  const ds = parseAnswers(dsResponse, DnsRecordType.DS, parseDsRecord);
+  const keys = parseAnswers(dnskeyResponse, DnsRecordType.DNSKEY, parseDnskeyRecord)
+    .filter(key => key.flags & DNSKEY_FLAGS.ZONE_KEY);
+  const signatures = parseAnswers(dnskeyResponse, DnsRecordType.RRSIG, parseRrsigRecord)
+    .filter(signature => signature.typeCovered === 'DNSKEY');
+  const dsMatches = await matchDsRecords(domain, ds, keys);
+  const validated = dnskeyResponse.Status === DnsResponseStatus.NOERROR && dnskeyResponse.AD;
+
+  const rdapResult = input.rdap ? compareWithRdap(input.rdap, ds) : undefined;
+
+  const status = ((): DnssecStatus => {
+    if (dsResponse.Status === DnsResponseStatus.NXDOMAIN) {
+      issues.push('The domain is not delegated');
+      return 'unsigned';
+    }
+    if (dsResponse.Status !== DnsResponseStatus.NOERROR) {
+      return 'unknown';
+    }
+
+    if (ds.length === 0) {
+      if (keys.length > 0) {
+        issues.push('The zone publishes DNSKEY records but the parent has no DS record, so nothing validates them');
+      }
+      return 'unsigned';
+    }
+
+    if (dnskeyResponse.Status === DnsResponseStatus.SERVFAIL) {
+      issues.push('The resolver failed to validate the zone keys (SERVFAIL)');
+      return 'broken';
+    }
+    if (dnskeyResponse.Status !== DnsResponseStatus.NOERROR) {
+      return 'unknown';
+    }
+    if (keys.length === 0) {
+      issues.push('The parent zone publishes DS records but the zone serves no DNSKEY');
+      return 'broken';
+    }
+
+    dsMatches
+      .filter(match => match.result !== 'match')
+      .forEach(({ ds: record, result }) => {
+        issues.push(result === 'unsupported-digest'
+          ? `DS ${record.keyTag} uses digest type ${record.digestType}, which cannot be checked here`
+          : `DS ${record.keyTag} does not match any DNSKEY of the zone`);
+      });
+    if (!dsMatches.some(match => match.result === 'match')) {
+      return dsMatches.every(match => match.result === 'unsupported-digest') ? 'unknown' : 'broken';
+    }
+
+    if (signatures.length === 0) {
+      issues.push('No RRSIG was returned for the DNSKEY set; the resolver may strip DNSSEC records');
+    } else if (signatures.every(signature => signature.expiration.getTime() < now.getTime())) {
+      issues.push(`The DNSKEY signatures expired on ${signatures[0]!.expiration.toISOString().slice(0, 10)}`);
+      return 'broken';
+    } else if (signatures.every(signature => signature.inception.getTime() > now.getTime())) {
+      issues.push('The DNSKEY signatures are not valid yet');
+      return 'broken';
+    }
+
+    if (!validated) {
+      issues.push('The resolver did not set the AD flag, so it did not validate the answer itself');
+    }
+    return 'signed';
+  })();
+
+  return {
+    domain,
+    status,
+    summary: STATUS_SUMMARIES[status],
+    validated,
+    ds,
+    keys,
+    signatures,
+    dsMatches,
+    rdap: rdapResult?.comparison,
+    issues: [...issues, ...(rdapResult?.issues ?? [])]
+  };
+};
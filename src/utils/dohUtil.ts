@@ -0,0 +1,259 @@
+import type {
+  DnsConsensusSetting,
+  DnsJsonResponse,
+  DnsQueryOptions,
+  DnsRecord,
+  DnsRecordType,
+  DnsResolverConfig,
+  DnsResolverProtocol,
+  DnsResolverProvider,
+  DnsResolverSetting
+} from '@/types/dns';
+import { encodeDnsQuery } from './dnsWireUtil';
+
+/**
+ * DNS over HTTPS utilities
+ * Pure functions describing the DoH providers and building their requests
+ */
+
+/**
+ * Settings store key of the resolver choice, shared with the Service Worker
+ */
+export const DNS_RESOLVER_SETTING_KEY = 'dnsResolver';
+
+/**
+ * Settings store key of the consensus mode choice, shared with the Service Worker
+ */
+export const DNS_CONSENSUS_SETTING_KEY = 'dnsConsensus';
+
+/**
+ * Description of a DoH provider
+ */
+interface DohProviderDefinition {
+  readonly label: string;
+  readonly protocol: DnsResolverProtocol;
+  /** Default endpoint, editable for the custom providers */
+  readonly endpoint: string;
+  readonly customEndpoint: boolean;
+}
+
+/**
+ * Supported DoH providers
+ * @see https://developers.cloudflare.com/1.1.1.1/encryption/dns-over-https/
+ * @see https://developers.google.com/speed/public-dns/docs/doh/json
+ */
+export const DOH_PROVIDERS: Readonly<Record<DnsResolverProvider, DohProviderDefinition>> = Object.freeze({
+  cloudflare: {
+    label: 'Cloudflare (JSON)',
+    protocol: 'json',
+    endpoint: 'https://cloudflare-dns.com/dns-query',
+    customEndpoint: false
+  },
+  google: {
+    label: 'Google (JSON)',
+    protocol: 'json',
+    endpoint: 'https://dns.google/resolve',
+    customEndpoint: false
+  },
+  custom: {
+    label: 'Custom JSON endpoint',
+    protocol: 'json',
+    endpoint: '',
+    customEndpoint: true
+  },
+  wire: {
+    label: 'RFC 8484 wire format',
+    protocol: 'wire',
+    endpoint: 'https://cloudflare-dns.com/dns-query',
+    customEndpoint: true
+  }
+});
+
+/**
+ * Resolver used until a setting says otherwise
+ */
+export const DEFAULT_DNS_RESOLVER: DnsResolverConfig = Object.freeze({
+  provider: 'cloudflare',
+  protocol: DOH_PROVIDERS.cloudflare.protocol,
+  endpoint: DOH_PROVIDERS.cloudflare.endpoint
+});
+
+/**
+ * Resolvers offered as consensus peers of the primary resolver
+ * @see https://www.quad9.net/news/blog/doh-with-quad9-dns-servers/
+ */
+export const CONSENSUS_RESOLVER_PRESETS: readonly { readonly label: string; readonly setting: DnsResolverSetting }[] = Object.freeze([
+  { label: 'Cloudflare', setting: { provider: 'cloudflare' } },
+  { label: 'Google', setting: { provider: 'google' } },
+  { label: 'Quad9', setting: { provider: 'wire', endpoint: 'https://dns.quad9.net/dns-query' } }
+]);
+
+/**
+ * Consensus mode used until a setting says otherwise
+ */
+export const DEFAULT_DNS_CONSENSUS_SETTING: DnsConsensusSetting = Object.freeze({
+  enabled: false,
+  resolvers: []
+});
+
+/**
+ * Media types of each DoH transport
+ */
+const DOH_MEDIA_TYPES: Readonly<Record<DnsResolverProtocol, string>> = Object.freeze({
+  json: 'application/dns-json',
+  wire: 'application/dns-message'
+});
+
+/**
+ * Validates a DoH endpoint URL
+ * @param endpoint - Endpoint entered by the user
+ * @returns Error message, or null when the endpoint is usable
+ */
+export const validateDohEndpoint = (endpoint: string): string | null => {
+  let url: URL;
+  try {
+    url = new URL(endpoint.trim());
+  } catch {
+    return 'Enter a full URL, e.g. https://dns.example.com/dns-query';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'DNS over HTTPS endpoints must use https://';
+  }
+  if (url.search || url.hash) {
+    return 'Enter the endpoint without query string';
+  }
+
+  return null;
+};
+
+/**
+ * Turns a stored resolver setting into a resolver configuration
+ * @param setting - Stored setting (missing or unknown values fall back to the default resolver)
+ * @returns Resolver configuration, or an error for an invalid custom endpoint
+ */
+export const resolveDnsResolverSetting = (
+  setting?: DnsResolverSetting | null
+): { readonly resolver?: DnsResolverConfig; readonly error?: string } => {
+  const provider = setting && setting.provider in DOH_PROVIDERS ? DOH_PROVIDERS[setting.provider] : null;
+  if (!setting || !provider) {
+    return { resolver: DEFAULT_DNS_RESOLVER };
+  }
+
+  const endpoint = provider.customEndpoint && setting.endpoint?.trim()
+    ? setting.endpoint.trim()
+    : provider.endpoint;
+
+  const endpointError = validateDohEndpoint(endpoint);
+  if (endpointError) {
+    return { error: endpointError };
+  }
+
+  return { resolver: { provider: setting.provider, protocol: provider.protocol, endpoint } };
+};
+
+/**
+ * Turns a stored consensus setting into the resolvers queried alongside the primary one
+ * @param setting - Stored setting
+ * @returns Peer resolvers, empty when consensus mode is off (invalid entries are skipped)
+ */
+export const resolveDnsConsensusSetting = (setting?: DnsConsensusSetting | null): readonly DnsResolverConfig[] => {
+  if (!setting?.enabled || !Array.isArray(setting.resolvers)) {
+    return [];
+  }
+
+  return setting.resolvers.flatMap(entry => {
+    const { resolver } = resolveDnsResolverSetting(entry);
+    return resolver ? [resolver] : [];
+  });
+};
+
+/**
+ * Gets a short display name of a resolver
+ * @param resolver - Resolver configuration
+ * @returns Preset name, or the endpoint host for other endpoints
+ */
+export const getDnsResolverLabel = (resolver: DnsResolverConfig): string => {
+  const preset = CONSENSUS_RESOLVER_PRESETS.find(({ setting }) => {
+    const { resolver: presetResolver } = resolveDnsResolverSetting(setting);
+    return presetResolver?.protocol === resolver.protocol && presetResolver.endpoint === resolver.endpoint;
+  });
+  if (preset) {
+    return preset.label;
+  }
+
+  try {
+    return new URL(resolver.endpoint).host;
+  } catch {
+    return resolver.endpoint;
+  }
+};
+
+/**
+ * Encodes bytes as unpadded base64url (RFC 8484 GET requests)
+ * @param bytes - Bytes to encode
+ * @returns base64url text
+ */
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Builds the HTTP request of a DNS query
+ * @param resolver - Resolver to query
+ * @param domain - Domain name
+ * @param type - DNS record type
+ * @param options - Query options
+ * @returns Request URL and fetch options
+ */
+export const buildDohRequest = (
+  resolver: DnsResolverConfig,
+  domain: string,
+  type: DnsRecordType,
+  options: DnsQueryOptions = {}
+): { readonly url: string; readonly init: RequestInit } => {
+  // The JSON APIs of Cloudflare and Google take the DO bit as a do=1 parameter
+  const query = resolver.protocol === 'wire'
+    ? `dns=${toBase64Url(encodeDnsQuery(domain, type, 0, options))}`
+    : `name=${encodeURIComponent(domain)}&type=${type}${options.dnssec ? '&do=1' : ''}`;
+
+  return {
+    url: `${resolver.endpoint}?${query}`,
+    init: {
+      headers: { 'accept': DOH_MEDIA_TYPES[resolver.protocol] },
+      mode: 'cors',
+      cache: 'no-cache'
+    }
+  };
+};
+
+/**
+ * Strips the trailing dot of a fully qualified name
+ * @param name - Owner name
+ * @returns Name without trailing dot
+ */
+const stripTrailingDot = (name: string): string => name.length > 1 ? name.replace(/\.$/, '') : name;
+
+/**
+ * Normalizes a JSON API response so every provider reports owner names the same way
+ *
+ * Google returns fully qualified names ("example.com.") while Cloudflare omits
+ * the trailing dot, which the SOA ownership checks compare against.
+ *
+ * @param response - Response from a JSON DoH provider
+ * @returns Response with owner names without trailing dot
+ */
+export const normalizeDnsJsonResponse = (response: DnsJsonResponse): DnsJsonResponse => {
+  const normalizeRecords = (records?: readonly DnsRecord[]): readonly DnsRecord[] | undefined =>
+    records?.map(record => ({ ...record, name: stripTrailingDot(record.name) }));
+
+  return {
+    ...response,
+    Question: (response.Question ?? []).map(question => ({ ...question, name: stripTrailingDot(question.name) })),
+    Answer: normalizeRecords(response.Answer),
+    Authority: normalizeRecords(response.Authority),
+    Additional: normalizeRecords(response.Additional)
+  };
+};
@@ -1,6 +1,13 @@
+import { findRegistrySuffix } from './pslUtil';
+import { ACE_PREFIX, convertDomainName, toAsciiDomain } from './idnUtil';
+import { findTldCatalogEntry } from './tldCatalogUtil';
+import type { TldType } from '@/types/tld';
+
 /**
  * Domain validation utilities
  * Pure functions for validating domain names and their components
+ * The TLD of a domain is its registry suffix from the Public Suffix List, e.g. "co.uk"
+ * Internationalized names are validated in their A-label form, e.g. "xn--caf-dma.fr"
  */
 
 /**
@@ -64,36 +71,42 @@ export const validateDomain = (domainName: string): DomainValidationResult => {
     };
   }
   
+  // Map and convert Unicode labels, reporting disallowed code points and homograph risks
+  const idn = convertDomainName(trimmed);
+  errors.push(...idn.errors);
+  warnings.push(...idn.warnings);
+  const ascii = idn.ascii;
+  
   // Check total length
-  if (trimmed.length > DOMAIN_CONFIG.MAX_DOMAIN_LENGTH) {
-    errors.push(`Domain name too long (${trimmed.length} > ${DOMAIN_CONFIG.MAX_DOMAIN_LENGTH} chars)`);
+  if (ascii.length > DOMAIN_CONFIG.MAX_DOMAIN_LENGTH) {
+    errors.push(`Domain name too long (${ascii.length} > ${DOMAIN_CONFIG.MAX_DOMAIN_LENGTH} chars)`);
   }
   
-  if (trimmed.length < DOMAIN_CONFIG.MIN_DOMAIN_LENGTH) {
-    errors.push(`Domain name too short (${trimmed.length} < ${DOMAIN_CONFIG.MIN_DOMAIN_LENGTH} chars)`);
+  if (ascii.length < DOMAIN_CONFIG.MIN_DOMAIN_LENGTH) {
+    errors.push(`Domain name too short (${ascii.length} < ${DOMAIN_CONFIG.MIN_DOMAIN_LENGTH} chars)`);
   }
   
   // Check for invalid characters at domain level
-  if (/[^a-zA-Z0-9.-]/.test(trimmed)) {
+  if (/[^a-zA-Z0-9.-]/.test(ascii)) {
     errors.push('Domain name contains invalid characters (only letters, numbers, dots, and hyphens allowed)');
   }
   
   // Check for consecutive dots
-  if (trimmed.includes('..')) {
+  if (ascii.includes('..')) {
     errors.push('Domain name cannot contain consecutive dots');
   }
   
   // Check for leading/trailing dots or hyphens
-  if (trimmed.startsWith('.') || trimmed.endsWith('.')) {
+  if (ascii.startsWith('.') || ascii.endsWith('.')) {
     errors.push('Domain name cannot start or end with a dot');
   }
   
-  if (trimmed.startsWith('-') || trimmed.endsWith('-')) {
+  if (ascii.startsWith('-') || ascii.endsWith('-')) {
     errors.push('Domain name cannot start or end with a hyphen');
   }
   
   // Split domain into parts
-  const parts = trimmed.split('.');
+  const parts = ascii.split('.');
   
   // Must have at least label.tld
   if (parts.length < 2) {
@@ -106,13 +119,16 @@ export const validateDomain = (domainName: string): DomainValidationResult => {
   }
   
   // Extract main components
-  const tld = parts[parts.length - 1];
-  const label = parts[parts.length - 2];
-  const subdomains = parts.length > 2 ? parts.slice(0, -2) : undefined;
+  const match = findRegistrySuffix(ascii);
+  const tld = match?.publicSuffix;
+  const label = match?.label;
+  const subdomains = match && match.subdomains.length > 0 ? match.subdomains : undefined;
   
   // Ensure we have both TLD and label
   if (!tld || !label) {
-    errors.push('Domain name must have both a label and TLD');
+    errors.push(tld
+      ? `${tld} is a public suffix, not a registrable domain`
+      : 'Domain name must have both a label and TLD');
     return {
       isValid: false,
       errors,
@@ -120,13 +136,22 @@ export const validateDomain = (domainName: string): DomainValidationResult => {
     };
   }
   
-  // Validate TLD
-  const tldValidation = validateTld(tld);
+  // Validate TLD, the other labels of a multi-label suffix being validated as labels
+  const suffixLabels = tld.split('.');
+  const topLevelDomain = suffixLabels.pop() ?? '';
+  const tldValidation = validateTld(topLevelDomain);
   if (!tldValidation.isValid) {
     errors.push(...tldValidation.errors);
   }
   warnings.push(...tldValidation.warnings);
   
+  suffixLabels.forEach((suffixLabel) => {
+    const suffixLabelValidation = validateLabel(suffixLabel, 'public suffix label');
+    if (!suffixLabelValidation.isValid) {
+      errors.push(...suffixLabelValidation.errors);
+    }
+  });
+  
   // Validate label (SLD)
   const labelValidation = validateLabel(label, 'second-level domain');
   if (!labelValidation.isValid) {
@@ -146,7 +171,7 @@ export const validateDomain = (domainName: string): DomainValidationResult => {
   }
   
   // Additional warnings for potentially problematic domains
-  if (trimmed.length > 50) {
+  if (ascii.length > 50) {
     warnings.push('Domain name is quite long, may cause issues with some systems');
   }
   
@@ -204,35 +229,44 @@ export const validateLabel = (label: string, context: string = 'label'): LabelVa
     };
   }
   
+  // Internationalized labels are checked, then validated in their A-label form
+  let asciiLabel = label;
+  if (/[^\u0000-\u007f]/.test(label)) {
+    const idn = convertDomainName(label);
+    errors.push(...idn.errors);
+    warnings.push(...idn.warnings);
+    asciiLabel = idn.ascii;
+  }
+  
   // Length checks
-  if (label.length > DOMAIN_CONFIG.MAX_LABEL_LENGTH) {
-    errors.push(`${context} too long (${label.length} > ${DOMAIN_CONFIG.MAX_LABEL_LENGTH} chars)`);
+  if (asciiLabel.length > DOMAIN_CONFIG.MAX_LABEL_LENGTH) {
+    errors.push(`${context} too long (${asciiLabel.length} > ${DOMAIN_CONFIG.MAX_LABEL_LENGTH} chars)`);
   }
   
-  if (label.length < DOMAIN_CONFIG.MIN_LABEL_LENGTH) {
-    errors.push(`${context} too short (${label.length} < ${DOMAIN_CONFIG.MIN_LABEL_LENGTH} chars)`);
+  if (asciiLabel.length < DOMAIN_CONFIG.MIN_LABEL_LENGTH) {
+    errors.push(`${context} too short (${asciiLabel.length} < ${DOMAIN_CONFIG.MIN_LABEL_LENGTH} chars)`);
   }
   
   // Character validation
-  if (!/^[a-zA-Z0-9-]+$/.test(label)) {
+  if (!/^[a-zA-Z0-9-]+$/.test(asciiLabel)) {
     errors.push(`${context} contains invalid characters (only letters, numbers, and hyphens allowed)`);
   }
   
   // Position-specific checks
-  if (label.startsWith('-') || label.endsWith('-')) {
+  if (asciiLabel.startsWith('-') || asciiLabel.endsWith('-')) {
     errors.push(`${context} cannot start or end with a hyphen`);
   }
   
   // Additional checks for potential issues
-  if (label.includes('--')) {
+  if (asciiLabel.includes('--') && !asciiLabel.startsWith(ACE_PREFIX)) {
     warnings.push(`${context} contains consecutive hyphens, which may indicate punycode or special encoding`);
   }
   
-  if (/^\d+$/.test(label)) {
+  if (/^\d+$/.test(asciiLabel)) {
     warnings.push(`${context} is all numeric, which may cause confusion`);
   }
   
-  if (label.length === 1) {
+  if (asciiLabel.length === 1) {
     warnings.push(`${context} is very short (single character)`);
   }
   
@@ -261,7 +295,10 @@ interface TldValidationResult {
   readonly errors: readonly string[];
   readonly warnings: readonly string[];
   readonly metadata?: {
-    readonly type: 'likely-country' | 'likely-generic' | 'unknown';
+    /** Type from the root zone snapshot, or guessed from the length for unknown TLDs */
+    readonly type: TldType | 'unknown';
+    /** True when the TLD is in the root zone snapshot */
+    readonly isKnown: boolean;
     readonly isCommon: boolean;
   };
 }
@@ -301,29 +338,26 @@ export const validateTld = (tld: string): TldValidationResult => {
     errors.push(`TLD too short (${tld.length} < ${DOMAIN_CONFIG.MIN_TLD_LENGTH} chars)`);
   }
   
-  // Character validation - TLDs should only contain letters
-  if (!/^[a-zA-Z]+$/.test(tld)) {
+  // Character validation - TLDs should only contain letters, or be an A-label
+  if (!/^[a-zA-Z]+$/.test(tld) && !/^xn--[a-zA-Z0-9-]+$/.test(tld)) {
     errors.push('TLD contains invalid characters (only letters allowed)');
   }
   
-  // Determine TLD type and commonality
+  // Determine TLD type from the root zone snapshot, and commonality
   const lowerTld = tld.toLowerCase();
   const isCommon = COMMON_TLDS.has(lowerTld);
+  const catalogEntry = errors.length === 0 ? findTldCatalogEntry(lowerTld) : undefined;
   
-  let type: 'likely-country' | 'likely-generic' | 'unknown' = 'unknown';
-  if (tld.length === 2) {
-    type = 'likely-country';
-  } else if (tld.length >= 3) {
-    type = 'likely-generic';
+  let type: TldType | 'unknown' = catalogEntry?.type ?? 'unknown';
+  if (!catalogEntry && tld.length === 2) {
+    type = 'ccTLD';
+  } else if (!catalogEntry && tld.length >= 3) {
+    type = 'gTLD';
   }
   
-  // Warnings for unusual TLDs
-  if (!isCommon && tld.length > 4) {
-    warnings.push('TLD is longer than typical, verify it exists');
-  }
-  
-  if (!isCommon && type === 'likely-generic') {
-    warnings.push('TLD appears to be a generic TLD, verify it is registered');
+  // TLDs delegated after the snapshot are not flagged as invalid, only unverified
+  if (!catalogEntry && errors.length === 0) {
+    warnings.push('TLD is not in the root zone snapshot, verify it exists');
   }
   
   return {
@@ -332,6 +366,7 @@ export const validateTld = (tld: string): TldValidationResult => {
     warnings,
     metadata: {
       type,
+      isKnown: catalogEntry !== undefined,
       isCommon
     }
   };
@@ -365,19 +400,17 @@ export const parseDomain = (domainName: string): {
     return null;
   }
   
-  const parts = domainName.trim().split('.');
-  
   return {
     label: validation.parts.label,
     tld: validation.parts.tld,
     subdomains: validation.parts.subdomains || [],
-    fullDomain: domainName.trim(),
+    fullDomain: toAsciiDomain(domainName),
     isValid: true
   };
 };
 
 /**
- * Normalizes a domain name by trimming and converting to lowercase
+ * Normalizes a domain name by trimming, converting to lowercase and to its A-label form
  * @param domainName - Domain name to normalize
  * @returns Normalized domain name or null if invalid
  */
@@ -392,7 +425,7 @@ export const normalizeDomain = (domainName: string): string | null => {
     return null;
   }
   
-  return trimmed;
+  return toAsciiDomain(trimmed);
 };
 
 /**
@@ -417,7 +450,7 @@ export const isSubdomainOf = (subdomain: string, parentDomain: string): boolean
 };
 
 /**
- * Gets the root domain (label.tld) from a potentially complex domain
+ * Gets the root domain (label.tld, e.g. "example.co.uk") from a potentially complex domain
  * @param domainName - Full domain name
  * @returns Root domain or null if invalid
  */
@@ -431,51 +464,6 @@ export const getRootDomain = (domainName: string): string | null => {
   return `${parsed.label}.${parsed.tld}`;
 };
 
-/**
- * Generates domain suggestions based on a base domain
- * @param baseDomain - Base domain to generate suggestions from
- * @param maxSuggestions - Maximum number of suggestions to generate
- * @returns Array of suggested domain variations
- */
-export const generateDomainSuggestions = (
-  baseDomain: string, 
-  maxSuggestions: number = 5
-): string[] => {
-  const parsed = parseDomain(baseDomain);
-  
-  if (!parsed) {
-    return [];
-  }
-  
-  const suggestions: string[] = [];
-  const commonTlds = ['com', 'org', 'net', 'info', 'biz'];
-  const prefixes = ['my', 'the', 'get', 'try'];
-  const suffixes = ['app', 'site', 'web', 'online', 'digital'];
-  
-  // Different TLD variations
-  commonTlds.forEach(tld => {
-    if (tld !== parsed.tld && suggestions.length < maxSuggestions) {
-      suggestions.push(`${parsed.label}.${tld}`);
-    }
-  });
-  
-  // Prefix variations
-  prefixes.forEach(prefix => {
-    if (suggestions.length < maxSuggestions) {
-      suggestions.push(`${prefix}${parsed.label}.${parsed.tld}`);
-    }
-  });
-  
-  // Suffix variations
-  suffixes.forEach(suffix => {
-    if (suggestions.length < maxSuggestions) {
-      suggestions.push(`${parsed.label}${suffix}.${parsed.tld}`);
-    }
-  });
-  
-  return suggestions.slice(0, maxSuggestions);
-};
-
 // Export types for external use
 export type { 
   DomainValidationResult, 
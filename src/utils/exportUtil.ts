@@ -0,0 +1,224 @@
+import { DomainAvailabilityStatus, type DomainData } from '@/types';
+import type { AlertSettings } from '@/services/alertService';
+import type {
+  ExportColumn,
+  ExportDateStyle,
+  ExportFile,
+  ExportFormat,
+  ExportOptions,
+  ExportValue
+} from '@/types/export';
+import { getAlertType } from './alertUtil';
+
+/**
+ * Export utilities
+ * Pure functions building CSV and JSON files from domains, alerts and result sets
+ */
+
+/**
+ * File details of each export format
+ */
+const EXPORT_FORMATS: Readonly<Record<ExportFormat, { readonly extension: string; readonly mimeType: string }>> = Object.freeze({
+  csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  'csv-bom': { extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { extension: 'json', mimeType: 'application/json;charset=utf-8' }
+});
+
+/**
+ * Byte order mark telling spreadsheet apps the CSV is UTF-8
+ */
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Characters that make spreadsheet apps evaluate a cell as a formula
+ */
+const FORMULA_PREFIXES = /^[=+\-@\t\r]/;
+
+/**
+ * Availability labels used in CSV exports
+ */
+const AVAILABILITY_LABELS: Readonly<Record<DomainAvailabilityStatus, string>> = Object.freeze({
+  [DomainAvailabilityStatus.AVAILABLE]: 'available',
+  [DomainAvailabilityStatus.NOTAVAILABLE]: 'registered',
+  [DomainAvailabilityStatus.UNKNOWN]: 'unknown'
+});
+
+/**
+ * Parses an optional ISO string into a Date
+ * @param value - ISO string
+ * @returns Date, or undefined when missing
+ */
+const toDate = (value?: string): Date | undefined => value ? new Date(value) : undefined;
+
+/**
+ * Formats an availability value for CSV cells
+ * @param value - DomainAvailabilityStatus value
+ * @returns Readable label
+ */
+const formatAvailability = (value: ExportValue): string => {
+  return typeof value === 'number' ? AVAILABILITY_LABELS[value as DomainAvailabilityStatus] ?? '' : '';
+};
+
+/**
+ * Exportable columns of domains (watch list and search results), matching Domain.toJSON()
+ */
+export const DOMAIN_EXPORT_COLUMNS: readonly ExportColumn<DomainData>[] = Object.freeze([
+  { key: 'name', label: 'Domain', getValue: row => row.name },
+  {
+    key: 'availability',
+    label: 'Availability',
+    getValue: row => row.availability,
+    formatText: formatAvailability
+  },
+  { key: 'registrar', label: 'Registrar', getValue: row => row.registrar },
+  { key: 'creationDate', label: 'Created', getValue: row => toDate(row.creationDate), dateOnly: true },
+  { key: 'expirationDate', label: 'Expires', getValue: row => toDate(row.expirationDate), dateOnly: true },
+  { key: 'lastChecked', label: 'Last checked', getValue: row => toDate(row.lastChecked) },
+  { key: 'isInWatchList', label: 'In watch list', getValue: row => row.isInWatchList, defaultSelected: false }
+]);
+
+/**
+ * Exportable columns of alerts
+ */
+export const ALERT_EXPORT_COLUMNS: readonly ExportColumn<AlertSettings>[] = Object.freeze([
+  { key: 'domain', label: 'Domain', getValue: row => row.domain },
+  { key: 'type', label: 'Type', getValue: row => getAlertType(row) },
+  { key: 'alertDate', label: 'Next alert', getValue: row => row.alertDate, dateOnly: true },
+  { key: 'reminderFrequency', label: 'Frequency', getValue: row => row.reminderFrequency },
+  {
+    key: 'stages',
+    label: 'Stages (days before)',
+    getValue: row => row.stages?.map(stage => stage.daysBeforeExpiration).join(' ')
+  },
+  { key: 'expirationDate', label: 'Expires', getValue: row => row.expirationDate, dateOnly: true },
+  { key: 'lastNotified', label: 'Last notified', getValue: row => row.lastNotified },
+  { key: 'createdAt', label: 'Created', getValue: row => row.createdAt, defaultSelected: false },
+  { key: 'id', label: 'Alert ID', getValue: row => row.id, defaultSelected: false }
+]);
+
+/**
+ * Gets the keys of the columns selected by default
+ * @param columns - Available columns
+ * @returns Default column keys
+ */
+export const getDefaultColumnKeys = <T>(columns: readonly ExportColumn<T>[]): string[] => {
+  return columns.filter(column => column.defaultSelected !== false).map(column => column.key);
+};
+
+/**
+ * Formats a date for export
+ * @param date - Date to format
+ * @param dateStyle - ISO 8601 or locale format
+ * @param dateOnly - Omit the time for locale dates
+ * @param locale - Locale for the locale format
+ * @returns Formatted date, or an empty string for invalid dates
+ */
+export const formatExportDate = (
+  date: Date,
+  dateStyle: ExportDateStyle,
+  dateOnly: boolean = false,
+  locale?: string
+): string => {
+  if (isNaN(date.getTime())) return '';
+  if (dateStyle === 'iso') return date.toISOString();
+  return dateOnly ? date.toLocaleDateString(locale) : date.toLocaleString(locale);
+};
+
+/**
+ * Escapes a CSV cell (RFC 4180) and neutralizes spreadsheet formulas
+ * @param text - Cell text
+ * @returns Escaped cell
+ */
+export const escapeCsvCell = (text: string): string => {
+  const safeText = FORMULA_PREFIXES.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safeText) ? `"${safeText.replace(/"/g, '""')}"` : safeText;
+};
+
+/**
+ * Resolves the selected columns in the requested order
+ * @param columns - Available columns
+ * @param columnKeys - Selected keys
+ * @returns Selected columns
+ */
+const selectColumns = <T>(columns: readonly ExportColumn<T>[], columnKeys: readonly string[]): ExportColumn<T>[] => {
+  return columnKeys
+    .map(key => columns.find(column => column.key === key))
+    .filter((column): column is ExportColumn<T> => Boolean(column));
+};
+
+/**
+ * Builds CSV content
+ * @param rows - Rows to export
+ * @param columns - Available columns
+ * @param options - Export options
+ * @returns CSV text with CRLF line endings
+ */
+export const buildCsv = <T>(rows: readonly T[], columns: readonly ExportColumn<T>[], options: ExportOptions): string => {
+  const selected = selectColumns(columns, options.columnKeys);
+
+  const formatCell = (column: ExportColumn<T>, row: T): string => {
+    const value = column.getValue(row);
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return formatExportDate(value, options.dateStyle, column.dateOnly, options.locale);
+    return column.formatText ? column.formatText(value) : String(value);
+  };
+
+  const lines = [
+    selected.map(column => escapeCsvCell(column.label)).join(','),
+    ...rows.map(row => selected.map(column => escapeCsvCell(formatCell(column, row))).join(','))
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Builds JSON content; records keep their stored shape restricted to the selected columns
+ * @param rows - Rows to export
+ * @param columns - Available columns
+ * @param options - Export options
+ * @returns Pretty-printed JSON array
+ */
+export const buildJson = <T>(rows: readonly T[], columns: readonly ExportColumn<T>[], options: ExportOptions): string => {
+  const selected = selectColumns(columns, options.columnKeys);
+
+  const records = rows.map(row => Object.fromEntries(selected.map(column => {
+    const value = column.getValue(row);
+    return [
+      column.key,
+      value instanceof Date
+        ? formatExportDate(value, options.dateStyle, column.dateOnly, options.locale)
+        : value ?? null
+    ];
+  })));
+
+  return JSON.stringify(records, null, 2);
+};
+
+/**
+ * Builds an export file
+ * @param rows - Rows to export
+ * @param columns - Available columns
+ * @param options - Export options
+ * @param baseName - File name without date and extension (e.g. "watch-list")
+ * @param now - Export date used in the file name (default: now)
+ * @returns Export file ready to download
+ */
+export const createExportFile = <T>(
+  rows: readonly T[],
+  columns: readonly ExportColumn<T>[],
+  options: ExportOptions,
+  baseName: string,
+  now: Date = new Date()
+): ExportFile => {
+  const { extension, mimeType } = EXPORT_FORMATS[options.format];
+
+  const content = options.format === 'json'
+    ? buildJson(rows, columns, options)
+    : buildCsv(rows, columns, options);
+
+  return {
+    fileName: `${baseName}-${now.toISOString().slice(0, 10)}.${extension}`,
+    mimeType,
+    content: options.format === 'csv-bom' ? UTF8_BOM + content : content
+  };
+};
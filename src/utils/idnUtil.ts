@@ -0,0 +1,394 @@
+import type { IdnConversion } from '@/types/idn';
+
+/**
+ * Internationalized domain name utilities shared by the page and the Service Worker
+ *
+ * Implements the UTS-46 processing of domain names: Unicode input is mapped
+ * (case folding, compatibility normalization), checked against the IDNA2008
+ * rules and converted to xn-- A-labels with Punycode (RFC 3492).
+ */
+
+/**
+ * Punycode parameters (RFC 3492 section 5)
+ */
+const PUNYCODE = Object.freeze({
+  BASE: 36,
+  T_MIN: 1,
+  T_MAX: 26,
+  SKEW: 38,
+  DAMP: 700,
+  INITIAL_BIAS: 72,
+  INITIAL_N: 128,
+  MAX_CODE_POINT: 0x10ffff
+} as const);
+
+/**
+ * Prefix of the labels encoded with Punycode
+ */
+export const ACE_PREFIX = 'xn--';
+
+/**
+ * Letters of other scripts that look like Latin letters, with the letter they imitate
+ */
+export const LATIN_HOMOGLYPHS: Readonly<Record<string, string>> = Object.freeze({
+  // Cyrillic
+  'а': 'a', 'ь': 'b', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k', 'ӏ': 'l',
+  'м': 'm', 'п': 'n', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'г': 'r', 'ѕ': 's', 'т': 't', 'ц': 'u', 'ѵ': 'v',
+  'ԝ': 'w', 'х': 'x', 'у': 'y',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p', 'τ': 't',
+  'υ': 'u', 'χ': 'x', 'γ': 'y',
+  // Latin letters outside ASCII
+  'ɑ': 'a', 'ƅ': 'b', 'ɡ': 'g', 'ı': 'i', 'ȷ': 'j', 'ɩ': 'i'
+});
+
+/**
+ * Scripts told apart by the mixed-script check
+ */
+const SCRIPT_PATTERNS: readonly (readonly [string, RegExp])[] = [
+  ['Latin', /\p{Script=Latin}/u],
+  ['Cyrillic', /\p{Script=Cyrillic}/u],
+  ['Greek', /\p{Script=Greek}/u],
+  ['Armenian', /\p{Script=Armenian}/u],
+  ['Georgian', /\p{Script=Georgian}/u],
+  ['Arabic', /\p{Script=Arabic}/u],
+  ['Hebrew', /\p{Script=Hebrew}/u],
+  ['Han', /\p{Script=Han}/u],
+  ['Hiragana', /\p{Script=Hiragana}/u],
+  ['Katakana', /\p{Script=Katakana}/u],
+  ['Hangul', /\p{Script=Hangul}/u],
+  ['Bopomofo', /\p{Script=Bopomofo}/u],
+  ['Thai', /\p{Script=Thai}/u],
+  ['Devanagari', /\p{Script=Devanagari}/u],
+  ['Cherokee', /\p{Script=Cherokee}/u]
+];
+
+/**
+ * Script mixes that are normal for a language (UTS #39 highly restrictive profile)
+ */
+const ALLOWED_SCRIPT_MIXES: readonly ReadonlySet<string>[] = [
+  new Set(['Latin', 'Han', 'Hiragana', 'Katakana']),
+  new Set(['Latin', 'Han', 'Bopomofo']),
+  new Set(['Latin', 'Han', 'Hangul'])
+];
+
+/**
+ * Malformed Punycode label
+ */
+export class IdnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdnError';
+  }
+}
+
+/**
+ * Adapts the bias after each encoded code point (RFC 3492 section 6.1)
+ * @param delta - Delta of the code point
+ * @param numPoints - Code points handled so far, including this one
+ * @param firstTime - True for the first code point
+ * @returns New bias
+ */
+const adaptBias = (delta: number, numPoints: number, firstTime: boolean): number => {
+  let scaled = firstTime ? Math.floor(delta / PUNYCODE.DAMP) : Math.floor(delta / 2);
+  scaled += Math.floor(scaled / numPoints);
+
+  let k = 0;
+  while (scaled > ((PUNYCODE.BASE - PUNYCODE.T_MIN) * PUNYCODE.T_MAX) >> 1) {
+    scaled = Math.floor(scaled / (PUNYCODE.BASE - PUNYCODE.T_MIN));
+    k += PUNYCODE.BASE;
+  }
+  return k + Math.floor(((PUNYCODE.BASE - PUNYCODE.T_MIN + 1) * scaled) / (scaled + PUNYCODE.SKEW));
+};
+
+/**
+ * Gets the threshold of a digit position
+ * @param k - Position multiple of BASE
+ * @param bias - Current bias
+ * @returns Threshold between T_MIN and T_MAX
+ */
+const getThreshold = (k: number, bias: number): number => {
+  if (k <= bias) return PUNYCODE.T_MIN;
+  if (k >= bias + PUNYCODE.T_MAX) return PUNYCODE.T_MAX;
+  return k - bias;
+};
+
+/**
+ * Maps a digit value to a-z then 0-9
+ * @param digit - Digit value (0-35)
+ * @returns Basic code point
+ */
+const encodeDigit = (digit: number): string => String.fromCharCode(digit < 26 ? digit + 97 : digit + 22);
+
+/**
+ * Maps a-z, A-Z then 0-9 to a digit value
+ * @param charCode - Basic code point
+ * @returns Digit value, BASE for other characters
+ */
+const decodeDigit = (charCode: number): number => {
+  if (charCode >= 48 && charCode <= 57) return charCode - 22;
+  if (charCode >= 65 && charCode <= 90) return charCode - 65;
+  if (charCode >= 97 && charCode <= 122) return charCode - 97;
+  return PUNYCODE.BASE;
+};
+
+/**
+ * Encodes a label with Punycode
+ * @param label - Unicode label, e.g. "café"
+ * @returns Punycode without the xn-- prefix, e.g. "caf-dma"
+ */
+export const encodePunycode = (label: string): string => {
+  const codePoints = Array.from(label, character => character.codePointAt(0) ?? 0);
+  const basic = codePoints.filter(codePoint => codePoint < 0x80);
+  let output = String.fromCharCode(...basic);
+  let handled = basic.length;
+  if (handled > 0) {
+    output += '-';
+  }
+
+  let n: number = PUNYCODE.INITIAL_N;
+  let delta = 0;
+  let bias: number = PUNYCODE.INITIAL_BIAS;
+
+  while (handled < codePoints.length) {
+    const next = Math.min(...codePoints.filter(codePoint => codePoint >= n));
+    delta += (next - n) * (handled + 1);
+    n = next;
+
+    for (const codePoint of codePoints) {
+      if (codePoint < n) {
+        delta++;
+      }
+      if (codePoint !== n) continue;
+
+      let q = delta;
+      for (let k: number = PUNYCODE.BASE; ; k += PUNYCODE.BASE) {
+        const threshold = getThreshold(k, bias);
+        if (q < threshold) break;
+        output += encodeDigit(threshold + ((q - threshold) % (PUNYCODE.BASE - threshold)));
+        q = Math.floor((q - threshold) / (PUNYCODE.BASE - threshold));
+      }
+      output += encodeDigit(q);
+      bias = adaptBias(delta, handled + 1, handled === basic.length);
+      delta = 0;
+      handled++;
+    }
+
+    delta++;
+    n++;
+  }
+
+  return output;
+};
+
+/**
+ * Decodes a Punycode label
+ * @param encoded - Punycode without the xn-- prefix, e.g. "caf-dma"
+ * @returns Unicode label, e.g. "café"
+ * @throws {IdnError} When the label is not valid Punycode
+ */
+export const decodePunycode = (encoded: string): string => {
+  const delimiterIndex = Math.max(encoded.lastIndexOf('-'), 0);
+  const output: number[] = [];
+
+  for (let index = 0; index < delimiterIndex; index++) {
+    const charCode = encoded.charCodeAt(index);
+    if (charCode >= 0x80) {
+      throw new IdnError(`Invalid Punycode "${encoded}": non-ASCII basic code point`);
+    }
+    output.push(charCode);
+  }
+
+  let n: number = PUNYCODE.INITIAL_N;
+  let i = 0;
+  let bias: number = PUNYCODE.INITIAL_BIAS;
+
+  for (let index = delimiterIndex > 0 ? delimiterIndex + 1 : 0; index < encoded.length;) {
+    const previousI = i;
+    let weight = 1;
+
+    for (let k: number = PUNYCODE.BASE; ; k += PUNYCODE.BASE) {
+      if (index >= encoded.length) {
+        throw new IdnError(`Invalid Punycode "${encoded}": truncated input`);
+      }
+      const digit = decodeDigit(encoded.charCodeAt(index++));
+      if (digit >= PUNYCODE.BASE) {
+        throw new IdnError(`Invalid Punycode "${encoded}": unexpected character`);
+      }
+      i += digit * weight;
+      const threshold = getThreshold(k, bias);
+      if (digit < threshold) break;
+      weight *= PUNYCODE.BASE - threshold;
+    }
+
+    bias = adaptBias(i - previousI, output.length + 1, previousI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > PUNYCODE.MAX_CODE_POINT) {
+      throw new IdnError(`Invalid Punycode "${encoded}": code point out of range`);
+    }
+    output.splice(i, 0, n);
+    i++;
+  }
+
+  return String.fromCodePoint(...output);
+};
+
+/**
+ * Applies the UTS-46 mapping: full stops, case folding and compatibility forms
+ * @param domainName - Domain name as typed
+ * @returns Mapped domain name, e.g. "Café。FR" becomes "café.fr"
+ */
+export const mapDomainName = (domainName: string): string => {
+  return domainName
+    .trim()
+    // Code points mapped to nothing (soft hyphen, zero width space, variation selectors...)
+    .replace(/[\u00AD\u034F\u180B-\u180D\u200B\u2060\uFE00-\uFE0F\uFEFF]/g, '')
+    .normalize('NFKC')
+    .replace(/[\u3002\uFF0E\uFF61]/g, '.')
+    .toLowerCase()
+    .normalize('NFC');
+};
+
+/**
+ * Decodes a label when it is an A-label
+ * @param label - Label, e.g. "xn--caf-dma" or "example"
+ * @returns Unicode label, or the label itself when it is not valid Punycode
+ */
+export const toUnicodeLabel = (label: string): string => {
+  if (!label.toLowerCase().startsWith(ACE_PREFIX)) {
+    return label;
+  }
+
+  try {
+    return decodePunycode(label.slice(ACE_PREFIX.length));
+  } catch {
+    return label;
+  }
+};
+
+/**
+ * Lists the scripts of the letters of a label
+ * @param label - Unicode label
+ * @returns Scripts in order of appearance
+ */
+const getLabelScripts = (label: string): string[] => {
+  const scripts = new Set<string>();
+  for (const character of label) {
+    if (!/\p{L}/u.test(character)) continue;
+    const script = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(character));
+    if (script) {
+      scripts.add(script[0]);
+    }
+  }
+  return Array.from(scripts);
+};
+
+/**
+ * Checks a Unicode label against the IDNA2008 rules and for homograph risks
+ * @param label - Mapped Unicode label
+ * @returns Errors and warnings about the label
+ */
+export const checkIdnLabel = (label: string): { readonly errors: string[]; readonly warnings: string[] } => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const disallowed = Array.from(new Set(Array.from(label).filter(character => !/[\p{L}\p{M}\p{N}-]/u.test(character))));
+  disallowed.forEach(character => {
+    const codePoint = (character.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, '0');
+    errors.push(`Label "${label}" contains the disallowed character "${character}" (U+${codePoint})`);
+  });
+
+  if (/^\p{M}/u.test(label)) {
+    errors.push(`Label "${label}" cannot start with a combining mark`);
+  }
+
+  if (label.slice(2, 4) === '--') {
+    errors.push(`Label "${label}" cannot have hyphens in the third and fourth positions`);
+  }
+
+  // RFC 5893: right-to-left labels cannot contain left-to-right letters
+  if (/[\p{Script=Arabic}\p{Script=Hebrew}]/u.test(label) && /\p{Script=Latin}/u.test(label)) {
+    errors.push(`Label "${label}" mixes right-to-left and left-to-right letters`);
+  }
+
+  const scripts = getLabelScripts(label);
+  const lookalike = Array.from(label, character => LATIN_HOMOGLYPHS[character] ?? character).join('');
+  const imitatesLatin = lookalike !== label && /^[a-z0-9-]+$/.test(lookalike);
+
+  if (scripts.length > 1 && !ALLOWED_SCRIPT_MIXES.some(mix => scripts.every(script => mix.has(script)))) {
+    warnings.push(imitatesLatin
+      ? `Label "${label}" mixes ${scripts.join(' and ')} letters and looks like "${lookalike}"`
+      : `Label "${label}" mixes ${scripts.join(' and ')} letters, a common homograph trick`);
+  } else if (imitatesLatin) {
+    warnings.push(`Label "${label}" only uses letters that look like Latin ones and can pass for "${lookalike}"`);
+  }
+
+  return { errors, warnings };
+};
+
+/**
+ * Converts a domain name with the UTS-46 processing
+ * @param domainName - Domain name with Unicode or xn-- labels
+ * @returns A-label and U-label forms, with errors and homograph warnings
+ */
+export const convertDomainName = (domainName: string): IdnConversion => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const asciiLabels: string[] = [];
+  const unicodeLabels: string[] = [];
+  let isInternationalized = false;
+
+  for (const label of mapDomainName(domainName).split('.')) {
+    let unicodeLabel = label;
+
+    if (label.startsWith(ACE_PREFIX)) {
+      try {
+        unicodeLabel = decodePunycode(label.slice(ACE_PREFIX.length));
+        if (`${ACE_PREFIX}${encodePunycode(unicodeLabel)}` !== label || mapDomainName(unicodeLabel) !== unicodeLabel) {
+          errors.push(`Label "${label}" is not a valid A-label`);
+        }
+      } catch (error: any) {
+        errors.push(error?.message ?? `Label "${label}" is not a valid A-label`);
+        unicodeLabel = label;
+      }
+    }
+
+    const isAsciiLabel = /^[\u0000-\u007f]*$/.test(unicodeLabel);
+    if (!isAsciiLabel) {
+      isInternationalized = true;
+      const check = checkIdnLabel(unicodeLabel);
+      errors.push(...check.errors);
+      warnings.push(...check.warnings);
+    }
+
+    asciiLabels.push(isAsciiLabel ? label : `${ACE_PREFIX}${encodePunycode(unicodeLabel)}`);
+    unicodeLabels.push(unicodeLabel);
+  }
+
+  return {
+    ascii: asciiLabels.join('.'),
+    unicode: unicodeLabels.join('.'),
+    isInternationalized,
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Converts a domain name to its A-label form for DNS and RDAP queries
+ * @param domainName - Domain name, e.g. "Café.fr"
+ * @returns ASCII domain name, e.g. "xn--caf-dma.fr"
+ */
+export const toAsciiDomain = (domainName: string): string => {
+  return convertDomainName(domainName).ascii;
+};
+
+/**
+ * Converts a domain name to its Unicode form for display
+ * @param domainName - Domain name, e.g. "xn--caf-dma.fr"
+ * @returns Unicode domain name, e.g. "café.fr"
+ */
+export const toUnicodeDomain = (domainName: string): string => {
+  return convertDomainName(domainName).unicode;
+};
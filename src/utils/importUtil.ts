@@ -0,0 +1,384 @@
+import type {
+  CsvImportOptions,
+  ImportColumnMapping,
+  ImportEntry,
+  ImportFormat,
+  ImportParseResult,
+  ImportRejection
+} from '@/types/import';
+import { extractDomainCandidate } from './bulkUtil';
+import { getRootDomain, normalizeDomain } from './domainUtil';
+
+/**
+ * Watch list import utilities
+ * Pure functions reading plain lists, CSV files and JSON arrays into domains
+ */
+
+/**
+ * Import configuration
+ */
+const IMPORT_CONFIG = Object.freeze({
+  /** Maximum number of domains accepted in one import */
+  MAX_DOMAINS: 5000,
+  /** Lines starting with this prefix are comments in text imports */
+  COMMENT_PREFIX: '#',
+  /** Header names recognized when guessing the CSV column mapping */
+  DOMAIN_HEADERS: /^(domain|domain ?name|name|fqdn|ldh ?name)$/i,
+  EXPIRATION_HEADERS: /expir|renew(al)? date|paid until|valid until/i,
+  REGISTRAR_HEADERS: /registrar/i,
+  /** Object fields read from JSON imports, in order of preference */
+  JSON_DOMAIN_FIELDS: ['domain', 'name', 'domainName', 'ldhName', 'fqdn'],
+  JSON_EXPIRATION_FIELDS: ['expirationDate', 'expiration', 'expires', 'expiry', 'expiryDate'],
+  JSON_REGISTRAR_FIELDS: ['registrar', 'registrarName']
+} as const);
+
+/**
+ * Raw entry before normalization
+ */
+interface RawImportEntry {
+  readonly line: number;
+  readonly value: string;
+  readonly expirationDate?: string;
+  readonly registrar?: string;
+}
+
+/**
+ * Detects the format of an import source
+ * @param text - Source content
+ * @param fileName - Name of the uploaded file, if any
+ * @returns Detected format
+ */
+export const detectImportFormat = (text: string, fileName?: string): ImportFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[')) return 'json';
+
+  const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? '';
+  return /[,;\t]/.test(firstLine) ? 'csv' : 'text';
+};
+
+/**
+ * Detects the cell separator of a CSV source from its first line
+ * @param text - CSV content
+ * @returns Comma, semicolon or tab
+ */
+const detectCsvSeparator = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const counts = [',', ';', '\t'].map(separator => ({
+    separator,
+    count: firstLine.split(separator).length - 1
+  }));
+  return counts.reduce((best, current) => current.count > best.count ? current : best).separator;
+};
+
+/**
+ * Parses CSV text into rows (RFC 4180: quoted cells may hold separators, quotes and line breaks)
+ * @param text - CSV content
+ * @param separator - Cell separator (default: detected from the first line)
+ * @returns Rows with their 1-based starting line number
+ */
+export const parseCsvRows = (
+  text: string,
+  separator: string = detectCsvSeparator(text)
+): { readonly line: number; readonly cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim())) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      inQuotes = true;
+      cell = '';
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || cells.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Guesses the column mapping from a CSV header row
+ * @param header - Header cells
+ * @returns Column mapping (domain defaults to the first column)
+ */
+export const guessColumnMapping = (header: readonly string[]): ImportColumnMapping => {
+  const findColumn = (pattern: RegExp): number | undefined => {
+    const index = header.findIndex(cell => pattern.test(cell.trim()));
+    return index >= 0 ? index : undefined;
+  };
+
+  return {
+    domain: findColumn(IMPORT_CONFIG.DOMAIN_HEADERS) ?? findColumn(/domain/i) ?? 0,
+    expirationDate: findColumn(IMPORT_CONFIG.EXPIRATION_HEADERS),
+    registrar: findColumn(IMPORT_CONFIG.REGISTRAR_HEADERS)
+  };
+};
+
+/**
+ * Normalizes an imported value into a root domain
+ * @param value - Raw value (domain, host name or URL)
+ * @returns Root domain, or the reason it was rejected
+ */
+export const normalizeImportDomain = (value: string): { readonly domain?: string; readonly reason?: string } => {
+  const candidate = extractDomainCandidate(value);
+  if (!candidate) {
+    return { reason: 'Empty value' };
+  }
+
+  const normalized = normalizeDomain(candidate);
+  if (!normalized) {
+    return { reason: `"${candidate}" is not a valid domain name` };
+  }
+
+  const rootDomain = getRootDomain(normalized);
+  return rootDomain ? { domain: rootDomain } : { reason: `Unable to find the registrable domain of "${normalized}"` };
+};
+
+/**
+ * Parses an optional date value from an import
+ * @param value - Raw date
+ * @returns Date, or undefined when missing or invalid
+ */
+const parseImportDate = (value?: string): Date | undefined => {
+  if (!value?.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Normalizes and de-duplicates raw entries
+ * @param rawEntries - Entries read from the source
+ * @param initialRejections - Rejections found while reading the source
+ * @param maxDomains - Maximum number of domains to keep
+ * @returns Parse result
+ */
+const buildParseResult = (
+  rawEntries: readonly RawImportEntry[],
+  initialRejections: readonly ImportRejection[],
+  maxDomains: number
+): ImportParseResult => {
+  const entries: ImportEntry[] = [];
+  const rejected: ImportRejection[] = [...initialRejections];
+  const seen = new Set<string>();
+  let duplicates = 0;
+
+  for (const raw of rawEntries) {
+    const { domain, reason } = normalizeImportDomain(raw.value);
+
+    if (!domain) {
+      rejected.push({ line: raw.line, value: raw.value, reason: reason ?? 'Invalid domain name' });
+      continue;
+    }
+
+    if (seen.has(domain)) {
+      duplicates++;
+      continue;
+    }
+
+    if (entries.length >= maxDomains) {
+      rejected.push({ line: raw.line, value: raw.value, reason: `Import limited to ${maxDomains} domains` });
+      continue;
+    }
+
+    seen.add(domain);
+    entries.push({
+      domain,
+      line: raw.line,
+      expirationDate: parseImportDate(raw.expirationDate),
+      registrar: raw.registrar?.trim() || undefined
+    });
+  }
+
+  return { entries, rejected: rejected.sort((a, b) => a.line - b.line), duplicates };
+};
+
+/**
+ * Parses a plain list with one domain per line; blank lines and `#` comments are ignored
+ * @param text - Source content
+ * @param maxDomains - Maximum number of domains to keep
+ * @returns Parse result
+ */
+export const parseTextImport = (text: string, maxDomains: number = IMPORT_CONFIG.MAX_DOMAINS): ImportParseResult => {
+  const rawEntries = text.split(/\r?\n/)
+    .map((value, index) => ({ line: index + 1, value: value.trim() }))
+    .filter(entry => entry.value && !entry.value.startsWith(IMPORT_CONFIG.COMMENT_PREFIX));
+
+  return buildParseResult(rawEntries, [], maxDomains);
+};
+
+/**
+ * Parses a CSV file using a column mapping
+ * @param text - Source content
+ * @param options - Column mapping and header flag
+ * @param maxDomains - Maximum number of domains to keep
+ * @returns Parse result
+ */
+export const parseCsvImport = (
+  text: string,
+  options: CsvImportOptions,
+  maxDomains: number = IMPORT_CONFIG.MAX_DOMAINS
+): ImportParseResult => {
+  const rows = parseCsvRows(text);
+  const dataRows = options.hasHeader === false ? rows : rows.slice(1);
+  const { mapping } = options;
+  const rejected: ImportRejection[] = [];
+  const rawEntries: RawImportEntry[] = [];
+
+  for (const row of dataRows) {
+    const value = row.cells[mapping.domain]?.trim();
+    if (!value) {
+      rejected.push({ line: row.line, value: row.cells.join(', '), reason: 'Domain column is empty' });
+      continue;
+    }
+
+    rawEntries.push({
+      line: row.line,
+      value,
+      expirationDate: mapping.expirationDate !== undefined ? row.cells[mapping.expirationDate] : undefined,
+      registrar: mapping.registrar !== undefined ? row.cells[mapping.registrar] : undefined
+    });
+  }
+
+  return buildParseResult(rawEntries, rejected, maxDomains);
+};
+
+/**
+ * Reads the first string field of an object among candidate names
+ * @param item - JSON object
+ * @param fields - Candidate field names
+ * @returns Field value, or undefined
+ */
+const readStringField = (item: Record<string, unknown>, fields: readonly string[]): string | undefined => {
+  const field = fields.find(name => typeof item[name] === 'string');
+  return field ? item[field] as string : undefined;
+};
+
+/**
+ * Parses a JSON array of domain strings or of objects with a domain field
+ *
+ * Also accepts watch list exports (Domain.toJSON() rows) and objects wrapping
+ * the array in a `domains` field.
+ *
+ * @param text - Source content
+ * @param maxDomains - Maximum number of domains to keep
+ * @returns Parse result
+ */
+export const parseJsonImport = (text: string, maxDomains: number = IMPORT_CONFIG.MAX_DOMAINS): ImportParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    return {
+      entries: [],
+      rejected: [{ line: 1, value: text.slice(0, 80), reason: `Invalid JSON: ${error?.message ?? error}` }],
+      duplicates: 0
+    };
+  }
+
+  const items = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray((parsed as { domains?: unknown })?.domains) ? (parsed as { domains: unknown[] }).domains : null;
+
+  if (!items) {
+    return {
+      entries: [],
+      rejected: [{ line: 1, value: text.slice(0, 80), reason: 'Expected an array of domains' }],
+      duplicates: 0
+    };
+  }
+
+  const rejected: ImportRejection[] = [];
+  const rawEntries: RawImportEntry[] = [];
+
+  items.forEach((item, index) => {
+    const line = index + 1;
+
+    if (typeof item === 'string') {
+      rawEntries.push({ line, value: item });
+      return;
+    }
+
+    if (typeof item === 'object' && item !== null) {
+      const record = item as Record<string, unknown>;
+      const value = readStringField(record, IMPORT_CONFIG.JSON_DOMAIN_FIELDS);
+      if (value) {
+        rawEntries.push({
+          line,
+          value,
+          expirationDate: readStringField(record, IMPORT_CONFIG.JSON_EXPIRATION_FIELDS),
+          registrar: readStringField(record, IMPORT_CONFIG.JSON_REGISTRAR_FIELDS)
+        });
+        return;
+      }
+    }
+
+    rejected.push({ line, value: JSON.stringify(item) ?? String(item), reason: 'No domain field found' });
+  });
+
+  return buildParseResult(rawEntries, rejected, maxDomains);
+};
+
+/**
+ * Parses an import source in the given format
+ * @param text - Source content
+ * @param format - Source format
+ * @param csvOptions - Column mapping for CSV sources (default: guessed from the header)
+ * @returns Parse result
+ */
+export const parseWatchListImport = (
+  text: string,
+  format: ImportFormat,
+  csvOptions?: CsvImportOptions
+): ImportParseResult => {
+  switch (format) {
+    case 'json':
+      return parseJsonImport(text);
+    case 'csv':
+      return parseCsvImport(text, csvOptions ?? {
+        mapping: guessColumnMapping(parseCsvRows(text)[0]?.cells ?? []),
+        hasHeader: true
+      });
+    default:
+      return parseTextImport(text);
+  }
+};
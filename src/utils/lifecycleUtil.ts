@@ -0,0 +1,161 @@
+import type { RdapStatus } from '@/types/rdap';
+
+/**
+ * Domain lifecycle utilities
+ * Predicts where a registered domain stands in the expiration → deletion cycle
+ * from its RDAP status codes and expiration date
+ *
+ * Durations follow the usual gTLD registry policy (ICANN EDDP); ccTLDs may
+ * differ, which is reflected in the prediction confidence.
+ */
+
+/**
+ * Lifecycle phases of a registered domain
+ */
+export type DomainLifecyclePhase = 'active' | 'autoRenewGrace' | 'redemption' | 'pendingDelete';
+
+/**
+ * Lifecycle prediction for a domain
+ */
+export interface DomainLifecyclePrediction {
+  readonly phase: DomainLifecyclePhase;
+  /** Estimated date the domain is deleted and becomes available again */
+  readonly estimatedDropDate?: Date;
+  /** True when the phase is read from RDAP status codes, false when inferred from dates */
+  readonly fromStatus: boolean;
+  readonly confidence: 'high' | 'medium' | 'low';
+}
+
+/**
+ * Typical phase durations in days
+ */
+export const LIFECYCLE_DURATIONS_DAYS = Object.freeze({
+  autoRenewGrace: 45,
+  redemption: 30,
+  pendingDelete: 5
+} as const);
+
+/**
+ * Display labels for each phase
+ */
+export const LIFECYCLE_PHASE_LABELS: Readonly<Record<DomainLifecyclePhase, string>> = Object.freeze({
+  active: 'Active',
+  autoRenewGrace: 'Auto-renew grace',
+  redemption: 'Redemption',
+  pendingDelete: 'Pending delete'
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Adds a number of days to a date
+ * @param date - Start date
+ * @param days - Days to add
+ * @returns New date
+ */
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Clamps a date between two bounds
+ * @param date - Date to clamp
+ * @param min - Lower bound
+ * @param max - Upper bound
+ * @returns Clamped date
+ */
+const clampDate = (date: Date, min: Date, max: Date): Date => {
+  return new Date(Math.min(Math.max(date.getTime(), min.getTime()), max.getTime()));
+};
+
+/**
+ * Predicts the lifecycle phase and drop date of a registered domain
+ *
+ * RDAP status codes take precedence; without them the phase is inferred from
+ * the expiration date, assuming the domain is not renewed.
+ *
+ * @param statuses - RDAP status codes of the domain
+ * @param expirationDate - Domain expiration date, if known
+ * @param now - Reference date (default: current date)
+ * @returns Lifecycle prediction
+ */
+export const predictDomainLifecycle = (
+  statuses: readonly (RdapStatus | string)[],
+  expirationDate?: Date,
+  now: Date = new Date()
+): DomainLifecyclePrediction => {
+  const normalized = new Set(statuses.map(status => status.toLowerCase()));
+  const { autoRenewGrace, redemption, pendingDelete } = LIFECYCLE_DURATIONS_DAYS;
+  const hasExpiration = Boolean(expirationDate && !isNaN(expirationDate.getTime()));
+
+  // Drop date implied by the expiration date when nothing is renewed
+  const scheduledDrop = hasExpiration
+    ? addDays(expirationDate!, autoRenewGrace + redemption + pendingDelete)
+    : undefined;
+
+  // Registries often keep 'pending delete' alongside 'redemption period'
+  if (normalized.has('redemption period') || normalized.has('pending restore')) {
+    return {
+      phase: 'redemption',
+      estimatedDropDate: clampDate(
+        scheduledDrop ?? addDays(now, redemption + pendingDelete),
+        addDays(now, pendingDelete),
+        addDays(now, redemption + pendingDelete)
+      ),
+      fromStatus: true,
+      confidence: scheduledDrop ? 'high' : 'medium'
+    };
+  }
+
+  if (normalized.has('pending delete')) {
+    return {
+      phase: 'pendingDelete',
+      estimatedDropDate: clampDate(scheduledDrop ?? addDays(now, pendingDelete), now, addDays(now, pendingDelete)),
+      fromStatus: true,
+      confidence: 'high'
+    };
+  }
+
+  // Registries usually move the expiration date a year forward when the grace
+  // period starts, so it no longer tells when the domain drops; count from now,
+  // which gives the latest likely drop date
+  if (normalized.has('auto renew period')) {
+    return {
+      phase: 'autoRenewGrace',
+      estimatedDropDate: addDays(now, autoRenewGrace + redemption + pendingDelete),
+      fromStatus: true,
+      confidence: 'low'
+    };
+  }
+
+  // No lifecycle status: infer from the expiration date
+  if (!hasExpiration || expirationDate!.getTime() > now.getTime()) {
+    return {
+      phase: 'active',
+      estimatedDropDate: scheduledDrop,
+      fromStatus: false,
+      confidence: 'low'
+    };
+  }
+
+  const daysSinceExpiration = (now.getTime() - expirationDate!.getTime()) / DAY_MS;
+  const phase: DomainLifecyclePhase = daysSinceExpiration <= autoRenewGrace
+    ? 'autoRenewGrace'
+    : daysSinceExpiration <= autoRenewGrace + redemption
+    ? 'redemption'
+    : 'pendingDelete';
+
+  return {
+    phase,
+    estimatedDropDate: clampDate(scheduledDrop!, now, scheduledDrop!),
+    fromStatus: false,
+    confidence: 'low'
+  };
+};
+
+/**
+ * Checks if a phase means the domain is on its way to being deleted
+ * @param phase - Lifecycle phase
+ * @returns true for grace, redemption and pending delete phases
+ */
+export const isDroppingPhase = (phase: DomainLifecyclePhase): boolean => {
+  return phase !== 'active';
+};
@@ -0,0 +1,64 @@
+import type { DomainData } from '@/types';
+import type { DomainCheckResult } from './rdapUtil';
+
+/**
+ * Offline mode utilities shared by the page and the Service Worker
+ */
+
+/**
+ * Offline mode configuration
+ */
+export const OFFLINE_CONFIG = Object.freeze({
+  /** Background Sync tag of the pending domain checks */
+  SYNC_TAG: 'pending-domain-checks',
+  /** Sync passes after which a check that keeps failing is dropped */
+  MAX_ATTEMPTS: 5
+} as const);
+
+/**
+ * Tells whether the browser reports a network connection
+ * @returns False only when the browser knows it is offline
+ */
+export const isNavigatorOnline = (): boolean => {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+};
+
+/**
+ * Formats the age of a stored snapshot, e.g. "3 h ago"
+ * @param lastChecked - Date of the snapshot
+ * @param now - Reference date (default: now)
+ * @returns Relative age, or "never checked" without a date
+ */
+export const formatSnapshotAge = (lastChecked: Date | undefined, now: Date = new Date()): string => {
+  if (!lastChecked || Number.isNaN(lastChecked.getTime())) {
+    return 'never checked';
+  }
+
+  const minutes = Math.floor((now.getTime() - lastChecked.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+
+  const days = Math.floor(hours / 24);
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+};
+
+/**
+ * Applies the outcome of a check to a stored domain record
+ * @param record - Stored domain record
+ * @param check - Check result from RDAP or DNS
+ * @param checkedAt - Date of the check
+ * @returns Updated record, keeping the registration data DNS cannot provide
+ */
+export const applyDomainCheck = (record: DomainData, check: DomainCheckResult, checkedAt: Date): DomainData => {
+  return {
+    ...record,
+    availability: check.availability,
+    creationDate: check.creationDate?.toISOString() ?? record.creationDate,
+    expirationDate: check.expirationDate?.toISOString() ?? record.expirationDate,
+    registrar: check.registrar ?? record.registrar,
+    lastChecked: checkedAt.toISOString()
+  };
+};
@@ -0,0 +1,248 @@
+import type {
+  PublicSuffixListInfo,
+  PublicSuffixMatch,
+  PublicSuffixOptions,
+  PublicSuffixRules,
+  PublicSuffixSection,
+  StoredPublicSuffixListSnapshot
+} from '@/types/psl';
+import { PUBLIC_SUFFIX_LIST_SNAPSHOT } from '@/data/publicSuffixList';
+import { toUnicodeLabel } from './idnUtil';
+
+/**
+ * Public Suffix List utilities shared by the page and the Service Worker
+ *
+ * Parses the rules of https://publicsuffix.org/list/ (ICANN and private
+ * sections, wildcard and exception rules) and finds the public suffix of host
+ * names. The bundled snapshot is used until a newer one is applied.
+ */
+
+/**
+ * Public Suffix List configuration
+ */
+export const PSL_CONFIG = Object.freeze({
+  /**
+   * Copy of the list in the publicsuffix/list repository, served with
+   * Access-Control-Allow-Origin unlike publicsuffix.org, so pages can fetch it
+   */
+  LIST_URL: 'https://raw.githubusercontent.com/publicsuffix/list/main/public_suffix_list.dat',
+  /** Settings key of the snapshot stored in IndexedDB */
+  SETTING_KEY: 'publicSuffixList',
+  /** Minimum number of rules of a complete list, smaller ones are rejected */
+  MIN_RULES: 1000
+} as const);
+
+/**
+ * Comment opening a section of the list
+ */
+const SECTION_MARKER = /^\/\/ ===BEGIN (ICANN|PRIVATE) DOMAINS===/;
+
+/**
+ * Rules in use, parsed from the bundled snapshot on first use
+ */
+let activeRules: PublicSuffixRules | null = null;
+let activeInfo: PublicSuffixListInfo = {
+  version: PUBLIC_SUFFIX_LIST_SNAPSHOT.version,
+  source: 'bundled',
+  ruleCount: 0
+};
+
+/**
+ * Parses the Public Suffix List
+ * @param text - List in the publicsuffix.org format
+ * @returns Parsed rules
+ */
+export const parsePublicSuffixList = (text: string): PublicSuffixRules => {
+  const normal = new Map<string, PublicSuffixSection>();
+  const wildcard = new Map<string, PublicSuffixSection>();
+  const exception = new Map<string, PublicSuffixSection>();
+  let section: PublicSuffixSection = 'icann';
+  let size = 0;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('//')) {
+      const marker = SECTION_MARKER.exec(line);
+      if (marker) {
+        section = marker[1] === 'PRIVATE' ? 'private' : 'icann';
+      }
+      continue;
+    }
+
+    // A rule ends at the first whitespace
+    const rule = (line.split(/\s/)[0] ?? '').toLowerCase();
+    if (rule.startsWith('!')) {
+      exception.set(rule.slice(1), section);
+    } else if (rule.startsWith('*.')) {
+      wildcard.set(rule.slice(2), section);
+    } else {
+      normal.set(rule, section);
+    }
+    size++;
+  }
+
+  return { normal, wildcard, exception, size };
+};
+
+/**
+ * Reads the VERSION header of a list
+ * @param text - List in the publicsuffix.org format
+ * @returns Version, or undefined for lists without header
+ */
+export const extractPublicSuffixListVersion = (text: string): string | undefined => {
+  return /^\/\/ VERSION: (\S+)/m.exec(text)?.[1];
+};
+
+/**
+ * Gets the rules in use
+ * @returns Rules of the applied snapshot, or of the bundled one
+ */
+export const getPublicSuffixRules = (): PublicSuffixRules => {
+  if (!activeRules) {
+    activeRules = parsePublicSuffixList(PUBLIC_SUFFIX_LIST_SNAPSHOT.text);
+    activeInfo = { ...activeInfo, ruleCount: activeRules.size };
+  }
+  return activeRules;
+};
+
+/**
+ * Describes the list in use
+ * @returns Version, source and size of the list
+ */
+export const getPublicSuffixListInfo = (): PublicSuffixListInfo => {
+  getPublicSuffixRules();
+  return activeInfo;
+};
+
+/**
+ * Uses a stored snapshot when it is newer than the bundled one
+ * @param snapshot - Snapshot loaded from IndexedDB
+ * @returns True when the snapshot is now in use
+ */
+export const applyPublicSuffixSnapshot = (snapshot: StoredPublicSuffixListSnapshot | undefined): boolean => {
+  if (!snapshot?.text || snapshot.version <= PUBLIC_SUFFIX_LIST_SNAPSHOT.version) {
+    return false;
+  }
+
+  const rules = parsePublicSuffixList(snapshot.text);
+  if (rules.size < PSL_CONFIG.MIN_RULES) {
+    return false;
+  }
+
+  activeRules = rules;
+  activeInfo = {
+    version: snapshot.version,
+    source: 'stored',
+    ruleCount: rules.size,
+    updatedAt: snapshot.updatedAt
+  };
+  return true;
+};
+
+/**
+ * Finds the public suffix of a host name
+ *
+ * Follows the publicsuffix.org algorithm: an exception rule prevails,
+ * otherwise the rule matching the most labels wins, and the last label is
+ * the suffix when no rule matches.
+ *
+ * @param hostName - Host name, e.g. "www.example.co.uk", with Unicode or xn-- labels
+ * @param rules - Rules to apply (default: the rules in use)
+ * @param options - Lookup options
+ * @returns Suffix and registrable domain, or null for an empty name or label
+ */
+export const findPublicSuffix = (
+  hostName: string,
+  rules: PublicSuffixRules = getPublicSuffixRules(),
+  options: PublicSuffixOptions = {}
+): PublicSuffixMatch | null => {
+  const labels = hostName.trim().toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.some(label => !label)) {
+    return null;
+  }
+
+  const includePrivate = options.includePrivate ?? true;
+  const applies = (section: PublicSuffixSection | undefined): section is PublicSuffixSection =>
+    section !== undefined && (includePrivate || section === 'icann');
+  // Rules of internationalized suffixes are written with U-labels
+  const unicodeLabels = labels.map(toUnicodeLabel);
+  const candidates = unicodeLabels.map((_, index) => unicodeLabels.slice(index).join('.'));
+
+  // Index of the first label of the suffix, and the section of the rule
+  let suffixStart = labels.length - 1;
+  let section: PublicSuffixSection | null = null;
+
+  const exceptionIndex = candidates.findIndex(candidate => applies(rules.exception.get(candidate)));
+  if (exceptionIndex >= 0) {
+    // The suffix of an exception rule is the rule without its leftmost label
+    suffixStart = exceptionIndex + 1;
+    section = rules.exception.get(candidates[exceptionIndex] ?? '') ?? null;
+  } else {
+    // Candidates go from the longest to the shortest, so the first match wins
+    for (let index = 0; index < candidates.length; index++) {
+      const candidate = candidates[index] ?? '';
+      const wildcardSection = rules.wildcard.get(candidate);
+      if (index > 0 && applies(wildcardSection)) {
+        suffixStart = index - 1;
+        section = wildcardSection;
+        break;
+      }
+
+      const normalSection = rules.normal.get(candidate);
+      if (applies(normalSection)) {
+        suffixStart = index;
+        section = normalSection;
+        break;
+      }
+    }
+  }
+
+  const publicSuffix = labels.slice(suffixStart).join('.');
+  const label = labels[suffixStart - 1];
+  if (!label) {
+    return { publicSuffix, subdomains: [], section };
+  }
+
+  return {
+    publicSuffix,
+    label,
+    registrableDomain: `${label}.${publicSuffix}`,
+    subdomains: labels.slice(0, suffixStart - 1),
+    section
+  };
+};
+
+/**
+ * Finds the suffix a domain is registered under
+ *
+ * Only ICANN rules apply: domains are registered with registries, and names
+ * under private suffixes such as github.io are registrable domains themselves.
+ *
+ * @param domainName - Domain name, e.g. "www.example.co.uk"
+ * @returns Registry suffix and registrable domain, or null for an empty name or label
+ */
+export const findRegistrySuffix = (domainName: string): PublicSuffixMatch | null => {
+  return findPublicSuffix(domainName, getPublicSuffixRules(), { includePrivate: false });
+};
+
+/**
+ * Adds the second-level registry suffixes, e.g. "com.br", to a TLD list
+ * @param tlds - Known TLDs
+ * @returns TLDs, each followed by its second-level suffixes in alphabetical order
+ */
+export const withSecondLevelSuffixes = (tlds: readonly string[]): string[] => {
+  const suffixesByTld = new Map<string, string[]>();
+
+  getPublicSuffixRules().normal.forEach((section, rule) => {
+    const [label, tld, ...rest] = rule.split('.');
+    if (section === 'icann' && label && tld && rest.length === 0) {
+      const suffixes = suffixesByTld.get(tld) ?? [];
+      suffixes.push(rule);
+      suffixesByTld.set(tld, suffixes);
+    }
+  });
+
+  return tlds.flatMap(tld => [tld, ...(suffixesByTld.get(toUnicodeLabel(tld.toLowerCase())) ?? []).sort()]);
+};
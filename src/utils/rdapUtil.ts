@@ -201,3 +201,38 @@ export const createHybridDomainCheck = (
     source: 'hybrid'
   };
 };
+
+/**
+ * Parses an HTTP Retry-After header
+ * @param value - Header value, either delay seconds or an HTTP date
+ * @param now - Reference time in milliseconds (default: now)
+ * @returns Delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value?.trim()) return undefined;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Computes a jittered exponential backoff delay
+ * @param attempt - Retry attempt, starting at 0
+ * @param baseDelay - Delay of the first retry in milliseconds
+ * @param maxDelay - Upper bound of the delay in milliseconds
+ * @param random - Random source returning a number in [0, 1)
+ * @returns Delay between half and all of the capped exponential delay
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+  random: () => number = Math.random
+): number => {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(delay / 2 + random() * delay / 2);
+};
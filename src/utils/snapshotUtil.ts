@@ -0,0 +1,172 @@
+import type { RdapResponse } from '@/types/rdap';
+import type { DomainDnsInfo } from '@/types/dns';
+import type { DomainChange, DomainSnapshot, DomainTimelineEntry } from '@/types/monitoring';
+import { DomainAvailabilityStatus } from '@/types';
+import { extractExpirationDate, extractRegistrar } from './rdapUtil';
+
+/**
+ * Watch-list snapshot utilities: building snapshots and diffing them
+ */
+
+/**
+ * Human readable availability labels used in change descriptions
+ */
+const AVAILABILITY_LABELS: Readonly<Record<DomainAvailabilityStatus, string>> = Object.freeze({
+  [DomainAvailabilityStatus.AVAILABLE]: 'available',
+  [DomainAvailabilityStatus.NOTAVAILABLE]: 'registered',
+  [DomainAvailabilityStatus.UNKNOWN]: 'unknown'
+});
+
+/**
+ * Normalizes a list of values for comparison (lowercase, unique, sorted)
+ * @param values - Raw values
+ * @returns Normalized values
+ */
+const normalizeList = (values: readonly (string | undefined)[]): string[] => {
+  return [...new Set(values.filter((value): value is string => Boolean(value)).map(value => value.toLowerCase()))]
+    .sort();
+};
+
+/**
+ * Builds a snapshot from the RDAP and DNS results of a check
+ * @param domain - Domain name
+ * @param rdapResponse - RDAP response, or undefined if RDAP failed
+ * @param dnsInfo - DNS analysis of the domain
+ * @param checkedAt - Check date (default: now)
+ * @returns Domain snapshot
+ */
+export const createDomainSnapshot = (
+  domain: string,
+  rdapResponse: RdapResponse | undefined,
+  dnsInfo: DomainDnsInfo | undefined,
+  checkedAt: Date = new Date()
+): DomainSnapshot => {
+  // An RDAP record means the domain is registered, whatever DNS says
+  const availability = rdapResponse
+    ? DomainAvailabilityStatus.NOTAVAILABLE
+    : dnsInfo?.status ?? DomainAvailabilityStatus.UNKNOWN;
+
+  return {
+    domain,
+    checkedAt: checkedAt.toISOString(),
+    availability,
+    registrar: rdapResponse ? extractRegistrar(rdapResponse) : undefined,
+    expirationDate: rdapResponse ? extractExpirationDate(rdapResponse)?.toISOString() : undefined,
+    statuses: normalizeList(rdapResponse?.status ?? []),
+    nameservers: normalizeList(rdapResponse?.nameservers?.map(nameserver => nameserver.ldhName) ?? []),
+    dnsStatus: dnsInfo?.dnsStatus,
+    hasRdap: Boolean(rdapResponse)
+  };
+};
+
+/**
+ * Compares two lists and returns the added and removed values
+ * @param previous - Previous values
+ * @param current - Current values
+ * @returns Added and removed values
+ */
+const diffLists = (
+  previous: readonly string[],
+  current: readonly string[]
+): { added: string[]; removed: string[] } => {
+  return {
+    added: current.filter(value => !previous.includes(value)),
+    removed: previous.filter(value => !current.includes(value))
+  };
+};
+
+/**
+ * Computes the changes between two snapshots of the same domain
+ *
+ * RDAP fields are only compared when both snapshots have RDAP data, so that a
+ * temporary RDAP outage is not reported as a registrar or nameserver change.
+ *
+ * @param previous - Older snapshot
+ * @param current - Newer snapshot
+ * @returns Detected changes (empty when nothing changed)
+ */
+export const diffDomainSnapshots = (previous: DomainSnapshot, current: DomainSnapshot): DomainChange[] => {
+  const changes: DomainChange[] = [];
+
+  if (
+    previous.availability !== current.availability &&
+    previous.availability !== DomainAvailabilityStatus.UNKNOWN &&
+    current.availability !== DomainAvailabilityStatus.UNKNOWN
+  ) {
+    changes.push({
+      type: 'availability',
+      previous: AVAILABILITY_LABELS[previous.availability],
+      current: AVAILABILITY_LABELS[current.availability]
+    });
+  }
+
+  if (!previous.hasRdap || !current.hasRdap) {
+    return changes;
+  }
+
+  if (previous.registrar !== current.registrar) {
+    changes.push({ type: 'registrar', previous: previous.registrar, current: current.registrar });
+  }
+
+  if (previous.expirationDate !== current.expirationDate) {
+    changes.push({ type: 'expiration', previous: previous.expirationDate, current: current.expirationDate });
+  }
+
+  const statusDiff = diffLists(previous.statuses, current.statuses);
+  if (statusDiff.added.length > 0 || statusDiff.removed.length > 0) {
+    changes.push({ type: 'status', ...statusDiff });
+  }
+
+  const nameserverDiff = diffLists(previous.nameservers, current.nameservers);
+  if (nameserverDiff.added.length > 0 || nameserverDiff.removed.length > 0) {
+    changes.push({ type: 'nameservers', ...nameserverDiff });
+  }
+
+  return changes;
+};
+
+/**
+ * Builds a timeline from a snapshot history
+ * @param snapshots - Snapshots of a single domain, in any order
+ * @returns Timeline entries, newest first
+ */
+export const buildDomainTimeline = (snapshots: readonly DomainSnapshot[]): DomainTimelineEntry[] => {
+  const ordered = [...snapshots].sort((a, b) => a.checkedAt.localeCompare(b.checkedAt));
+
+  return ordered
+    .map((snapshot, index) => {
+      const previous = ordered[index - 1];
+      return { snapshot, changes: previous ? diffDomainSnapshots(previous, snapshot) : [] };
+    })
+    .reverse();
+};
+
+/**
+ * Describes a change in a short sentence for display
+ * @param change - Change to describe
+ * @returns Human readable description
+ */
+export const describeDomainChange = (change: DomainChange): string => {
+  const formatValue = (value?: string) => value ?? 'none';
+  const formatList = (values?: readonly string[]) => values && values.length > 0 ? values.join(', ') : '';
+
+  switch (change.type) {
+    case 'availability':
+      return `Became ${formatValue(change.current)} (was ${formatValue(change.previous)})`;
+    case 'registrar':
+      return `Registrar changed from ${formatValue(change.previous)} to ${formatValue(change.current)}`;
+    case 'expiration': {
+      const formatDate = (value?: string) => value ? new Date(value).toLocaleDateString() : 'none';
+      return `Expiration moved from ${formatDate(change.previous)} to ${formatDate(change.current)}`;
+    }
+    case 'status':
+    case 'nameservers': {
+      const label = change.type === 'status' ? 'Status' : 'Nameservers';
+      const parts = [
+        formatList(change.added) && `+ ${formatList(change.added)}`,
+        formatList(change.removed) && `− ${formatList(change.removed)}`
+      ].filter(Boolean);
+      return `${label}: ${parts.join(' ')}`;
+    }
+  }
+};
@@ -0,0 +1,267 @@
+import type { DomainSuggestion, SuggestionOptions, SuggestionSource, SuggestionWordLists } from '@/types/suggestion';
+import { isLabelValid, parseDomain } from './domainUtil';
+import { toUnicodeDomain, toUnicodeLabel } from './idnUtil';
+
+/**
+ * Domain name suggestion utilities
+ *
+ * Builds alternative names from the searched one with the user's prefix,
+ * suffix and synonym lists, then ranks them by length, pronounceability and
+ * TLD preference.
+ */
+
+/**
+ * Suggestion engine configuration
+ */
+export const SUGGESTION_CONFIG = Object.freeze({
+  /** Settings key of the word lists stored in IndexedDB */
+  SETTING_KEY: 'suggestionWordLists',
+  /** Word lists used until the user saves their own */
+  DEFAULT_WORD_LISTS: Object.freeze({
+    prefixes: ['my', 'the', 'get', 'try', 'go'],
+    suffixes: ['app', 'hq', 'hub', 'site', 'web', 'online', 'digital'],
+    synonyms: {
+      shop: ['store', 'market'],
+      fast: ['quick', 'rapid'],
+      home: ['house']
+    }
+  }) as SuggestionWordLists,
+  /** TLDs suggested when none are given */
+  DEFAULT_TLDS: ['com', 'org', 'net', 'info', 'biz'] as readonly string[],
+  /** Number of suggestions returned when no limit is given */
+  DEFAULT_MAX_SUGGESTIONS: 10,
+  /** Labels up to this many characters get the full length score */
+  IDEAL_LENGTH: 8,
+  /** Labels this many characters over the ideal length score zero */
+  LENGTH_TOLERANCE: 12,
+  /** Share of vowels in easily pronounced words */
+  IDEAL_VOWEL_RATIO: 0.4,
+  /** Score lost for each TLD ranked before the suggested one */
+  TLD_RANK_PENALTY: 0.05
+} as const);
+
+/**
+ * Letters read as vowels
+ */
+const VOWELS = /[aeiouyàáâäãåèéêëìíîïòóôöõùúûüý]/;
+
+/**
+ * Rounds a score to two decimals, clamped between 0 and 1
+ * @param value - Raw score
+ * @returns Rounded score
+ */
+const roundScore = (value: number): number => Math.round(Math.min(Math.max(value, 0), 1) * 100) / 100;
+
+/**
+ * Scores the length of a label, shorter names being easier to remember and type
+ * @param label - Domain label
+ * @returns 1 up to the ideal length, decreasing to 0 beyond it
+ */
+export const scoreLabelLength = (label: string): number => {
+  const excess = Array.from(label).length - SUGGESTION_CONFIG.IDEAL_LENGTH;
+  return roundScore(1 - Math.max(excess, 0) / SUGGESTION_CONFIG.LENGTH_TOLERANCE);
+};
+
+/**
+ * Scores how easily a label reads aloud
+ *
+ * Balanced vowels and consonants score high; clusters of more than two
+ * consonants or vowels, and digits, lower the score.
+ *
+ * @param label - Domain label
+ * @returns Score between 0 and 1
+ */
+export const scorePronounceability = (label: string): number => {
+  const letters = Array.from(label.toLowerCase()).filter(character => /\p{L}/u.test(character));
+  if (letters.length === 0) {
+    return 0;
+  }
+
+  const vowelCount = letters.filter(letter => VOWELS.test(letter)).length;
+  const ratioScore = 1 - Math.min(Math.abs(vowelCount / letters.length - SUGGESTION_CONFIG.IDEAL_VOWEL_RATIO) / SUGGESTION_CONFIG.IDEAL_VOWEL_RATIO, 1);
+
+  // Hyphens and digits break words, so clusters are counted within each run of letters
+  const clusterExcess = label.toLowerCase().split(/[^\p{L}]+/u).reduce((total, word) => {
+    const runs = Array.from(word).reduce<{ isVowel: boolean; length: number }[]>((result, letter) => {
+      const isVowel = VOWELS.test(letter);
+      const last = result[result.length - 1];
+      if (last && last.isVowel === isVowel) {
+        last.length++;
+      } else {
+        result.push({ isVowel, length: 1 });
+      }
+      return result;
+    }, []);
+    return total + runs.reduce((sum, run) => sum + Math.max(run.length - 2, 0), 0);
+  }, 0);
+
+  const clusterScore = 1 - Math.min((clusterExcess * 2) / letters.length, 1);
+  const digitShare = Array.from(label).filter(character => /\d/.test(character)).length / Array.from(label).length;
+
+  return roundScore((ratioScore + clusterScore) / 2 - digitShare);
+};
+
+/**
+ * Splits a word list typed by the user
+ * @param text - Words separated by commas, spaces or new lines
+ * @returns Lowercase, valid and unique words in input order
+ */
+export const parseWordList = (text: string): string[] => {
+  const words = text.split(/[\s,;]+/).map(word => word.trim().toLowerCase()).filter(word => word && isLabelValid(word));
+  return [...new Set(words)];
+};
+
+/**
+ * Parses synonym groups typed by the user
+ * @param text - One group per line, e.g. "car: auto, vehicle"
+ * @returns Synonyms of each word
+ */
+export const parseSynonyms = (text: string): Record<string, string[]> => {
+  const synonyms: Record<string, string[]> = {};
+
+  text.split('\n').forEach(line => {
+    const [word, ...rest] = line.split(/[:=]/);
+    const key = parseWordList(word ?? '')[0];
+    const values = parseWordList(rest.join(' ')).filter(value => value !== key);
+    if (key && values.length > 0) {
+      synonyms[key] = [...new Set([...(synonyms[key] ?? []), ...values])];
+    }
+  });
+
+  return synonyms;
+};
+
+/**
+ * Formats synonym groups for editing
+ * @param synonyms - Synonyms of each word
+ * @returns One "word: synonym, synonym" line per group
+ */
+export const formatSynonyms = (synonyms: SuggestionWordLists['synonyms']): string => {
+  return Object.entries(synonyms).map(([word, values]) => `${word}: ${values.join(', ')}`).join('\n');
+};
+
+/**
+ * Checks stored word lists, falling back to the defaults for missing or malformed parts
+ * @param value - Value read from the settings store
+ * @returns Usable word lists
+ */
+export const resolveWordLists = (value: unknown): SuggestionWordLists => {
+  const defaults = SUGGESTION_CONFIG.DEFAULT_WORD_LISTS;
+  if (!value || typeof value !== 'object') {
+    return defaults;
+  }
+
+  const stored = value as Partial<Record<keyof SuggestionWordLists, unknown>>;
+  const toWords = (words: unknown, fallback: readonly string[]): readonly string[] =>
+    Array.isArray(words) ? parseWordList(words.filter(word => typeof word === 'string').join(' ')) : fallback;
+  const synonyms = stored.synonyms && typeof stored.synonyms === 'object'
+    ? parseSynonyms(Object.entries(stored.synonyms as Record<string, unknown>)
+      .map(([word, values]) => `${word}: ${Array.isArray(values) ? values.join(', ') : ''}`)
+      .join('\n'))
+    : defaults.synonyms;
+
+  return {
+    prefixes: toWords(stored.prefixes, defaults.prefixes),
+    suffixes: toWords(stored.suffixes, defaults.suffixes),
+    synonyms
+  };
+};
+
+/**
+ * Builds the alternative labels of a searched label
+ * @param label - Searched label
+ * @param wordLists - Prefix, suffix and synonym lists
+ * @returns Candidate labels with the way they were built
+ */
+const buildCandidateLabels = (
+  label: string,
+  wordLists: SuggestionWordLists
+): { readonly label: string; readonly source: SuggestionSource; readonly isHyphenated: boolean }[] => {
+  const candidates: { label: string; source: SuggestionSource; isHyphenated: boolean }[] = [];
+
+  wordLists.prefixes.forEach(prefix => {
+    candidates.push({ label: `${prefix}${label}`, source: 'prefix', isHyphenated: false });
+    candidates.push({ label: `${prefix}-${label}`, source: 'prefix', isHyphenated: true });
+  });
+
+  wordLists.suffixes.forEach(suffix => {
+    candidates.push({ label: `${label}${suffix}`, source: 'suffix', isHyphenated: false });
+    candidates.push({ label: `${label}-${suffix}`, source: 'suffix', isHyphenated: true });
+  });
+
+  // Synonym groups work both ways: "car: auto" also turns "auto" into "car"
+  Object.entries(wordLists.synonyms).forEach(([word, values]) => {
+    const group = [word, ...values];
+    group.filter(member => label.includes(member)).forEach(member => {
+      group.filter(other => other !== member).forEach(other => {
+        candidates.push({ label: label.replace(member, other), source: 'synonym', isHyphenated: label.includes('-') });
+      });
+    });
+  });
+
+  return candidates;
+};
+
+/**
+ * Generates ranked domain name suggestions for a search
+ *
+ * Each alternative label is offered on every TLD. The score combines the
+ * length and pronounceability of the label, a small bonus for compounds over
+ * hyphenated names, and a penalty for less preferred TLDs, so that the best
+ * names on the first TLDs come before the same names on the others.
+ *
+ * @param query - Searched label or domain, e.g. "coffee" or "coffee.com"
+ * @param options - Word lists, TLDs and number of suggestions
+ * @returns Suggestions, best first; empty for an invalid query
+ *
+ * @example
+ * ```typescript
+ * generateDomainSuggestions('coffee', { tlds: ['com', 'io'], maxSuggestions: 3 });
+ * // [{ domain: 'coffeehq.com', ... }, { domain: 'gocoffee.com', ... }, ...]
+ * ```
+ */
+export const generateDomainSuggestions = (
+  query: string,
+  options: SuggestionOptions = {}
+): DomainSuggestion[] => {
+  const trimmed = query.trim();
+  const parsed = trimmed.includes('.') ? parseDomain(trimmed) : null;
+  const label = parsed ? toUnicodeLabel(parsed.label) : (isLabelValid(trimmed) ? toUnicodeDomain(trimmed) : null);
+  if (!label) {
+    return [];
+  }
+
+  const wordLists = options.wordLists ?? SUGGESTION_CONFIG.DEFAULT_WORD_LISTS;
+  const tlds = [...new Set((options.tlds ?? SUGGESTION_CONFIG.DEFAULT_TLDS).map(tld => tld.trim().toLowerCase().replace(/^\./, '')))]
+    .filter(Boolean);
+  const maxSuggestions = options.maxSuggestions ?? SUGGESTION_CONFIG.DEFAULT_MAX_SUGGESTIONS;
+
+  const seenLabels = new Set<string>([label]);
+  const suggestions: DomainSuggestion[] = [];
+
+  buildCandidateLabels(label, wordLists).forEach(candidate => {
+    if (seenLabels.has(candidate.label) || !isLabelValid(candidate.label)) return;
+    seenLabels.add(candidate.label);
+
+    const lengthScore = scoreLabelLength(candidate.label);
+    const pronounceabilityScore = scorePronounceability(candidate.label);
+    const labelScore = lengthScore * 0.45 + pronounceabilityScore * 0.45 + (candidate.isHyphenated ? 0 : 0.1);
+
+    tlds.forEach((tld, tldIndex) => {
+      suggestions.push({
+        domain: `${candidate.label}.${tld}`,
+        label: candidate.label,
+        tld,
+        source: candidate.source,
+        isHyphenated: candidate.isHyphenated,
+        score: roundScore(labelScore - tldIndex * SUGGESTION_CONFIG.TLD_RANK_PENALTY),
+        lengthScore,
+        pronounceabilityScore
+      });
+    });
+  });
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.domain.localeCompare(b.domain))
+    .slice(0, maxSuggestions);
+};
@@ -0,0 +1,221 @@
+import type { TldRecord } from '@/services/dbService';
+import type { RdapService } from '@/types/rdap';
+import type { TldCatalogEntry, TldFilter, TldInfo, TldSortKey, TldType } from '@/types/tld';
+import { TLD_CATALOG_SNAPSHOT } from '@/data/tldCatalog';
+import { toAsciiDomain, toUnicodeDomain } from './idnUtil';
+
+/**
+ * TLD catalog utilities shared by the page and the Service Worker
+ *
+ * Reads the bundled root zone snapshot (type, sponsor, country and delegation
+ * date of each TLD) and merges it with the RDAP servers of the IANA bootstrap.
+ */
+
+/**
+ * Catalog parsed from the bundled snapshot on first use
+ */
+let catalog: ReadonlyMap<string, TldCatalogEntry> | null = null;
+
+/**
+ * Names of countries, created on first use
+ */
+let countryNames: Intl.DisplayNames | null = null;
+
+/**
+ * Parses a root zone snapshot
+ * @param text - One TLD per line: A-label, type, country, delegation date, sponsor, tab-separated
+ * @returns Entries by A-label
+ */
+export const parseTldCatalog = (text: string): Map<string, TldCatalogEntry> => {
+  const entries = new Map<string, TldCatalogEntry>();
+
+  for (const line of text.split('\n')) {
+    const [tld, type, country, delegationDate, sponsor] = line.split('\t');
+    if (!tld || (type !== 'gTLD' && type !== 'ccTLD' && type !== 'sTLD')) continue;
+
+    entries.set(tld, {
+      tld,
+      type,
+      isIdn: tld.startsWith('xn--'),
+      ...(country && { country }),
+      ...(delegationDate && { delegationDate }),
+      ...(sponsor && { sponsor })
+    });
+  }
+
+  return entries;
+};
+
+/**
+ * Gets the bundled catalog
+ * @returns Entries by A-label
+ */
+export const getTldCatalog = (): ReadonlyMap<string, TldCatalogEntry> => {
+  if (!catalog) {
+    catalog = parseTldCatalog(TLD_CATALOG_SNAPSHOT.text);
+  }
+  return catalog;
+};
+
+/**
+ * Gets the date of the bundled catalog
+ * @returns Snapshot version, e.g. "2023-02-09"
+ */
+export const getTldCatalogVersion = (): string => TLD_CATALOG_SNAPSHOT.version;
+
+/**
+ * Tells whether every TLD of a catalog has a delegation date
+ *
+ * The interim snapshot taken from the Public Suffix List only dates the legacy
+ * gTLDs, so sorting by delegation date is offered once the catalog is complete.
+ *
+ * @param entries - Catalog entries (default: bundled catalog)
+ * @returns True when no entry lacks a delegation date
+ */
+export const hasTldDelegationDates = (entries: ReadonlyMap<string, TldCatalogEntry> = getTldCatalog()): boolean =>
+  entries.size > 0 && [...entries.values()].every(entry => entry.delegationDate !== undefined);
+
+/**
+ * Finds the root zone data of a TLD
+ * @param tld - TLD with or without leading dot, in Unicode or A-label form
+ * @returns Catalog entry, or undefined for unknown TLDs
+ */
+export const findTldCatalogEntry = (tld: string): TldCatalogEntry | undefined => {
+  const normalized = tld.trim().toLowerCase().replace(/^\./, '');
+  return getTldCatalog().get(/^[\x00-\x7f]*$/.test(normalized) ? normalized : toAsciiDomain(normalized));
+};
+
+/**
+ * Gets the English name of a country or territory
+ * @param code - ISO 3166-1 code, e.g. "GB"
+ * @returns Country name, or undefined when the runtime does not know the code
+ */
+export const getCountryName = (code: string): string | undefined => {
+  try {
+    countryNames ??= new Intl.DisplayNames(['en'], { type: 'region' });
+    const name = countryNames.of(code);
+    return name && name !== code ? name : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Describes a TLD in the shape of TldRecord.metadata, for bookmarks
+ * @param tld - TLD with or without leading dot, in Unicode or A-label form
+ * @returns Type, country and sponsor, or undefined for unknown TLDs
+ */
+export const getTldRecordMetadata = (tld: string): TldRecord['metadata'] => {
+  const entry = findTldCatalogEntry(tld);
+  if (!entry) {
+    return undefined;
+  }
+
+  const country = entry.country ? getCountryName(entry.country) ?? entry.country : undefined;
+  return {
+    type: entry.type,
+    ...(country && { country }),
+    ...(entry.sponsor && { description: entry.sponsor })
+  };
+};
+
+/**
+ * Guesses the type of a TLD missing from the catalog
+ * @param tld - TLD in its A-label form
+ * @returns ccTLD for two-letter TLDs, gTLD otherwise
+ */
+const guessTldType = (tld: string): TldType => /^[a-z]{2}$/.test(tld) ? 'ccTLD' : 'gTLD';
+
+/**
+ * Merges the catalog with the RDAP bootstrap
+ *
+ * Every delegated TLD is listed, with or without RDAP server. TLDs of the
+ * bootstrap missing from the catalog, delegated after the snapshot, are added
+ * with a guessed type.
+ *
+ * @param services - RDAP services of the IANA bootstrap
+ * @param entries - Catalog entries (default: the bundled catalog)
+ * @returns TLDs in alphabetical order of their A-label
+ */
+export const mergeTldCatalog = (
+  services: readonly RdapService[],
+  entries: ReadonlyMap<string, TldCatalogEntry> = getTldCatalog()
+): TldInfo[] => {
+  const rdapServers = new Map<string, string[]>();
+  services.forEach(([tlds, urls]) => {
+    tlds.forEach(tld => {
+      const key = tld.toLowerCase().replace(/^\./, '');
+      rdapServers.set(key, [...(rdapServers.get(key) ?? []), ...urls]);
+    });
+  });
+
+  const tlds = new Set([...entries.keys(), ...rdapServers.keys()]);
+
+  return [...tlds].sort((a, b) => a.localeCompare(b)).map((tld): TldInfo => {
+    const entry = entries.get(tld) ?? { tld, type: guessTldType(tld), isIdn: tld.startsWith('xn--') };
+    const countryName = entry.country ? getCountryName(entry.country) : undefined;
+
+    return {
+      ...entry,
+      unicode: entry.isIdn ? toUnicodeDomain(tld) : tld,
+      ...(countryName && { countryName }),
+      rdapServers: rdapServers.get(tld) ?? [],
+      isInCatalog: entries.has(tld)
+    };
+  });
+};
+
+/**
+ * Filters the extension list
+ * @param tlds - TLDs to filter
+ * @param filter - Text, type, country and RDAP filters
+ * @returns Matching TLDs, in input order
+ */
+export const filterTlds = (tlds: readonly TldInfo[], filter: TldFilter): TldInfo[] => {
+  const query = filter.query.trim().toLowerCase().replace(/^\.+/, '');
+
+  return tlds.filter(tld => {
+    if (filter.type !== 'all' && tld.type !== filter.type) return false;
+    if (filter.country !== 'all' && tld.country !== filter.country) return false;
+    if (filter.rdap === 'with' && tld.rdapServers.length === 0) return false;
+    if (filter.rdap === 'without' && tld.rdapServers.length > 0) return false;
+    if (!query) return true;
+
+    return [tld.tld, tld.unicode, tld.countryName, tld.sponsor]
+      .some(value => value?.toLowerCase().includes(query));
+  });
+};
+
+/**
+ * Sorts the extension list; TLDs missing the sorted field come last
+ * @param tlds - TLDs to sort
+ * @param key - Field to sort by
+ * @param direction - Sort direction
+ * @returns Sorted copy, ties broken by TLD
+ */
+export const sortTlds = (
+  tlds: readonly TldInfo[],
+  key: TldSortKey,
+  direction: 'asc' | 'desc' = 'asc'
+): TldInfo[] => {
+  const getValue = (tld: TldInfo): string | undefined => {
+    switch (key) {
+      case 'type': return tld.type;
+      case 'country': return tld.countryName ?? tld.country;
+      case 'delegationDate': return tld.delegationDate;
+      default: return tld.unicode;
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...tlds].sort((a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+    if (valueA === undefined || valueB === undefined) {
+      if (valueA !== valueB) return valueA === undefined ? 1 : -1;
+    } else if (valueA !== valueB) {
+      return valueA.localeCompare(valueB) * sign;
+    }
+    return a.tld.localeCompare(b.tld);
+  });
+};
@@ -0,0 +1,237 @@
+import type { TyposquatGenerationResult, TyposquatOptions, TyposquatTechnique, TyposquatVariant } from '@/types/typosquat';
+import { isDomainValid, parseDomain } from './domainUtil';
+import { LATIN_HOMOGLYPHS, toAsciiDomain, toUnicodeDomain, toUnicodeLabel } from './idnUtil';
+
+/**
+ * Look-alike domain utilities
+ *
+ * Permutation engine used to defend a brand: it derives the typing mistakes,
+ * bit errors, homographs and TLD or word variations an attacker would register
+ * to imitate a domain.
+ */
+
+/**
+ * Look-alike generation configuration
+ */
+export const TYPOSQUAT_CONFIG = Object.freeze({
+  /** Techniques applied when none are given, cheapest to read first */
+  TECHNIQUES: [
+    'omission',
+    'repetition',
+    'transposition',
+    'keyboard',
+    'bitflip',
+    'homoglyph',
+    'hyphenation',
+    'tld-swap',
+    'added-word'
+  ] as readonly TyposquatTechnique[],
+  /** TLDs used by TLD swaps when none are given */
+  TLDS: ['com', 'net', 'org', 'info', 'biz', 'co', 'io', 'app', 'online', 'site', 'shop', 'xyz'] as readonly string[],
+  /** Words phishing domains commonly add to a brand */
+  WORDS: ['login', 'secure', 'account', 'support', 'verify', 'online', 'shop', 'app', 'my', 'official'] as readonly string[],
+  /** Upper bound on variants, matching the bulk check limit */
+  MAX_VARIANTS: 1000
+} as const);
+
+/**
+ * Human-readable names of the techniques
+ */
+export const TYPOSQUAT_TECHNIQUE_LABELS: Readonly<Record<TyposquatTechnique, string>> = Object.freeze({
+  'omission': 'Character omission',
+  'repetition': 'Character repetition',
+  'transposition': 'Swapped characters',
+  'keyboard': 'Keyboard typo',
+  'bitflip': 'Bit flip',
+  'homoglyph': 'Homoglyph',
+  'hyphenation': 'Hyphenation',
+  'tld-swap': 'TLD swap',
+  'added-word': 'Added word'
+});
+
+/**
+ * Rows of a QWERTY keyboard, each shifted half a key right of the row above
+ */
+const KEYBOARD_ROWS: readonly string[] = ['1234567890-', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+/**
+ * ASCII sequences that read like other ASCII sequences
+ */
+const ASCII_HOMOGLYPHS: Readonly<Record<string, readonly string[]>> = Object.freeze({
+  'o': ['0'],
+  '0': ['o'],
+  'l': ['1', 'i'],
+  'i': ['1', 'l'],
+  '1': ['l', 'i'],
+  'm': ['rn', 'nn'],
+  'rn': ['m'],
+  'w': ['vv'],
+  'vv': ['w'],
+  'd': ['cl'],
+  'cl': ['d'],
+  'g': ['q'],
+  'q': ['g']
+});
+
+/**
+ * Latin letters with the letters of other scripts imitating them
+ */
+const UNICODE_HOMOGLYPHS: ReadonlyMap<string, readonly string[]> = Object.entries(LATIN_HOMOGLYPHS)
+  .reduce((map, [lookalike, letter]) => map.set(letter, [...(map.get(letter) ?? []), lookalike]), new Map<string, string[]>());
+
+/**
+ * Gets the keys next to a key of a QWERTY keyboard
+ * @param character - Lowercase letter, digit or hyphen
+ * @returns Neighbouring keys, empty for other characters
+ */
+const getAdjacentKeys = (character: string): string[] => {
+  const row = KEYBOARD_ROWS.findIndex(keys => keys.includes(character));
+  if (row === -1) {
+    return [];
+  }
+
+  const column = KEYBOARD_ROWS[row]!.indexOf(character);
+  const neighbours = [
+    KEYBOARD_ROWS[row]![column - 1],
+    KEYBOARD_ROWS[row]![column + 1],
+    KEYBOARD_ROWS[row - 1]?.[column],
+    KEYBOARD_ROWS[row - 1]?.[column + 1],
+    KEYBOARD_ROWS[row + 1]?.[column - 1],
+    KEYBOARD_ROWS[row + 1]?.[column]
+  ];
+
+  return neighbours.filter((key): key is string => key !== undefined);
+};
+
+/**
+ * Replaces each character of a label in turn
+ * @param characters - Characters of the label
+ * @param replace - Replacements of a character
+ * @returns Labels with one character replaced
+ */
+const replaceEachCharacter = (characters: readonly string[], replace: (character: string) => readonly string[]): string[] => {
+  return characters.flatMap((character, index) =>
+    replace(character).map(replacement =>
+      [...characters.slice(0, index), replacement, ...characters.slice(index + 1)].join('')
+    )
+  );
+};
+
+/**
+ * Builds the label permutations of one technique
+ * @param label - Brand label, with Unicode letters
+ * @param technique - Label technique
+ * @param words - Words added by the added-word technique
+ * @returns Permuted labels, possibly invalid or duplicated
+ */
+const permuteLabel = (label: string, technique: TyposquatTechnique, words: readonly string[]): string[] => {
+  const characters = Array.from(label);
+
+  switch (technique) {
+    case 'omission':
+      return characters.map((_, index) => [...characters.slice(0, index), ...characters.slice(index + 1)].join(''));
+    case 'repetition':
+      return replaceEachCharacter(characters, character => [character + character]);
+    case 'transposition':
+      return characters.slice(0, -1).flatMap((character, index) => {
+        const next = characters[index + 1]!;
+        if (character === next) return [];
+        return [[...characters.slice(0, index), next, character, ...characters.slice(index + 2)].join('')];
+      });
+    case 'keyboard':
+      return replaceEachCharacter(characters, getAdjacentKeys);
+    case 'bitflip':
+      // Single-bit memory errors, kept when they still form a host name character
+      return replaceEachCharacter(characters, character => {
+        const code = character.charCodeAt(0);
+        if (character.length !== 1 || code > 0x7f) return [];
+        return Array.from({ length: 7 }, (_, bit) => String.fromCharCode(code ^ (1 << bit)))
+          .filter(flipped => /^[a-z0-9-]$/.test(flipped));
+      });
+    case 'homoglyph': {
+      const asciiVariants = Object.entries(ASCII_HOMOGLYPHS).flatMap(([sequence, replacements]) => {
+        const variants: string[] = [];
+        for (let index = label.indexOf(sequence); index !== -1; index = label.indexOf(sequence, index + 1)) {
+          replacements.forEach(replacement =>
+            variants.push(label.slice(0, index) + replacement + label.slice(index + sequence.length))
+          );
+        }
+        return variants;
+      });
+      return [...asciiVariants, ...replaceEachCharacter(characters, character => UNICODE_HOMOGLYPHS.get(character) ?? [])];
+    }
+    case 'hyphenation':
+      return characters.slice(1).map((_, index) =>
+        [...characters.slice(0, index + 1), '-', ...characters.slice(index + 1)].join('')
+      );
+    case 'added-word':
+      return words.flatMap(word => [`${word}${label}`, `${word}-${label}`, `${label}${word}`, `${label}-${word}`]);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Generates look-alike domains of a brand domain
+ *
+ * Subdomains of the brand domain are ignored: look-alikes are registrable
+ * domains. Variants that are invalid host names or equal to the brand domain
+ * are skipped, and each domain is listed once, under its first technique.
+ *
+ * @param brandDomain - Domain to protect, e.g. "paypal.com"
+ * @param options - Techniques, TLDs, words and size limit
+ * @returns Variants, or null when the brand domain is invalid
+ *
+ * @example
+ * ```typescript
+ * generateTyposquatVariants('example.com', { techniques: ['omission'] });
+ * // variants: xample.com, eample.com, exmple.com…
+ * ```
+ */
+export const generateTyposquatVariants = (
+  brandDomain: string,
+  options: TyposquatOptions = {}
+): TyposquatGenerationResult | null => {
+  const parsed = parseDomain(brandDomain);
+  if (!parsed) {
+    return null;
+  }
+
+  const label = toUnicodeLabel(parsed.label);
+  const suffix = parsed.tld;
+  const brand = toAsciiDomain(`${label}.${suffix}`);
+  const techniques = options.techniques ?? TYPOSQUAT_CONFIG.TECHNIQUES;
+  const tlds = options.tlds ?? TYPOSQUAT_CONFIG.TLDS;
+  const words = (options.words ?? TYPOSQUAT_CONFIG.WORDS).map(word => word.trim().toLowerCase()).filter(Boolean);
+  const maxVariants = options.maxVariants ?? TYPOSQUAT_CONFIG.MAX_VARIANTS;
+
+  const seen = new Set<string>([brand]);
+  const variants: TyposquatVariant[] = [];
+  let truncated = 0;
+
+  const addVariant = (candidate: string, technique: TyposquatTechnique): void => {
+    if (!isDomainValid(candidate)) return;
+
+    const domain = toAsciiDomain(candidate);
+    if (seen.has(domain)) return;
+    seen.add(domain);
+
+    if (variants.length >= maxVariants) {
+      truncated++;
+      return;
+    }
+
+    variants.push({ domain, displayName: toUnicodeDomain(domain), technique });
+  };
+
+  techniques.forEach(technique => {
+    if (technique === 'tld-swap') {
+      tlds.forEach(tld => addVariant(`${label}.${tld.trim().toLowerCase().replace(/^\./, '')}`, technique));
+      return;
+    }
+
+    permuteLabel(label, technique, words).forEach(permuted => addVariant(`${permuted}.${suffix}`, technique));
+  });
+
+  return { brandDomain: brand, variants, truncated };
+};